@@ -0,0 +1,177 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadAccountsConfig } from '../config/config.js';
+import { saveCredentials } from '../config/credentials.js';
+import { AccountService } from '../services/account-service.js';
+import { ConfigFactory } from './utils/config-factory.js';
+
+describe('Accounts', () => {
+  const originalEnv = process.env;
+  let dir: string;
+
+  beforeEach(() => {
+    process.env = Object.fromEntries(
+      Object.entries(originalEnv).filter(([name]) => !name.startsWith('NEXTCLOUD_')),
+    );
+    dir = mkdtempSync(join(tmpdir(), 'accounts-'));
+    process.env.NEXTCLOUD_CREDENTIALS_FILE = join(dir, 'credentials.json');
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('loadAccountsConfig', () => {
+    it('should name the account of the NEXTCLOUD_* variables "default"', () => {
+      process.env.NEXTCLOUD_BASE_URL = 'https://cloud.example.com/';
+      process.env.NEXTCLOUD_USERNAME = 'alice';
+      process.env.NEXTCLOUD_APP_TOKEN = 'secret';
+
+      const config = loadAccountsConfig();
+
+      expect(config.defaultAccount).toBe('default');
+      expect(config.accounts.default).toMatchObject({
+        baseUrl: 'https://cloud.example.com',
+        username: 'alice',
+        appToken: 'secret',
+      });
+    });
+
+    it('should read indexed variables', () => {
+      process.env.NEXTCLOUD_2_BASE_URL = 'https://family.example.com';
+      process.env.NEXTCLOUD_2_USERNAME = 'bob';
+      process.env.NEXTCLOUD_2_APP_TOKEN = 'token-2';
+      process.env.NEXTCLOUD_1_BASE_URL = 'https://work.example.com';
+      process.env.NEXTCLOUD_1_USERNAME = 'alice';
+      process.env.NEXTCLOUD_1_APP_TOKEN = 'token-1';
+      process.env.NEXTCLOUD_1_NAME = 'work';
+
+      const config = loadAccountsConfig();
+
+      expect(Object.keys(config.accounts)).toEqual(['work', 'account2']);
+      expect(config.defaultAccount).toBe('work');
+    });
+
+    it('should read JSON and YAML accounts files', () => {
+      const jsonFile = join(dir, 'accounts.json');
+      writeFileSync(
+        jsonFile,
+        JSON.stringify({
+          defaultAccount: 'family',
+          accounts: {
+            work: { baseUrl: 'https://work.example.com', username: 'alice', appToken: 't1' },
+            family: { baseUrl: 'https://family.example.com', username: 'bob', appToken: 't2' },
+          },
+        }),
+      );
+      const yamlFile = join(dir, 'accounts.yaml');
+      writeFileSync(
+        yamlFile,
+        [
+          'accounts:',
+          '  work:',
+          '    baseUrl: https://work.example.com',
+          '    username: alice',
+          '    appToken: t1',
+          '    defaultTimezone: America/New_York',
+        ].join('\n'),
+      );
+
+      process.env.NEXTCLOUD_ACCOUNTS_FILE = jsonFile;
+      const json = loadAccountsConfig();
+      process.env.NEXTCLOUD_ACCOUNTS_FILE = yamlFile;
+      const yaml = loadAccountsConfig();
+
+      expect(json.defaultAccount).toBe('family');
+      expect(Object.keys(json.accounts)).toEqual(['work', 'family']);
+      expect(yaml.defaultAccount).toBe('work');
+      expect(yaml.accounts.work.defaultTimezone).toBe('America/New_York');
+    });
+
+    it('should complete accounts with logins from the credential file', () => {
+      process.env.NEXTCLOUD_BASE_URL = 'https://cloud.example.com';
+      saveCredentials('default', {
+        baseUrl: 'https://cloud.example.com',
+        username: 'alice',
+        appToken: 'stored-token',
+      });
+      saveCredentials('family', {
+        baseUrl: 'https://family.example.com',
+        username: 'bob',
+        appToken: 'family-token',
+      });
+
+      const config = loadAccountsConfig();
+
+      expect(config.accounts.default).toMatchObject({
+        username: 'alice',
+        appToken: 'stored-token',
+      });
+      expect(config.accounts.family).toMatchObject({
+        baseUrl: 'https://family.example.com',
+        username: 'bob',
+      });
+    });
+
+    it('should reject incomplete and duplicate accounts', () => {
+      process.env.NEXTCLOUD_1_BASE_URL = 'https://work.example.com';
+      process.env.NEXTCLOUD_1_USERNAME = 'alice';
+      expect(() => loadAccountsConfig()).toThrow('Account "account1" is missing appToken');
+
+      process.env.NEXTCLOUD_1_APP_TOKEN = 'token-1';
+      process.env.NEXTCLOUD_2_BASE_URL = 'https://family.example.com';
+      process.env.NEXTCLOUD_2_USERNAME = 'bob';
+      process.env.NEXTCLOUD_2_APP_TOKEN = 'token-2';
+      process.env.NEXTCLOUD_2_NAME = 'account1';
+      expect(() => loadAccountsConfig()).toThrow('configured more than once');
+    });
+  });
+
+  describe('AccountService', () => {
+    const createService = () =>
+      new AccountService({
+        defaultAccount: 'work',
+        accounts: {
+          work: ConfigFactory.createNextcloudConfig({ username: 'alice' }),
+          family: ConfigFactory.createNextcloudConfig({ username: 'bob' }),
+        },
+      });
+
+    it('should list accounts without their tokens', () => {
+      const accounts = createService().listAccounts();
+
+      expect(accounts).toEqual([
+        {
+          name: 'work',
+          baseUrl: 'https://nextcloud.example.com',
+          username: 'alice',
+          isDefault: true,
+        },
+        {
+          name: 'family',
+          baseUrl: 'https://nextcloud.example.com',
+          username: 'bob',
+          isDefault: false,
+        },
+      ]);
+      expect(JSON.stringify(accounts)).not.toContain('test-token');
+    });
+
+    it('should create services per account on first use', () => {
+      const service = createService();
+
+      const work = service.getEventService('work');
+
+      expect(service.getEventService()).toBe(work);
+      expect(service.getEventService('family')).not.toBe(work);
+    });
+
+    it('should reject unknown accounts', () => {
+      expect(() => createService().getTaskService('school')).toThrow(
+        'Unknown account "school". Available accounts: work, family',
+      );
+    });
+  });
+});
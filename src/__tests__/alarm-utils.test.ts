@@ -0,0 +1,137 @@
+import {
+  createAlarmComponent,
+  formatAlarmDuration,
+  getTriggerTimes,
+  isSameReminder,
+  parseAlarmComponent,
+} from '../services/calendar/alarm-utils.js';
+import { formatProperty, parseDocument } from '../services/calendar/ical-document.js';
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+const parseAlarm = (lines: string[], eventStart?: Date) =>
+  parseAlarmComponent(
+    parseDocument(['BEGIN:VALARM', ...lines, 'END:VALARM'].join('\r\n')),
+    eventStart,
+  );
+
+describe('AlarmUtils', () => {
+  describe('formatAlarmDuration', () => {
+    it('should format signed durations', () => {
+      expect(formatAlarmDuration(-15)).toBe('-PT15M');
+      expect(formatAlarmDuration(90)).toBe('PT1H30M');
+      expect(formatAlarmDuration(-1440)).toBe('-P1D');
+      expect(formatAlarmDuration(0)).toBe('PT0S');
+    });
+  });
+
+  describe('parseAlarmComponent', () => {
+    it('should parse a relative display alarm', () => {
+      expect(parseAlarm(['ACTION:DISPLAY', 'TRIGGER:-PT10M', 'DESCRIPTION:Stand-up'])).toEqual({
+        type: 'notification',
+        minutesBefore: 10,
+        description: 'Stand-up',
+      });
+    });
+
+    it('should parse triggers relative to the end', () => {
+      expect(parseAlarm(['ACTION:DISPLAY', 'TRIGGER;RELATED=END:PT5M'])).toMatchObject({
+        minutesBefore: -5,
+        relativeTo: 'end',
+      });
+    });
+
+    it('should parse absolute triggers against the event start', () => {
+      const reminder = parseAlarm(
+        [
+          'ACTION:AUDIO',
+          'TRIGGER;VALUE=DATE-TIME:20250106T083000Z',
+          'ATTACH:ftp://example.com/bell.aud',
+        ],
+        utc('2025-01-06T09:00:00'),
+      );
+
+      expect(reminder).toEqual({
+        type: 'audio',
+        minutesBefore: 30,
+        triggerAt: utc('2025-01-06T08:30:00'),
+        attachment: 'ftp://example.com/bell.aud',
+      });
+    });
+
+    it('should parse email alarms with attendees and repetition', () => {
+      const reminder = parseAlarm([
+        'ACTION:EMAIL',
+        'TRIGGER:-P1D',
+        'SUMMARY:Tomorrow',
+        'DESCRIPTION:Bring slides',
+        'ATTENDEE:mailto:jane@example.com',
+        'REPEAT:2',
+        'DURATION:PT15M',
+      ]);
+
+      expect(reminder).toMatchObject({
+        type: 'email',
+        minutesBefore: 1440,
+        summary: 'Tomorrow',
+        attendees: ['jane@example.com'],
+        repeat: 2,
+        repeatIntervalMinutes: 15,
+      });
+    });
+
+    it('should skip unsupported actions', () => {
+      expect(parseAlarm(['ACTION:PROCEDURE', 'TRIGGER:-PT10M'])).toBeNull();
+    });
+  });
+
+  describe('createAlarmComponent', () => {
+    it('should round-trip reminders', () => {
+      const reminder = {
+        type: 'email' as const,
+        minutesBefore: 5,
+        relativeTo: 'end' as const,
+        summary: 'Wrap up',
+        attendees: ['jane@example.com'],
+        repeat: 1,
+        repeatIntervalMinutes: 5,
+      };
+
+      const alarm = createAlarmComponent(reminder);
+
+      expect(alarm.properties.map(formatProperty)).toContain('TRIGGER;RELATED=END:-PT5M');
+      expect(parseAlarmComponent(alarm)).toMatchObject(reminder);
+      expect(isSameReminder(parseAlarmComponent(alarm)!, reminder)).toBe(true);
+    });
+
+    it('should write absolute triggers in UTC', () => {
+      const alarm = createAlarmComponent({
+        type: 'notification',
+        minutesBefore: 0,
+        triggerAt: utc('2025-01-06T08:30:00'),
+      });
+
+      expect(alarm.properties.map(formatProperty)).toEqual([
+        'ACTION:DISPLAY',
+        'TRIGGER;VALUE=DATE-TIME:20250106T083000Z',
+        'DESCRIPTION:Reminder',
+      ]);
+    });
+  });
+
+  describe('getTriggerTimes', () => {
+    it('should include repetitions', () => {
+      const times = getTriggerTimes(
+        { type: 'notification', minutesBefore: 10, repeat: 2, repeatIntervalMinutes: 5 },
+        utc('2025-01-06T09:00:00'),
+        utc('2025-01-06T10:00:00'),
+      );
+
+      expect(times).toEqual([
+        utc('2025-01-06T08:50:00'),
+        utc('2025-01-06T08:55:00'),
+        utc('2025-01-06T09:00:00'),
+      ]);
+    });
+  });
+});
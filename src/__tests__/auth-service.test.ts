@@ -0,0 +1,126 @@
+import { Buffer } from 'buffer';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService, AuthenticationError } from '../services/auth-service.js';
+import { redactSecrets, sanitizeError } from '../utils/error.js';
+
+const basic = (username: string, appToken: string) =>
+  `Basic ${Buffer.from(`${username}:${appToken}`).toString('base64')}`;
+
+describe('AuthService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'vault-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createVault = () => {
+    const path = join(dir, 'vault.yaml');
+    writeFileSync(
+      path,
+      [
+        'tokens:',
+        '  client-token-alice:',
+        '    username: alice',
+        '    appToken: alice-app-token',
+        '  client-token-bob:',
+        '    username: bob',
+        '    appToken: bob-app-token',
+        '    account: family',
+      ].join('\n'),
+    );
+    return new AuthService('vault', path);
+  };
+
+  describe('passthrough', () => {
+    const auth = new AuthService('passthrough');
+
+    it('should take the Nextcloud login from Basic credentials', () => {
+      const credentials = auth.authenticate({ authorization: basic('alice', 'app-token-1') });
+
+      expect(credentials).toMatchObject({
+        user: 'alice',
+        username: 'alice',
+        appToken: 'app-token-1',
+      });
+      expect(credentials?.id).not.toContain('app-token-1');
+      expect(auth.authenticate({ authorization: basic('alice', 'app-token-2') })?.id).not.toBe(
+        credentials?.id,
+      );
+    });
+
+    it('should reject requests without Basic credentials', () => {
+      expect(() => auth.authenticate({})).toThrow(AuthenticationError);
+      expect(() => auth.authenticate({ authorization: 'Bearer abc' })).toThrow(
+        'Nextcloud credentials required',
+      );
+      expect(() =>
+        auth.authenticate({ authorization: `Basic ${Buffer.from('alice').toString('base64')}` }),
+      ).toThrow('Malformed Basic credentials');
+    });
+  });
+
+  describe('vault', () => {
+    it('should map bearer tokens to Nextcloud logins', () => {
+      const auth = createVault();
+
+      expect(auth.authenticate({ authorization: 'Bearer client-token-alice' })).toMatchObject({
+        user: 'alice',
+        username: 'alice',
+        appToken: 'alice-app-token',
+      });
+      expect(auth.authenticate({ authorization: 'Bearer client-token-bob' })).toMatchObject({
+        user: 'bob@family',
+        account: 'family',
+      });
+    });
+
+    it('should reject unknown tokens', () => {
+      const auth = createVault();
+
+      expect(() => auth.authenticate({ authorization: 'Bearer guessed' })).toThrow(
+        'Unknown bearer token',
+      );
+      expect(() => auth.authenticate({ authorization: basic('alice', 'x') })).toThrow(
+        'Bearer token required',
+      );
+    });
+
+    it('should require a valid vault file', () => {
+      const path = join(dir, 'vault.json');
+      writeFileSync(path, JSON.stringify({ tokens: { abc: { username: 'alice' } } }));
+
+      expect(() => new AuthService('vault')).toThrow('token vault file is required');
+      expect(() => new AuthService('vault', path)).toThrow('without username or appToken');
+    });
+  });
+
+  describe('credentials in logs', () => {
+    it('should redact registered tokens and authorization values', () => {
+      createVault();
+
+      const text = redactSecrets(
+        "headers: { Authorization: 'Basic YWxpY2U6c2VjcmV0' }, appToken: 'x', alice-app-token",
+      );
+
+      expect(text).toBe(
+        "headers: { Authorization: '[REDACTED]' }, appToken: '[REDACTED]', [REDACTED]",
+      );
+    });
+
+    it('should describe errors without their tokens', () => {
+      createVault();
+
+      const { log, message } = sanitizeError(new Error('Login failed for bob-app-token'));
+
+      expect(log).toContain('Login failed for [REDACTED]');
+      expect(log).not.toContain('bob-app-token');
+      expect(message).toBe('An unexpected error occurred. Please try again later.');
+    });
+  });
+});
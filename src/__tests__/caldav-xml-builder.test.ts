@@ -28,6 +28,16 @@ describe('CalDavXmlBuilder', () => {
       expect(result).toContain('<d:current-user-privilege-set />');
     });
 
+    it('should only use declared namespace prefixes for the default properties', () => {
+      const result = calDavXmlBuilder.buildPropfindRequest();
+
+      // Nextcloud sends calendar colors as x1:calendar-color
+      expect(result).toContain('xmlns:x1="http://apple.com/ns/ical/"');
+      expect(result).toContain('<x1:calendar-color />');
+      expect(result).toContain('<c:supported-calendar-component-set />');
+      expect(result).not.toContain('<cal:');
+    });
+
     it('should use custom properties when provided', () => {
       const customProps = ['d:displayname', 'd:resourcetype', 'c:calendar-data'];
       const result = calDavXmlBuilder.buildPropfindRequest(customProps);
@@ -43,6 +53,47 @@ describe('CalDavXmlBuilder', () => {
     });
   });
 
+  describe('buildFreeBusyQueryReport', () => {
+    it('should build a free-busy-query with a time range', () => {
+      const result = calDavXmlBuilder.buildFreeBusyQueryReport({
+        start: new Date('2025-01-06T00:00:00Z'),
+        end: new Date('2025-01-13T00:00:00Z'),
+      });
+
+      expect(result).toContain('<c:free-busy-query xmlns:d="DAV:"');
+      expect(result).toContain('<c:time-range start="20250106T000000Z" end="20250113T000000Z"');
+    });
+  });
+
+  describe('buildTaskQueryReport', () => {
+    it('should only query open tasks by default', () => {
+      const result = calDavXmlBuilder.buildTaskQueryReport();
+
+      expect(result).toContain('<c:comp-filter name="VTODO">');
+      expect(result).toContain('<c:prop-filter name="COMPLETED">');
+      expect(result).toContain('<c:is-not-defined />');
+    });
+
+    it('should query completed tasks when requested', () => {
+      const result = calDavXmlBuilder.buildTaskQueryReport(true);
+
+      expect(result).toContain('<c:comp-filter name="VTODO"');
+      expect(result).not.toContain('COMPLETED');
+    });
+  });
+
+  describe('buildJournalQueryReport', () => {
+    it('should query journal entries within a time range', () => {
+      const result = calDavXmlBuilder.buildJournalQueryReport({
+        start: new Date('2025-01-01T00:00:00Z'),
+        end: new Date('2025-02-01T00:00:00Z'),
+      });
+
+      expect(result).toContain('<c:comp-filter name="VJOURNAL">');
+      expect(result).toContain('<c:time-range start="20250101T000000Z" end="20250201T000000Z"');
+    });
+  });
+
   describe('buildMkcalendarRequest', () => {
     it('should build a valid MKCALENDAR request with display name', () => {
       const displayName = 'New Calendar';
@@ -219,6 +270,50 @@ describe('CalDavXmlBuilder', () => {
     });
   });
 
+  describe('buildCalendarMultigetRequest', () => {
+    it('should request the ETag and data of each calendar object', () => {
+      const result = calDavXmlBuilder.buildCalendarMultigetRequest([
+        '/calendars/user/calendar1/event1.ics',
+        '/calendars/user/calendar1/event & 2.ics',
+      ]);
+
+      expect(result).toContain('<c:calendar-multiget xmlns:d="DAV:"');
+      expect(result).toContain('<d:getetag />');
+      expect(result).toContain('<c:calendar-data />');
+      expect(result).toContain('<d:href>/calendars/user/calendar1/event1.ics</d:href>');
+      expect(result).toContain('<d:href>/calendars/user/calendar1/event &amp; 2.ics</d:href>');
+    });
+  });
+
+  describe('buildAddressbookMultigetRequest', () => {
+    it('should request the ETag and data of each vCard', () => {
+      const result = calDavXmlBuilder.buildAddressbookMultigetRequest([
+        '/addressbooks/users/user/contacts/jane.vcf',
+      ]);
+
+      expect(result).toContain('<card:addressbook-multiget xmlns:d="DAV:"');
+      expect(result).toContain('xmlns:card="urn:ietf:params:xml:ns:carddav"');
+      expect(result).toContain('<card:address-data />');
+      expect(result).toContain('<d:href>/addressbooks/users/user/contacts/jane.vcf</d:href>');
+    });
+  });
+
+  describe('buildSyncCollectionRequest', () => {
+    it('should request the changes since a sync token', () => {
+      const result = calDavXmlBuilder.buildSyncCollectionRequest('http://sabre.io/ns/sync/7', [
+        'd:getetag',
+        'card:address-data',
+      ]);
+
+      expect(result).toContain('<d:sync-collection xmlns:d="DAV:"');
+      expect(result).toContain('xmlns:card="urn:ietf:params:xml:ns:carddav"');
+      expect(result).toContain('<d:sync-token>http://sabre.io/ns/sync/7</d:sync-token>');
+      expect(result).toContain('<d:sync-level>1</d:sync-level>');
+      expect(result).toContain('<d:getetag />');
+      expect(result).toContain('<card:address-data />');
+    });
+  });
+
   describe('parseMultistatus', () => {
     it('should parse a simple multistatus response', () => {
       const xmlData = {
@@ -1,4 +1,5 @@
 import { CalendarService } from '../services/calendar/calendar-service.js';
+import { XMLResponseFactory } from './utils/index.js';
 
 // Sample calendar data for tests
 const sampleCalendars = [
@@ -69,6 +70,20 @@ describe('CalendarService', () => {
       expect(result[1].id).toBe('work');
     });
 
+    it('should read the calendars of a PROPFIND response', async () => {
+      const service = new CalendarService(mockConfig);
+      const { httpClient } = service as unknown as { httpClient: { propfind: () => Promise<string> } };
+      httpClient.propfind = async () =>
+        XMLResponseFactory.createPropfindResponse({ calendars: sampleCalendars });
+
+      const result = await service.getCalendars();
+
+      expect(result.map(({ id, displayName, owner }) => ({ id, displayName, owner }))).toEqual([
+        { id: 'personal', displayName: 'Personal', owner: 'testuser' },
+        { id: 'work', displayName: 'Work', owner: 'testuser' }
+      ]);
+    });
+
     it('should handle errors gracefully', async () => {
       const service = new CalendarService(mockConfig);
       
@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+import { setTimeout as sleep } from 'timers/promises';
+import { ChangePoller, VersionLookup } from '../services/change-poller.js';
+
+describe('ChangePoller', () => {
+  let versions: Record<string, string>;
+  let changes: string[];
+  let poller: ChangePoller;
+
+  const getVersions: VersionLookup = async (uris) =>
+    new Map(uris.map((uri) => [uri, versions[uri] ?? null]));
+  const onChange = (uri: string) => {
+    changes.push(uri);
+  };
+
+  beforeEach(() => {
+    versions = { 'test://a': '1', 'test://b': '1' };
+    changes = [];
+    poller = new ChangePoller(getVersions, onChange, 60000);
+  });
+
+  afterEach(() => {
+    poller.stop();
+  });
+
+  it('should report resources whose version changed since the last poll', async () => {
+    await poller.subscribe('test://a');
+    await poller.subscribe('test://b');
+
+    versions['test://a'] = '2';
+    await poller.poll();
+    await poller.poll();
+    delete versions['test://b'];
+    await poller.poll();
+
+    expect(changes).toEqual(['test://a', 'test://b']);
+  });
+
+  it('should not report resources after unsubscribing', async () => {
+    await poller.subscribe('test://a');
+    poller.unsubscribe('test://a');
+
+    versions['test://a'] = '2';
+    await poller.poll();
+
+    expect(changes).toEqual([]);
+    expect(poller.getSubscriptions()).toEqual([]);
+  });
+
+  it('should poll on an interval while resources are watched', async () => {
+    jest.useRealTimers();
+    poller = new ChangePoller(getVersions, onChange, 10);
+
+    await poller.subscribe('test://a');
+    versions['test://a'] = '2';
+    await sleep(50);
+
+    expect(changes).toEqual(['test://a']);
+  });
+});
@@ -0,0 +1,27 @@
+import { ContactService } from '../services/calendar/contact-service.js';
+import { ConfigFactory } from './utils/index.js';
+
+describe('ContactService', () => {
+  describe('getAddressBooks', () => {
+    it('should request the address book home by its full URL', async () => {
+      const service = new ContactService(ConfigFactory.createNextcloudConfig());
+      const urls: Array<string | undefined> = [];
+      const { httpClient } = service as unknown as {
+        httpClient: { propfind: (data: string, url?: string) => Promise<string> };
+      };
+      httpClient.propfind = async (_data, url) => {
+        urls.push(url);
+        return '<d:multistatus xmlns:d="DAV:"/>';
+      };
+
+      const [addressBook] = await service.getAddressBooks();
+
+      expect(urls).toEqual([
+        'https://nextcloud.example.com/remote.php/dav/addressbooks/users/testuser',
+      ]);
+      expect(addressBook.url).toBe(
+        'https://nextcloud.example.com/remote.php/dav/addressbooks/users/testuser/contacts',
+      );
+    });
+  });
+});
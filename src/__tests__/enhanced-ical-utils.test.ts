@@ -0,0 +1,316 @@
+import { Event } from '../models/index.js';
+import { EnhancedICalParser } from '../services/calendar/enhanced-ical-utils.js';
+import { parseDocument, unfoldLines } from '../services/calendar/ical-document.js';
+import { ModelFactory } from './utils/model-factory.js';
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+const seriesData = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:weekly',
+  'SUMMARY:Weekly sync',
+  'DTSTART;TZID=Europe/Paris:20250106T100000',
+  'DTEND;TZID=Europe/Paris:20250106T110000',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+  'EXDATE;TZID=Europe/Paris:20250120T100000',
+  'ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:weekly',
+  'SUMMARY:Weekly sync (moved)',
+  'RECURRENCE-ID;TZID=Europe/Paris:20250113T100000',
+  'DTSTART;TZID=Europe/Paris:20250114T150000',
+  'DTEND;TZID=Europe/Paris:20250114T160000',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('EnhancedICalParser', () => {
+  describe('parseICalEvents', () => {
+    it('should attach overrides to the master event', () => {
+      const events = EnhancedICalParser.parseICalEvents(seriesData, 'work');
+
+      expect(events).toHaveLength(1);
+      expect(events[0].recurrenceId).toBeUndefined();
+      expect(events[0].overrides).toHaveLength(1);
+
+      const [override] = events[0].overrides!;
+      expect(override.title).toBe('Weekly sync (moved)');
+      expect(override.masterId).toBe('weekly');
+      expect(override.recurrenceId).toEqual(utc('2025-01-13T09:00:00'));
+    });
+
+    it('should keep overrides without a master as separate events', () => {
+      const instanceData = seriesData.replace(
+        /BEGIN:VEVENT\r\nUID:weekly\r\nSUMMARY:Weekly sync\r\n[^]*?END:VEVENT\r\n/,
+        '',
+      );
+
+      const events = EnhancedICalParser.parseICalEvents(instanceData, 'work');
+
+      expect(events).toHaveLength(1);
+      expect(events[0].recurrenceId).toEqual(utc('2025-01-13T09:00:00'));
+      expect(events[0].masterId).toBeUndefined();
+    });
+  });
+
+  describe('reminders', () => {
+    const alarmData = seriesData.replace(
+      'END:VEVENT',
+      [
+        'DESCRIPTION:Agenda in the wiki',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Sync starts soon',
+        'TRIGGER:-PT15M',
+        'END:VALARM',
+        'BEGIN:VALARM',
+        'ACTION:EMAIL',
+        'SUMMARY:Sync ended',
+        'DESCRIPTION:Write minutes',
+        'TRIGGER;RELATED=END:PT0S',
+        'ATTENDEE:mailto:jane@example.com',
+        'END:VALARM',
+        'END:VEVENT',
+      ].join('\r\n'),
+    );
+
+    it('should parse alarms without mixing their properties into the event', () => {
+      const [event] = EnhancedICalParser.parseICalEvents(alarmData, 'work');
+
+      expect(event.description).toBe('Agenda in the wiki');
+      expect(event.reminders).toEqual([
+        { type: 'notification', minutesBefore: 15, description: 'Sync starts soon' },
+        {
+          type: 'email',
+          minutesBefore: 0,
+          relativeTo: 'end',
+          description: 'Write minutes',
+          summary: 'Sync ended',
+          attendees: ['jane@example.com'],
+        },
+      ]);
+    });
+
+    it('should round-trip alarms', () => {
+      const [event] = EnhancedICalParser.parseICalEvents(alarmData, 'work');
+      const [reparsed] = EnhancedICalParser.parseICalEvents(
+        EnhancedICalParser.generateICalEvent(event),
+        'work',
+      );
+
+      expect(reparsed.reminders).toEqual(event.reminders);
+    });
+  });
+
+  describe('attendees', () => {
+    const schedulingData = seriesData.replace(
+      'ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com',
+      [
+        'ATTENDEE;CN="Doe, Jane";PARTSTAT=DECLINED;X-RESPONSE-COMMENT="Out: travelling":mailto:jane@example.com',
+        'ATTENDEE;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;SCHEDULE-AGENT=CLIENT:mailto:bob@example.com',
+      ].join('\r\n'),
+    );
+
+    it('should parse scheduling parameters and reply comments', () => {
+      const [event] = EnhancedICalParser.parseICalEvents(schedulingData, 'work');
+
+      expect(event.participants).toEqual([
+        expect.objectContaining({
+          email: 'jane@example.com',
+          status: 'declined',
+          comment: 'Out: travelling',
+        }),
+        expect.objectContaining({
+          email: 'bob@example.com',
+          status: 'needs-action',
+          rsvp: true,
+          scheduleAgent: 'client',
+        }),
+      ]);
+    });
+
+    it('should round-trip scheduling parameters', () => {
+      const [event] = EnhancedICalParser.parseICalEvents(schedulingData, 'work');
+      const [reparsed] = EnhancedICalParser.parseICalEvents(
+        EnhancedICalParser.generateICalEvent(event),
+        'work',
+      );
+
+      expect(reparsed.participants).toEqual(event.participants);
+    });
+  });
+
+  describe('generateICalEvent', () => {
+    it('should escape text that was unescaped on parsing', () => {
+      const [event] = EnhancedICalParser.parseICalEvents(
+        seriesData.replace('SUMMARY:Weekly sync\r\n', 'SUMMARY:Sync\\, weekly\r\n'),
+        'work',
+      );
+
+      expect(event.title).toBe('Sync, weekly');
+      expect(EnhancedICalParser.generateICalEvent(event)).toContain('SUMMARY:Sync\\, weekly');
+    });
+
+    it('should round-trip a series with its overrides', () => {
+      const [master] = EnhancedICalParser.parseICalEvents(seriesData, 'work');
+
+      const generated = EnhancedICalParser.generateICalEvent(master);
+      const [reparsed] = EnhancedICalParser.parseICalEvents(generated, 'work');
+
+      expect(generated).toContain('DTSTART;TZID=Europe/Paris:20250106T100000');
+      expect(generated).toContain('RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=MO');
+      expect(generated).toContain('EXDATE;TZID=Europe/Paris:20250120T100000');
+      expect(generated).toContain('RECURRENCE-ID;TZID=Europe/Paris:20250113T100000');
+      expect(generated.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+
+      expect(reparsed.start).toEqual(master.start);
+      expect(reparsed.recurrenceRule).toEqual(master.recurrenceRule);
+      expect(reparsed.participants).toEqual(master.participants);
+      expect(reparsed.overrides).toHaveLength(1);
+      expect(reparsed.overrides![0].title).toBe('Weekly sync (moved)');
+      expect(reparsed.overrides![0].recurrenceId).toEqual(master.overrides![0].recurrenceId);
+      expect(reparsed.overrides![0].start).toEqual(master.overrides![0].start);
+    });
+
+    it('should write UTC times for events without a timezone', () => {
+      const event = ModelFactory.createEvent({
+        id: 'single',
+        start: utc('2025-01-07T12:00:00'),
+        end: utc('2025-01-07T13:00:00'),
+        recurrenceRule: { frequency: 'daily', until: utc('2025-01-10T12:00:00') },
+      });
+
+      const generated = EnhancedICalParser.generateICalEvent(event);
+
+      expect(generated).toContain('DTSTART:20250107T120000Z');
+      expect(generated).toContain('RRULE:FREQ=DAILY;UNTIL=20250110T120000Z');
+      expect(generated).not.toContain('RECURRENCE-ID');
+    });
+  });
+
+  describe('mergeICalEvent', () => {
+    const clientData = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Apple Inc.//iOS 17.0//EN',
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Paris',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:ios-event',
+      'SEQUENCE:1',
+      'SUMMARY:Lunch',
+      'DTSTART;TZID=Europe/Paris:20250107T120000',
+      'DURATION:PT1H',
+      'X-APPLE-TRAVEL-ADVISORY-BEHAVIOR:AUTOMATIC',
+      'GEO:48.85;2.35',
+      'URL;VALUE=URI:https://example.com/menu',
+      'ATTACH;FMTTYPE=application/pdf:https://example.com/menu.pdf',
+      'ATTENDEE;CN=Jane;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;X-NUM-GUESTS=0:mailto:jane@example.com',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT10M',
+      'X-WR-ALARMUID:alarm-1',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const merge = (update: (event: Event) => Event) => {
+      const calendar = parseDocument(clientData);
+      const [event] = EnhancedICalParser.parseICalEvents(clientData, 'work');
+      return unfoldLines(EnhancedICalParser.mergeICalEvent(calendar, update(event))).join('\n');
+    };
+
+    it('should keep unknown properties, parameters and components', () => {
+      const merged = merge((event) => ({ ...event, title: 'Team lunch' }));
+
+      expect(merged).toContain('SUMMARY:Team lunch');
+      expect(merged).toContain('PRODID:-//Apple Inc.//iOS 17.0//EN');
+      expect(merged).toContain('BEGIN:VTIMEZONE');
+      expect(merged).toContain('X-APPLE-TRAVEL-ADVISORY-BEHAVIOR:AUTOMATIC');
+      expect(merged).toContain('GEO:48.85;2.35');
+      expect(merged).toContain('URL;VALUE=URI:https://example.com/menu');
+      expect(merged).toContain('ATTACH;FMTTYPE=application/pdf:https://example.com/menu.pdf');
+      expect(merged).toContain('X-WR-ALARMUID:alarm-1');
+      expect(merged).toContain('SEQUENCE:2');
+    });
+
+    it('should only rewrite the properties of changed fields', () => {
+      const merged = merge((event) => ({ ...event, location: 'Cafeteria' }));
+
+      expect(merged).toContain('LOCATION:Cafeteria');
+      expect(merged).toContain('DTSTART;TZID=Europe/Paris:20250107T120000');
+      expect(merged).toContain('DURATION:PT1H');
+      expect(merged).not.toContain('DTEND');
+    });
+
+    it('should keep the resource unchanged when nothing changed', () => {
+      expect(merge((event) => event)).toBe(unfoldLines(clientData).join('\n'));
+    });
+
+    it('should keep attendee parameters it does not model', () => {
+      const merged = merge((event) => ({
+        ...event,
+        participants: event.participants!.map((p) => ({ ...p, status: 'accepted' as const })),
+      }));
+
+      expect(merged).toContain(
+        'ATTENDEE;CN=Jane;PARTSTAT=ACCEPTED;RSVP=TRUE;X-NUM-GUESTS=0;ROLE=REQ-PARTICIPANT:mailto:',
+      );
+    });
+
+    it('should only replace alarms whose reminder changed', () => {
+      const merged = merge((event) => ({
+        ...event,
+        reminders: [
+          ...event.reminders!,
+          { type: 'notification', minutesBefore: 0, triggerAt: utc('2025-01-07T08:00:00') },
+        ],
+      }));
+
+      expect(merged).toContain('X-WR-ALARMUID:alarm-1');
+      expect(merged).toContain('TRIGGER;VALUE=DATE-TIME:20250107T080000Z');
+
+      const removed = merge((event) => ({ ...event, reminders: [] }));
+      expect(removed).not.toContain('BEGIN:VALARM');
+      expect(removed).toContain('SEQUENCE:2');
+    });
+
+    it('should write moved events in their original timezone', () => {
+      const merged = merge((event) => ({
+        ...event,
+        start: utc('2025-01-07T12:00:00'),
+        end: utc('2025-01-07T13:30:00'),
+      }));
+
+      expect(merged).toContain('DTSTART;TZID=Europe/Paris:20250107T130000');
+      expect(merged).toContain('DTEND;TZID=Europe/Paris:20250107T143000');
+      expect(merged).not.toContain('DURATION');
+    });
+
+    it('should add and remove overrides', () => {
+      const calendar = parseDocument(seriesData);
+      const [master] = EnhancedICalParser.parseICalEvents(seriesData, 'work');
+      const override = {
+        ...master.overrides![0],
+        title: 'Weekly sync (cancelled)',
+        recurrenceId: utc('2025-01-27T09:00:00'),
+        start: utc('2025-01-27T09:00:00'),
+        end: utc('2025-01-27T10:00:00'),
+      };
+
+      const merged = EnhancedICalParser.mergeICalEvent(calendar, {
+        ...master,
+        overrides: [override],
+      });
+
+      expect(merged).toContain('RECURRENCE-ID;TZID=Europe/Paris:20250127T100000');
+      expect(merged).not.toContain('RECURRENCE-ID;TZID=Europe/Paris:20250113T100000');
+      expect(merged).toContain('ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com');
+    });
+  });
+});
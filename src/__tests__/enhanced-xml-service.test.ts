@@ -0,0 +1,38 @@
+import { EnhancedXmlService } from '../services/xml/enhanced-xml-service.js';
+
+describe('EnhancedXmlService', () => {
+  const service = new EnhancedXmlService();
+
+  describe('parseCalDAVResponse', () => {
+    it('should keep the lines of calendar data', async () => {
+      const calendarData = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'SUMMARY:Review',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+      const xml =
+        '<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+        '<d:response><d:href>/calendars/personal/review.ics</d:href>' +
+        '<d:propstat><d:prop><d:getetag>"1"</d:getetag>' +
+        `<c:calendar-data>${calendarData}</c:calendar-data></d:prop>` +
+        '<d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>' +
+        '</d:multistatus>';
+
+      const [response] = service.extractMultistatusResponses(
+        await service.parseCalDAVResponse(xml),
+      );
+
+      expect(String(response.properties['c:calendar-data']).split(/\r?\n/)).toEqual([
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'SUMMARY:Review',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ]);
+    });
+  });
+});
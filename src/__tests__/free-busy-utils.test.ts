@@ -0,0 +1,157 @@
+import * as FreeBusyUtils from '../services/calendar/free-busy-utils.js';
+import { ModelFactory } from './utils/model-factory.js';
+
+describe('FreeBusyUtils', () => {
+  describe('parseICalDuration', () => {
+    it('should parse time and day durations', () => {
+      expect(FreeBusyUtils.parseICalDuration('PT1H30M')).toBe(90 * 60 * 1000);
+      expect(FreeBusyUtils.parseICalDuration('P1D')).toBe(24 * 60 * 60 * 1000);
+      expect(FreeBusyUtils.parseICalDuration('P1W')).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should handle negative durations', () => {
+      expect(FreeBusyUtils.parseICalDuration('-PT15M')).toBe(-15 * 60 * 1000);
+    });
+
+    it('should reject invalid durations', () => {
+      expect(() => FreeBusyUtils.parseICalDuration('1H')).toThrow('Invalid iCalendar duration');
+      expect(() => FreeBusyUtils.parseICalDuration('PT')).toThrow('Invalid iCalendar duration');
+    });
+  });
+
+  describe('parseFreeBusyData', () => {
+    const response = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VFREEBUSY',
+      'DTSTART:20250106T000000Z',
+      'DTEND:20250107T000000Z',
+      'FREEBUSY:20250106T090000Z/20250106T100000Z,20250106T140000Z/PT30M',
+      'FREEBUSY;FBTYPE=BUSY-TENTATIVE:20250106T110000Z/20250106T120000Z',
+      'FREEBUSY;FBTYPE=FREE:20250106T120000Z/20250106T130000Z',
+      'END:VFREEBUSY',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should extract busy periods including duration-based ones', () => {
+      const periods = FreeBusyUtils.parseFreeBusyData(response, 'personal');
+
+      expect(periods).toHaveLength(3);
+      expect(periods[0]).toEqual({
+        start: new Date('2025-01-06T09:00:00Z'),
+        end: new Date('2025-01-06T10:00:00Z'),
+        type: 'busy',
+        calendarIds: ['personal'],
+      });
+      expect(periods[1].end).toEqual(new Date('2025-01-06T14:30:00Z'));
+      expect(periods[2].type).toBe('busy-tentative');
+    });
+
+    it('should skip FREE periods', () => {
+      const periods = FreeBusyUtils.parseFreeBusyData(response);
+      expect(periods.some((p) => p.start.getTime() === Date.UTC(2025, 0, 6, 12))).toBe(false);
+    });
+
+    it('should return an empty list for invalid input', () => {
+      expect(FreeBusyUtils.parseFreeBusyData('')).toEqual([]);
+      expect(FreeBusyUtils.parseFreeBusyData('BEGIN:VCALENDAR\r\nEND:VCALENDAR')).toEqual([]);
+    });
+  });
+
+  describe('eventsToBusyPeriods', () => {
+    it('should ignore free and cancelled events', () => {
+      const start = new Date('2025-01-06T09:00:00Z');
+      const end = new Date('2025-01-06T10:00:00Z');
+      const events = [
+        ModelFactory.createEvent({ id: 'busy', start, end }),
+        ModelFactory.createEvent({ id: 'free', start, end, availability: 'free' }),
+        ModelFactory.createEvent({ id: 'cancelled', start, end, status: 'cancelled' }),
+        ModelFactory.createEvent({ id: 'tentative', start, end, status: 'tentative' }),
+      ];
+
+      const periods = FreeBusyUtils.eventsToBusyPeriods(events, 'work');
+
+      expect(periods).toHaveLength(2);
+      expect(periods.map((p) => p.type)).toEqual(['busy', 'busy-tentative']);
+      expect(periods[0].calendarIds).toEqual(['work']);
+    });
+  });
+
+  describe('clipBusyPeriods', () => {
+    it('should clip periods to the range and drop those outside it', () => {
+      const periods = FreeBusyUtils.clipBusyPeriods(
+        [
+          {
+            start: new Date('2025-01-06T08:00:00Z'),
+            end: new Date('2025-01-06T10:00:00Z'),
+            type: 'busy',
+          },
+          {
+            start: new Date('2025-01-06T18:00:00Z'),
+            end: new Date('2025-01-06T19:00:00Z'),
+            type: 'busy',
+          },
+        ],
+        new Date('2025-01-06T09:00:00Z'),
+        new Date('2025-01-06T17:00:00Z'),
+      );
+
+      expect(periods).toHaveLength(1);
+      expect(periods[0].start).toEqual(new Date('2025-01-06T09:00:00Z'));
+      expect(periods[0].end).toEqual(new Date('2025-01-06T10:00:00Z'));
+    });
+  });
+
+  describe('mergeBusyPeriods', () => {
+    it('should merge overlapping and adjacent periods across calendars', () => {
+      const merged = FreeBusyUtils.mergeBusyPeriods([
+        {
+          start: new Date('2025-01-06T10:00:00Z'),
+          end: new Date('2025-01-06T11:00:00Z'),
+          type: 'busy-tentative',
+          calendarIds: ['work'],
+        },
+        {
+          start: new Date('2025-01-06T09:00:00Z'),
+          end: new Date('2025-01-06T10:00:00Z'),
+          type: 'busy',
+          calendarIds: ['personal'],
+        },
+        {
+          start: new Date('2025-01-06T13:00:00Z'),
+          end: new Date('2025-01-06T14:00:00Z'),
+          type: 'busy',
+          calendarIds: ['work'],
+        },
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0]).toEqual({
+        start: new Date('2025-01-06T09:00:00Z'),
+        end: new Date('2025-01-06T11:00:00Z'),
+        type: 'busy',
+        calendarIds: ['personal', 'work'],
+      });
+      expect(merged[1].start).toEqual(new Date('2025-01-06T13:00:00Z'));
+    });
+
+    it('should not mutate the input periods', () => {
+      const input = [
+        {
+          start: new Date('2025-01-06T09:00:00Z'),
+          end: new Date('2025-01-06T10:00:00Z'),
+          type: 'busy' as const,
+        },
+        {
+          start: new Date('2025-01-06T09:30:00Z'),
+          end: new Date('2025-01-06T11:00:00Z'),
+          type: 'busy' as const,
+        },
+      ];
+
+      FreeBusyUtils.mergeBusyPeriods(input);
+
+      expect(input[0].end).toEqual(new Date('2025-01-06T10:00:00Z'));
+    });
+  });
+});
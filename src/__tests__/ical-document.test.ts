@@ -0,0 +1,106 @@
+import { Buffer } from 'node:buffer';
+import * as ICalDocument from '../services/calendar/ical-document.js';
+
+describe('ICalDocument', () => {
+  const resource = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Nextcloud calendar v1//EN',
+    'BEGIN:VEVENT',
+    'UID:event-1',
+    'DTSTART;TZID=Europe/Paris:20250106T100000',
+    'SUMMARY:Planning',
+    'ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com',
+    'X-CUSTOM-PROPERTY;X-PARAM=1:kept as is',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-PT15M',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+
+  describe('parseDocument', () => {
+    it('should build the component tree', () => {
+      const calendar = ICalDocument.parseDocument(resource);
+
+      expect(calendar.name).toBe('VCALENDAR');
+      expect(calendar.components).toHaveLength(1);
+      expect(calendar.components[0].name).toBe('VEVENT');
+      expect(calendar.components[0].components[0].name).toBe('VALARM');
+    });
+
+    it('should parse quoted parameter values', () => {
+      const event = ICalDocument.parseDocument(resource).components[0];
+      const attendee = ICalDocument.getProperty(event, 'ATTENDEE');
+
+      expect(attendee?.params.get('CN')).toBe('Doe, Jane');
+      expect(attendee?.value).toBe('mailto:jane@example.com');
+    });
+
+    it('should unfold continuation lines', () => {
+      const calendar = ICalDocument.parseDocument(
+        'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nSUMMARY:Long\r\n  title\r\nEND:VEVENT\r\nEND:VCALENDAR',
+      );
+
+      expect(ICalDocument.getProperty(calendar.components[0], 'SUMMARY')?.value).toBe('Long title');
+    });
+
+    it('should reject incomplete data', () => {
+      expect(() => ICalDocument.parseDocument('BEGIN:VCALENDAR')).toThrow('Invalid iCalendar data');
+    });
+  });
+
+  describe('serializeDocument', () => {
+    it('should round-trip unknown properties and nested components', () => {
+      expect(ICalDocument.serializeDocument(ICalDocument.parseDocument(resource))).toBe(resource);
+    });
+
+    it('should fold lines longer than 75 octets', () => {
+      const folded = ICalDocument.foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+
+      for (const line of folded.split('\r\n')) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(ICalDocument.unfoldLines(folded)).toEqual([`DESCRIPTION:${'é'.repeat(60)}`]);
+    });
+  });
+
+  describe('setProperty', () => {
+    it('should replace the first property and drop duplicates', () => {
+      const event = ICalDocument.parseDocument(
+        'BEGIN:VEVENT\r\nSUMMARY:One\r\nSUMMARY:Two\r\nEND:VEVENT',
+      );
+
+      ICalDocument.setProperty(event, 'SUMMARY', 'Three');
+
+      expect(ICalDocument.getProperties(event, 'SUMMARY').map((p) => p.value)).toEqual(['Three']);
+    });
+  });
+
+  describe('date values', () => {
+    it('should parse UTC, zoned and all-day values', () => {
+      expect(ICalDocument.parseDateValue('20250106T090000Z')).toEqual(
+        new Date('2025-01-06T09:00:00Z'),
+      );
+      expect(
+        ICalDocument.parseDateValue('20250106T100000', new Map([['TZID', 'Europe/Paris']])),
+      ).toEqual(new Date('2025-01-06T09:00:00Z'));
+      expect(ICalDocument.parseDateValue('20250106')).toEqual(new Date(2025, 0, 6));
+      expect(ICalDocument.parseDateValue('not a date')).toBeNull();
+    });
+
+    it('should format dates in the form of an existing property', () => {
+      const date = new Date('2025-07-01T08:00:00Z');
+
+      expect(ICalDocument.formatDateValue(date)).toBe('20250701T080000Z');
+      expect(ICalDocument.formatDateValue(date, new Map([['TZID', 'Europe/Paris']]))).toBe(
+        '20250701T100000',
+      );
+      expect(ICalDocument.formatDateValue(new Date(2025, 6, 1), new Map([['VALUE', 'DATE']]))).toBe(
+        '20250701',
+      );
+    });
+  });
+});
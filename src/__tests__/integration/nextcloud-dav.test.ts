@@ -0,0 +1,1341 @@
+/**
+ * End-to-end tests of the services and tools against the in-process fake Nextcloud DAV server
+ */
+import { jest } from '@jest/globals';
+import { Buffer } from 'buffer';
+import { mkdtempSync, readdirSync, rmSync, statSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { URL } from 'url';
+import axios from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { registerCalendarPrompts } from '../../handlers/calendar-prompts.js';
+import { registerCalendarResources } from '../../handlers/calendar-resources.js';
+import { registerContactTools } from '../../handlers/contact-tools.js';
+import { registerEventTools } from '../../handlers/event-tools.js';
+import { registerHealthTools } from '../../handlers/health-tools.js';
+import { registerSyncTools } from '../../handlers/sync-tools.js';
+import { registerTaskTools } from '../../handlers/task-tools.js';
+import { AccountService } from '../../services/account-service.js';
+import { CalendarService } from '../../services/calendar/calendar-service.js';
+import { ContactService } from '../../services/calendar/contact-service.js';
+import { EventService } from '../../services/calendar/event-service.js';
+import {
+  CalendarHttpClient,
+  ConflictError,
+  MULTIGET_BATCH_SIZE,
+} from '../../services/calendar/http-client.js';
+import { MergeConflictError } from '../../services/calendar/merge-utils.js';
+import { TaskService } from '../../services/calendar/task-service.js';
+import { FakeDavServer } from '../utils/fake-dav-server.js';
+
+const event = (uid: string, lines: string[] = []) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    'DTSTAMP:20250101T000000Z',
+    'DTSTART:20250106T090000Z',
+    'DTEND:20250106T100000Z',
+    `SUMMARY:${uid}`,
+    ...lines,
+    'END:VEVENT',
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+
+describe('Nextcloud DAV end-to-end', () => {
+  let server: FakeDavServer;
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    server = new FakeDavServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('CalendarService', () => {
+    it('should create, update and delete calendars', async () => {
+      const service = new CalendarService(server.getConfig());
+
+      const created = await service.createCalendar({
+        displayName: 'Work Projects',
+        color: '#ff0000',
+        owner: '',
+        isDefault: false,
+        isShared: false,
+        isReadOnly: false,
+        permissions: { canRead: true, canWrite: true, canShare: true, canDelete: true },
+        category: null,
+        focusPriority: null,
+        metadata: null,
+      });
+      expect(server.hasCalendar(created.id)).toBe(true);
+
+      const calendars = await service.getCalendars();
+      expect(calendars.map((calendar) => calendar.displayName)).toEqual([
+        'Personal',
+        'Work Projects',
+      ]);
+      expect(calendars[1]).toMatchObject({ id: created.id, color: '#ff0000', isReadOnly: false });
+
+      await service.updateCalendar(created.id, { displayName: 'Renamed' });
+      expect(server.getCalendarProperties(created.id)['{DAV:}displayname']).toBe('Renamed');
+
+      await service.deleteCalendar(created.id);
+      expect(server.hasCalendar(created.id)).toBe(false);
+    });
+
+    it('should report calendars shared read-only with the user', async () => {
+      server.addCalendar('team_shared_by_bob', {
+        displayName: 'Team',
+        owner: 'bob',
+        readOnly: true,
+      });
+      const service = new CalendarService(server.getConfig());
+
+      const team = (await service.getCalendars()).find(
+        (calendar) => calendar.id === 'team_shared_by_bob',
+      );
+
+      expect(team).toMatchObject({ owner: 'bob', isShared: true, isReadOnly: true });
+      await expect(service.deleteCalendar('team_shared_by_bob')).rejects.toThrow('permission');
+    });
+  });
+
+  describe('EventService', () => {
+    it('should create, read, update and delete events', async () => {
+      const service = new EventService(server.getConfig());
+
+      const created = await service.createEvent('personal', {
+        calendarId: 'personal',
+        title: 'Planning',
+        start: new Date('2025-01-06T09:00:00Z'),
+        end: new Date('2025-01-06T10:00:00Z'),
+        isAllDay: false,
+      });
+      expect(server.listCalendarObjects('personal')).toEqual([`${created.id}.ics`]);
+
+      const events = await service.getEvents('personal', {
+        start: new Date('2025-01-01T00:00:00Z'),
+        end: new Date('2025-02-01T00:00:00Z'),
+      });
+      expect(events.map((e) => e.title)).toEqual(['Planning']);
+
+      const updated = await service.updateEvent('personal', created.id, { title: 'Replanning' });
+      expect(updated.title).toBe('Replanning');
+      expect((await service.getEventById('personal', created.id)).title).toBe('Replanning');
+
+      await service.deleteEvent('personal', created.id);
+      expect(server.listCalendarObjects('personal')).toEqual([]);
+    });
+
+    it('should fetch many events by ID with calendar-multiget', async () => {
+      const service = new EventService(server.getConfig());
+      const ids = Array.from({ length: MULTIGET_BATCH_SIZE + 1 }, (_, i) => `event-${i}`);
+      ids.forEach((id) => server.putCalendarObject('personal', `${id}.ics`, event(id)));
+      server.requests.length = 0;
+
+      const { events, notFound } = await service.getEventsByIds('personal', [
+        'event-7',
+        'missing',
+        ...ids,
+      ]);
+
+      expect(events.map((e) => e.title)).toEqual([
+        'event-7',
+        ...ids.filter((id) => id !== 'event-7'),
+      ]);
+      expect(events[0].etag).toBe(server.getCalendarObject('personal', 'event-7.ics')!.etag);
+      expect(notFound).toEqual(['missing']);
+      expect(server.requests.map((request) => request.method)).toEqual(['REPORT', 'REPORT']);
+      expect(server.requests[0].body).toContain('<c:calendar-multiget');
+    });
+
+    it('should only return events in the requested time range', async () => {
+      server.putCalendarObject('personal', 'january.ics', event('january'));
+      server.putCalendarObject(
+        'personal',
+        'march.ics',
+        event('march', []).replace(/20250106/g, '20250303'),
+      );
+      const service = new EventService(server.getConfig());
+
+      const events = await service.getEvents('personal', {
+        start: new Date('2025-03-01T00:00:00Z'),
+        end: new Date('2025-04-01T00:00:00Z'),
+      });
+
+      expect(events.map((e) => e.title)).toEqual(['march']);
+    });
+
+    it('should page through events ordered by start time', async () => {
+      for (const [uid, day] of [
+        ['b', '20250106'],
+        ['a', '20250106'],
+        ['c', '20250107'],
+      ]) {
+        server.putCalendarObject('personal', `${uid}.ics`, event(uid).replace(/20250106/g, day));
+      }
+      const service = new EventService(server.getConfig());
+      const range = {
+        start: new Date('2025-01-01T00:00:00Z'),
+        end: new Date('2025-02-01T00:00:00Z'),
+      };
+
+      const first = await service.getEventsPage('personal', { ...range, limit: 2 });
+      expect(first.items.map((e) => e.title)).toEqual(['a', 'b']);
+
+      server.requests.length = 0;
+      const second = await service.getEventsPage('personal', {
+        ...range,
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((e) => e.title)).toEqual(['c']);
+      expect(second.nextCursor).toBeUndefined();
+      // The next page only queries events from the start of the last event on
+      expect(server.requests[0].body).toContain('start="20250106T090000Z"');
+
+      await expect(
+        service.getEventsPage('personal', { limit: 2, cursor: first.nextCursor }),
+      ).rejects.toThrow('other parameters');
+    });
+
+    it('should expand recurring events on the server', async () => {
+      server.putCalendarObject(
+        'personal',
+        'standup.ics',
+        event('standup', ['RRULE:FREQ=DAILY;COUNT=5', 'EXDATE:20250108T090000Z']),
+      );
+      const service = new EventService(server.getConfig({ recurrenceExpansion: 'server' }));
+
+      const events = await service.getEvents('personal', {
+        start: new Date('2025-01-01T00:00:00Z'),
+        end: new Date('2025-02-01T00:00:00Z'),
+        expandRecurring: true,
+      });
+
+      expect(events.map((e) => e.start.toISOString())).toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-07T09:00:00.000Z',
+        '2025-01-09T09:00:00.000Z',
+        '2025-01-10T09:00:00.000Z',
+      ]);
+    });
+
+    it('should reject updates based on an outdated ETag', async () => {
+      const etag = server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      server.putCalendarObject('personal', 'planning.ics', event('planning', ['LOCATION:Room 1']));
+      const client = new CalendarHttpClient(server.baseUrl, server.username, server.appToken);
+
+      const error = await client
+        .updateEvent('personal', 'planning', event('planning'), etag)
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error).toMatchObject({
+        status: 412,
+        currentEtag: server.getCalendarObject('personal', 'planning.ics')?.etag,
+      });
+      expect(error.currentData).toContain('Room 1');
+      expect(server.getCalendarObject('personal', 'planning.ics')?.data).toContain('Room 1');
+    });
+
+    it('should only change and delete events that are still the expected version', async () => {
+      server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      const service = new EventService(server.getConfig());
+      const { etag } = await service.getEventById('personal', 'planning');
+      expect(etag).toBe(server.getCalendarObject('personal', 'planning.ics')?.etag);
+
+      // Changed on a phone in the meantime
+      server.putCalendarObject('personal', 'planning.ics', event('planning', ['LOCATION:Room 1']));
+
+      await expect(
+        service.updateEvent('personal', 'planning', { title: 'Stale' }, etag),
+      ).rejects.toBeInstanceOf(ConflictError);
+      await expect(service.deleteEvent('personal', 'planning', etag)).rejects.toBeInstanceOf(
+        ConflictError,
+      );
+      expect(server.getCalendarObject('personal', 'planning.ics')?.data).toContain('Room 1');
+
+      // Without an expected version, writes are still conditional on the version just read
+      server.requests.length = 0;
+      await service.updateEvent('personal', 'planning', { title: 'Current' });
+      const put = server.requests.find((request) => request.method === 'PUT');
+      expect(put?.headers['if-match']).toBeDefined();
+
+      const [current] = await service.getEvents('personal', {
+        start: new Date('2025-01-01T00:00:00Z'),
+        end: new Date('2025-02-01T00:00:00Z'),
+      });
+      expect(current.etag).toBe(server.getCalendarObject('personal', 'planning.ics')?.etag);
+      await service.deleteEvent('personal', 'planning', current.etag);
+      expect(server.listCalendarObjects('personal')).toEqual([]);
+    });
+
+    it('should merge changes to an older version of an event into the current one', async () => {
+      server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      const service = new EventService(server.getConfig());
+      const { etag } = await service.getEventById('personal', 'planning');
+
+      // Moved to another room on a phone in the meantime
+      server.putCalendarObject('personal', 'planning.ics', event('planning', ['LOCATION:Room 1']));
+
+      const updated = await service.updateEvent(
+        'personal',
+        'planning',
+        { title: 'Sprint planning' },
+        etag,
+        { merge: true },
+      );
+      expect(updated).toMatchObject({ title: 'Sprint planning', location: 'Room 1' });
+
+      // Renamed on the phone as well as here
+      const { etag: mergedEtag } = await service.getEventById('personal', 'planning');
+      server.putCalendarObject(
+        'personal',
+        'planning.ics',
+        server.getCalendarObject('personal', 'planning.ics')!.data.replace('Sprint', 'Team'),
+      );
+      const error = await service
+        .updateEvent('personal', 'planning', { title: 'Quarterly planning' }, mergedEtag, {
+          merge: true,
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(MergeConflictError);
+      expect(error.conflicts).toEqual([
+        {
+          field: 'title',
+          base: 'Sprint planning',
+          mine: 'Quarterly planning',
+          theirs: 'Team planning',
+        },
+      ]);
+      expect(server.getCalendarObject('personal', 'planning.ics')?.data).toContain('Team planning');
+    });
+
+    it('should merge into a version it did not read with the base the caller passes', async () => {
+      server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      const base = await new EventService(server.getConfig()).getEventById('personal', 'planning');
+      server.putCalendarObject('personal', 'planning.ics', event('planning', ['LOCATION:Room 1']));
+
+      // A new service has not seen the version the changes were made to
+      const service = new EventService(server.getConfig());
+      const changes = { end: new Date('2025-01-06T11:00:00Z') };
+      await expect(
+        service.updateEvent('personal', 'planning', changes, base.etag, { merge: true }),
+      ).rejects.toThrow(ConflictError);
+
+      const updated = await service.updateEvent('personal', 'planning', changes, base.etag, {
+        merge: true,
+        base,
+      });
+
+      expect(updated).toMatchObject({ location: 'Room 1', end: changes.end });
+      expect(updated.start).toEqual(new Date('2025-01-06T09:00:00Z'));
+    });
+  });
+
+  describe('TaskService', () => {
+    it('should create and complete tasks', async () => {
+      const service = new TaskService(server.getConfig());
+
+      const task = await service.createTask('personal', { title: 'Write report' });
+      await service.completeTask('personal', task.id);
+
+      const tasks = await service.getTasks('personal', { includeCompleted: true });
+      expect(tasks).toEqual([
+        expect.objectContaining({ title: 'Write report', status: 'completed' }),
+      ]);
+    });
+  });
+
+  describe('ContactService', () => {
+    it('should create, read and delete contacts', async () => {
+      const service = new ContactService(server.getConfig());
+
+      const contact = await service.createContact('contacts', {
+        displayName: 'Jane Doe',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        emails: [{ type: 'work', email: 'jane@example.com' }],
+      });
+      expect(contact.displayName).toBe('Jane Doe');
+      expect(server.listCards('contacts')).toEqual([`${contact.id}.vcf`]);
+
+      await service.deleteContact('contacts', contact.id);
+      expect(server.listCards('contacts')).toEqual([]);
+    });
+
+    it('should fetch many contacts by ID with addressbook-multiget', async () => {
+      const service = new ContactService(server.getConfig());
+      const jane = await service.createContact('contacts', { displayName: 'Jane Doe' });
+      const john = await service.createContact('contacts', { displayName: 'John Roe' });
+      server.requests.length = 0;
+
+      const { contacts, notFound } = await service.getContactsByIds('contacts', [
+        john.id,
+        'missing',
+        jane.id,
+      ]);
+
+      expect(contacts.map((c) => c.displayName)).toEqual(['John Roe', 'Jane Doe']);
+      expect(contacts[0].etag).toBe(server.getCard('contacts', `${john.id}.vcf`)!.etag);
+      expect(notFound).toEqual(['missing']);
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].body).toContain('<card:addressbook-multiget');
+    });
+
+    it('should only change contacts that are still the expected version', async () => {
+      const service = new ContactService(server.getConfig());
+      server.requests.length = 0;
+      const contact = await service.createContact('contacts', { displayName: 'Jane Doe' });
+      expect(server.requests[0].headers['if-none-match']).toBe('*');
+      expect(contact.etag).toBe(server.getCard('contacts', `${contact.id}.vcf`)?.etag);
+
+      // Changed on a phone in the meantime
+      const card = server.getCard('contacts', `${contact.id}.vcf`)!;
+      server.putCard('contacts', `${contact.id}.vcf`, card.data.replace('Jane Doe', 'Jane Roe'));
+
+      const error = await service
+        .updateContact('contacts', contact.id, { title: 'CEO' }, contact.etag)
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.currentData).toContain('Jane Roe');
+      await expect(
+        service.deleteContact('contacts', contact.id, contact.etag),
+      ).rejects.toBeInstanceOf(ConflictError);
+
+      const updated = await service.updateContact(
+        'contacts',
+        contact.id,
+        { title: 'CEO' },
+        error.currentEtag,
+      );
+      expect(updated).toMatchObject({ displayName: 'Jane Roe', title: 'CEO' });
+    });
+
+    it('should merge changes to an older version of a contact into the current one', async () => {
+      const service = new ContactService(server.getConfig());
+      const contact = await service.createContact('contacts', {
+        displayName: 'Jane Doe',
+        emails: [{ type: 'work', email: 'jane@example.com' }],
+      });
+
+      // Another address added on a phone in the meantime
+      await new ContactService(server.getConfig()).updateContact('contacts', contact.id, {
+        emails: [...contact.emails, { type: 'home', email: 'jane@home.example' }],
+      });
+
+      const updated = await service.updateContact(
+        'contacts',
+        contact.id,
+        {
+          displayName: 'Jane Roe',
+          emails: [...contact.emails, { type: 'other', email: 'jane@club.example' }],
+        },
+        contact.etag,
+        { merge: true },
+      );
+
+      expect(updated.displayName).toBe('Jane Roe');
+      expect(updated.emails.map((email) => email.email)).toEqual([
+        'jane@example.com',
+        'jane@home.example',
+        'jane@club.example',
+      ]);
+    });
+
+    it('should merge into a version it did not read with the vCard the caller passes', async () => {
+      const contact = await new ContactService(server.getConfig()).createContact('contacts', {
+        displayName: 'Jane Doe',
+      });
+      const file = `${contact.id}.vcf`;
+      const base = server.getCard('contacts', file)!;
+      server.putCard('contacts', file, base.data.replace('END:VCARD', 'TITLE:CEO\r\nEND:VCARD'));
+
+      const updated = await new ContactService(server.getConfig()).updateContact(
+        'contacts',
+        contact.id,
+        { displayName: 'Jane Roe' },
+        base.etag,
+        { merge: true, base: base.data },
+      );
+
+      expect(updated).toMatchObject({ displayName: 'Jane Roe', title: 'CEO' });
+    });
+
+    it('should page through contacts matching a query on the server', async () => {
+      const service = new ContactService(server.getConfig());
+      for (const displayName of ['Carol Smith', 'alice Smith', 'Bob Smith', 'Dave Jones']) {
+        await service.createContact('contacts', { displayName });
+      }
+
+      server.requests.length = 0;
+      const first = await service.getContactsPage('contacts', { query: 'smith', limit: 2 });
+      expect(first.items.map((c) => c.displayName)).toEqual(['alice Smith', 'Bob Smith']);
+      // The query is sent as an addressbook-query text-match
+      expect(server.requests[0].method).toBe('REPORT');
+      expect(server.requests[0].body).toContain('smith</card:text-match>');
+
+      const second = await service.getContactsPage('contacts', {
+        query: 'smith',
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((c) => c.displayName)).toEqual(['Carol Smith']);
+      expect(second.nextCursor).toBeUndefined();
+
+      const searched = await service.searchContactsPage('jones', {});
+      expect(searched.items.map((c) => c.displayName)).toEqual(['Dave Jones']);
+    });
+  });
+
+  describe('Local cache', () => {
+    let cacheDir: string;
+    const january = {
+      start: new Date('2025-01-01T00:00:00Z'),
+      end: new Date('2025-02-01T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      cacheDir = mkdtempSync(join(tmpdir(), 'sync-cache-'));
+    });
+
+    afterEach(() => {
+      rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should only fetch events changed since the last sync', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const service = new EventService(server.getConfig({ cacheDir }));
+      expect((await service.getEvents('personal', january)).map((e) => e.title)).toEqual([
+        'review',
+      ]);
+
+      // Another client changes the calendar
+      server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      await new EventService(server.getConfig()).deleteEvent('personal', 'review');
+      server.requests.length = 0;
+
+      const events = await service.getEvents('personal', january);
+
+      expect(events.map((e) => e.title)).toEqual(['planning']);
+      expect(server.requests.map((request) => request.method)).toEqual(['REPORT']);
+      expect(server.requests[0].body).toContain('<d:sync-token>http://sabre.io/ns/sync/');
+    });
+
+    it('should only return cached events in the requested time range', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      server.putCalendarObject(
+        'personal',
+        'retro.ics',
+        event('retro').replace(/20250106/g, '20241216'),
+      );
+      const service = new EventService(server.getConfig({ cacheDir }));
+
+      const events = await service.getEvents('personal', january);
+
+      expect(events.map((e) => e.title)).toEqual(['review']);
+    });
+
+    it('should fetch members the sync reports without data with calendar-multiget', async () => {
+      server.syncWithoutData = true;
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const service = new EventService(server.getConfig({ cacheDir }));
+      server.requests.length = 0;
+
+      const result = await service.syncCalendar('personal');
+
+      expect(result).toMatchObject({ changed: 1, deleted: 0 });
+      expect(Object.values(result.resources)[0].data).toContain('UID:review');
+      expect(server.requests.map((request) => request.body)).toEqual([
+        expect.stringContaining('<d:sync-collection'),
+        expect.stringContaining('<c:calendar-multiget'),
+      ]);
+    });
+
+    it('should continue syncs the server truncated from the token of each response', async () => {
+      server.syncLimit = 1;
+      ['review', 'planning', 'retro'].forEach((uid) =>
+        server.putCalendarObject('personal', `${uid}.ics`, event(uid)),
+      );
+      const service = new EventService(server.getConfig({ cacheDir }));
+      server.requests.length = 0;
+
+      const result = await service.syncCalendar('personal');
+
+      expect(result).toMatchObject({ changed: 3, deleted: 0 });
+      expect(server.requests.map((request) => request.method)).toEqual([
+        'REPORT',
+        'REPORT',
+        'REPORT',
+      ]);
+    });
+
+    it('should give up on truncated syncs that make no progress', async () => {
+      server.syncLimit = 0;
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const service = new EventService(server.getConfig({ cacheDir }));
+
+      await expect(service.syncCalendar('personal')).rejects.toThrow('without progress');
+    });
+
+    it('should keep the cache across service instances', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      await new EventService(server.getConfig({ cacheDir })).syncCalendar('personal');
+
+      const result = await new EventService(server.getConfig({ cacheDir })).syncCalendar(
+        'personal',
+      );
+
+      expect(result).toMatchObject({ changed: 0, deleted: 0 });
+      expect(Object.keys(result.resources)).toEqual([
+        '/remote.php/dav/calendars/testuser/personal/review.ics',
+      ]);
+    });
+
+    it('should not write the cache file when nothing changed', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const service = new EventService(server.getConfig({ cacheDir }));
+      await service.syncCalendar('personal');
+      const [accountDir] = readdirSync(cacheDir);
+      const [file] = readdirSync(join(cacheDir, accountDir));
+      const path = join(cacheDir, accountDir, file);
+      utimesSync(path, 0, 0);
+
+      const result = await service.syncCalendar('personal');
+
+      expect(result).toMatchObject({ changed: 0, deleted: 0 });
+      expect(statSync(path).mtimeMs).toBe(0);
+    });
+
+    it('should drop written events from the cache', async () => {
+      const service = new EventService(server.getConfig({ cacheDir }));
+      const created = await service.createEvent('personal', {
+        calendarId: 'personal',
+        title: 'Review',
+        start: new Date('2025-01-07T14:00:00Z'),
+        end: new Date('2025-01-07T15:00:00Z'),
+        isAllDay: false,
+      });
+      await service.getEvents('personal', january);
+
+      await service.deleteEvent('personal', created.id);
+
+      expect(await service.getEvents('personal', january)).toEqual([]);
+    });
+
+    it('should merge into events listed from a cache of many events', async () => {
+      server.putCalendarObject('personal', 'planning.ics', event('planning'));
+      for (let i = 0; i < 600; i++) {
+        server.putCalendarObject(
+          'personal',
+          `old-${i}.ics`,
+          event(`old-${i}`).replace(/20250106/g, '20240106'),
+        );
+      }
+      const service = new EventService(server.getConfig({ cacheDir }));
+      const [listed] = await service.getEvents('personal', january);
+
+      // Moved to another room on a phone in the meantime
+      server.putCalendarObject('personal', 'planning.ics', event('planning', ['LOCATION:Room 1']));
+
+      const updated = await service.updateEvent(
+        'personal',
+        'planning',
+        { title: 'Sprint planning' },
+        listed.etag,
+        { merge: true },
+      );
+      expect(updated).toMatchObject({ title: 'Sprint planning', location: 'Room 1' });
+    });
+
+    it('should read contacts through the cache', async () => {
+      const service = new ContactService(server.getConfig({ cacheDir }));
+      await service.createContact('contacts', { displayName: 'Jane Doe' });
+      await service.createContact('contacts', { displayName: 'John Roe' });
+
+      const contacts = await service.getContacts('contacts');
+      await service.deleteContact('contacts', contacts[0].id);
+
+      expect((await service.getContacts('contacts')).map((c) => c.displayName)).toEqual([
+        contacts[1].displayName,
+      ]);
+      expect((await service.syncAddressBook('contacts')).changed).toBe(0);
+    });
+  });
+
+  describe('Tools', () => {
+    const callTool = async (client: Client, name: string, args: Record<string, unknown>) => {
+      const result = await client.callTool({ name, arguments: args });
+      const [content] = result.content as Array<{ text: string }>;
+      return {
+        isError: result.isError,
+        text: content.text,
+        // Tools without an output schema return their data as JSON text, errors only text
+        data: result.structuredContent ?? (result.isError ? undefined : JSON.parse(content.text)),
+      };
+    };
+
+    it('should manage events and tasks through MCP tools', async () => {
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerEventTools(mcpServer, accounts.getEventService);
+      registerTaskTools(mcpServer, accounts.getTaskService);
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      // Listing the tools makes the client validate structured content against the output schemas
+      const { tools } = await client.listTools();
+      expect(tools.find((tool) => tool.name === 'listEvents')?.outputSchema).toMatchObject({
+        properties: { events: { type: 'array' } },
+      });
+
+      const created = await callTool(client, 'createEvent', {
+        calendarId: 'personal',
+        title: 'Review',
+        start: '2025-01-07T14:00:00Z',
+        end: '2025-01-07T15:00:00Z',
+      });
+      expect(created.isError).toBeFalsy();
+
+      const listed = await callTool(client, 'listEvents', {
+        calendarId: 'personal',
+        start: '2025-01-01T00:00:00Z',
+        end: '2025-02-01T00:00:00Z',
+      });
+      expect(listed.data.events.map((e: { title: string }) => e.title)).toEqual(['Review']);
+      expect(listed.data.events[0].start).toBe('2025-01-07T14:00:00.000Z');
+      expect(listed.text).toContain('1 events in calendar personal:\n- Review (');
+
+      const fetched = await callTool(client, 'getEventsByIds', {
+        calendarId: 'personal',
+        eventIds: [listed.data.events[0].id, 'missing'],
+      });
+      expect(fetched.data).toMatchObject({ events: [{ title: 'Review' }], notFound: ['missing'] });
+      expect(fetched.text).toContain('Not found: missing');
+
+      // Moved to another room on a phone; the event as listed is the base of the merge
+      const [listedEvent] = listed.data.events;
+      const file = server.listCalendarObjects('personal')[0];
+      server.putCalendarObject(
+        'personal',
+        file,
+        server
+          .getCalendarObject('personal', file)!
+          .data.replace('END:VEVENT', 'LOCATION:Room 1\r\nEND:VEVENT'),
+      );
+      const merged = await callTool(client, 'updateEvent', {
+        calendarId: 'personal',
+        eventId: listedEvent.id,
+        end: '2025-01-07T16:00:00Z',
+        expectedEtag: listedEvent.etag,
+        merge: true,
+        base: listedEvent,
+      });
+      expect(merged.data.event).toMatchObject({
+        location: 'Room 1',
+        start: '2025-01-07T14:00:00.000Z',
+        end: '2025-01-07T16:00:00.000Z',
+      });
+
+      const task = await callTool(client, 'createTask', {
+        calendarId: 'personal',
+        title: 'Follow up',
+      });
+      expect(task.isError).toBeFalsy();
+      expect(server.listCalendarObjects('personal')).toHaveLength(2);
+
+      await client.close();
+    });
+
+    it('should return contacts as structured content', async () => {
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerContactTools(mcpServer, accounts.getContactService);
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      await client.listTools();
+
+      const created = await callTool(client, 'createContact', {
+        addressBookId: 'contacts',
+        displayName: 'Jane Doe',
+        emails: [{ type: 'work', email: 'jane@example.com' }],
+      });
+      expect(created.isError).toBeFalsy();
+      expect(created.text).toBe(
+        `Created contact Jane Doe <jane@example.com> (id ${created.data.contact.id})`,
+      );
+
+      const listed = await callTool(client, 'listContacts', { addressBookId: 'contacts' });
+      expect(listed.data.contacts).toEqual([
+        expect.objectContaining({ displayName: 'Jane Doe', addressBookId: 'contacts' }),
+      ]);
+      expect(listed.data.nextCursor).toBeUndefined();
+      expect(listed.data.contacts[0].etag).toBe(created.data.contact.etag);
+
+      const stale = await callTool(client, 'updateContact', {
+        addressBookId: 'contacts',
+        contactId: created.data.contact.id,
+        title: 'CEO',
+        expectedEtag: '"outdated"',
+      });
+      expect(stale.isError).toBe(true);
+      expect(stale.text).toContain(`Its current ETag is ${created.data.contact.etag}`);
+
+      // Renamed on a phone in the meantime
+      const file = `${created.data.contact.id}.vcf`;
+      server.putCard(
+        'contacts',
+        file,
+        server.getCard('contacts', file)!.data.replace('Doe', 'Roe'),
+      );
+      const conflict = await callTool(client, 'updateContact', {
+        addressBookId: 'contacts',
+        contactId: created.data.contact.id,
+        displayName: 'Janet Doe',
+        expectedEtag: created.data.contact.etag,
+        merge: true,
+      });
+      expect(conflict.isError).toBe(true);
+      expect(conflict.text).toContain('Conflicting changes by another client to displayName');
+      expect(JSON.parse(conflict.text.slice(conflict.text.indexOf('{')))).toEqual({
+        currentEtag: server.getCard('contacts', file)?.etag,
+        conflicts: [
+          { field: 'displayName', base: 'Jane Doe', mine: 'Janet Doe', theirs: 'Jane Roe' },
+        ],
+      });
+
+      await callTool(client, 'createContact', { addressBookId: 'contacts', displayName: 'Ann' });
+      const page = await callTool(client, 'searchContacts', { query: '', limit: 1 });
+      expect(page.data.contacts.map((c: { displayName: string }) => c.displayName)).toEqual([
+        'Ann',
+      ]);
+      expect(page.text).toContain(`pass cursor "${page.data.nextCursor}"`);
+      const next = await callTool(client, 'searchContacts', {
+        query: '',
+        limit: 1,
+        cursor: page.data.nextCursor,
+      });
+      expect(next.data.contacts.map((c: { displayName: string }) => c.displayName)).toEqual([
+        'Jane Roe',
+      ]);
+
+      const analytics = await callTool(client, 'analyzeContactDatabase', {});
+      expect(analytics.data.analytics).toMatchObject({ totalContacts: 2, contactsWithEmails: 1 });
+
+      await client.close();
+    });
+
+    it('should run bulk operations in parallel within the request limit', async () => {
+      const config = server.getConfig({ http: { maxConcurrentRequests: 2 } });
+      const service = new ContactService(config);
+      const contacts = await Promise.all(
+        ['Ann', 'Bob', 'Cy', 'Dee', 'Eve'].map((displayName) =>
+          service.createContact('contacts', { displayName }),
+        ),
+      );
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: config },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerContactTools(mcpServer, accounts.getContactService);
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      // Slow answers, so that the updates overlap
+      server.failNext(...contacts.map(() => ({ delay: 20 })));
+      server.peakConcurrency = 0;
+      const result = await callTool(client, 'bulkUpdateContacts', {
+        addressBookId: 'contacts',
+        contactIds: [...contacts.map((contact) => contact.id), 'missing'],
+        updates: { organization: 'ACME' },
+      });
+
+      expect(result.data.results.updated).toBe(5);
+      expect(result.data.results.errors).toEqual([
+        { contactId: 'missing', error: expect.any(String) },
+      ]);
+      expect(server.peakConcurrency).toBe(2);
+      const updated = await service.searchContacts('');
+      expect(updated.map((contact) => contact.organization)).toEqual(Array(5).fill('ACME'));
+
+      await client.close();
+    });
+
+    it('should retry failed requests and report failing servers through the health tool', async () => {
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: {
+          default: server.getConfig({ http: { retryDelay: 1, circuitThreshold: 3 } }),
+        },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerHealthTools(mcpServer);
+      registerContactTools(mcpServer, accounts.getContactService);
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      const host = new URL(server.baseUrl).host;
+
+      // A restarting server is retried without the caller noticing
+      server.failNext({}, { status: 503, headers: { 'Retry-After': '0' } });
+      const listed = await callTool(client, 'listContacts', { addressBookId: 'contacts' });
+      expect(listed.isError).toBeFalsy();
+
+      // One that keeps failing opens the circuit, so further requests fail fast
+      server.failNext({ status: 502 }, { status: 502 }, { status: 502 }, { status: 502 });
+      const failed = await callTool(client, 'listContacts', { addressBookId: 'contacts' });
+      expect(failed.isError).toBe(true);
+      expect(failed.text).toContain('Service unavailable');
+
+      const health = await callTool(client, 'health', {});
+      expect(health.data.status).not.toBe('ok');
+      expect(health.data.circuits).toContainEqual(
+        expect.objectContaining({
+          host,
+          state: 'open',
+          consecutiveFailures: 3,
+          lastError: 'HTTP 502',
+        }),
+      );
+      expect(health.text).toContain(`${host}: open (3 failures, last error HTTP 502`);
+
+      server.requests.length = 0;
+      const paused = await callTool(client, 'listContacts', { addressBookId: 'contacts' });
+      expect(paused.text).toContain(`${host} keeps failing`);
+      expect(server.requests).toEqual([]);
+
+      await client.close();
+    });
+
+    it('should expose calendars and events as resources and notify subscribers', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerCalendarResources(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+        20,
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const { resources } = await client.listResources();
+      expect(resources.map((resource) => resource.uri)).toEqual([
+        'nextcloud://calendars',
+        'nextcloud://addressbooks',
+        'nextcloud://calendar/personal/events',
+        'nextcloud://addressbook/contacts/contacts',
+      ]);
+
+      const read = await client.readResource({
+        uri: 'nextcloud://calendar/personal/events/review',
+      });
+      expect(JSON.parse((read.contents[0] as { text: string }).text)).toMatchObject({
+        title: 'review',
+      });
+
+      const updated: string[] = [];
+      const notified = new Promise<void>((resolve) =>
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+          updated.push(notification.params.uri);
+          if (updated.length === 2) resolve();
+        }),
+      );
+      await client.subscribeResource({ uri: 'nextcloud://calendar/personal/events' });
+      await client.subscribeResource({ uri: 'nextcloud://calendar/personal/events/review' });
+      await client.subscribeResource({ uri: 'nextcloud://addressbook/contacts/contacts' });
+      await expect(client.subscribeResource({ uri: 'nextcloud://unknown' })).rejects.toThrow(
+        'Unknown resource',
+      );
+
+      server.putCalendarObject('personal', 'review.ics', event('review', ['LOCATION:Room 2']));
+      await notified;
+
+      expect(updated.sort()).toEqual([
+        'nextcloud://calendar/personal/events',
+        'nextcloud://calendar/personal/events/review',
+      ]);
+
+      await client.close();
+    });
+
+    it('should notify clients when collections are created or deleted', async () => {
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerContactTools(mcpServer, accounts.getContactService);
+      registerCalendarResources(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+        20,
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+      expect(client.getServerCapabilities()?.resources).toMatchObject({ listChanged: true });
+
+      let notify = () => {};
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => notify());
+      const nextListChange = () => new Promise<void>((resolve) => (notify = resolve));
+
+      // Through a tool of this server
+      let listChanged = nextListChange();
+      const created = await callTool(client, 'createAddressBook', { displayName: 'Work' });
+      expect(created.isError).toBeFalsy();
+      await listChanged;
+
+      // By another client, noticed while the list is subscribed
+      await client.subscribeResource({ uri: 'nextcloud://calendars' });
+      listChanged = nextListChange();
+      server.addCalendar('work');
+      await listChanged;
+
+      const { resources } = await client.listResources();
+      expect(resources.map((resource) => resource.uri)).toContain(
+        'nextcloud://calendar/work/events',
+      );
+
+      await client.close();
+    });
+
+    it('should embed the events of a day and week in prompts', async () => {
+      server.putCalendarObject('personal', 'review.ics', event('review', ['LOCATION:Room 2']));
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerCalendarPrompts(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+        accounts.getTimezoneService,
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const { prompts } = await client.listPrompts();
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'plan-my-day',
+        'weekly-review',
+        'prepare-for-meeting',
+        'clean-contacts',
+      ]);
+
+      const day = await client.getPrompt({
+        name: 'plan-my-day',
+        arguments: { date: '2025-01-06' },
+      });
+      const dayText = (day.messages[0].content as { text: string }).text;
+      expect(dayText).toContain('Monday, January 6, 2025');
+      expect(dayText).toContain(': review (calendar personal, id review)');
+      expect(dayText).toContain('Location: Room 2');
+
+      const week = await client.getPrompt({
+        name: 'weekly-review',
+        arguments: { date: '2025-01-01' },
+      });
+      const weekText = (week.messages[0].content as { text: string }).text;
+      expect(weekText).toContain('Events of the week (0)');
+      expect(weekText).toContain('Events of the following week (1)');
+
+      await expect(
+        client.getPrompt({ name: 'plan-my-day', arguments: { date: '2025-02-30' } }),
+      ).rejects.toThrow('Invalid date');
+
+      await client.close();
+    });
+
+    it('should look up the participants of a meeting in parallel', async () => {
+      const config = server.getConfig({ http: { maxConcurrentRequests: 3 } });
+      const contactService = new ContactService(config);
+      const names = ['ann', 'bob', 'cy'];
+      for (const name of names) {
+        await contactService.createContact('contacts', {
+          displayName: name,
+          emails: [{ type: 'work', email: `${name}@example.com` }],
+        });
+      }
+      // Tomorrow, so that the meeting is upcoming
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000)
+        .toISOString()
+        .slice(0, 10)
+        .replace(/-/g, '');
+      server.putCalendarObject(
+        'personal',
+        'kickoff.ics',
+        event(
+          'kickoff',
+          names.map((name) => `ATTENDEE;CN=${name}:mailto:${name}@example.com`),
+        ).replace(/20250106/g, tomorrow),
+      );
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: config },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerCalendarPrompts(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+        accounts.getTimezoneService,
+      );
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      // Slow answers, so that the lookups overlap
+      server.failNext(...Array.from({ length: 20 }, () => ({ delay: 20 })));
+      server.peakConcurrency = 0;
+      const prompt = await client.getPrompt({
+        name: 'prepare-for-meeting',
+        arguments: { meeting: 'kickoff' },
+      });
+      const text = (prompt.messages[0].content as { text: string }).text;
+
+      names.forEach((name) => expect(text).toContain(`${name}@example.com`));
+      expect(server.peakConcurrency).toBeGreaterThan(1);
+
+      await client.close();
+    });
+
+    it('should embed the occurrences of recurring events in prompts', async () => {
+      server.putCalendarObject('personal', 'standup.ics', event('standup', ['RRULE:FREQ=DAILY']));
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig() },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerCalendarPrompts(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+        accounts.getTimezoneService,
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const day = await client.getPrompt({
+        name: 'plan-my-day',
+        arguments: { date: '2025-01-08' },
+      });
+      const dayText = (day.messages[0].content as { text: string }).text;
+      expect(dayText).toContain(
+        '- Wednesday, January 8, 2025 at 10:00 AM - 01/08/2025, 11:00 AM: standup (calendar personal',
+      );
+
+      const week = await client.getPrompt({
+        name: 'weekly-review',
+        arguments: { date: '2025-01-13' },
+      });
+      const weekText = (week.messages[0].content as { text: string }).text;
+      expect(weekText).toContain('Events of the week (7)');
+
+      await client.close();
+    });
+
+    it('should sync all calendars and address books with syncNow', async () => {
+      const cacheDir = mkdtempSync(join(tmpdir(), 'sync-cache-'));
+      server.putCalendarObject('personal', 'review.ics', event('review'));
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: { default: server.getConfig({ cacheDir }) },
+      });
+      const mcpServer = new McpServer({ name: 'test-server', version: '1.0.0' });
+      registerSyncTools(
+        mcpServer,
+        accounts.getCalendarService,
+        accounts.getEventService,
+        accounts.getContactService,
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await mcpServer.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const result = await callTool(client, 'syncNow', {});
+
+      expect(result.data.collections).toEqual([
+        { type: 'calendar', id: 'personal', success: true, changed: 1, deleted: 0, total: 1 },
+        { type: 'addressBook', id: 'contacts', success: true, changed: 0, deleted: 0, total: 0 },
+      ]);
+
+      await client.close();
+      rmSync(cacheDir, { recursive: true, force: true });
+    });
+  });
+});
+
+describe('FakeDavServer', () => {
+  let server: FakeDavServer;
+  let collectionUrl: string;
+
+  const dav = (method: string, url: string, data?: string, headers: Record<string, string> = {}) =>
+    axios({
+      method,
+      url,
+      data,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${server.username}:${server.appToken}`).toString('base64')}`,
+        ...headers,
+      },
+      validateStatus: () => true,
+    });
+
+  const syncReport = (token = '') => `<?xml version="1.0"?>
+<d:sync-collection xmlns:d="DAV:">
+  <d:sync-token>${token}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop><d:getetag/></d:prop>
+</d:sync-collection>`;
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    server = new FakeDavServer();
+    await server.start();
+    collectionUrl = `${server.baseUrl}/remote.php/dav/calendars/${server.username}/personal/`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should reject requests without valid credentials', async () => {
+    const response = await axios({
+      method: 'PROPFIND',
+      url: collectionUrl,
+      validateStatus: () => true,
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toContain('Basic');
+  });
+
+  it('should enforce If-Match and If-None-Match on PUT and DELETE', async () => {
+    const url = `${collectionUrl}a.ics`;
+
+    const created = await dav('PUT', url, event('a'), { 'If-None-Match': '*' });
+    const duplicate = await dav('PUT', url, event('a'), { 'If-None-Match': '*' });
+    const stale = await dav('DELETE', url, undefined, { 'If-Match': '"outdated"' });
+    const deleted = await dav('DELETE', url, undefined, { 'If-Match': created.headers.etag });
+
+    expect(created.status).toBe(201);
+    expect(duplicate.status).toBe(412);
+    expect(stale.status).toBe(412);
+    expect(deleted.status).toBe(204);
+  });
+
+  it('should reject objects with a UID used by another object', async () => {
+    server.putCalendarObject('personal', 'a.ics', event('same'));
+
+    const response = await dav('PUT', `${collectionUrl}b.ics`, event('same'), {
+      'Content-Type': 'text/calendar',
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.data).toContain('no-uid-conflict');
+  });
+
+  it('should reject components the calendar does not support', async () => {
+    const journal = event('note').replace(/VEVENT/g, 'VJOURNAL');
+
+    const response = await dav('PUT', `${collectionUrl}note.ics`, journal);
+
+    expect(response.status).toBe(403);
+    expect(response.data).toContain('supported-calendar-component');
+  });
+
+  it('should report changes since a sync token', async () => {
+    server.putCalendarObject('personal', 'a.ics', event('a'));
+    server.putCalendarObject('personal', 'b.ics', event('b'));
+
+    const initial = await dav('REPORT', collectionUrl, syncReport());
+    const token = /<d:sync-token>(.*?)<\/d:sync-token>/.exec(initial.data)![1];
+
+    server.putCalendarObject('personal', 'c.ics', event('c'));
+    await dav('DELETE', `${collectionUrl}a.ics`);
+    const changes = await dav('REPORT', collectionUrl, syncReport(token));
+    const invalid = await dav('REPORT', collectionUrl, syncReport('http://sabre.io/ns/sync/99'));
+
+    expect(initial.data.match(/<d:href>[^<]*\.ics<\/d:href>/g)).toHaveLength(2);
+    expect(changes.data).toMatch(/a\.ics<\/d:href><d:status>HTTP\/1\.1 404 Not Found/);
+    expect(changes.data).toContain('c.ics');
+    expect(changes.data).not.toContain('b.ics');
+    expect(invalid.status).toBe(403);
+  });
+
+  it('should answer multiget with the requested objects', async () => {
+    server.putCalendarObject('personal', 'a.ics', event('a'));
+
+    const response = await dav(
+      'REPORT',
+      collectionUrl,
+      `<?xml version="1.0"?>
+<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <d:href>${collectionUrl}a.ics</d:href>
+  <d:href>${collectionUrl}missing.ics</d:href>
+</c:calendar-multiget>`,
+    );
+
+    expect(response.status).toBe(207);
+    expect(response.data).toContain('UID:a');
+    expect(response.data).toMatch(/missing\.ics<\/d:href><d:status>HTTP\/1\.1 404/);
+  });
+});
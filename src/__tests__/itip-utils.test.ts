@@ -0,0 +1,140 @@
+import {
+  applyResponse,
+  extractCalendarUserAddresses,
+  findAttendee,
+  getMethod,
+  isScheduledByServer,
+  parseInvitation,
+  toCalendarObject,
+} from '../services/calendar/itip-utils.js';
+import {
+  parseDocument,
+  serializeDocument,
+  unfoldLines,
+} from '../services/calendar/ical-document.js';
+
+const addresses = ['me@example.com'];
+
+const requestData = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'UID:planning',
+  'SEQUENCE:2',
+  'SUMMARY:Quarterly planning',
+  'DTSTART:20250310T090000Z',
+  'DTEND:20250310T110000Z',
+  'RRULE:FREQ=MONTHLY;COUNT=3',
+  'ORGANIZER;CN=Alice:mailto:alice@example.com',
+  'ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:mailto:alice@example.com',
+  'ATTENDEE;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;X-NUM-GUESTS=0:mailto:Me@Example.com',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:planning',
+  'SEQUENCE:2',
+  'RECURRENCE-ID:20250410T090000Z',
+  'SUMMARY:Quarterly planning (remote)',
+  'DTSTART:20250410T090000Z',
+  'DTEND:20250410T110000Z',
+  'ORGANIZER;CN=Alice:mailto:alice@example.com',
+  'ATTENDEE;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:me@example.com',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('ItipUtils', () => {
+  describe('extractCalendarUserAddresses', () => {
+    it('should collect mailto addresses from a calendar-user-address-set', () => {
+      const properties = {
+        'cal:calendar-user-address-set': {
+          'd:href': ['mailto:Me@Example.com', '/remote.php/dav/principals/users/me/'],
+        },
+      };
+
+      expect(extractCalendarUserAddresses(properties)).toEqual(['me@example.com']);
+    });
+  });
+
+  describe('getMethod', () => {
+    it('should read the method of scheduling messages only', () => {
+      expect(getMethod(parseDocument(requestData))).toBe('REQUEST');
+      expect(getMethod(toCalendarObject(parseDocument(requestData)))).toBeUndefined();
+    });
+  });
+
+  describe('findAttendee', () => {
+    it('should match attendees case-insensitively', () => {
+      const [master] = parseDocument(requestData).components;
+
+      expect(findAttendee(master, addresses)?.value).toBe('mailto:Me@Example.com');
+      expect(findAttendee(master, ['bob@example.com'])).toBeUndefined();
+    });
+  });
+
+  describe('isScheduledByServer', () => {
+    it('should honour SCHEDULE-AGENT', () => {
+      const property = (agent?: string) => ({
+        name: 'ORGANIZER',
+        params: new Map(agent ? [['SCHEDULE-AGENT', agent]] : []),
+        value: 'mailto:alice@example.com',
+      });
+
+      expect(isScheduledByServer(property())).toBe(true);
+      expect(isScheduledByServer(property('SERVER'))).toBe(true);
+      expect(isScheduledByServer(property('CLIENT'))).toBe(false);
+      expect(isScheduledByServer(undefined)).toBe(false);
+    });
+  });
+
+  describe('applyResponse', () => {
+    it('should set the participation status in every component', () => {
+      const calendar = toCalendarObject(parseDocument(requestData));
+      applyResponse(calendar, addresses, 'tentative', 'Might be "late"');
+      const data = unfoldLines(serializeDocument(calendar)).join('\n');
+
+      expect(data).toContain(
+        "ATTENDEE;PARTSTAT=TENTATIVE;X-NUM-GUESTS=0;X-RESPONSE-COMMENT=Might be 'late':",
+      );
+      expect(data).toContain("ATTENDEE;PARTSTAT=TENTATIVE;X-RESPONSE-COMMENT=Might be 'late':");
+      expect(data).toContain('ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:mailto:alice@example.com');
+      expect(data).toContain('SEQUENCE:2');
+      expect(data).not.toContain('RSVP');
+    });
+
+    it('should reject users that are not invited', () => {
+      const calendar = parseDocument(requestData);
+
+      expect(() => applyResponse(calendar, ['bob@example.com'], 'accepted')).toThrow(
+        'not an attendee',
+      );
+    });
+  });
+
+  describe('parseInvitation', () => {
+    it('should describe a request addressed to the user', () => {
+      const invitation = parseInvitation(requestData, 'abc.ics', addresses);
+
+      expect(invitation).toMatchObject({
+        eventId: 'planning',
+        inboxItem: 'abc.ics',
+        title: 'Quarterly planning',
+        start: new Date('2025-03-10T09:00:00Z'),
+        organizer: 'alice@example.com',
+        status: 'needs-action',
+        sequence: 2,
+        isRecurring: true,
+      });
+      expect(invitation?.participants.map((participant) => participant.email)).toEqual([
+        'alice@example.com',
+      ]);
+    });
+
+    it('should ignore other messages and requests for other users', () => {
+      expect(
+        parseInvitation(requestData.replace('METHOD:REQUEST', 'METHOD:CANCEL'), 'a.ics', addresses),
+      ).toBeNull();
+      expect(parseInvitation(requestData, 'a.ics', ['bob@example.com'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  addJournalRelation,
+  createJournalDocument,
+  findJournalComponents,
+  parseJournalEntries,
+} from '../services/calendar/journal-utils.js';
+import { parseDocument, serializeDocument } from '../services/calendar/ical-document.js';
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+const journalData = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VJOURNAL',
+  'UID:minutes',
+  'SUMMARY:Kickoff minutes',
+  'DTSTART;VALUE=DATE:20250106',
+  'DESCRIPTION:Scope agreed\\; budget pending',
+  'DESCRIPTION:Next meeting in two weeks',
+  'STATUS:DRAFT',
+  'CATEGORIES:Meeting',
+  'RELATED-TO:kickoff',
+  'X-NC-PINNED:TRUE',
+  'END:VJOURNAL',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('JournalUtils', () => {
+  describe('parseJournalEntries', () => {
+    it('should parse journal properties', () => {
+      const [entry] = parseJournalEntries(journalData, 'notes');
+
+      expect(entry).toMatchObject({
+        id: 'minutes',
+        calendarId: 'notes',
+        title: 'Kickoff minutes',
+        description: 'Scope agreed; budget pending\n\nNext meeting in two weeks',
+        isAllDay: true,
+        status: 'draft',
+        categories: ['Meeting'],
+        relatedTo: ['kickoff'],
+      });
+      expect(entry.date!.getDate()).toBe(6);
+    });
+
+    it('should ignore other components', () => {
+      const data = journalData.replace(/VJOURNAL/g, 'VTODO');
+
+      expect(parseJournalEntries(data, 'notes')).toEqual([]);
+    });
+  });
+
+  describe('addJournalRelation', () => {
+    it('should add a relation once and keep other properties', () => {
+      const calendar = parseDocument(journalData);
+      const [journal] = findJournalComponents(calendar);
+
+      expect(addJournalRelation(journal, 'kickoff')).toBe(false);
+      expect(addJournalRelation(journal, 'follow-up')).toBe(true);
+
+      const data = serializeDocument(calendar);
+      expect(data).toContain('RELATED-TO:kickoff\r\n');
+      expect(data).toContain('RELATED-TO:follow-up\r\n');
+      expect(data).toContain('X-NC-PINNED:TRUE');
+    });
+  });
+
+  describe('createJournalDocument', () => {
+    it('should create a VJOURNAL with the given values', () => {
+      const calendar = createJournalDocument('new-entry', {
+        title: 'Retro, sprint 3',
+        description: 'Went well',
+        date: utc('2025-01-10T15:00:00'),
+        relatedTo: ['retro'],
+      });
+
+      const data = serializeDocument(calendar);
+      const [entry] = parseJournalEntries(data, 'notes');
+
+      expect(data).toContain('BEGIN:VJOURNAL');
+      expect(data).toContain('DTSTART:20250110T150000Z');
+      expect(data).toContain('SUMMARY:Retro\\, sprint 3');
+      expect(entry).toMatchObject({
+        id: 'new-entry',
+        title: 'Retro, sprint 3',
+        status: 'final',
+        relatedTo: ['retro'],
+      });
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { Logger } from '../services/logger.js';
+
+describe('Logger', () => {
+  describe('maskSensitiveData', () => {
+    it('should mask sensitive fields of nested objects', () => {
+      const masked = Logger.maskSensitiveData({
+        user: 'alice',
+        config: { appToken: 'secret-app-token', password: 'pw' },
+      });
+
+      expect(masked).toEqual({
+        user: 'alice',
+        config: { appToken: 's***n', password: '***' },
+      });
+    });
+
+    it('should stop at circular references', () => {
+      // HTTP errors reference their request, which references the error again
+      const error: Record<string, unknown> = { message: 'Request failed', password: 'hunter22' };
+      error.request = { error };
+
+      const masked = Logger.maskSensitiveData(error);
+
+      expect(masked).toEqual({
+        message: 'Request failed',
+        password: 'h***2',
+        request: { error: '[Circular]' },
+      });
+    });
+  });
+});
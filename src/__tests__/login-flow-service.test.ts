@@ -0,0 +1,216 @@
+import { jest } from '@jest/globals';
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, statSync } from 'fs';
+import { IncomingMessage, Server, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createAccountConfig } from '../config/config.js';
+import { readStoredCredentials, saveCredentials } from '../config/credentials.js';
+import { registerLoginTools } from '../handlers/login-tools.js';
+import { AccountService } from '../services/account-service.js';
+import { LoginFlowService } from '../services/login-flow-service.js';
+
+const readBody = async (req: IncomingMessage) => {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+};
+
+describe('LoginFlowService', () => {
+  let server: Server;
+  let baseUrl: string;
+  let pendingPolls: number;
+  let otherOrigin: { pollEndpoint: boolean; server: boolean };
+  const pollBodies: string[] = [];
+
+  // Stub of the Login Flow v2 endpoints of a Nextcloud server
+  beforeEach(async () => {
+    jest.useRealTimers();
+    pendingPolls = 2;
+    otherOrigin = { pollEndpoint: false, server: false };
+    pollBodies.length = 0;
+
+    server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'POST' && req.url === '/index.php/login/v2') {
+        res.end(
+          JSON.stringify({
+            poll: {
+              token: 'poll-token',
+              endpoint: `${otherOrigin.pollEndpoint ? 'http://internal.example' : baseUrl}/login/v2/poll`,
+            },
+            login: `${baseUrl}/login/v2/flow/abc`,
+          }),
+        );
+      } else if (req.method === 'POST' && req.url === '/login/v2/poll') {
+        pollBodies.push(body);
+        if (pendingPolls-- > 0) {
+          res.writeHead(404).end('[]');
+        } else {
+          res.end(
+            JSON.stringify({
+              server: otherOrigin.server ? 'https://attacker.example/' : `${baseUrl}/`,
+              loginName: 'alice',
+              appPassword: 'granted',
+            }),
+          );
+        }
+      } else {
+        res.writeHead(500).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should start a login and wait until access is granted', async () => {
+    const service = new LoginFlowService(baseUrl);
+
+    const flow = await service.start();
+    const result = await service.poll(flow, { interval: 10 });
+
+    expect(flow.loginUrl).toBe(`${baseUrl}/login/v2/flow/abc`);
+    expect(pollBodies).toEqual(['token=poll-token', 'token=poll-token', 'token=poll-token']);
+    expect(result).toEqual({ server: baseUrl, loginName: 'alice', appPassword: 'granted' });
+  });
+
+  it('should give up when access is not granted in time', async () => {
+    pendingPolls = Infinity;
+    const service = new LoginFlowService(baseUrl);
+    const flow = await service.start();
+
+    await expect(service.poll(flow, { interval: 10, timeout: 50 })).rejects.toThrow('timed out');
+  });
+
+  it('should only talk to and accept logins of the server it started on', async () => {
+    const service = new LoginFlowService(baseUrl);
+
+    otherOrigin.pollEndpoint = true;
+    await expect(service.start()).rejects.toThrow('poll endpoint is not on the Nextcloud server');
+
+    otherOrigin = { pollEndpoint: false, server: true };
+    pendingPolls = 0;
+    const flow = await service.start();
+    await expect(service.poll(flow, { interval: 10 })).rejects.toThrow('for another server');
+  });
+
+  it('should report servers without Login Flow v2', async () => {
+    const service = new LoginFlowService(`${baseUrl}/missing`);
+
+    await expect(service.start()).rejects.toThrow('Failed to start login');
+  });
+});
+
+describe('startLogin tool', () => {
+  let client: Client;
+  let otherServer: Server;
+  let otherUrl: string;
+  let requests: number;
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    requests = 0;
+    // Server that is not the one of the account, e.g. an internal service
+    otherServer = createServer((req, res) => {
+      requests++;
+      res.writeHead(500).end();
+    });
+    await new Promise<void>((resolve) => otherServer.listen(0, '127.0.0.1', resolve));
+    otherUrl = `http://127.0.0.1:${(otherServer.address() as AddressInfo).port}`;
+
+    const accounts = new AccountService({
+      defaultAccount: 'work',
+      accounts: {
+        work: createAccountConfig('work', {
+          baseUrl: 'https://work.example.com',
+          username: 'alice',
+          appToken: 'alice-app-token',
+        }),
+      },
+    });
+    const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerLoginTools(server, accounts);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await new Promise((resolve) => otherServer.close(resolve));
+  });
+
+  const startLogin = (args: Record<string, unknown>) =>
+    client.callTool({ name: 'startLogin', arguments: args });
+
+  it('should not start logins for accounts that are not configured', async () => {
+    const result = await startLogin({ account: 'family', server: otherUrl });
+
+    expect(result.isError).toBe(true);
+    expect(requests).toBe(0);
+  });
+
+  it('should not start logins on another server than the one of the account', async () => {
+    const result = await startLogin({ account: 'work', server: otherUrl });
+
+    expect(result.isError).toBe(true);
+    expect(requests).toBe(0);
+  });
+});
+
+describe('Credential file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'credentials-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store logins readable by the owner only', () => {
+    const path = join(dir, 'nested', 'credentials.json');
+    const work = { baseUrl: 'https://work.example.com', username: 'alice', appToken: 't1' };
+    const family = { baseUrl: 'https://family.example.com', username: 'bob', appToken: 't2' };
+
+    saveCredentials('work', work, path);
+    saveCredentials('family', family, path);
+    saveCredentials('work', { ...work, appToken: 't3' }, path);
+
+    expect(readStoredCredentials(path)).toEqual({ work: { ...work, appToken: 't3' }, family });
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(statSync(join(dir, 'nested')).mode & 0o777).toBe(0o700);
+  });
+
+  it('should make an existing directory readable by the owner only', () => {
+    const existing = join(dir, 'shared');
+    mkdirSync(existing, { mode: 0o755 });
+    chmodSync(existing, 0o755);
+
+    saveCredentials(
+      'work',
+      { baseUrl: 'https://work.example.com', username: 'alice', appToken: 't1' },
+      join(existing, 'credentials.json'),
+    );
+
+    expect(statSync(existing).mode & 0o777).toBe(0o700);
+  });
+
+  it('should treat a missing file as no logins', () => {
+    expect(readStoredCredentials(join(dir, 'missing.json'))).toEqual({});
+  });
+});
@@ -0,0 +1,360 @@
+import { jest } from '@jest/globals';
+import { Buffer } from 'buffer';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { AddressInfo } from 'net';
+import { createServer as createHttpServer, request } from 'http';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createAccountConfig, loadConfig } from '../config/config.js';
+import { createMcpServer as createServer } from '../handlers/mcp-server.js';
+import { AccountService } from '../services/account-service.js';
+import { AuthService, SessionCredentials } from '../services/auth-service.js';
+import { redactSecrets } from '../utils/error.js';
+import {
+  getActiveSessionCount,
+  startHttpTransport,
+  stopHttpTransport,
+} from '../handlers/mcp-transport.js';
+
+interface HttpResult {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+// Servers created for sessions, in order
+const servers: McpServer[] = [];
+
+const createMcpServer = async (credentials?: SessionCredentials) => {
+  const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+  servers.push(server);
+  server.tool('echo', { text: z.string() }, async ({ text }) => ({
+    content: [{ type: 'text', text }],
+  }));
+  server.tool('whoami', {}, async () => ({
+    content: [{ type: 'text', text: credentials?.username ?? 'anonymous' }],
+  }));
+  return server;
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('MCP HTTP transport', () => {
+  let port: number;
+
+  const send = (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<HttpResult> =>
+    new Promise((resolve, reject) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          method,
+          path,
+          headers: {
+            Accept: 'application/json, text/event-stream',
+            'Content-Type': 'application/json',
+            ...headers,
+          },
+        },
+        (res) => {
+          let data = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () =>
+            resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data }),
+          );
+        },
+      );
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+
+  // Responses of the streamable transport are sent as server-sent events
+  const parseEvent = (body: string) =>
+    JSON.parse(
+      body
+        .split('\n')
+        .find((line) => line.startsWith('data: '))!
+        .slice(6),
+    );
+
+  const initialize = async (headers: Record<string, string> = {}) => {
+    const result = await send('POST', '/mcp', initializeRequest, headers);
+    const sessionId = result.headers['mcp-session-id'] as string;
+    await send(
+      'POST',
+      '/mcp',
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { ...headers, 'mcp-session-id': sessionId },
+    );
+    return { result, sessionId };
+  };
+
+  const start = async (authService?: AuthService, createServer = createMcpServer) => {
+    const server = await startHttpTransport(createServer, {
+      port: 0,
+      host: '127.0.0.1',
+      keepAliveInterval: 30000,
+      authenticate: authService ? (req) => authService.authenticate(req.headers) : undefined,
+    });
+    port = (server.address() as AddressInfo).port;
+  };
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    await start();
+  });
+
+  afterEach(async () => {
+    await stopHttpTransport();
+  });
+
+  it('should create a session on initialize and serve requests within it', async () => {
+    const { result, sessionId } = await initialize();
+
+    expect(result.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(parseEvent(result.body).result.serverInfo.name).toBe('test-server');
+    expect(getActiveSessionCount()).toBe(1);
+
+    const call = await send(
+      'POST',
+      '/mcp',
+      {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'echo', arguments: { text: 'hi' } },
+      },
+      { 'mcp-session-id': sessionId },
+    );
+
+    expect(parseEvent(call.body).result.content).toEqual([{ type: 'text', text: 'hi' }]);
+  });
+
+  it('should keep sessions of different clients apart', async () => {
+    const first = await initialize();
+    const second = await initialize();
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect(getActiveSessionCount()).toBe(2);
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const unknown = await send(
+      'POST',
+      '/mcp',
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'missing' },
+    );
+    const missing = await send('POST', '/mcp', { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(400);
+  });
+
+  it('should reject malformed JSON', async () => {
+    const result = await new Promise<number>((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, method: 'POST', path: '/mcp' }, (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      req.end('{not json');
+    });
+
+    expect(result).toBe(400);
+  });
+
+  it('should close the server of an initialize request that fails', async () => {
+    const result = await send('POST', '/mcp', initializeRequest, { Accept: 'application/json' });
+
+    expect(result.status).toBe(406);
+    expect(getActiveSessionCount()).toBe(0);
+    expect(servers[servers.length - 1].server.transport).toBeUndefined();
+  });
+
+  it('should end sessions on DELETE', async () => {
+    const { sessionId } = await initialize();
+
+    const result = await send('DELETE', '/mcp', undefined, { 'mcp-session-id': sessionId });
+
+    expect(result.status).toBe(200);
+    expect(getActiveSessionCount()).toBe(0);
+  });
+
+  it('should close all sessions on shutdown', async () => {
+    await initialize();
+    await initialize();
+
+    await stopHttpTransport();
+
+    expect(getActiveSessionCount()).toBe(0);
+    await expect(send('GET', '/health')).rejects.toThrow();
+  });
+
+  it('should report its status', async () => {
+    await initialize();
+
+    const result = await send('GET', '/health');
+
+    expect(JSON.parse(result.body)).toEqual({ status: 'ok', sessions: 1 });
+  });
+
+  it('should act as the user that authenticated the session', async () => {
+    await stopHttpTransport();
+    await start(new AuthService('passthrough'));
+    const alice = { Authorization: `Basic ${Buffer.from('alice:alice-token').toString('base64')}` };
+    const mallory = {
+      Authorization: `Basic ${Buffer.from('alice:guessed-token').toString('base64')}`,
+    };
+    const whoami = {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name: 'whoami', arguments: {} },
+    };
+
+    const anonymous = await send('POST', '/mcp', initializeRequest);
+    const { sessionId } = await initialize(alice);
+    const call = await send('POST', '/mcp', whoami, { ...alice, 'mcp-session-id': sessionId });
+    const hijack = await send('POST', '/mcp', whoami, { ...mallory, 'mcp-session-id': sessionId });
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers['www-authenticate']).toBe('Basic realm="Nextcloud"');
+    expect(parseEvent(call.body).result.content).toEqual([{ type: 'text', text: 'alice' }]);
+    expect(hijack.status).toBe(403);
+  });
+
+  it('should redact the app token of a user only while a session of the user is open', async () => {
+    // The server of the application, whose sessions get account registries of their own
+    const accounts = new AccountService({
+      defaultAccount: 'default',
+      accounts: {
+        default: createAccountConfig('default', {
+          baseUrl: 'https://cloud.example.com',
+          username: 'admin',
+          appToken: 'admin-app-token',
+        }),
+      },
+    });
+    const serverConfig = { ...loadConfig().server, transport: 'http' as const };
+    await stopHttpTransport();
+    await start(new AuthService('passthrough'), (credentials) =>
+      createServer(serverConfig, accounts, credentials),
+    );
+    const carol = { Authorization: `Basic ${Buffer.from('carol:carol-token').toString('base64')}` };
+
+    const { sessionId } = await initialize(carol);
+    const list = await send(
+      'POST',
+      '/mcp',
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      {
+        ...carol,
+        'mcp-session-id': sessionId,
+      },
+    );
+    expect(parseEvent(list.body).result.tools).toContainEqual(
+      expect.objectContaining({ name: 'listCalendars' }),
+    );
+    expect(redactSecrets('failed for carol-token')).toBe('failed for [REDACTED]');
+
+    await send('DELETE', '/mcp', undefined, { ...carol, 'mcp-session-id': sessionId });
+    expect(redactSecrets('failed for carol-token')).toBe('failed for carol-token');
+  });
+
+  it('should keep logins of a session to the session', async () => {
+    // Stub of the Login Flow v2 endpoints, granting access on the first poll
+    const nextcloud = createHttpServer((req, res) => {
+      req.resume();
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/index.php/login/v2') {
+        res.end(
+          JSON.stringify({
+            poll: { token: 'poll-token', endpoint: `${baseUrl}/login/v2/poll` },
+            login: `${baseUrl}/login/v2/flow/abc`,
+          }),
+        );
+      } else {
+        res.end(
+          JSON.stringify({ server: baseUrl, loginName: 'alice', appPassword: 'alice-app-token' }),
+        );
+      }
+    });
+    await new Promise<void>((resolve) => nextcloud.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(nextcloud.address() as AddressInfo).port}`;
+    const dir = mkdtempSync(join(tmpdir(), 'mcp-login-'));
+    process.env.NEXTCLOUD_CREDENTIALS_FILE = join(dir, 'credentials.json');
+
+    try {
+      const accounts = new AccountService({
+        defaultAccount: 'default',
+        accounts: {
+          default: createAccountConfig('default', {
+            baseUrl,
+            username: 'admin',
+            appToken: 'admin-app-token',
+          }),
+        },
+      });
+      const serverConfig = { ...loadConfig().server, transport: 'http' as const };
+      await stopHttpTransport();
+      await start(undefined, (credentials) => createServer(serverConfig, accounts, credentials));
+      const callTool = async (sessionId: string, name: string) => {
+        const result = await send(
+          'POST',
+          '/mcp',
+          { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name, arguments: {} } },
+          { 'mcp-session-id': sessionId },
+        );
+        return parseEvent(result.body).result;
+      };
+      const first = await initialize();
+      const second = await initialize();
+
+      await callTool(first.sessionId, 'startLogin');
+      let status = JSON.parse((await callTool(first.sessionId, 'getLoginStatus')).content[0].text);
+      while (status.status === 'pending') {
+        await sleep(10);
+        status = JSON.parse((await callTool(first.sessionId, 'getLoginStatus')).content[0].text);
+      }
+      const usernames = async (sessionId: string) =>
+        JSON.parse((await callTool(sessionId, 'listAccounts')).content[0].text).accounts.map(
+          (account: { username: string }) => account.username,
+        );
+
+      expect(status).toMatchObject({ status: 'completed', username: 'alice' });
+      expect(await usernames(first.sessionId)).toEqual(['alice']);
+      expect(await usernames(second.sessionId)).toEqual(['admin']);
+      expect((await callTool(second.sessionId, 'getLoginStatus')).isError).toBe(true);
+      expect(accounts.getAccountConfig().appToken).toBe('admin-app-token');
+      expect(existsSync(process.env.NEXTCLOUD_CREDENTIALS_FILE)).toBe(false);
+      expect(redactSecrets('failed for alice-app-token')).toBe('failed for [REDACTED]');
+
+      await send('DELETE', '/mcp', undefined, { 'mcp-session-id': first.sessionId });
+      expect(redactSecrets('failed for alice-app-token')).toBe('failed for alice-app-token');
+    } finally {
+      delete process.env.NEXTCLOUD_CREDENTIALS_FILE;
+      rmSync(dir, { recursive: true, force: true });
+      await new Promise((resolve) => nextcloud.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { Contact, Event } from '../models/index.js';
+import * as MergeUtils from '../services/calendar/merge-utils.js';
+
+describe('MergeUtils', () => {
+  const event: Event = {
+    id: 'event-1',
+    calendarId: 'personal',
+    title: 'Planning',
+    start: new Date('2026-03-02T09:00:00Z'),
+    end: new Date('2026-03-02T10:00:00Z'),
+    isAllDay: false,
+    location: 'Room 1',
+    participants: [{ email: 'ann@example.com', status: 'accepted' }],
+    categories: ['work'],
+    created: new Date('2026-01-01T00:00:00Z'),
+    lastModified: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  const contact: Contact = {
+    id: 'contact-1',
+    url: 'https://example.com/contacts/contact-1.vcf',
+    displayName: 'Ann Lee',
+    emails: [{ type: 'work', email: 'ann@example.com' }],
+    phones: [{ type: 'mobile', number: '+1 555 0100' }],
+    addresses: [],
+    urls: [],
+    categories: [],
+    socialProfiles: [],
+    instantMessaging: [],
+    created: '2026-01-01T00:00:00Z',
+    lastModified: '2026-01-01T00:00:00Z',
+    addressBookId: 'contacts',
+    customFields: {},
+  };
+
+  describe('mergeEventChanges', () => {
+    it('should apply changes to fields the other client did not change', () => {
+      const current = { ...event, location: 'Room 2' };
+
+      const result = MergeUtils.mergeEventChanges(event, current, { title: 'Sprint planning' });
+
+      expect(result.changes).toEqual({ title: 'Sprint planning' });
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should skip changes the other client already made', () => {
+      const current = { ...event, title: 'Sprint planning' };
+
+      const result = MergeUtils.mergeEventChanges(event, current, { title: 'Sprint planning' });
+
+      expect(result.changes).toEqual({});
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should keep attendees added on both sides', () => {
+      const current = {
+        ...event,
+        participants: [
+          ...event.participants!,
+          { email: 'bob@example.com', status: 'needs-action' as const },
+        ],
+      };
+
+      const result = MergeUtils.mergeEventChanges(event, current, {
+        participants: [...event.participants!, { email: 'cy@example.com', status: 'needs-action' }],
+      });
+
+      expect(result.changes.participants?.map((p) => p.email)).toEqual([
+        'ann@example.com',
+        'bob@example.com',
+        'cy@example.com',
+      ]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should report an attendee both sides changed differently', () => {
+      const current: Event = {
+        ...event,
+        participants: [{ email: 'ann@example.com', status: 'declined' }],
+      };
+
+      const result = MergeUtils.mergeEventChanges(event, current, {
+        participants: [{ email: 'ANN@example.com', status: 'tentative' }],
+      });
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].field).toBe('participants[ann@example.com]');
+    });
+
+    it('should merge start, end and all-day flag as one field', () => {
+      const current = { ...event, end: new Date('2026-03-02T11:00:00Z') };
+
+      const result = MergeUtils.mergeEventChanges(event, current, {
+        start: new Date('2026-03-02T08:00:00Z'),
+      });
+
+      expect(result.changes).toEqual({});
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ field: 'start/end/isAllDay', theirs: expect.any(Array) }),
+      ]);
+    });
+  });
+
+  describe('mergeContactChanges', () => {
+    it('should merge emails and phones item by item', () => {
+      const current = {
+        ...contact,
+        emails: [...contact.emails, { type: 'home' as const, email: 'ann@home.example' }],
+      };
+
+      const result = MergeUtils.mergeContactChanges(contact, current, {
+        emails: contact.emails,
+        phones: [{ type: 'mobile', number: '+1-555-0100' }],
+      });
+
+      expect(result.changes.emails).toBeUndefined();
+      expect(result.changes.phones).toEqual([{ type: 'mobile', number: '+1-555-0100' }]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should report fields both sides changed differently', () => {
+      const current = { ...contact, displayName: 'Ann Miller' };
+
+      const result = MergeUtils.mergeContactChanges(contact, current, { displayName: 'Ann Kim' });
+
+      expect(result.conflicts).toEqual([
+        { field: 'displayName', base: 'Ann Lee', mine: 'Ann Kim', theirs: 'Ann Miller' },
+      ]);
+    });
+  });
+});
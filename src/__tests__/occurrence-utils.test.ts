@@ -0,0 +1,117 @@
+import * as OccurrenceUtils from '../services/calendar/occurrence-utils.js';
+import { getProperties, getProperty, parseDocument } from '../services/calendar/ical-document.js';
+
+const resource = () =>
+  parseDocument(
+    [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Nextcloud calendar v1//EN',
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Paris',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'SEQUENCE:2',
+      'SUMMARY:Standup',
+      'DTSTART;TZID=Europe/Paris:20250106T093000',
+      'DTEND;TZID=Europe/Paris:20250106T094500',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,TU;COUNT=10',
+      'EXDATE;TZID=Europe/Paris:20250113T093000',
+      'X-NEXTCLOUD-FLAG:keep',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID;TZID=Europe/Paris:20250121T093000',
+      'SUMMARY:Standup (late)',
+      'DTSTART;TZID=Europe/Paris:20250121T110000',
+      'DTEND;TZID=Europe/Paris:20250121T111500',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n'),
+  );
+
+// 09:30 in Paris during winter
+const occurrence = (day: string) => new Date(`2025-01-${day}T08:30:00Z`);
+
+describe('OccurrenceUtils', () => {
+  describe('overrideOccurrence', () => {
+    it('should add a RECURRENCE-ID override copied from the master', () => {
+      const calendar = resource();
+
+      const override = OccurrenceUtils.overrideOccurrence(calendar, occurrence('07'), {
+        title: 'Standup (moved)',
+        start: new Date('2025-01-07T13:00:00Z'),
+      });
+
+      expect(calendar.components.filter((c) => c.name === 'VEVENT')).toHaveLength(3);
+      expect(getProperty(override, 'RECURRENCE-ID')?.value).toBe('20250107T093000');
+      expect(getProperty(override, 'RECURRENCE-ID')?.params.get('TZID')).toBe('Europe/Paris');
+      expect(getProperty(override, 'DTSTART')?.value).toBe('20250107T140000');
+      expect(getProperty(override, 'DTEND')?.value).toBe('20250107T141500');
+      expect(getProperty(override, 'SUMMARY')?.value).toBe('Standup (moved)');
+      expect(getProperty(override, 'RRULE')).toBeUndefined();
+      expect(getProperty(override, 'EXDATE')).toBeUndefined();
+      expect(getProperty(override, 'X-NEXTCLOUD-FLAG')?.value).toBe('keep');
+      expect(getProperty(override, 'SEQUENCE')?.value).toBe('3');
+    });
+
+    it('should update an existing override in place', () => {
+      const calendar = resource();
+
+      OccurrenceUtils.overrideOccurrence(calendar, occurrence('21'), { location: 'Room 2' });
+
+      const events = calendar.components.filter((c) => c.name === 'VEVENT');
+      expect(events).toHaveLength(2);
+      expect(getProperty(events[1], 'LOCATION')?.value).toBe('Room 2');
+      expect(getProperty(events[1], 'SUMMARY')?.value).toBe('Standup (late)');
+    });
+  });
+
+  describe('excludeOccurrence', () => {
+    it('should add an EXDATE in the form of DTSTART and drop the override', () => {
+      const calendar = resource();
+
+      OccurrenceUtils.excludeOccurrence(calendar, occurrence('21'));
+
+      const { master, overrides } = OccurrenceUtils.findSeries(calendar);
+      expect(overrides).toHaveLength(0);
+      expect(getProperties(master, 'EXDATE').map((p) => p.value)).toEqual([
+        '20250113T093000',
+        '20250121T093000',
+      ]);
+    });
+  });
+
+  describe('splitSeries', () => {
+    it('should truncate the original series and move later data to the new one', () => {
+      const calendar = resource();
+
+      // Occurrences before the split: 6, 7, 13 (excluded but counted), 14
+      const newCalendar = OccurrenceUtils.splitSeries(calendar, occurrence('20'), 'standup-2', 4);
+
+      const original = OccurrenceUtils.findSeries(calendar);
+      expect(getProperty(original.master, 'RRULE')?.value).toBe(
+        'FREQ=WEEKLY;BYDAY=MO,TU;UNTIL=20250120T082959Z',
+      );
+      expect(getProperties(original.master, 'EXDATE')).toHaveLength(1);
+      expect(original.overrides).toHaveLength(0);
+
+      const series = OccurrenceUtils.findSeries(newCalendar);
+      expect(getProperty(series.master, 'UID')?.value).toBe('standup-2');
+      expect(getProperty(series.master, 'DTSTART')?.value).toBe('20250120T093000');
+      expect(getProperty(series.master, 'DTEND')?.value).toBe('20250120T094500');
+      expect(getProperty(series.master, 'RRULE')?.value).toBe('FREQ=WEEKLY;BYDAY=MO,TU;COUNT=6');
+      expect(getProperty(series.master, 'EXDATE')).toBeUndefined();
+      expect(series.overrides).toHaveLength(1);
+      expect(getProperty(series.overrides[0], 'UID')?.value).toBe('standup-2');
+      expect(newCalendar.components[0].name).toBe('VTIMEZONE');
+    });
+
+    it('should refuse to split at the first occurrence', () => {
+      expect(() =>
+        OccurrenceUtils.splitSeries(resource(), occurrence('06'), 'standup-2', 0),
+      ).toThrow('Cannot split a series at or before its first occurrence');
+    });
+  });
+});
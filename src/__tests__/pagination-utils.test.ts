@@ -0,0 +1,88 @@
+import * as PaginationUtils from '../services/calendar/pagination-utils.js';
+
+describe('PaginationUtils', () => {
+  describe('compareKeys', () => {
+    it('should compare keys element by element', () => {
+      expect(PaginationUtils.compareKeys([1, 'b'], [2, 'a'])).toBeLessThan(0);
+      expect(PaginationUtils.compareKeys([1, 'b'], [1, 'a'])).toBeGreaterThan(0);
+      expect(PaginationUtils.compareKeys(['x', 1], ['x', 1])).toBe(0);
+    });
+  });
+
+  describe('getScope', () => {
+    it('should ignore the order of parameters and undefined values', () => {
+      expect(PaginationUtils.getScope({ a: 1, b: 'x', c: undefined })).toBe(
+        PaginationUtils.getScope({ b: 'x', a: 1 }),
+      );
+      expect(PaginationUtils.getScope({ a: 1 })).not.toBe(PaginationUtils.getScope({ a: 2 }));
+    });
+  });
+
+  describe('decodeCursor', () => {
+    it('should read the key of a cursor of the same scope', () => {
+      const cursor = PaginationUtils.encodeCursor([42, 'event-1'], 'scope');
+      expect(PaginationUtils.decodeCursor(cursor, 'scope')).toEqual([42, 'event-1']);
+    });
+
+    it('should reject malformed cursors and cursors of other requests', () => {
+      const cursor = PaginationUtils.encodeCursor([42], 'scope');
+
+      expect(() => PaginationUtils.decodeCursor('not a cursor', 'scope')).toThrow(
+        PaginationUtils.InvalidCursorError,
+      );
+      expect(() => PaginationUtils.decodeCursor(cursor, 'other')).toThrow('other parameters');
+    });
+  });
+
+  describe('paginate', () => {
+    const items = [
+      { id: 'c', start: 2 },
+      { id: 'a', start: 1 },
+      { id: 'b', start: 2 },
+      { id: 'd', start: 3 },
+      { id: 'e', start: 3 },
+    ];
+    const getKey = (item: { id: string; start: number }) => [item.start, item.id];
+
+    it('should sort items and page through them with cursors', () => {
+      const first = PaginationUtils.paginate(items, getKey, { limit: 2, scope: 's' });
+      expect(first.items.map((item) => item.id)).toEqual(['a', 'b']);
+
+      const second = PaginationUtils.paginate(items, getKey, {
+        cursor: first.nextCursor,
+        limit: 2,
+        scope: 's',
+      });
+      expect(second.items.map((item) => item.id)).toEqual(['c', 'd']);
+
+      const last = PaginationUtils.paginate(items, getKey, {
+        cursor: second.nextCursor,
+        limit: 2,
+        scope: 's',
+      });
+      expect(last.items.map((item) => item.id)).toEqual(['e']);
+      expect(last.nextCursor).toBeUndefined();
+    });
+
+    it('should continue after the last item when items change between pages', () => {
+      const first = PaginationUtils.paginate(items, getKey, { limit: 2, scope: 's' });
+
+      // Remove an item of the first page and add one before the cursor
+      const changed = [...items.filter((item) => item.id !== 'a'), { id: 'aa', start: 1 }];
+      const second = PaginationUtils.paginate(changed, getKey, {
+        cursor: first.nextCursor,
+        limit: 2,
+        scope: 's',
+      });
+
+      expect(second.items.map((item) => item.id)).toEqual(['c', 'd']);
+    });
+
+    it('should return all items without a limit', () => {
+      const page = PaginationUtils.paginate(items, getKey, { scope: 's' });
+
+      expect(page.items).toHaveLength(5);
+      expect(page.nextCursor).toBeUndefined();
+    });
+  });
+});
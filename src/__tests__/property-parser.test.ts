@@ -50,6 +50,10 @@ describe('Property Parser', () => {
       expect(PropertyParser.extractOwner('principal:principals/users/john.doe', 'default')).toBe('john.doe');
     });
 
+    it('should extract owner from the principal href Nextcloud sends', () => {
+      expect(PropertyParser.extractOwner('/remote.php/dav/principals/users/alice/', 'default')).toBe('alice');
+    });
+
     it('should return default username when owner principal is invalid', () => {
       expect(PropertyParser.extractOwner('invalid', 'default')).toBe('default');
       expect(PropertyParser.extractOwner(null, 'default')).toBe('default');
@@ -119,6 +123,22 @@ describe('Property Parser', () => {
       expect(permissions.canWrite).toBe(false);
     });
 
+    it('should detect privileges parsed from empty elements', () => {
+      const privilegeSet = {
+        'd:privilege': [
+          { 'd:read': '' },
+          { 'd:write-content': '' },
+          { 'oc:share': '' }
+        ]
+      };
+
+      const permissions = PropertyParser.parsePrivilegeSet(privilegeSet);
+
+      expect(permissions.canWrite).toBe(true);
+      expect(permissions.canShare).toBe(true);
+      expect(permissions.canDelete).toBe(false);
+    });
+
     it('should default to read-only when privilege set is null', () => {
       const permissions = PropertyParser.parsePrivilegeSet(null);
       
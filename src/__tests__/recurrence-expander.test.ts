@@ -0,0 +1,234 @@
+import { RecurrenceRule } from '../models/index.js';
+import { EnhancedICalParser } from '../services/calendar/enhanced-ical-utils.js';
+import * as RecurrenceExpander from '../services/calendar/recurrence-expander.js';
+import { ModelFactory } from './utils/model-factory.js';
+
+const utc = (value: string) => new Date(`${value}Z`);
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+function expand(rule: RecurrenceRule, start: string, rangeEnd: string, timezone = 'UTC') {
+  return iso(
+    RecurrenceExpander.expandRecurrenceRule(rule, utc(start), utc(rangeEnd), { timezone }),
+  );
+}
+
+describe('RecurrenceExpander', () => {
+  describe('expandRecurrenceRule', () => {
+    it('should expand daily rules with interval and count', () => {
+      expect(
+        expand({ frequency: 'daily', interval: 2, count: 3 }, '2025-01-06T09:00:00', '2026-01-01'),
+      ).toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-08T09:00:00.000Z',
+        '2025-01-10T09:00:00.000Z',
+      ]);
+    });
+
+    it('should stop at an inclusive until date', () => {
+      expect(
+        expand(
+          { frequency: 'daily', until: utc('2025-01-08T09:00:00') },
+          '2025-01-06T09:00:00',
+          '2026-01-01',
+        ),
+      ).toHaveLength(3);
+    });
+
+    it('should expand weekly rules on several weekdays', () => {
+      expect(
+        expand(
+          { frequency: 'weekly', byDay: ['MO', 'WE', 'FR'], count: 5 },
+          '2025-01-06T09:00:00',
+          '2026-01-01',
+        ),
+      ).toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-08T09:00:00.000Z',
+        '2025-01-10T09:00:00.000Z',
+        '2025-01-13T09:00:00.000Z',
+        '2025-01-15T09:00:00.000Z',
+      ]);
+    });
+
+    it('should support ordinal weekdays in monthly rules', () => {
+      // Last Friday of each month
+      expect(
+        expand(
+          { frequency: 'monthly', byDay: ['-1FR'], count: 3 },
+          '2025-01-31T10:00:00',
+          '2026-01-01',
+        ),
+      ).toEqual([
+        '2025-01-31T10:00:00.000Z',
+        '2025-02-28T10:00:00.000Z',
+        '2025-03-28T10:00:00.000Z',
+      ]);
+    });
+
+    it('should skip months without the start day', () => {
+      expect(
+        expand({ frequency: 'monthly', count: 3 }, '2025-01-31T10:00:00', '2026-01-01'),
+      ).toEqual([
+        '2025-01-31T10:00:00.000Z',
+        '2025-03-31T10:00:00.000Z',
+        '2025-05-31T10:00:00.000Z',
+      ]);
+    });
+
+    it('should resolve negative month days', () => {
+      expect(
+        expand(
+          { frequency: 'monthly', byMonthDay: [-1], count: 2 },
+          '2025-01-31T10:00:00',
+          '2026-01-01',
+        ),
+      ).toEqual(['2025-01-31T10:00:00.000Z', '2025-02-28T10:00:00.000Z']);
+    });
+
+    it('should apply bySetPos within each period', () => {
+      // Last weekday of the month
+      expect(
+        expand(
+          {
+            frequency: 'monthly',
+            byDay: ['MO', 'TU', 'WE', 'TH', 'FR'],
+            bySetPos: [-1],
+            count: 3,
+          },
+          '2025-01-31T17:00:00',
+          '2026-01-01',
+        ),
+      ).toEqual([
+        '2025-01-31T17:00:00.000Z',
+        '2025-02-28T17:00:00.000Z',
+        '2025-03-31T17:00:00.000Z',
+      ]);
+    });
+
+    it('should expand yearly rules with byMonth and ordinal weekdays', () => {
+      // US Thanksgiving: fourth Thursday of November
+      expect(
+        expand(
+          { frequency: 'yearly', byMonth: [11], byDay: ['4TH'], count: 3 },
+          '2024-11-28T12:00:00',
+          '2030-01-01',
+        ),
+      ).toEqual([
+        '2024-11-28T12:00:00.000Z',
+        '2025-11-27T12:00:00.000Z',
+        '2026-11-26T12:00:00.000Z',
+      ]);
+    });
+
+    it('should apply exDates and rDates', () => {
+      expect(
+        expand(
+          {
+            frequency: 'daily',
+            count: 3,
+            exDates: [utc('2025-01-07T09:00:00')],
+            rDates: [utc('2025-01-20T14:00:00')],
+          },
+          '2025-01-06T09:00:00',
+          '2026-01-01',
+        ),
+      ).toEqual([
+        '2025-01-06T09:00:00.000Z',
+        '2025-01-08T09:00:00.000Z',
+        '2025-01-20T14:00:00.000Z',
+      ]);
+    });
+
+    it('should keep the wall-clock time across DST transitions', () => {
+      // 09:00 in Paris is 08:00 UTC in winter and 07:00 UTC in summer
+      expect(
+        expand(
+          { frequency: 'weekly', count: 3 },
+          '2025-03-23T08:00:00',
+          '2026-01-01',
+          'Europe/Paris',
+        ),
+      ).toEqual([
+        '2025-03-23T08:00:00.000Z',
+        '2025-03-30T07:00:00.000Z',
+        '2025-04-06T07:00:00.000Z',
+      ]);
+    });
+
+    it('should stop at the end of the range for unbounded rules', () => {
+      expect(
+        expand({ frequency: 'daily' }, '2025-01-06T09:00:00', '2025-01-09T00:00:00'),
+      ).toHaveLength(3);
+    });
+  });
+
+  describe('expandEvents', () => {
+    it('should return instances overlapping the range', () => {
+      const master = ModelFactory.createEvent({
+        id: 'standup',
+        start: utc('2025-01-06T09:00:00'),
+        end: utc('2025-01-06T09:30:00'),
+        recurrenceRule: { frequency: 'daily' },
+      });
+
+      const events = RecurrenceExpander.expandEvents(
+        [master],
+        utc('2025-01-10T00:00:00'),
+        utc('2025-01-12T00:00:00'),
+        { timezone: 'UTC' },
+      );
+
+      expect(events.map((event) => event.start.toISOString())).toEqual([
+        '2025-01-10T09:00:00.000Z',
+        '2025-01-11T09:00:00.000Z',
+      ]);
+      expect(events[0].id).toBe('standup');
+      expect(events[0].recurrenceId).toEqual(utc('2025-01-10T09:00:00'));
+      expect(events[0].recurrenceRule).toBeUndefined();
+      expect(events[0].end).toEqual(utc('2025-01-10T09:30:00'));
+    });
+
+    it('should replace instances with overrides and keep unrelated events', () => {
+      const iCalData = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'SUMMARY:Weekly sync',
+        'DTSTART;TZID=Europe/Paris:20250106T100000',
+        'DTEND;TZID=Europe/Paris:20250106T110000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+        'EXDATE;TZID=Europe/Paris:20250120T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'SUMMARY:Weekly sync (moved)',
+        'RECURRENCE-ID;TZID=Europe/Paris:20250113T100000',
+        'DTSTART;TZID=Europe/Paris:20250114T150000',
+        'DTEND;TZID=Europe/Paris:20250114T160000',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const parsed = EnhancedICalParser.parseICalEvents(iCalData, 'work');
+      const single = ModelFactory.createEvent({
+        id: 'single',
+        start: utc('2025-01-07T12:00:00'),
+        end: utc('2025-01-07T13:00:00'),
+      });
+
+      const events = RecurrenceExpander.expandEvents(
+        [...parsed, single],
+        utc('2025-01-01T00:00:00'),
+        utc('2025-02-01T00:00:00'),
+      );
+
+      expect(events.map((event) => [event.id, event.title, event.start.toISOString()])).toEqual([
+        ['weekly', 'Weekly sync', '2025-01-06T09:00:00.000Z'],
+        ['single', single.title, '2025-01-07T12:00:00.000Z'],
+        ['weekly', 'Weekly sync (moved)', '2025-01-14T14:00:00.000Z'],
+        ['weekly', 'Weekly sync', '2025-01-27T09:00:00.000Z'],
+      ]);
+    });
+  });
+});
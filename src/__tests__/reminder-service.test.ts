@@ -0,0 +1,84 @@
+import { Event } from '../models/index.js';
+import { CalendarService } from '../services/calendar/calendar-service.js';
+import { EventService } from '../services/calendar/event-service.js';
+import { ReminderService } from '../services/calendar/reminder-service.js';
+import { ModelFactory } from './utils/model-factory.js';
+
+function createService(eventsByCalendar: Record<string, Event[]>) {
+  const calendarService = {
+    getCalendars: async () =>
+      Object.keys(eventsByCalendar).map((id) => ModelFactory.createCalendar({ id })),
+  } as unknown as CalendarService;
+  const eventService = {
+    getEvents: async (calendarId: string) => eventsByCalendar[calendarId] ?? [],
+  } as unknown as EventService;
+
+  return new ReminderService(calendarService, eventService);
+}
+
+describe('ReminderService', () => {
+  const monday = (time: string) => new Date(`2025-01-06T${time}:00Z`);
+
+  describe('getUpcomingReminders', () => {
+    it('should list reminders triggering in the window across all calendars', async () => {
+      const service = createService({
+        work: [
+          ModelFactory.createEvent({
+            id: 'standup',
+            start: monday('09:00'),
+            end: monday('09:15'),
+            reminders: [{ type: 'notification', minutesBefore: 10 }],
+          }),
+        ],
+        personal: [
+          ModelFactory.createEvent({
+            id: 'gym',
+            start: monday('18:00'),
+            end: monday('19:00'),
+            reminders: [
+              { type: 'email', minutesBefore: 60 },
+              { type: 'notification', minutesBefore: 5, relativeTo: 'end' },
+            ],
+          }),
+        ],
+      });
+
+      const reminders = await service.getUpcomingReminders(monday('08:00'), monday('18:00'));
+
+      expect(reminders.map((r) => [r.eventId, r.triggerAt])).toEqual([
+        ['standup', monday('08:50')],
+        ['gym', monday('17:00')],
+      ]);
+      expect(reminders[0].calendarId).toBe('work');
+    });
+
+    it('should report an absolute trigger once per series', async () => {
+      const reminders = [
+        { type: 'notification' as const, minutesBefore: 0, triggerAt: monday('07:00') },
+      ];
+      const service = createService({
+        work: [
+          ModelFactory.createEvent({ id: 'daily', start: monday('09:00'), reminders }),
+          ModelFactory.createEvent({ id: 'daily', start: monday('09:00'), reminders }),
+        ],
+      });
+
+      const upcoming = await service.getUpcomingReminders(monday('06:00'), monday('08:00'));
+
+      expect(upcoming).toHaveLength(1);
+    });
+
+    it('should skip reminders that were already sent', async () => {
+      const service = createService({
+        work: [
+          ModelFactory.createEvent({
+            start: monday('09:00'),
+            reminders: [{ type: 'notification', minutesBefore: 10, isSent: true }],
+          }),
+        ],
+      });
+
+      expect(await service.getUpcomingReminders(monday('08:00'), monday('10:00'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { jest } from '@jest/globals';
+import { Buffer } from 'buffer';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  CircuitOpenError,
+  RequestPipeline,
+  getCircuitStatuses,
+  parseRetryAfter,
+} from '../services/calendar/request-pipeline.js';
+import { FakeDavServer } from './utils/fake-dav-server.js';
+
+const calendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:planning',
+  'DTSTAMP:20260101T000000Z',
+  'DTSTART:20260302T090000Z',
+  'SUMMARY:Planning',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+describe('RequestPipeline', () => {
+  let server: FakeDavServer;
+  let pipeline: RequestPipeline;
+  let url: string;
+  let headers: Record<string, string>;
+
+  beforeEach(async () => {
+    jest.useRealTimers();
+    server = new FakeDavServer();
+    await server.start();
+    pipeline = new RequestPipeline(server.baseUrl, {
+      timeout: 200,
+      retries: 2,
+      retryDelay: 1,
+      circuitThreshold: 3,
+      circuitResetTimeout: 100,
+    });
+    url = `${server.baseUrl}/remote.php/dav/calendars/${server.username}/personal/planning.ics`;
+    headers = {
+      Authorization: `Basic ${Buffer.from(`${server.username}:${server.appToken}`).toString('base64')}`,
+    };
+    server.putCalendarObject('personal', 'planning.ics', calendar);
+    server.requests.length = 0;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const circuit = () => getCircuitStatuses().find((status) => url.includes(status.host));
+
+  it('should retry idempotent requests after transient failures', async () => {
+    server.failNext({ status: 503, headers: { 'Retry-After': '0' } }, {});
+
+    const response = await pipeline.request({ method: 'GET', url, headers });
+
+    expect(response.status).toBe(200);
+    expect(server.requests).toHaveLength(3);
+    expect(circuit()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should retry requests that time out', async () => {
+    server.failNext({ delay: 400 });
+
+    const response = await pipeline.request({ method: 'GET', url, headers });
+
+    expect(response.status).toBe(200);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should only retry PUTs guarded by If-Match', async () => {
+    const { etag } = server.getCalendarObject('personal', 'planning.ics')!;
+
+    server.failNext({ status: 502 });
+    await expect(
+      pipeline.request({
+        method: 'PUT',
+        url: url.replace('planning', 'new'),
+        headers: { ...headers, 'If-None-Match': '*' },
+        data: calendar,
+      }),
+    ).rejects.toMatchObject({ response: { status: 502 } });
+    expect(server.requests).toHaveLength(1);
+
+    server.failNext({ status: 502 });
+    const response = await pipeline.request({
+      method: 'PUT',
+      url,
+      headers: { ...headers, 'If-Match': etag },
+      data: calendar,
+    });
+    expect(response.status).toBeLessThan(300);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('should not wait longer than the longest retry delay', async () => {
+    server.failNext({ status: 429, headers: { 'Retry-After': '120' } });
+
+    await expect(pipeline.request({ method: 'GET', url, headers })).rejects.toMatchObject({
+      response: { status: 429 },
+    });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should not retry client errors', async () => {
+    await expect(
+      pipeline.request({ method: 'GET', url: url.replace('planning', 'missing'), headers }),
+    ).rejects.toMatchObject({ response: { status: 404 } });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('should fail fast while the circuit is open and close it after a trial request', async () => {
+    server.failNext({ status: 503 }, { status: 503 }, { status: 503 });
+
+    await expect(pipeline.request({ method: 'GET', url, headers })).rejects.toMatchObject({
+      response: { status: 503 },
+    });
+    expect(circuit()).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+
+    await expect(pipeline.request({ method: 'GET', url, headers })).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(server.requests).toHaveLength(3);
+
+    await sleep(150);
+    const response = await pipeline.request({ method: 'GET', url, headers });
+    expect(response.status).toBe(200);
+    expect(circuit()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2026-03-02T09:00:00Z');
+
+      expect(parseRetryAfter('5', now)).toBe(5000);
+      expect(parseRetryAfter('Mon, 02 Mar 2026 09:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Mon, 02 Mar 2026 08:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeNull();
+      expect(parseRetryAfter(undefined, now)).toBeNull();
+    });
+  });
+});
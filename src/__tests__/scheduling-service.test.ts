@@ -0,0 +1,161 @@
+import { Event } from '../models/index.js';
+import { EventService } from '../services/calendar/event-service.js';
+import { SchedulingService } from '../services/calendar/scheduling-service.js';
+import { TimezoneService } from '../services/timezone-service.js';
+import { ModelFactory } from './utils/model-factory.js';
+
+function createService(eventsByCalendar: Record<string, Event[]>, timezone = 'UTC') {
+  const eventService = {
+    getEvents: async (calendarId: string) => eventsByCalendar[calendarId] ?? [],
+  } as unknown as EventService;
+
+  return new SchedulingService(eventService, new TimezoneService(timezone));
+}
+
+describe('SchedulingService', () => {
+  // Monday 6 January 2025
+  const monday = (time: string) => new Date(`2025-01-06T${time}:00Z`);
+
+  describe('findFreeSlots', () => {
+    it('should avoid busy time across all calendars', async () => {
+      const service = createService({
+        work: [ModelFactory.createEvent({ start: monday('09:00'), end: monday('10:00') })],
+        personal: [ModelFactory.createEvent({ start: monday('10:00'), end: monday('11:30') })],
+      });
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work', 'personal'],
+        durationMinutes: 60,
+        start: monday('00:00'),
+        end: monday('23:59'),
+      });
+
+      expect(slots.length).toBeGreaterThan(0);
+      expect(slots[0].start).toEqual(monday('11:30'));
+      for (const slot of slots) {
+        expect(slot.start.getTime()).toBeGreaterThanOrEqual(monday('11:30').getTime());
+        expect(slot.end.getTime()).toBeLessThanOrEqual(monday('17:00').getTime());
+      }
+    });
+
+    it('should return non-overlapping slots ordered by score', async () => {
+      const service = createService({});
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 30,
+        start: monday('00:00'),
+        end: monday('23:59'),
+        maxResults: 5,
+      });
+
+      expect(slots).toHaveLength(5);
+      for (let i = 1; i < slots.length; i++) {
+        expect(slots[i - 1].score).toBeGreaterThanOrEqual(slots[i].score);
+        for (let j = 0; j < i; j++) {
+          expect(slots[i].start >= slots[j].end || slots[i].end <= slots[j].start).toBe(true);
+        }
+      }
+      expect(slots[0].formattedDateRange).toEqual(expect.any(String));
+    });
+
+    it('should apply buffers around existing events', async () => {
+      const service = createService({
+        work: [ModelFactory.createEvent({ start: monday('09:00'), end: monday('10:00') })],
+      });
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 30,
+        start: monday('00:00'),
+        end: monday('23:59'),
+        bufferMinutes: 15,
+      });
+
+      expect(slots[0].start).toEqual(monday('10:15'));
+    });
+
+    it('should skip non-working days', async () => {
+      const service = createService({});
+
+      // Saturday and Sunday only
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 30,
+        start: new Date('2025-01-04T00:00:00Z'),
+        end: new Date('2025-01-05T23:59:00Z'),
+      });
+
+      expect(slots).toEqual([]);
+    });
+
+    it('should honour the preferred time of day', async () => {
+      const service = createService({});
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 60,
+        start: monday('00:00'),
+        end: monday('23:59'),
+        preferredTimeOfDay: 'afternoon',
+        maxResults: 1,
+      });
+
+      expect(slots[0].start.getUTCHours()).toBeGreaterThanOrEqual(12);
+    });
+
+    it('should interpret working hours in the configured timezone', async () => {
+      const service = createService({}, 'Europe/Paris');
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 60,
+        start: monday('00:00'),
+        end: monday('23:00'),
+        maxResults: 1,
+      });
+
+      // 09:00 in Paris is 08:00 UTC in January
+      expect(slots[0].start).toEqual(monday('08:00'));
+    });
+
+    it('should align slots to the increment in the configured timezone', async () => {
+      const service = createService({}, 'Asia/Kolkata');
+
+      const slots = await service.findFreeSlots({
+        calendarIds: ['work'],
+        durationMinutes: 60,
+        start: monday('00:00'),
+        end: monday('23:00'),
+        slotIncrementMinutes: 60,
+      });
+
+      // Full hours in India (UTC+05:30) are half hours in UTC
+      expect(slots[0].start).toEqual(monday('03:30'));
+      expect(slots.map((slot) => slot.start.getUTCMinutes())).toEqual(slots.map(() => 30));
+    });
+
+    it('should reject invalid options', async () => {
+      const service = createService({});
+
+      await expect(
+        service.findFreeSlots({
+          calendarIds: ['work'],
+          durationMinutes: 0,
+          start: monday('00:00'),
+          end: monday('23:59'),
+        }),
+      ).rejects.toThrow('Duration must be a positive number of minutes');
+
+      await expect(
+        service.findFreeSlots({
+          calendarIds: ['work'],
+          durationMinutes: 30,
+          start: monday('00:00'),
+          end: monday('23:59'),
+          workingHours: { start: '17:00', end: '09:00' },
+        }),
+      ).rejects.toThrow('Working hours start must be before working hours end');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  applyTaskChanges,
+  createTaskDocument,
+  findTaskComponents,
+  linkSubtasks,
+  parseTasks,
+} from '../services/calendar/task-utils.js';
+import {
+  parseDocument,
+  serializeDocument,
+  unfoldLines,
+} from '../services/calendar/ical-document.js';
+
+const utc = (value: string) => new Date(`${value}Z`);
+
+const taskData = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Nextcloud Tasks v0.16.0',
+  'BEGIN:VTODO',
+  'UID:release',
+  'SUMMARY:Prepare release\\, v2',
+  'DUE;TZID=Europe/Paris:20250110T170000',
+  'PRIORITY:1',
+  'PERCENT-COMPLETE:40',
+  'STATUS:IN-PROCESS',
+  'CATEGORIES:Work,Release',
+  'X-APPLE-SORT-ORDER:42',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT1H',
+  'END:VALARM',
+  'END:VTODO',
+  'BEGIN:VTODO',
+  'UID:changelog',
+  'SUMMARY:Write changelog',
+  'RELATED-TO:release',
+  'END:VTODO',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('TaskUtils', () => {
+  describe('parseTasks', () => {
+    it('should parse task properties', () => {
+      const [task] = parseTasks(taskData, 'tasks');
+
+      expect(task).toMatchObject({
+        id: 'release',
+        calendarId: 'tasks',
+        title: 'Prepare release, v2',
+        status: 'in-process',
+        priority: 1,
+        percentComplete: 40,
+        due: utc('2025-01-10T16:00:00'),
+        categories: ['Work', 'Release'],
+        parentId: null,
+      });
+    });
+
+    it('should treat RELATED-TO without RELTYPE as a parent relation', () => {
+      const tasks = linkSubtasks(parseTasks(taskData, 'tasks'));
+
+      expect(tasks[1].parentId).toBe('release');
+      expect(tasks[0].childIds).toEqual(['changelog']);
+    });
+  });
+
+  describe('applyTaskChanges', () => {
+    const edit = (changes: Parameters<typeof applyTaskChanges>[1]) => {
+      const calendar = parseDocument(taskData);
+      applyTaskChanges(findTaskComponents(calendar)[0], changes);
+      return unfoldLines(serializeDocument(calendar)).join('\n');
+    };
+
+    it('should keep properties and components it does not model', () => {
+      const edited = edit({ title: 'Ship release' });
+
+      expect(edited).toContain('SUMMARY:Ship release');
+      expect(edited).toContain('X-APPLE-SORT-ORDER:42');
+      expect(edited).toContain('TRIGGER:-PT1H');
+      expect(edited).toContain('DUE;TZID=Europe/Paris:20250110T170000');
+    });
+
+    it('should keep the timezone of changed dates', () => {
+      const edited = edit({ due: utc('2025-01-12T08:00:00') });
+
+      expect(edited).toContain('DUE;TZID=Europe/Paris:20250112T090000');
+    });
+
+    it('should set and clear completion', () => {
+      const completed = edit({ status: 'completed', completed: utc('2025-01-09T12:00:00') });
+
+      expect(completed).toContain('STATUS:COMPLETED');
+      expect(completed).toContain('COMPLETED:20250109T120000Z');
+      expect(completed).toContain('PERCENT-COMPLETE:100');
+
+      const calendar = parseDocument(completed);
+      applyTaskChanges(findTaskComponents(calendar)[0], { status: 'needs-action' });
+      expect(serializeDocument(calendar)).not.toMatch(/^COMPLETED:/m);
+    });
+
+    it('should replace the parent relation', () => {
+      const calendar = parseDocument(taskData);
+      const [, subtask] = findTaskComponents(calendar);
+
+      applyTaskChanges(subtask, { parentId: 'milestone' });
+      const [, task] = parseTasks(serializeDocument(calendar), 'tasks');
+
+      expect(task.parentId).toBe('milestone');
+      expect(serializeDocument(calendar)).not.toContain('RELATED-TO:release');
+    });
+  });
+
+  describe('createTaskDocument', () => {
+    it('should create a VTODO with the given values', () => {
+      const calendar = createTaskDocument('new-task', {
+        title: 'Book venue',
+        due: utc('2025-02-01T00:00:00'),
+        isAllDay: true,
+        categories: ['Events'],
+      });
+
+      const data = serializeDocument(calendar);
+      const [task] = parseTasks(data, 'tasks');
+
+      expect(data).toContain('DUE;VALUE=DATE:20250201');
+      expect(task).toMatchObject({
+        id: 'new-task',
+        title: 'Book venue',
+        status: 'needs-action',
+        isAllDay: true,
+        categories: ['Events'],
+      });
+    });
+  });
+});
@@ -0,0 +1,1750 @@
+/**
+ * In-process stand-in for the DAV endpoints of a Nextcloud server
+ *
+ * Keeps calendars, calendar objects, address books and vCards in memory and answers real
+ * HTTP requests, so services and tools can be tested end-to-end instead of mocking axios
+ * call by call. Responses use the namespace prefixes Nextcloud sends (d:, cal:, cs:, oc:,
+ * card:, x1:), which the response parsers of this project rely on.
+ *
+ * Supported: PROPFIND, PROPPATCH, MKCALENDAR, MKCOL (extended), REPORT (calendar-query with
+ * expand, calendar-multiget, free-busy-query, addressbook-query, addressbook-multiget,
+ * sync-collection) and GET/HEAD/PUT/DELETE with ETag, If-Match and If-None-Match.
+ *
+ * Recurrence support is limited to FREQ, INTERVAL, COUNT, UNTIL, RDATE, EXDATE and
+ * RECURRENCE-ID overrides; BY* rule parts are ignored.
+ */
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import { URL } from 'url';
+import { parseStringPromise } from 'xml2js';
+import { NextcloudConfig } from '../../config/config.js';
+import {
+  ICalComponent,
+  cloneComponent,
+  formatDateValue,
+  getDateProperty,
+  getProperties,
+  getProperty,
+  parseDateList,
+  parseDateValue,
+  parseDocument,
+  removeProperties,
+  serializeDocument,
+  setProperty,
+} from '../../services/calendar/ical-document.js';
+
+const DAV = 'DAV:';
+const CALDAV = 'urn:ietf:params:xml:ns:caldav';
+const CARDDAV = 'urn:ietf:params:xml:ns:carddav';
+const CALENDARSERVER = 'http://calendarserver.org/ns/';
+const OWNCLOUD = 'http://owncloud.org/ns';
+const SABRE = 'http://sabredav.org/ns';
+
+/**
+ * Prefixes Nextcloud uses in its responses, by namespace
+ */
+const PREFIXES: Record<string, string> = {
+  [DAV]: 'd',
+  [SABRE]: 's',
+  [CALDAV]: 'cal',
+  [CALENDARSERVER]: 'cs',
+  [OWNCLOUD]: 'oc',
+  'http://nextcloud.org/ns': 'nc',
+  [CARDDAV]: 'card',
+  'http://apple.com/ns/ical/': 'x1',
+};
+
+const ROOT = '/remote.php/dav';
+const SYNC_TOKEN_PREFIX = 'http://sabre.io/ns/sync/';
+const CALENDAR_COMPONENTS = ['VEVENT', 'VTODO', 'VJOURNAL'];
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Properties clients cannot change with PROPPATCH
+ */
+const PROTECTED_PROPERTIES = new Set([
+  `{${DAV}}resourcetype`,
+  `{${DAV}}getetag`,
+  `{${DAV}}sync-token`,
+  `{${DAV}}current-user-privilege-set`,
+  `{${CALENDARSERVER}}getctag`,
+  `{${CALDAV}}supported-calendar-component-set`,
+  `{${OWNCLOUD}}owner-principal`,
+]);
+
+/**
+ * Properties only returned when they are requested by name
+ */
+const EXPENSIVE_PROPERTIES = new Set([`{${CALDAV}}calendar-data`, `{${CARDDAV}}address-data`]);
+
+/**
+ * A parsed XML element, identified by its Clark name ({namespace}local-name)
+ */
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XmlNode[];
+}
+
+/**
+ * A calendar object, vCard or scheduling message
+ */
+export interface FakeDavResource {
+  data: string;
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * A calendar, address book or the scheduling inbox
+ */
+interface DavCollection {
+  kind: 'calendar' | 'inbox' | 'addressbook';
+  owner: string;
+  readOnly: boolean;
+  components: string[];
+  properties: Map<string, string>;
+  resources: Map<string, FakeDavResource>;
+  syncToken: number;
+  /**
+   * Sync token at which each member was last changed or deleted
+   */
+  changes: Map<string, { token: number; deleted: boolean }>;
+}
+
+/**
+ * The resource a request path points to
+ */
+type DavTarget =
+  | { type: 'principal' }
+  | { type: 'home'; kind: 'calendar' | 'addressbook' }
+  | { type: 'collection'; kind: 'calendar' | 'addressbook'; id: string }
+  | { type: 'resource'; kind: 'calendar' | 'addressbook'; id: string; name: string };
+
+/**
+ * Options of the fake server
+ */
+export interface FakeDavServerOptions {
+  username?: string;
+  appToken?: string;
+  /**
+   * Email address of the user, returned as calendar-user-address-set
+   */
+  email?: string;
+}
+
+/**
+ * Options of a calendar added by a test
+ */
+export interface FakeCalendarOptions {
+  displayName?: string;
+  color?: string;
+  components?: string[];
+  /**
+   * Owner of a calendar shared with the user; defaults to the user
+   */
+  owner?: string;
+  readOnly?: boolean;
+}
+
+/**
+ * Options of an address book added by a test
+ */
+export interface FakeAddressBookOptions {
+  displayName?: string;
+  description?: string;
+  readOnly?: boolean;
+}
+
+/**
+ * A failure the fake server answers a request with, to test timeouts and retries
+ * The answer is delayed by delay milliseconds, then sent with the status; with neither,
+ * the connection is reset, and with only a delay the request is handled normally after it.
+ */
+export interface FakeDavFailure {
+  status?: number;
+  headers?: Record<string, string>;
+  delay?: number;
+}
+
+/**
+ * A request received by the fake server
+ */
+export interface FakeDavRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/**
+ * An HTTP error answered with a Sabre error body
+ */
+class DavError extends Error {
+  status: number;
+  condition?: string;
+
+  constructor(status: number, message: string, condition?: string) {
+    super(message);
+    this.status = status;
+    this.condition = condition;
+  }
+}
+
+/**
+ * Escape text for XML content and attributes; CR is escaped like Sabre does, so CRLF survives parsing
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r/g, '&#13;');
+}
+
+/**
+ * Convert the namespace-aware output of xml2js into a tree of XML nodes
+ */
+function toXmlNode(element: Record<string, unknown>): XmlNode {
+  const ns = element.$ns as { uri: string; local: string };
+  const attributes: Record<string, string> = {};
+  for (const attribute of Object.values(
+    (element.$ as Record<string, { local: string; value: string; prefix: string }>) ?? {},
+  )) {
+    if (attribute.prefix !== 'xmlns' && attribute.local !== 'xmlns') {
+      attributes[attribute.local] = attribute.value;
+    }
+  }
+
+  return {
+    name: `{${ns.uri}}${ns.local}`,
+    attributes,
+    text: typeof element._ === 'string' ? element._ : '',
+    children: ((element.$$ as Record<string, unknown>[]) ?? []).map(toXmlNode),
+  };
+}
+
+/**
+ * Parse an XML request body
+ * @returns The root element, or null for an empty body
+ * @throws DavError if the body is not well-formed
+ */
+async function parseXmlBody(body: string): Promise<XmlNode | null> {
+  if (!body.trim()) {
+    return null;
+  }
+
+  try {
+    const result = (await parseStringPromise(body, {
+      xmlns: true,
+      explicitChildren: true,
+      preserveChildrenOrder: true,
+    })) as Record<string, Record<string, unknown>>;
+    return toXmlNode(Object.values(result)[0]);
+  } catch (error) {
+    throw new DavError(400, `The request body is not valid XML: ${(error as Error).message}`);
+  }
+}
+
+function child(node: XmlNode | null | undefined, name: string): XmlNode | undefined {
+  return node?.children.find((candidate) => candidate.name === name);
+}
+
+function childrenNamed(node: XmlNode | null | undefined, name: string): XmlNode[] {
+  return node?.children.filter((candidate) => candidate.name === name) ?? [];
+}
+
+/**
+ * Compute the strong ETag Nextcloud sends for a resource
+ */
+function computeEtag(data: string): string {
+  return `"${createHash('md5').update(data).digest('hex')}"`;
+}
+
+/**
+ * Parse an iCalendar DURATION value
+ * @returns The duration in milliseconds, or null if the value is invalid
+ */
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map((n) => Number(n ?? 0));
+  const duration = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === '-' ? -duration : duration;
+}
+
+/**
+ * Get the time span of a component as CalDAV time-range filters see it (RFC 4791 9.9)
+ * @returns Start and end, or null if the component has no time
+ */
+function getTimeSpan(component: ICalComponent): { start: Date; end: Date } | null {
+  const dtstart = getProperty(component, 'DTSTART');
+  const start = getDateProperty(component, 'DTSTART');
+  const isAllDay = dtstart?.params.get('VALUE') === 'DATE' || /^\d{8}$/.test(dtstart?.value ?? '');
+  const duration = getProperty(component, 'DURATION');
+  const durationMs = duration ? parseDuration(duration.value) : null;
+
+  if (component.name === 'VTODO') {
+    const due = getDateProperty(component, 'DUE');
+    if (!start && !due) {
+      return null;
+    }
+    const todoStart = start ?? due!;
+    return {
+      start: todoStart,
+      end: due ?? new Date(todoStart.getTime() + (durationMs ?? 0)),
+    };
+  }
+
+  if (!start) {
+    return null;
+  }
+
+  const end =
+    getDateProperty(component, 'DTEND') ??
+    new Date(start.getTime() + (durationMs ?? (isAllDay ? DAY : 0)));
+  return { start, end };
+}
+
+/**
+ * Check whether a time span overlaps a range
+ */
+function overlaps(span: { start: Date; end: Date }, rangeStart: Date, rangeEnd: Date): boolean {
+  if (span.start.getTime() === span.end.getTime()) {
+    return span.start >= rangeStart && span.start < rangeEnd;
+  }
+  return span.start < rangeEnd && span.end > rangeStart;
+}
+
+/**
+ * Generate the start times of a recurring component up to a given time
+ * @param master The component with the RRULE or RDATEs
+ * @param until Occurrences starting at or after this time are not generated
+ * @returns Occurrence start times in ascending order
+ */
+function getOccurrenceStarts(master: ICalComponent, until: Date): Date[] {
+  const start = getDateProperty(master, 'DTSTART');
+  if (!start) {
+    return [];
+  }
+
+  const starts: Date[] = [];
+  const rrule = getProperty(master, 'RRULE');
+
+  if (rrule) {
+    const parts = new Map(
+      rrule.value.split(';').map((part) => {
+        const [key, value = ''] = part.split('=');
+        return [key.toUpperCase(), value] as [string, string];
+      }),
+    );
+    const frequency = parts.get('FREQ')?.toUpperCase();
+    const interval = Math.max(1, Number(parts.get('INTERVAL') ?? 1));
+    const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : Infinity;
+    const ruleUntil = parts.has('UNTIL') ? parseDateValue(parts.get('UNTIL')!) : null;
+
+    for (let index = 0; index < count && starts.length < 1000; index++) {
+      const occurrence = new Date(start);
+      if (frequency === 'DAILY') {
+        occurrence.setDate(occurrence.getDate() + index * interval);
+      } else if (frequency === 'WEEKLY') {
+        occurrence.setDate(occurrence.getDate() + index * interval * 7);
+      } else if (frequency === 'MONTHLY') {
+        occurrence.setMonth(occurrence.getMonth() + index * interval);
+      } else if (frequency === 'YEARLY') {
+        occurrence.setFullYear(occurrence.getFullYear() + index * interval);
+      } else if (index > 0) {
+        break;
+      }
+
+      if (occurrence >= until || (ruleUntil && occurrence > ruleUntil)) {
+        break;
+      }
+      starts.push(occurrence);
+    }
+  } else {
+    starts.push(start);
+  }
+
+  const rdates = getProperties(master, 'RDATE').flatMap(parseDateList);
+  const exdates = new Set(
+    getProperties(master, 'EXDATE')
+      .flatMap(parseDateList)
+      .map((date) => date.getTime()),
+  );
+
+  return [...starts, ...rdates.filter((date) => date < until)]
+    .filter((date) => !exdates.has(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Write a date property as UTC, or keep it as a date for all-day components
+ */
+function setUtcDateProperty(component: ICalComponent, name: string, date: Date): void {
+  const existing = getProperty(component, name);
+  if (existing?.params.get('VALUE') === 'DATE' || /^\d{8}$/.test(existing?.value ?? '')) {
+    const params = new Map([['VALUE', 'DATE']]);
+    setProperty(component, name, formatDateValue(date, params), params);
+  } else {
+    setProperty(component, name, formatDateValue(date));
+  }
+}
+
+/**
+ * Get the instances of the components of a calendar object
+ * Recurring components are expanded and their RECURRENCE-ID overrides applied.
+ * @param calendar The VCALENDAR of the object
+ * @param until Instances starting at or after this time are not generated
+ */
+function getInstances(calendar: ICalComponent, until: Date): ICalComponent[] {
+  const components = calendar.components.filter((component) =>
+    CALENDAR_COMPONENTS.includes(component.name),
+  );
+  const overrides = components.filter((component) => getProperty(component, 'RECURRENCE-ID'));
+  const instances: ICalComponent[] = [...overrides];
+
+  for (const master of components.filter((component) => !overrides.includes(component))) {
+    if (!getProperty(master, 'RRULE') && !getProperty(master, 'RDATE')) {
+      instances.push(master);
+      continue;
+    }
+
+    const span = getTimeSpan(master);
+    const duration = span ? span.end.getTime() - span.start.getTime() : 0;
+    const overridden = new Set(
+      overrides
+        .map((override) => getDateProperty(override, 'RECURRENCE-ID')?.getTime())
+        .filter((time) => time !== undefined),
+    );
+
+    for (const start of getOccurrenceStarts(master, until)) {
+      if (overridden.has(start.getTime())) {
+        continue;
+      }
+
+      const instance = cloneComponent(master);
+      removeProperties(instance, 'RRULE', 'RDATE', 'EXDATE', 'DURATION');
+      setUtcDateProperty(instance, 'DTSTART', start);
+      if (getProperty(master, 'DTEND') || getProperty(master, 'DURATION')) {
+        setUtcDateProperty(instance, 'DTEND', new Date(start.getTime() + duration));
+      }
+      setUtcDateProperty(instance, 'RECURRENCE-ID', start);
+      const recurrenceId = getProperty(instance, 'RECURRENCE-ID')!;
+      if (getProperty(master, 'DTSTART')?.params.get('VALUE') === 'DATE') {
+        recurrenceId.params = new Map([['VALUE', 'DATE']]);
+      }
+      instances.push(instance);
+    }
+  }
+
+  return instances;
+}
+
+/**
+ * Check whether a text matches a CalDAV/CardDAV text-match element
+ */
+function matchesText(value: string, textMatch: XmlNode): boolean {
+  const caseless = textMatch.attributes.collation !== 'i;octet';
+  const needle = caseless ? textMatch.text.toLowerCase() : textMatch.text;
+  const haystack = caseless ? value.toLowerCase() : value;
+
+  let matched: boolean;
+  switch (textMatch.attributes['match-type']) {
+    case 'equals':
+      matched = haystack === needle;
+      break;
+    case 'starts-with':
+      matched = haystack.startsWith(needle);
+      break;
+    case 'ends-with':
+      matched = haystack.endsWith(needle);
+      break;
+    default:
+      matched = haystack.includes(needle);
+  }
+
+  return textMatch.attributes['negate-condition'] === 'yes' ? !matched : matched;
+}
+
+/**
+ * Evaluate a prop-filter against a component
+ */
+function matchesPropFilter(component: ICalComponent, filter: XmlNode, ns: string): boolean {
+  const properties = getProperties(component, (filter.attributes.name ?? '').toUpperCase());
+
+  if (child(filter, `{${ns}}is-not-defined`)) {
+    return properties.length === 0;
+  }
+
+  const textMatches = childrenNamed(filter, `{${ns}}text-match`);
+  if (properties.length === 0) {
+    return false;
+  }
+  if (textMatches.length === 0) {
+    return true;
+  }
+
+  const results = textMatches.map((textMatch) =>
+    properties.some((property) => matchesText(property.value, textMatch)),
+  );
+  return filter.attributes.test === 'anyof' ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Evaluate a CalDAV comp-filter against a component (RFC 4791 9.7.1)
+ * @param calendar The VCALENDAR of the object, used to expand recurring components
+ */
+function matchesCompFilter(
+  component: ICalComponent,
+  filter: XmlNode,
+  calendar: ICalComponent,
+): boolean {
+  if (component.name !== (filter.attributes.name ?? '').toUpperCase()) {
+    return false;
+  }
+
+  const timeRange = child(filter, `{${CALDAV}}time-range`);
+  if (timeRange && component !== calendar) {
+    const rangeStart = parseDateValue(timeRange.attributes.start ?? '') ?? new Date(-8.64e15);
+    const rangeEnd = parseDateValue(timeRange.attributes.end ?? '') ?? new Date(8.64e15);
+    const instances = getInstances(calendar, rangeEnd).filter(
+      (instance) => instance.name === component.name,
+    );
+
+    if (
+      !instances.some((instance) => {
+        const span = getTimeSpan(instance);
+        return span === null ? component.name === 'VTODO' : overlaps(span, rangeStart, rangeEnd);
+      })
+    ) {
+      return false;
+    }
+  }
+
+  const propFiltersMatch = childrenNamed(filter, `{${CALDAV}}prop-filter`).every((propFilter) =>
+    matchesPropFilter(component, propFilter, CALDAV),
+  );
+
+  const compFiltersMatch = childrenNamed(filter, `{${CALDAV}}comp-filter`).every((compFilter) => {
+    const candidates = component.components.filter(
+      (candidate) => candidate.name === (compFilter.attributes.name ?? '').toUpperCase(),
+    );
+    if (child(compFilter, `{${CALDAV}}is-not-defined`)) {
+      return candidates.length === 0;
+    }
+    return candidates.some((candidate) => matchesCompFilter(candidate, compFilter, calendar));
+  });
+
+  return propFiltersMatch && compFiltersMatch;
+}
+
+/**
+ * Builds a multistatus body, declaring the prefixes of the namespaces it uses
+ */
+class MultistatusWriter {
+  private namespaces = new Map<string, string>();
+  private responses: string[] = [];
+
+  /**
+   * Get the prefix of a namespace, assigning x2, x3, ... to unknown namespaces like Sabre
+   */
+  prefix(ns: string): string {
+    if (PREFIXES[ns]) {
+      return PREFIXES[ns];
+    }
+    if (!this.namespaces.has(ns)) {
+      this.namespaces.set(ns, `x${this.namespaces.size + 2}`);
+    }
+    return this.namespaces.get(ns)!;
+  }
+
+  /**
+   * Format a property element
+   * @param name Clark name of the property
+   * @param xml Content of the element, already escaped
+   */
+  element(name: string, xml = ''): string {
+    const [, ns, local] = /^\{(.*)\}(.+)$/.exec(name) ?? [];
+    const tag = `${this.prefix(ns)}:${local}`;
+    return xml ? `<${tag}>${xml}</${tag}>` : `<${tag}/>`;
+  }
+
+  /**
+   * Add a response with properties grouped by status
+   */
+  addPropstat(href: string, found: Map<string, string>, missing: string[] = []): void {
+    const propstats: string[] = [];
+    if (found.size > 0) {
+      const props = [...found].map(([name, xml]) => this.element(name, xml)).join('');
+      propstats.push(
+        `<d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>`,
+      );
+    }
+    if (missing.length > 0) {
+      const props = missing.map((name) => this.element(name)).join('');
+      propstats.push(
+        `<d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 404 Not Found</d:status></d:propstat>`,
+      );
+    }
+    this.responses.push(
+      `<d:response><d:href>${escapeXml(href)}</d:href>${propstats.join('')}</d:response>`,
+    );
+  }
+
+  /**
+   * Add a response with properties that each have their own status
+   */
+  addPropstatByStatus(href: string, statuses: Map<string, string[]>): void {
+    const propstats = [...statuses]
+      .map(
+        ([status, names]) =>
+          `<d:propstat><d:prop>${names.map((name) => this.element(name)).join('')}</d:prop>` +
+          `<d:status>HTTP/1.1 ${status}</d:status></d:propstat>`,
+      )
+      .join('');
+    this.responses.push(`<d:response><d:href>${escapeXml(href)}</d:href>${propstats}</d:response>`);
+  }
+
+  /**
+   * Add a response with a status instead of properties
+   */
+  addStatus(href: string, status: string): void {
+    this.responses.push(
+      `<d:response><d:href>${escapeXml(href)}</d:href><d:status>HTTP/1.1 ${status}</d:status></d:response>`,
+    );
+  }
+
+  toString(extra = ''): string {
+    const declarations = [
+      ...Object.entries(PREFIXES).map(([ns, prefix]) => `xmlns:${prefix}="${ns}"`),
+      ...[...this.namespaces].map(([ns, prefix]) => `xmlns:${prefix}="${escapeXml(ns)}"`),
+    ].join(' ');
+    return (
+      `<?xml version="1.0"?>\n<d:multistatus ${declarations}>` +
+      `${this.responses.join('')}${extra}</d:multistatus>\n`
+    );
+  }
+}
+
+export class FakeDavServer {
+  readonly username: string;
+  readonly appToken: string;
+  readonly email: string;
+
+  /**
+   * Requests received since the server started, in order
+   */
+  readonly requests: FakeDavRequest[] = [];
+
+  /**
+   * Most requests that were handled at the same time
+   */
+  peakConcurrency = 0;
+
+  /**
+   * Leave member data out of sync-collection responses, like servers that only report ETags
+   */
+  syncWithoutData = false;
+
+  /**
+   * Most changes per sync-collection response; the rest are left for the next one, with a
+   * 507 on the collection, like servers that limit results; null for no limit
+   */
+  syncLimit: number | null = null;
+
+  private server: Server | null = null;
+  private url = '';
+  private calendars = new Map<string, DavCollection>();
+  private addressBooks = new Map<string, DavCollection>();
+  private failures: FakeDavFailure[] = [];
+  private inFlight = 0;
+
+  /**
+   * Create a server with the collections of a new Nextcloud user:
+   * a "personal" calendar, the scheduling inbox and a "contacts" address book
+   */
+  constructor(options: FakeDavServerOptions = {}) {
+    this.username = options.username ?? 'testuser';
+    this.appToken = options.appToken ?? 'test-token';
+    this.email = options.email ?? `${this.username}@example.com`;
+
+    this.addCalendar('personal', { displayName: 'Personal', color: '#0082c9' });
+    this.calendars.set(
+      'inbox',
+      this.createCollection('inbox', { components: CALENDAR_COMPONENTS }),
+    );
+    this.addAddressBook('contacts', { displayName: 'Contacts' });
+  }
+
+  /**
+   * Start listening on a free local port
+   * @returns The base URL of the server
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.peakConcurrency = Math.max(this.peakConcurrency, ++this.inFlight);
+      this.handle(req, res)
+        .catch((error) => {
+          res.writeHead(500).end(String(error));
+        })
+        .finally(() => this.inFlight--);
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise((resolve) => this.server!.close(resolve));
+      this.server = null;
+    }
+  }
+
+  /**
+   * Get the base URL of the running server
+   */
+  get baseUrl(): string {
+    return this.url;
+  }
+
+  /**
+   * Get a configuration for the services that connects to this server
+   */
+  getConfig(overrides: Partial<NextcloudConfig> = {}): NextcloudConfig {
+    return {
+      baseUrl: this.url,
+      username: this.username,
+      appToken: this.appToken,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Add a calendar, replacing an existing calendar with the same ID
+   */
+  addCalendar(id: string, options: FakeCalendarOptions = {}): void {
+    const calendar = this.createCollection('calendar', options);
+    if (options.displayName) calendar.properties.set(`{${DAV}}displayname`, options.displayName);
+    if (options.color)
+      calendar.properties.set('{http://apple.com/ns/ical/}calendar-color', options.color);
+    this.calendars.set(id, calendar);
+  }
+
+  /**
+   * Add an address book, replacing an existing address book with the same ID
+   */
+  addAddressBook(id: string, options: FakeAddressBookOptions = {}): void {
+    const addressBook = this.createCollection('addressbook', options);
+    if (options.displayName) addressBook.properties.set(`{${DAV}}displayname`, options.displayName);
+    if (options.description) {
+      addressBook.properties.set(`{${CARDDAV}}addressbook-description`, options.description);
+    }
+    this.addressBooks.set(id, addressBook);
+  }
+
+  /**
+   * Check whether a calendar exists
+   */
+  hasCalendar(id: string): boolean {
+    return this.calendars.get(id)?.kind === 'calendar';
+  }
+
+  /**
+   * Get the properties stored for a calendar, by Clark name
+   */
+  getCalendarProperties(id: string): Record<string, string> {
+    return Object.fromEntries(this.calendars.get(id)?.properties ?? []);
+  }
+
+  /**
+   * Store a calendar object (or a message in the "inbox" calendar) without any checks
+   * @returns The ETag of the object
+   */
+  putCalendarObject(calendarId: string, name: string, data: string): string {
+    return this.storeResource(this.getCollection('calendar', calendarId), name, data);
+  }
+
+  /**
+   * Get a calendar object
+   */
+  getCalendarObject(calendarId: string, name: string): FakeDavResource | undefined {
+    return this.calendars.get(calendarId)?.resources.get(name);
+  }
+
+  /**
+   * List the names of the objects of a calendar
+   */
+  listCalendarObjects(calendarId: string): string[] {
+    return [...(this.calendars.get(calendarId)?.resources.keys() ?? [])];
+  }
+
+  /**
+   * Answer the next requests with failures, one request each
+   */
+  failNext(...failures: FakeDavFailure[]): void {
+    this.failures.push(...failures);
+  }
+
+  /**
+   * Store a vCard without any checks
+   * @returns The ETag of the vCard
+   */
+  putCard(addressBookId: string, name: string, data: string): string {
+    return this.storeResource(this.getCollection('addressbook', addressBookId), name, data);
+  }
+
+  /**
+   * Get a vCard
+   */
+  getCard(addressBookId: string, name: string): FakeDavResource | undefined {
+    return this.addressBooks.get(addressBookId)?.resources.get(name);
+  }
+
+  /**
+   * List the names of the vCards of an address book
+   */
+  listCards(addressBookId: string): string[] {
+    return [...(this.addressBooks.get(addressBookId)?.resources.keys() ?? [])];
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private createCollection(
+    kind: DavCollection['kind'],
+    options: { components?: string[]; owner?: string; readOnly?: boolean },
+  ): DavCollection {
+    return {
+      kind,
+      owner: options.owner ?? this.username,
+      readOnly: options.readOnly ?? false,
+      components: options.components ?? ['VEVENT', 'VTODO'],
+      properties: new Map(),
+      resources: new Map(),
+      syncToken: 1,
+      changes: new Map(),
+    };
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private getCollection(kind: 'calendar' | 'addressbook', id: string): DavCollection {
+    const collection = (kind === 'calendar' ? this.calendars : this.addressBooks).get(id);
+    if (!collection) {
+      throw new DavError(
+        404,
+        `${kind === 'calendar' ? 'Calendar' : 'Address book'} ${id} not found`,
+      );
+    }
+    return collection;
+  }
+
+  /**
+   * Store a resource and record the change for sync-collection
+   * @private Internal utility method
+   */
+  private storeResource(collection: DavCollection, name: string, data: string): string {
+    const etag = computeEtag(data);
+    collection.resources.set(name, { data, etag, lastModified: new Date() });
+    this.recordChange(collection, name, false);
+    return etag;
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private recordChange(collection: DavCollection, name: string, deleted: boolean): void {
+    collection.syncToken++;
+    collection.changes.set(name, { token: collection.syncToken, deleted });
+  }
+
+  /**
+   * Get the path of a target
+   * @private Internal utility method
+   */
+  private pathOf(target: DavTarget): string {
+    switch (target.type) {
+      case 'principal':
+        return `${ROOT}/principals/users/${this.username}/`;
+      case 'home':
+        return target.kind === 'calendar'
+          ? `${ROOT}/calendars/${this.username}/`
+          : `${ROOT}/addressbooks/users/${this.username}/`;
+      case 'collection':
+        return `${this.pathOf({ type: 'home', kind: target.kind })}${encodeURIComponent(target.id)}/`;
+      case 'resource':
+        return (
+          this.pathOf({ type: 'collection', kind: target.kind, id: target.id }) +
+          encodeURIComponent(target.name)
+        );
+    }
+  }
+
+  /**
+   * Resolve a request path or href to a target
+   * @returns The target, or null if the path is outside the user's DAV tree
+   * @private Internal utility method
+   */
+  private resolve(pathOrUrl: string): DavTarget | null {
+    const pathname = new URL(pathOrUrl, 'http://localhost').pathname;
+    if (!pathname.startsWith(`${ROOT}/`)) {
+      return null;
+    }
+
+    const segments = pathname
+      .slice(ROOT.length + 1)
+      .split('/')
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const user = this.username;
+
+    if (segments[0] === 'principals' && segments[1] === 'users' && segments[2] === user) {
+      return segments.length === 3 ? { type: 'principal' } : null;
+    }
+
+    let kind: 'calendar' | 'addressbook';
+    let rest: string[];
+    if (segments[0] === 'calendars' && segments[1] === user) {
+      kind = 'calendar';
+      rest = segments.slice(2);
+    } else if (segments[0] === 'addressbooks' && segments[1] === 'users' && segments[2] === user) {
+      kind = 'addressbook';
+      rest = segments.slice(3);
+    } else {
+      return null;
+    }
+
+    if (rest.length === 0) return { type: 'home', kind };
+    if (rest.length === 1) return { type: 'collection', kind, id: rest[0] };
+    if (rest.length === 2) return { type: 'resource', kind, id: rest[0], name: rest[1] };
+    return null;
+  }
+
+  /**
+   * Handle a request
+   * @private Internal utility method
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    const method = (req.method ?? 'GET').toUpperCase();
+    const path = req.url ?? '/';
+    this.requests.push({ method, path, headers: req.headers, body });
+
+    const failure = this.failures.shift();
+    if (failure?.delay) {
+      await sleep(failure.delay);
+    }
+    if (failure?.status) {
+      res.writeHead(failure.status, failure.headers).end();
+      return;
+    }
+    if (failure && !failure.delay) {
+      req.socket.destroy();
+      return;
+    }
+
+    try {
+      const expected = `Basic ${Buffer.from(`${this.username}:${this.appToken}`).toString('base64')}`;
+      if (req.headers.authorization !== expected) {
+        res.setHeader('WWW-Authenticate', 'Basic realm="Nextcloud", charset="UTF-8"');
+        throw new DavError(
+          401,
+          'No public access to this resource., Username or password was incorrect',
+        );
+      }
+
+      const target = this.resolve(path);
+      if (!target) {
+        throw new DavError(404, `File with name ${path} could not be located`);
+      }
+
+      switch (method) {
+        case 'OPTIONS':
+          res.writeHead(200, {
+            DAV: '1, 3, extended-mkcol, access-control, calendar-access, addressbook',
+          });
+          res.end();
+          return;
+        case 'PROPFIND':
+          return this.sendMultistatus(res, await this.propfind(target, req, body));
+        case 'PROPPATCH':
+          return this.sendMultistatus(res, await this.proppatch(target, body));
+        case 'REPORT':
+          return await this.report(target, body, res);
+        case 'MKCALENDAR':
+        case 'MKCOL':
+          await this.mkcol(target, method, body);
+          res.writeHead(201).end();
+          return;
+        case 'GET':
+        case 'HEAD':
+          return this.get(target, method, res);
+        case 'PUT':
+          return this.put(target, req, body, res);
+        case 'DELETE':
+          this.delete(target, req);
+          res.writeHead(204).end();
+          return;
+        default:
+          throw new DavError(501, `Method ${method} is not implemented`);
+      }
+    } catch (error) {
+      if (!(error instanceof DavError)) {
+        throw error;
+      }
+
+      const condition = error.condition ?? '';
+      res.writeHead(error.status, { 'Content-Type': 'application/xml; charset=utf-8' });
+      res.end(
+        `<?xml version="1.0" encoding="utf-8"?>\n<d:error xmlns:d="DAV:" xmlns:s="${SABRE}" ` +
+          `xmlns:cal="${CALDAV}" xmlns:card="${CARDDAV}">${condition}` +
+          `<s:message>${escapeXml(error.message)}</s:message></d:error>\n`,
+      );
+    }
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private sendMultistatus(res: ServerResponse, body: string): void {
+    res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+    res.end(body);
+  }
+
+  /**
+   * Get the live and dead properties of a target, as escaped XML by Clark name
+   * @param calendarData Calendar data to return instead of the stored data (used by expand)
+   * @private Internal utility method
+   */
+  private getProperties(target: DavTarget, calendarData?: string): Map<string, string> {
+    const props = new Map<string, string>();
+    const href = (path: string) => `<d:href>${escapeXml(path)}</d:href>`;
+    const principal = this.pathOf({ type: 'principal' });
+
+    if (target.type === 'principal') {
+      props.set(`{${DAV}}resourcetype`, '<d:principal/>');
+      props.set(`{${DAV}}displayname`, escapeXml(this.username));
+      props.set(`{${DAV}}current-user-principal`, href(principal));
+      props.set(
+        `{${CALDAV}}calendar-home-set`,
+        href(this.pathOf({ type: 'home', kind: 'calendar' })),
+      );
+      props.set(
+        `{${CARDDAV}}addressbook-home-set`,
+        href(this.pathOf({ type: 'home', kind: 'addressbook' })),
+      );
+      props.set(
+        `{${CALDAV}}calendar-user-address-set`,
+        href(`mailto:${this.email}`) + href(principal),
+      );
+      props.set(
+        `{${CALDAV}}schedule-inbox-URL`,
+        href(this.pathOf({ type: 'collection', kind: 'calendar', id: 'inbox' })),
+      );
+      return props;
+    }
+
+    if (target.type === 'home') {
+      props.set(`{${DAV}}resourcetype`, '<d:collection/>');
+      props.set(`{${DAV}}current-user-principal`, href(principal));
+      return props;
+    }
+
+    const collection = this.getCollection(target.kind, target.id);
+
+    if (target.type === 'collection') {
+      const privileges = ['d:read', 'd:read-current-user-privilege-set', 'cal:read-free-busy'];
+      if (!collection.readOnly) {
+        privileges.push('d:write', 'd:write-properties', 'd:write-content', 'd:bind', 'd:unbind');
+      }
+      const type =
+        collection.kind === 'calendar'
+          ? '<cal:calendar/>'
+          : collection.kind === 'inbox'
+            ? '<cal:schedule-inbox/>'
+            : '<card:addressbook/>';
+
+      props.set(`{${DAV}}resourcetype`, `<d:collection/>${type}`);
+      props.set(
+        `{${DAV}}current-user-privilege-set`,
+        privileges.map((privilege) => `<d:privilege><${privilege}/></d:privilege>`).join(''),
+      );
+      props.set(`{${OWNCLOUD}}owner-principal`, `principals/users/${escapeXml(collection.owner)}`);
+      if (collection.kind !== 'inbox') {
+        props.set(`{${DAV}}sync-token`, `${SYNC_TOKEN_PREFIX}${collection.syncToken}`);
+        props.set(`{${CALENDARSERVER}}getctag`, `${SYNC_TOKEN_PREFIX}${collection.syncToken}`);
+      }
+      if (collection.kind === 'calendar') {
+        props.set(
+          `{${CALDAV}}supported-calendar-component-set`,
+          collection.components.map((name) => `<cal:comp name="${name}"/>`).join(''),
+        );
+      }
+      if (collection.owner !== this.username) {
+        const access = collection.readOnly ? '<oc:read/>' : '<oc:read-write/>';
+        props.set(
+          `{${OWNCLOUD}}invite`,
+          `<oc:user>${href(`principal:principals/users/${this.username}`)}` +
+            `<oc:access>${access}</oc:access></oc:user>`,
+        );
+      }
+      for (const [name, value] of collection.properties) {
+        props.set(name, escapeXml(value));
+      }
+      return props;
+    }
+
+    const resource = collection.resources.get(target.name);
+    if (!resource) {
+      throw new DavError(404, `File with name ${target.name} could not be located`);
+    }
+
+    props.set(`{${DAV}}resourcetype`, '');
+    props.set(`{${DAV}}getetag`, escapeXml(resource.etag));
+    props.set(`{${DAV}}getlastmodified`, resource.lastModified.toUTCString());
+    props.set(`{${DAV}}getcontentlength`, String(Buffer.byteLength(resource.data)));
+    if (target.kind === 'calendar') {
+      props.set(`{${DAV}}getcontenttype`, 'text/calendar; charset=utf-8');
+      props.set(`{${CALDAV}}calendar-data`, escapeXml(calendarData ?? resource.data));
+    } else {
+      props.set(`{${DAV}}getcontenttype`, 'text/vcard; charset=utf-8');
+      props.set(`{${CARDDAV}}address-data`, escapeXml(resource.data));
+    }
+    return props;
+  }
+
+  /**
+   * Add the requested properties of a target to a multistatus response
+   * @param requested Clark names of the requested properties, or null for all properties
+   * @private Internal utility method
+   */
+  private addResponse(
+    writer: MultistatusWriter,
+    target: DavTarget,
+    requested: string[] | null,
+    calendarData?: string,
+  ): void {
+    const props = this.getProperties(target, calendarData);
+    if (!requested) {
+      EXPENSIVE_PROPERTIES.forEach((name) => props.delete(name));
+      writer.addPropstat(this.pathOf(target), props);
+      return;
+    }
+
+    const found = new Map(
+      requested.filter((name) => props.has(name)).map((name) => [name, props.get(name)!]),
+    );
+    writer.addPropstat(
+      this.pathOf(target),
+      found,
+      requested.filter((name) => !props.has(name)),
+    );
+  }
+
+  /**
+   * Get the names of the properties requested with a prop element
+   * @returns Clark names, or null if all properties were requested
+   * @private Internal utility method
+   */
+  private getRequestedProperties(request: XmlNode | null): string[] | null {
+    const prop = child(request, `{${DAV}}prop`);
+    return prop ? prop.children.map((node) => node.name) : null;
+  }
+
+  /**
+   * Get the members of a collection or home
+   * @private Internal utility method
+   */
+  private getMembers(target: DavTarget): DavTarget[] {
+    if (target.type === 'home') {
+      const collections = target.kind === 'calendar' ? this.calendars : this.addressBooks;
+      return [...collections.keys()].map((id) => ({ type: 'collection', kind: target.kind, id }));
+    }
+    if (target.type === 'collection') {
+      const collection = this.getCollection(target.kind, target.id);
+      return [...collection.resources.keys()].map((name) => ({
+        type: 'resource',
+        kind: target.kind,
+        id: target.id,
+        name,
+      }));
+    }
+    return [];
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private async propfind(target: DavTarget, req: IncomingMessage, body: string): Promise<string> {
+    const request = await parseXmlBody(body);
+    const requested = this.getRequestedProperties(request);
+    const depth = req.headers.depth ?? 'infinity';
+    const writer = new MultistatusWriter();
+
+    this.addResponse(writer, target, requested);
+    if (depth !== '0') {
+      this.getMembers(target).forEach((member) => this.addResponse(writer, member, requested));
+    }
+
+    return writer.toString();
+  }
+
+  /**
+   * Set and remove dead properties; nothing is changed if any property cannot be changed
+   * @private Internal utility method
+   */
+  private async proppatch(target: DavTarget, body: string): Promise<string> {
+    if (target.type !== 'collection') {
+      throw new DavError(403, 'Properties of this resource cannot be changed');
+    }
+
+    const collection = this.getCollection(target.kind, target.id);
+    if (collection.readOnly) {
+      throw new DavError(403, 'Access denied', '<d:need-privileges/>');
+    }
+
+    const request = await parseXmlBody(body);
+    const updates = (request?.children ?? []).flatMap((operation) =>
+      (child(operation, `{${DAV}}prop`)?.children ?? []).map((prop) => ({
+        name: prop.name,
+        value: operation.name === `{${DAV}}remove` ? null : prop.text,
+      })),
+    );
+
+    const forbidden = updates.filter((update) => PROTECTED_PROPERTIES.has(update.name));
+    const statuses = new Map<string, string[]>();
+    if (forbidden.length > 0) {
+      statuses.set(
+        '403 Forbidden',
+        forbidden.map((update) => update.name),
+      );
+      const others = updates.filter((update) => !forbidden.includes(update));
+      if (others.length > 0) {
+        statuses.set(
+          '424 Failed Dependency',
+          others.map((update) => update.name),
+        );
+      }
+    } else {
+      for (const { name, value } of updates) {
+        if (value === null) {
+          collection.properties.delete(name);
+        } else {
+          collection.properties.set(name, value);
+        }
+      }
+      statuses.set(
+        '200 OK',
+        updates.map((update) => update.name),
+      );
+    }
+
+    const writer = new MultistatusWriter();
+    writer.addPropstatByStatus(this.pathOf(target), statuses);
+    return writer.toString();
+  }
+
+  /**
+   * Create a calendar (MKCALENDAR or extended MKCOL) or an address book (extended MKCOL)
+   * @private Internal utility method
+   */
+  private async mkcol(target: DavTarget, method: string, body: string): Promise<void> {
+    if (target.type !== 'collection') {
+      throw new DavError(
+        403,
+        'Collections can only be created in the calendar or address book home',
+      );
+    }
+
+    const collections = target.kind === 'calendar' ? this.calendars : this.addressBooks;
+    if (collections.has(target.id)) {
+      throw new DavError(405, 'The resource you tried to create already exists');
+    }
+
+    const request = await parseXmlBody(body);
+    const props = (request?.children ?? []).flatMap(
+      (set) => child(set, `{${DAV}}prop`)?.children ?? [],
+    );
+    const resourceType = props.find((prop) => prop.name === `{${DAV}}resourcetype`);
+    const expectedType =
+      target.kind === 'calendar' ? `{${CALDAV}}calendar` : `{${CARDDAV}}addressbook`;
+    if (method === 'MKCOL' && !child(resourceType, expectedType)) {
+      throw new DavError(403, 'Only calendars and address books can be created here');
+    }
+    if (method === 'MKCALENDAR' && target.kind !== 'calendar') {
+      throw new DavError(403, 'Calendars can only be created in the calendar home');
+    }
+
+    const componentSet = props.find(
+      (prop) => prop.name === `{${CALDAV}}supported-calendar-component-set`,
+    );
+    const components = componentSet
+      ? childrenNamed(componentSet, `{${CALDAV}}comp`).map((comp) =>
+          (comp.attributes.name ?? '').toUpperCase(),
+        )
+      : undefined;
+
+    const collection = this.createCollection(target.kind, { components });
+    for (const prop of props) {
+      if (prop !== resourceType && prop !== componentSet) {
+        collection.properties.set(prop.name, prop.text);
+      }
+    }
+    collections.set(target.id, collection);
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private get(target: DavTarget, method: string, res: ServerResponse): void {
+    if (target.type !== 'resource') {
+      throw new DavError(501, 'GET is only implemented for calendar objects and vCards');
+    }
+
+    const resource = this.getCollection(target.kind, target.id).resources.get(target.name);
+    if (!resource) {
+      throw new DavError(404, `File with name ${target.name} could not be located`);
+    }
+
+    res.writeHead(200, {
+      'Content-Type':
+        target.kind === 'calendar' ? 'text/calendar; charset=utf-8' : 'text/vcard; charset=utf-8',
+      'Content-Length': Buffer.byteLength(resource.data),
+      ETag: resource.etag,
+      'Last-Modified': resource.lastModified.toUTCString(),
+    });
+    res.end(method === 'HEAD' ? undefined : resource.data);
+  }
+
+  /**
+   * Check If-Match and If-None-Match against the current ETag of a resource
+   * @private Internal utility method
+   */
+  private checkPreconditions(req: IncomingMessage, resource: FakeDavResource | undefined): void {
+    const matches = (header: string) =>
+      header.trim() === '*'
+        ? resource !== undefined
+        : header.split(',').some((etag) => resource !== undefined && etag.trim() === resource.etag);
+
+    const ifMatch = req.headers['if-match'];
+    if (ifMatch && !matches(ifMatch)) {
+      throw new DavError(
+        412,
+        'An If-Match header was specified, but none of the specified ETags matched.',
+      );
+    }
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch && matches(ifNoneMatch)) {
+      throw new DavError(
+        412,
+        'An If-None-Match header was specified, but the ETag matched (or * was specified).',
+      );
+    }
+  }
+
+  /**
+   * Validate calendar data like the CalDAV plugin of Sabre does
+   * @returns The UID of the object
+   * @private Internal utility method
+   */
+  private validateCalendarData(collection: DavCollection, data: string): string {
+    let calendar: ICalComponent;
+    try {
+      calendar = parseDocument(data);
+    } catch (error) {
+      throw new DavError(
+        415,
+        `This resource only supports valid iCalendar 2.0 data. ${(error as Error).message}`,
+      );
+    }
+
+    if (calendar.name !== 'VCALENDAR') {
+      throw new DavError(415, 'This collection can only support iCalendar objects.');
+    }
+
+    const components = calendar.components.filter((component) =>
+      CALENDAR_COMPONENTS.includes(component.name),
+    );
+    if (components.length === 0) {
+      throw new DavError(
+        403,
+        'We require at least 1 VEVENT, VTODO or VJOURNAL',
+        '<cal:valid-calendar-object-resource/>',
+      );
+    }
+    if (new Set(components.map((component) => component.name)).size > 1) {
+      throw new DavError(
+        403,
+        'A calendar object must only contain 1 component.',
+        '<cal:valid-calendar-object-resource/>',
+      );
+    }
+    if (!collection.components.includes(components[0].name)) {
+      throw new DavError(
+        403,
+        `Calendar does not support ${components[0].name} components`,
+        '<cal:supported-calendar-component/>',
+      );
+    }
+
+    const uids = new Set(components.map((component) => getProperty(component, 'UID')?.value));
+    if (uids.has(undefined) || uids.size > 1) {
+      throw new DavError(
+        403,
+        'Every object must have the same UID.',
+        '<cal:valid-calendar-object-resource/>',
+      );
+    }
+
+    return [...uids][0]!;
+  }
+
+  /**
+   * Get the UID of a stored resource
+   * @private Internal utility method
+   */
+  private getUid(data: string): string | undefined {
+    return /^UID:(.*)$/m.exec(data.replace(/\r\n[ \t]/g, ''))?.[1]?.trim();
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private put(target: DavTarget, req: IncomingMessage, body: string, res: ServerResponse): void {
+    if (target.type !== 'resource') {
+      throw new DavError(405, 'PUT is not allowed on collections');
+    }
+
+    const collections = target.kind === 'calendar' ? this.calendars : this.addressBooks;
+    const collection = collections.get(target.id);
+    if (!collection) {
+      throw new DavError(409, 'Files can only be created as children of collections');
+    }
+    if (collection.readOnly || collection.kind === 'inbox') {
+      throw new DavError(403, 'Access denied', '<d:need-privileges/>');
+    }
+
+    const existing = collection.resources.get(target.name);
+    this.checkPreconditions(req, existing);
+
+    let uid: string | undefined;
+    if (target.kind === 'calendar') {
+      uid = this.validateCalendarData(collection, body);
+    } else {
+      if (!/^BEGIN:VCARD\r?$/m.test(body) || !/^END:VCARD\r?$/m.test(body)) {
+        throw new DavError(415, 'This resource only supports valid vCard data.');
+      }
+      uid = this.getUid(body);
+    }
+
+    const conflict = [...collection.resources].find(
+      ([name, resource]) =>
+        name !== target.name && uid !== undefined && this.getUid(resource.data) === uid,
+    );
+    if (conflict) {
+      const condition = target.kind === 'calendar' ? 'cal:no-uid-conflict' : 'card:no-uid-conflict';
+      throw new DavError(
+        403,
+        `The UID "${uid}" is already used by another object in this collection`,
+        `<${condition}><d:href>${escapeXml(this.pathOf({ ...target, name: conflict[0] }))}</d:href></${condition}>`,
+      );
+    }
+
+    const etag = this.storeResource(collection, target.name, body);
+    res.writeHead(existing ? 204 : 201, { ETag: etag });
+    res.end();
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private delete(target: DavTarget, req: IncomingMessage): void {
+    if (target.type === 'collection') {
+      const collections = target.kind === 'calendar' ? this.calendars : this.addressBooks;
+      const collection = this.getCollection(target.kind, target.id);
+      if (collection.readOnly || collection.kind === 'inbox') {
+        throw new DavError(403, 'Access denied', '<d:need-privileges/>');
+      }
+      collections.delete(target.id);
+      return;
+    }
+
+    if (target.type !== 'resource') {
+      throw new DavError(403, 'This resource cannot be deleted');
+    }
+
+    const collection = this.getCollection(target.kind, target.id);
+    const resource = collection.resources.get(target.name);
+    if (!resource) {
+      throw new DavError(404, `File with name ${target.name} could not be located`);
+    }
+    if (collection.readOnly) {
+      throw new DavError(403, 'Access denied', '<d:need-privileges/>');
+    }
+    this.checkPreconditions(req, resource);
+
+    collection.resources.delete(target.name);
+    this.recordChange(collection, target.name, true);
+  }
+
+  /**
+   * @private Internal utility method
+   */
+  private async report(target: DavTarget, body: string, res: ServerResponse): Promise<void> {
+    if (target.type !== 'collection') {
+      throw new DavError(415, 'REPORT is only supported on calendars and address books');
+    }
+
+    const collection = this.getCollection(target.kind, target.id);
+    const request = await parseXmlBody(body);
+    if (!request) {
+      throw new DavError(400, 'A REPORT request must have a body');
+    }
+
+    const requested = this.getRequestedProperties(request);
+    const writer = new MultistatusWriter();
+    const members = this.getMembers(target) as Extract<DavTarget, { type: 'resource' }>[];
+
+    switch (request.name) {
+      case `{${CALDAV}}calendar-query`: {
+        const filter = child(child(request, `{${CALDAV}}filter`), `{${CALDAV}}comp-filter`);
+        const expand = this.getExpandRange(request);
+        for (const member of members) {
+          const calendar = parseDocument(collection.resources.get(member.name)!.data);
+          if (!filter || matchesCompFilter(calendar, filter, calendar)) {
+            this.addResponse(writer, member, requested, expand && this.expand(calendar, expand));
+          }
+        }
+        return this.sendMultistatus(res, writer.toString());
+      }
+
+      case `{${CALDAV}}calendar-multiget`:
+      case `{${CARDDAV}}addressbook-multiget`: {
+        const expand = this.getExpandRange(request);
+        for (const href of childrenNamed(request, `{${DAV}}href`)) {
+          const member = this.resolve(href.text.trim());
+          const resource =
+            member?.type === 'resource' && member.kind === target.kind && member.id === target.id
+              ? collection.resources.get(member.name)
+              : undefined;
+          if (!member || !resource) {
+            writer.addStatus(href.text.trim(), '404 Not Found');
+          } else {
+            const calendarData = expand && this.expand(parseDocument(resource.data), expand);
+            this.addResponse(writer, member, requested, calendarData);
+          }
+        }
+        return this.sendMultistatus(res, writer.toString());
+      }
+
+      case `{${CARDDAV}}addressbook-query`: {
+        const filter = child(request, `{${CARDDAV}}filter`);
+        const propFilters = childrenNamed(filter, `{${CARDDAV}}prop-filter`);
+        for (const member of members) {
+          const card = parseDocument(collection.resources.get(member.name)!.data);
+          const results = propFilters.map((propFilter) =>
+            matchesPropFilter(card, propFilter, CARDDAV),
+          );
+          const matched =
+            filter?.attributes.test === 'allof'
+              ? results.every(Boolean)
+              : results.length === 0 || results.some(Boolean);
+          if (matched) {
+            this.addResponse(writer, member, requested);
+          }
+        }
+        return this.sendMultistatus(res, writer.toString());
+      }
+
+      case `{${CALDAV}}free-busy-query`: {
+        const timeRange = child(request, `{${CALDAV}}time-range`);
+        const start = parseDateValue(timeRange?.attributes.start ?? '');
+        const end = parseDateValue(timeRange?.attributes.end ?? '');
+        if (!start || !end) {
+          throw new DavError(
+            400,
+            'The free-busy-query report must have a time-range with start and end',
+          );
+        }
+        res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8' });
+        res.end(this.freeBusy(collection, start, end));
+        return;
+      }
+
+      case `{${DAV}}sync-collection`:
+        return this.sendMultistatus(
+          res,
+          this.syncCollection(target, collection, request, requested),
+        );
+
+      default:
+        throw new DavError(415, `The ${request.name} report is not supported`);
+    }
+  }
+
+  /**
+   * Get the range of an expand element in calendar-data
+   * @private Internal utility method
+   */
+  private getExpandRange(request: XmlNode): { start: Date; end: Date } | undefined {
+    const calendarData = child(child(request, `{${DAV}}prop`), `{${CALDAV}}calendar-data`);
+    const expand = child(calendarData, `{${CALDAV}}expand`);
+    if (!expand) {
+      return undefined;
+    }
+
+    const start = parseDateValue(expand.attributes.start ?? '');
+    const end = parseDateValue(expand.attributes.end ?? '');
+    if (!start || !end) {
+      throw new DavError(400, 'The expand element must have a start and end');
+    }
+    return { start, end };
+  }
+
+  /**
+   * Expand the recurring components of a calendar object into instances in UTC (RFC 4791 9.6.5)
+   * @private Internal utility method
+   */
+  private expand(calendar: ICalComponent, range: { start: Date; end: Date }): string {
+    const instances = getInstances(calendar, range.end).filter((instance) => {
+      const span = getTimeSpan(instance);
+      return span !== null && overlaps(span, range.start, range.end);
+    });
+
+    for (const instance of instances) {
+      for (const name of ['DTSTART', 'DTEND', 'DUE', 'RECURRENCE-ID']) {
+        const date = getDateProperty(instance, name);
+        if (date) {
+          setUtcDateProperty(instance, name, date);
+        }
+      }
+    }
+
+    return serializeDocument({
+      ...calendar,
+      components: [
+        ...calendar.components.filter(
+          (component) =>
+            !CALENDAR_COMPONENTS.includes(component.name) && component.name !== 'VTIMEZONE',
+        ),
+        ...instances,
+      ],
+    });
+  }
+
+  /**
+   * Compute the busy time of a calendar as a VFREEBUSY (RFC 4791 7.10)
+   * @private Internal utility method
+   */
+  private freeBusy(collection: DavCollection, start: Date, end: Date): string {
+    const periods: string[] = [];
+    for (const resource of collection.resources.values()) {
+      for (const instance of getInstances(parseDocument(resource.data), end)) {
+        const span = getTimeSpan(instance);
+        const status = getProperty(instance, 'STATUS')?.value.toUpperCase();
+        if (
+          instance.name !== 'VEVENT' ||
+          !span ||
+          !overlaps(span, start, end) ||
+          getProperty(instance, 'TRANSP')?.value.toUpperCase() === 'TRANSPARENT' ||
+          status === 'CANCELLED'
+        ) {
+          continue;
+        }
+
+        const type = status === 'TENTATIVE' ? 'BUSY-TENTATIVE' : 'BUSY';
+        const from = span.start < start ? start : span.start;
+        const to = span.end > end ? end : span.end;
+        periods.push(`FREEBUSY;FBTYPE=${type}:${formatDateValue(from)}/${formatDateValue(to)}`);
+      }
+    }
+
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Sabre//Sabre VObject 4.5.0//EN',
+      'CALSCALE:GREGORIAN',
+      'BEGIN:VFREEBUSY',
+      `DTSTAMP:${formatDateValue(new Date())}`,
+      `DTSTART:${formatDateValue(start)}`,
+      `DTEND:${formatDateValue(end)}`,
+      ...periods,
+      'END:VFREEBUSY',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n');
+  }
+
+  /**
+   * Answer a sync-collection report with the members changed since a sync token (RFC 6578)
+   * @private Internal utility method
+   */
+  private syncCollection(
+    target: Extract<DavTarget, { type: 'collection' }>,
+    collection: DavCollection,
+    request: XmlNode,
+    requested: string[] | null,
+  ): string {
+    const token = child(request, `{${DAV}}sync-token`)?.text.trim() ?? '';
+    let since = 0;
+    if (token) {
+      const match = token.startsWith(SYNC_TOKEN_PREFIX)
+        ? /^\d+$/.exec(token.slice(SYNC_TOKEN_PREFIX.length))
+        : null;
+      since = match ? Number(match[0]) : NaN;
+      if (!(since >= 1 && since <= collection.syncToken)) {
+        throw new DavError(403, 'Invalid or unknown sync token', '<d:valid-sync-token/>');
+      }
+    }
+
+    const properties = this.syncWithoutData
+      ? (requested?.filter((name) => !EXPENSIVE_PROPERTIES.has(name)) ?? null)
+      : requested;
+    const changes = [...collection.changes]
+      .filter(([, change]) => change.token > since && !(since === 0 && change.deleted))
+      .sort(([, a], [, b]) => a.token - b.token);
+    const reported = changes.slice(0, this.syncLimit ?? changes.length);
+    const writer = new MultistatusWriter();
+    for (const [name, change] of reported) {
+      const member: DavTarget = { type: 'resource', kind: target.kind, id: target.id, name };
+      if (change.deleted) {
+        writer.addStatus(this.pathOf(member), '404 Not Found');
+      } else {
+        this.addResponse(writer, member, properties);
+      }
+    }
+
+    // A truncated response carries the token up to its last change
+    let reportedToken = collection.syncToken;
+    if (reported.length < changes.length) {
+      writer.addStatus(this.pathOf(target), '507 Insufficient Storage');
+      reportedToken = reported.length > 0 ? reported[reported.length - 1][1].token : since;
+    }
+
+    return writer.toString(
+      reportedToken ? `<d:sync-token>${SYNC_TOKEN_PREFIX}${reportedToken}</d:sync-token>` : '',
+    );
+  }
+}
@@ -7,3 +7,4 @@ export * from './xml-response-factory.js';
 export * from './http-mock.js';
 export * from './config-factory.js';
 export * from './fixtures.js';
+export * from './fake-dav-server.js';
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import { setTimeout as sleep } from 'timers/promises';
+import { WorkQueue, mapSettled } from '../services/calendar/work-queue.js';
+
+describe('WorkQueue', () => {
+  beforeEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run no more tasks at once than allowed', async () => {
+    const queue = new WorkQueue(2);
+    let running = 0;
+    let mostRunning = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5].map((n) =>
+        queue.run(async () => {
+          running++;
+          mostRunning = Math.max(mostRunning, running);
+          await sleep(5);
+          running--;
+          return n * 2;
+        }),
+      ),
+    );
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(mostRunning).toBe(2);
+    expect(queue.getStatus()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('should free the slot of a failed task', async () => {
+    const queue = new WorkQueue(1);
+
+    await expect(queue.run(() => Promise.reject(new Error('Failed')))).rejects.toThrow('Failed');
+    await expect(queue.run(async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should space task starts by the rate limit', async () => {
+    const queue = new WorkQueue(10, 50);
+    const starts: number[] = [];
+
+    await Promise.all([1, 2, 3].map(() => queue.run(async () => starts.push(Date.now()))));
+
+    expect(starts[2] - starts[0]).toBeGreaterThanOrEqual(35);
+  });
+
+  describe('mapSettled', () => {
+    it('should report the outcome of every item in order', async () => {
+      let running = 0;
+      let mostRunning = 0;
+
+      const outcomes = await mapSettled(
+        ['a', 'b', 'c', 'd'],
+        async (item) => {
+          running++;
+          mostRunning = Math.max(mostRunning, running);
+          await sleep(item === 'a' ? 10 : 1);
+          running--;
+          if (item === 'c') {
+            throw new Error('Failed c');
+          }
+          return item.toUpperCase();
+        },
+        2,
+      );
+
+      expect(outcomes.map((outcome) => outcome.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+        'rejected',
+        'fulfilled',
+      ]);
+      expect(outcomes[3]).toEqual({ status: 'fulfilled', value: 'D' });
+      expect(mostRunning).toBe(2);
+    });
+  });
+});
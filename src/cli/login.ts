@@ -0,0 +1,48 @@
+/**
+ * The login command: obtains an app password with Nextcloud Login Flow v2 and stores it
+ * in the credential file read by loadConfig
+ *
+ * Usage: nextcloud-calendar login [--server <url>] [--account <name>]
+ */
+import { getCredentialsFilePath, saveCredentials } from '../config/credentials.js';
+import { LoginFlowService } from '../services/login-flow-service.js';
+
+/**
+ * Get the value of an option of the login command
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 && index + 1 < args.length ? args[index + 1] : undefined;
+}
+
+/**
+ * Run the login command
+ * @param args Arguments following "login"
+ * @throws Error if no server is known or the login fails
+ */
+export async function runLoginCommand(args: string[]): Promise<void> {
+  const server = getOption(args, '--server') || process.env.NEXTCLOUD_BASE_URL;
+  const account = getOption(args, '--account') || process.env.NEXTCLOUD_ACCOUNT_NAME || 'default';
+
+  if (!server) {
+    throw new Error('No Nextcloud server given; use --server <url> or set NEXTCLOUD_BASE_URL');
+  }
+
+  const loginFlow = new LoginFlowService(server);
+  const flow = await loginFlow.start();
+
+  console.error(`Open this page to log in to ${server} and grant access:\n\n  ${flow.loginUrl}\n`);
+  console.error('Waiting for access to be granted...');
+
+  const result = await loginFlow.poll(flow);
+  const path = getCredentialsFilePath();
+  saveCredentials(
+    account,
+    { baseUrl: result.server, username: result.loginName, appToken: result.appPassword },
+    path,
+  );
+
+  console.error(
+    `Logged in as ${result.loginName}; credentials of account "${account}" saved to ${path}`,
+  );
+}
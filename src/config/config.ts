@@ -1,7 +1,9 @@
 import { config } from 'dotenv';
-import { readFileSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { resolve, dirname, extname } from 'path';
 import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { getCredentialsFilePath, readStoredCredentials } from './credentials.js';
 
 // Get package.json version and .env path
 const __filename = fileURLToPath(import.meta.url);
@@ -23,26 +25,427 @@ const packageVersion = (() => {
 
 export interface ServerConfig {
   port: number;
+  host: string;
+  transport: TransportMode;
+  auth: AuthMode;
+  tokenVaultFile?: string;
   serverName: string;
   serverVersion: string;
   environment: string;
   keepAliveInterval: number; // Added keep-alive interval
+  resourcePollInterval: number; // Milliseconds between checks of subscribed resources
 }
 
+/**
+ * How MCP clients connect:
+ * - 'stdio': a single client that started this process (e.g. Claude Desktop)
+ * - 'http': any number of clients over streamable HTTP or HTTP+SSE
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Where the Nextcloud credentials of HTTP clients come from:
+ * - 'none': all clients use the configured accounts
+ * - 'passthrough': clients send their Nextcloud login as HTTP Basic credentials
+ * - 'vault': clients send a bearer token that the token vault file maps to a Nextcloud login
+ */
+export type AuthMode = 'none' | 'passthrough' | 'vault';
+
 export interface NextcloudConfig {
   baseUrl: string;
   username: string;
   appToken: string;
   defaultTimezone?: string;
   useLocalTimezone?: boolean;
+  recurrenceExpansion?: RecurrenceExpansionMode;
+  /**
+   * Directory of the local cache of calendars and address books; caching is off without it
+   */
+  cacheDir?: string;
+  /**
+   * Timeouts and retries of the requests to the server; defaults apply to unset values
+   */
+  http?: Partial<HttpConfig>;
+}
+
+/**
+ * How requests to a Nextcloud server are timed out and retried
+ */
+export interface HttpConfig {
+  /**
+   * Milliseconds an attempt may take before it is aborted
+   */
+  timeout: number;
+  /**
+   * Attempts made after the first one fails with a transient error
+   */
+  retries: number;
+  /**
+   * Milliseconds before the first retry; doubles with every further retry
+   */
+  retryDelay: number;
+  /**
+   * Longest wait before a retry; a longer Retry-After is not waited for
+   */
+  maxRetryDelay: number;
+  /**
+   * Consecutive failed attempts after which requests to the host fail fast
+   */
+  circuitThreshold: number;
+  /**
+   * Milliseconds requests fail fast before a trial request is let through
+   */
+  circuitResetTimeout: number;
+  /**
+   * Most requests to the host in flight at once; further requests wait in a queue
+   */
+  maxConcurrentRequests: number;
+  /**
+   * Most requests to the host started per second; 0 for no limit
+   */
+  maxRequestsPerSecond: number;
+}
+
+/**
+ * How recurring events are expanded into instances:
+ * - 'server': use the CalDAV expand report only
+ * - 'local': always expand locally
+ * - 'auto': use the server and fall back to local expansion when it fails or returns unexpanded data
+ */
+export type RecurrenceExpansionMode = 'server' | 'local' | 'auto';
+
+/**
+ * The named Nextcloud accounts the server can connect to
+ */
+export interface AccountsConfig {
+  /**
+   * Account used by tools called without an account
+   */
+  defaultAccount: string;
+  accounts: Record<string, NextcloudConfig>;
+}
+
+/**
+ * Name of the account configured through NEXTCLOUD_BASE_URL, NEXTCLOUD_USERNAME and NEXTCLOUD_APP_TOKEN
+ */
+const DEFAULT_ACCOUNT_NAME = 'default';
+
+/**
+ * Matches the base URL variable of an indexed account (NEXTCLOUD_1_BASE_URL, NEXTCLOUD_2_BASE_URL, ...)
+ */
+const INDEXED_ACCOUNT_PATTERN = /^NEXTCLOUD_(\d+)_BASE_URL$/;
+
+/**
+ * Parse a recurrence expansion mode, defaulting to 'auto'
+ * @param value Raw configuration value
+ * @returns The expansion mode
+ */
+function parseRecurrenceExpansionMode(value: string | undefined): RecurrenceExpansionMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'server' || mode === 'local' || mode === 'auto') {
+    return mode;
+  }
+
+  if (mode) {
+    console.error(`Unknown RECURRENCE_EXPANSION value "${value}", using "auto"`);
+  }
+  return 'auto';
+}
+
+/**
+ * Environment variables of the HTTP settings; the accounts file uses the setting names
+ */
+const HTTP_CONFIG_VARIABLES: Record<keyof HttpConfig, string> = {
+  timeout: 'NEXTCLOUD_HTTP_TIMEOUT',
+  retries: 'NEXTCLOUD_HTTP_RETRIES',
+  retryDelay: 'NEXTCLOUD_HTTP_RETRY_DELAY',
+  maxRetryDelay: 'NEXTCLOUD_HTTP_MAX_RETRY_DELAY',
+  circuitThreshold: 'NEXTCLOUD_CIRCUIT_THRESHOLD',
+  circuitResetTimeout: 'NEXTCLOUD_CIRCUIT_RESET_TIMEOUT',
+  maxConcurrentRequests: 'NEXTCLOUD_HTTP_MAX_CONCURRENCY',
+  maxRequestsPerSecond: 'NEXTCLOUD_HTTP_RATE_LIMIT',
+};
+
+/**
+ * Parse the HTTP settings of an account, falling back to the environment
+ * @param values Settings of the account, e.g. the "http" object of the accounts file
+ * @returns The settings that are set; invalid values are ignored with a warning
+ */
+function parseHttpConfig(values: unknown): Partial<HttpConfig> {
+  const settings = (values && typeof values === 'object' ? values : {}) as Record<string, unknown>;
+  const http: Partial<HttpConfig> = {};
+
+  for (const [key, variable] of Object.entries(HTTP_CONFIG_VARIABLES)) {
+    const value = settings[key] ?? process.env[variable];
+    if (value === undefined || value === '') {
+      continue;
+    }
+
+    const number = Number(value);
+    if (Number.isInteger(number) && number >= 0) {
+      http[key as keyof HttpConfig] = number;
+    } else {
+      console.error(`Invalid ${variable} value "${value}", using the default`);
+    }
+  }
+  return http;
+}
+
+/**
+ * Parse a transport mode, defaulting to 'stdio'
+ * @param value Raw configuration value
+ * @returns The transport mode
+ */
+function parseTransportMode(value: string | undefined): TransportMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'stdio' || mode === 'http') {
+    return mode;
+  }
+
+  if (mode) {
+    console.error(`Unknown MCP_TRANSPORT value "${value}", using "stdio"`);
+  }
+  return 'stdio';
+}
+
+/**
+ * Get the value of a command line option
+ * @param name The option, e.g. '--port'
+ * @returns The value following the option, or null if it is not given
+ */
+function getArgValue(name: string): string | null {
+  const args = process.argv.slice(2);
+  const index = args.indexOf(name);
+  return index >= 0 && index + 1 < args.length ? args[index + 1] : null;
+}
+
+/**
+ * Get the path of the accounts file from --accounts or NEXTCLOUD_ACCOUNTS_FILE
+ */
+function getAccountsFilePath(): string | null {
+  return getArgValue('--accounts') || process.env.NEXTCLOUD_ACCOUNTS_FILE || null;
+}
+
+/**
+ * Check whether accounts are configured besides the NEXTCLOUD_* variables
+ */
+function hasAdditionalAccounts(): boolean {
+  return (
+    !!getAccountsFilePath() ||
+    existsSync(getCredentialsFilePath()) ||
+    Object.keys(process.env).some((name) => INDEXED_ACCOUNT_PATTERN.test(name))
+  );
+}
+
+/**
+ * Create the configuration of one account, filling in server-wide defaults
+ * @param name Account name, used in error messages
+ * @param values Raw account settings
+ * @throws Error if the base URL is missing, or the username or app token without authentication
+ */
+export function createAccountConfig(
+  name: string,
+  values: Record<string, unknown>,
+): NextcloudConfig {
+  const text = (key: string) => (typeof values[key] === 'string' ? (values[key] as string) : '');
+
+  const account: NextcloudConfig = {
+    // Trim trailing slashes from base URL to ensure consistent format
+    baseUrl: text('baseUrl').replace(/\/+$/, ''),
+    username: text('username'),
+    appToken: text('appToken'),
+    defaultTimezone: text('defaultTimezone') || process.env.DEFAULT_TIMEZONE || 'Europe/Paris',
+    useLocalTimezone: typeof values.useLocalTimezone === 'boolean' ? values.useLocalTimezone : true,
+    recurrenceExpansion: parseRecurrenceExpansionMode(
+      text('recurrenceExpansion') || process.env.RECURRENCE_EXPANSION,
+    ),
+    cacheDir: text('cacheDir') || process.env.NEXTCLOUD_CACHE_DIR || undefined,
+    http: parseHttpConfig(values.http),
+  };
+
+  // With authentication, clients bring their own login
+  const required = getAuthMode() === 'none' ? ['baseUrl', 'username', 'appToken'] : ['baseUrl'];
+  const missing = required.filter((key) => !account[key as keyof NextcloudConfig]);
+  if (missing.length > 0) {
+    throw new Error(`Account "${name}" is missing ${missing.join(', ')}`);
+  }
+
+  return account;
+}
+
+/**
+ * Read a JSON configuration file, or a YAML file when it ends in .yaml or .yml
+ * @param path Path of the file
+ * @returns The parsed content
+ * @throws Error if the file cannot be read or parsed
+ */
+export function readConfigFile(path: string): unknown {
+  const text = readFileSync(path, 'utf8');
+  return ['.yaml', '.yml'].includes(extname(path).toLowerCase())
+    ? parseYaml(text)
+    : JSON.parse(text);
+}
+
+/**
+ * Read an accounts file
+ * { "defaultAccount": "work", "accounts": { "work": { "baseUrl": ..., "username": ..., "appToken": ... } } }
+ * @param path Path of the file
+ * @throws Error if the file cannot be read or has an invalid format
+ */
+function readAccountsFile(path: string): {
+  defaultAccount?: string;
+  accounts: Record<string, Record<string, unknown>>;
+} {
+  let data: unknown;
+  try {
+    data = readConfigFile(path);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read accounts file ${path}: ${message}`);
+  }
+
+  const file = (data ?? {}) as { defaultAccount?: unknown; accounts?: unknown };
+  if (!file.accounts || typeof file.accounts !== 'object' || Array.isArray(file.accounts)) {
+    throw new Error(`Accounts file ${path} must contain an "accounts" object`);
+  }
+
+  return {
+    defaultAccount: typeof file.defaultAccount === 'string' ? file.defaultAccount : undefined,
+    accounts: file.accounts as Record<string, Record<string, unknown>>,
+  };
+}
+
+/**
+ * Load the Nextcloud accounts
+ * Accounts come from the NEXTCLOUD_* variables (named by NEXTCLOUD_ACCOUNT_NAME, 'default' otherwise),
+ * indexed variables (NEXTCLOUD_<N>_BASE_URL, NEXTCLOUD_<N>_USERNAME, NEXTCLOUD_<N>_APP_TOKEN and
+ * optionally NEXTCLOUD_<N>_NAME), the accounts file given by --accounts or NEXTCLOUD_ACCOUNTS_FILE
+ * and the credential file written by the login command. Logins in the credential file complete
+ * accounts of the same name and server that are configured without username or app token.
+ * @returns The accounts; empty if none are configured
+ * @throws Error if an account is incomplete or a name is used twice
+ */
+export function loadAccountsConfig(): AccountsConfig {
+  const accounts: Record<string, NextcloudConfig> = {};
+  const stored = readStoredCredentials();
+
+  const addAccount = (name: string, values: Record<string, unknown>) => {
+    if (!name.trim()) {
+      throw new Error('Account names must not be empty');
+    }
+    if (accounts[name]) {
+      throw new Error(`Account "${name}" is configured more than once`);
+    }
+
+    const login = stored[name];
+    const matches =
+      !!login &&
+      (!values.baseUrl || String(values.baseUrl).replace(/\/+$/, '') === login.baseUrl) &&
+      (!values.username || values.username === login.username);
+    accounts[name] = createAccountConfig(
+      name,
+      matches
+        ? {
+            ...values,
+            baseUrl: values.baseUrl || login.baseUrl,
+            username: values.username || login.username,
+            appToken: values.appToken || login.appToken,
+          }
+        : values,
+    );
+  };
+
+  if (process.env.NEXTCLOUD_BASE_URL || process.env.NEXTCLOUD_USERNAME) {
+    addAccount(process.env.NEXTCLOUD_ACCOUNT_NAME || DEFAULT_ACCOUNT_NAME, {
+      baseUrl: process.env.NEXTCLOUD_BASE_URL,
+      username: process.env.NEXTCLOUD_USERNAME,
+      appToken: process.env.NEXTCLOUD_APP_TOKEN,
+    });
+  }
+
+  const indexes = Object.keys(process.env)
+    .map((name) => INDEXED_ACCOUNT_PATTERN.exec(name)?.[1])
+    .filter((index): index is string => !!index)
+    .sort((a, b) => parseInt(a) - parseInt(b));
+
+  for (const index of indexes) {
+    const prefix = `NEXTCLOUD_${index}_`;
+    addAccount(process.env[`${prefix}NAME`] || `account${index}`, {
+      baseUrl: process.env[`${prefix}BASE_URL`],
+      username: process.env[`${prefix}USERNAME`],
+      appToken: process.env[`${prefix}APP_TOKEN`],
+      defaultTimezone: process.env[`${prefix}DEFAULT_TIMEZONE`],
+    });
+  }
+
+  const filePath = getAccountsFilePath();
+  const file = filePath ? readAccountsFile(filePath) : null;
+  for (const [name, values] of Object.entries(file?.accounts ?? {})) {
+    addAccount(name, values ?? {});
+  }
+
+  for (const name of Object.keys(stored).filter((name) => !accounts[name])) {
+    addAccount(name, {});
+  }
+
+  const names = Object.keys(accounts);
+  const defaultAccount =
+    file?.defaultAccount || process.env.NEXTCLOUD_DEFAULT_ACCOUNT || names[0] || '';
+  if (names.length > 0 && !accounts[defaultAccount]) {
+    throw new Error(`Default account "${defaultAccount}" is not configured`);
+  }
+
+  return { defaultAccount, accounts };
+}
+
+/**
+ * Parse an authentication mode, defaulting to 'none'
+ * @param value Raw configuration value
+ * @returns The authentication mode
+ */
+function parseAuthMode(value: string | undefined): AuthMode {
+  const mode = value?.trim().toLowerCase();
+  if (mode === 'none' || mode === 'passthrough' || mode === 'vault') {
+    return mode;
+  }
+
+  if (mode) {
+    console.error(`Unknown MCP_AUTH value "${value}", using "none"`);
+  }
+  return 'none';
+}
+
+/**
+ * Get the transport mode from --transport, --http or MCP_TRANSPORT
+ */
+function getTransportMode(): TransportMode {
+  if (process.argv.slice(2).includes('--http')) {
+    return 'http';
+  }
+  return parseTransportMode(getArgValue('--transport') ?? process.env.MCP_TRANSPORT);
+}
+
+/**
+ * Get the authentication mode from --auth or MCP_AUTH
+ * Authentication only applies to HTTP clients; a stdio client always uses the configured accounts.
+ */
+function getAuthMode(): AuthMode {
+  if (getTransportMode() !== 'http') {
+    return 'none';
+  }
+  return parseAuthMode(getArgValue('--auth') ?? process.env.MCP_AUTH);
 }
 
 const defaultConfig: ServerConfig = {
   port: 3001,
+  host: '127.0.0.1',
+  transport: 'stdio',
+  auth: 'none',
   serverName: 'nextcloud-calendar-server',
   serverVersion: packageVersion,
   environment: 'development',
   keepAliveInterval: 30000, // Default: 30 seconds
+  resourcePollInterval: 60000, // Default: 1 minute
 };
 
 /**
@@ -60,8 +463,13 @@ export function validateEnvironmentVariables(): {
   // Check basic server environment variables (optional but recommended)
   const serverVars = ['PORT', 'SERVER_NAME', 'NODE_ENV'];
 
-  // Check Nextcloud environment variables (required for calendar functionality)
-  const nextcloudVars = ['NEXTCLOUD_BASE_URL', 'NEXTCLOUD_USERNAME', 'NEXTCLOUD_APP_TOKEN'];
+  // Check Nextcloud environment variables (required for calendar functionality,
+  // unless accounts come from indexed variables or an accounts file, or clients bring their login)
+  const nextcloudVars = hasAdditionalAccounts()
+    ? []
+    : getAuthMode() !== 'none'
+      ? ['NEXTCLOUD_BASE_URL']
+      : ['NEXTCLOUD_BASE_URL', 'NEXTCLOUD_USERNAME', 'NEXTCLOUD_APP_TOKEN'];
 
   // Check for missing variables
   [...serverVars, ...nextcloudVars].forEach((varName) => {
@@ -91,7 +499,11 @@ export function validateEnvironmentVariables(): {
   };
 }
 
-export function loadConfig(): { server: ServerConfig; nextcloud: NextcloudConfig } {
+export function loadConfig(): {
+  server: ServerConfig;
+  nextcloud: NextcloudConfig;
+  accounts: AccountsConfig;
+} {
   // Check command line args for port override
   const args = process.argv.slice(2);
   let portOverride: number | null = null;
@@ -105,30 +517,35 @@ export function loadConfig(): { server: ServerConfig; nextcloud: NextcloudConfig
     }
   }
 
-  // Get and validate the Nextcloud environment variables
-  const nextcloudBaseUrl = process.env.NEXTCLOUD_BASE_URL || '';
-  const nextcloudUsername = process.env.NEXTCLOUD_USERNAME || '';
-  const nextcloudAppToken = process.env.NEXTCLOUD_APP_TOKEN || '';
-
-  // Trim trailing slashes from base URL to ensure consistent format
-  const formattedBaseUrl = nextcloudBaseUrl.replace(/\/+$/, '');
+  const accounts = loadAccountsConfig();
+  const defaultAccount = accounts.accounts[accounts.defaultAccount];
 
   return {
     server: {
       port: portOverride || parseInt(process.env.PORT || String(defaultConfig.port)),
+      host: process.env.HOST || defaultConfig.host,
+      transport: getTransportMode(),
+      auth: getAuthMode(),
+      tokenVaultFile: getArgValue('--token-vault') || process.env.MCP_TOKEN_VAULT_FILE || undefined,
       serverName: process.env.SERVER_NAME || defaultConfig.serverName,
       serverVersion: process.env.SERVER_VERSION || defaultConfig.serverVersion,
       environment: process.env.NODE_ENV || defaultConfig.environment,
       keepAliveInterval: process.env.KEEP_ALIVE_INTERVAL
         ? parseInt(process.env.KEEP_ALIVE_INTERVAL)
         : defaultConfig.keepAliveInterval,
+      resourcePollInterval: process.env.RESOURCE_POLL_INTERVAL
+        ? parseInt(process.env.RESOURCE_POLL_INTERVAL)
+        : defaultConfig.resourcePollInterval,
     },
-    nextcloud: {
-      baseUrl: formattedBaseUrl,
-      username: nextcloudUsername,
-      appToken: nextcloudAppToken,
+    // The default account, kept for code that works with a single account
+    nextcloud: defaultAccount ?? {
+      baseUrl: '',
+      username: '',
+      appToken: '',
       defaultTimezone: process.env.DEFAULT_TIMEZONE || 'Europe/Paris',
       useLocalTimezone: process.env.USE_LOCAL_TIMEZONE === 'true' || true,
+      recurrenceExpansion: parseRecurrenceExpansionMode(process.env.RECURRENCE_EXPANSION),
     },
+    accounts,
   };
 }
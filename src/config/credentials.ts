@@ -0,0 +1,79 @@
+/**
+ * Local credential file for Nextcloud logins obtained with the login flow
+ *
+ * The file is only readable by its owner:
+ * { "accounts": { "default": { "baseUrl": ..., "username": ..., "appToken": ... } } }
+ */
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * A stored Nextcloud login
+ */
+export interface StoredCredentials {
+  baseUrl: string;
+  username: string;
+  appToken: string;
+}
+
+/**
+ * Get the path of the credential file from NEXTCLOUD_CREDENTIALS_FILE,
+ * defaulting to ~/.config/nextcloud-calendar-mcp/credentials.json
+ */
+export function getCredentialsFilePath(): string {
+  return (
+    process.env.NEXTCLOUD_CREDENTIALS_FILE ||
+    join(homedir(), '.config', 'nextcloud-calendar-mcp', 'credentials.json')
+  );
+}
+
+/**
+ * Read the stored logins
+ * @param path Path of the credential file
+ * @returns Logins by account name; empty if the file does not exist
+ * @throws Error if the file cannot be read or parsed
+ */
+export function readStoredCredentials(
+  path: string = getCredentialsFilePath(),
+): Record<string, StoredCredentials> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(path, 'utf8')) as { accounts?: unknown } | null;
+    const accounts = data?.accounts;
+    return accounts && typeof accounts === 'object' && !Array.isArray(accounts)
+      ? (accounts as Record<string, StoredCredentials>)
+      : {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read credential file ${path}: ${message}`);
+  }
+}
+
+/**
+ * Store the login of an account, replacing an earlier login of the same account
+ * The file is written with mode 0600 inside a directory with mode 0700.
+ * @param account Account name
+ * @param credentials The login
+ * @param path Path of the credential file
+ */
+export function saveCredentials(
+  account: string,
+  credentials: StoredCredentials,
+  path: string = getCredentialsFilePath(),
+): void {
+  const accounts = { ...readStoredCredentials(path), [account]: credentials };
+
+  // mkdirSync keeps the mode of a directory that already exists, so tighten it explicitly
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  chmodSync(dirname(path), 0o700);
+
+  // Write to a temporary file first so a failed write does not lose the other logins
+  const tempPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify({ accounts }, null, 2), { mode: 0o600 });
+  chmodSync(tempPath, 0o600);
+  renameSync(tempPath, path);
+}
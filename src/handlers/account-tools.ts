@@ -0,0 +1,59 @@
+/**
+ * Account tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AccountService } from '../services/account-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for account tools
+ */
+function handleAccountToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Register account tools with the MCP server
+ * @param server The MCP server instance
+ * @param accountService The account registry
+ */
+export function registerAccountTools(server: McpServer, accountService: AccountService): void {
+  if (!accountService) {
+    return;
+  }
+
+  // List the Nextcloud accounts that tools can be called with
+  server.tool('listAccounts', {}, async () => {
+    try {
+      const accounts = accountService.listAccounts();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { success: true, defaultAccount: accountService.getDefaultAccount(), accounts },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      return handleAccountToolError('list accounts', error);
+    }
+  });
+}
@@ -0,0 +1,333 @@
+/**
+ * Prompts for common calendar and contact workflows
+ *
+ * Every prompt embeds live data of the account, so clients start from the current state
+ * instead of asking the model to fetch it first. Times are formatted in the account timezone.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { Contact, Event } from '../models/index.js';
+import { ServiceProvider } from '../services/account-service.js';
+import { CalendarService } from '../services/calendar/calendar-service.js';
+import { ContactService } from '../services/calendar/contact-service.js';
+import { EventService } from '../services/calendar/event-service.js';
+import { TimezoneService } from '../services/timezone-service.js';
+
+/**
+ * A calendar date in the account timezone (month is 1-based)
+ */
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * Parse a YYYY-MM-DD date argument; today in the account timezone if omitted
+ * @throws McpError if the date is malformed
+ */
+function parseDate(timezoneService: TimezoneService, date?: string): CalendarDate {
+  if (!date) {
+    const { year, month, day } = timezoneService.getZonedParts(new Date());
+    return { year, month, day };
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  const parsed = match && new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  if (!parsed || parsed.getUTCDate() !== +match[3]) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+  return { year: +match[1], month: +match[2], day: +match[3] };
+}
+
+/**
+ * Move a calendar date by a number of days
+ */
+function addDays({ year, month, day }: CalendarDate, days: number): CalendarDate {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Get the instant a calendar date starts at in the account timezone
+ */
+function startOfDay(timezoneService: TimezoneService, { year, month, day }: CalendarDate): Date {
+  return timezoneService.fromZonedTime(year, month, day, 0, 0);
+}
+
+/**
+ * Format an event as a list item with its time, place and participants
+ */
+function formatEvent(timezoneService: TimezoneService, event: Event): string {
+  const lines = [
+    `- ${timezoneService.formatDateRange(event.start, event.end, event.isAllDay)}: ${event.title}` +
+      ` (calendar ${event.calendarId}, id ${event.id})`,
+  ];
+
+  if (event.location) {
+    lines.push(`  Location: ${event.location}`);
+  }
+  if (event.status && event.status !== 'confirmed') {
+    lines.push(`  Status: ${event.status}`);
+  }
+  if (event.participants?.length) {
+    const participants = event.participants.map(
+      (participant) => `${participant.name || participant.email} (${participant.status})`,
+    );
+    lines.push(`  Participants: ${participants.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a list of events, or a placeholder when there are none
+ */
+function formatEvents(timezoneService: TimezoneService, events: Event[]): string {
+  return events.length
+    ? events.map((event) => formatEvent(timezoneService, event)).join('\n')
+    : '(no events)';
+}
+
+/**
+ * Format a contact as a list item with its addresses and organization
+ */
+function formatContact(contact: Contact): string {
+  const details = [
+    ...contact.emails.map((email) => email.email),
+    ...contact.phones.map((phone) => phone.number),
+    contact.organization,
+  ].filter(Boolean);
+
+  return (
+    `- ${contact.displayName} (address book ${contact.addressBookId}, id ${contact.id})` +
+    (details.length ? `: ${details.join(', ')}` : '')
+  );
+}
+
+/**
+ * Create a prompt result with a single user message
+ */
+function userPrompt(description: string, text: string) {
+  return {
+    description,
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
+
+/**
+ * Register calendar and contact prompts with the MCP server
+ * @param server The MCP server instance
+ * @param getCalendarService Returns the calendar service of an account
+ * @param getEventService Returns the event service of an account
+ * @param getContactService Returns the contact service of an account
+ * @param getTimezoneService Returns the timezone service of an account
+ */
+export function registerCalendarPrompts(
+  server: McpServer,
+  getCalendarService: ServiceProvider<CalendarService>,
+  getEventService: ServiceProvider<EventService>,
+  getContactService: ServiceProvider<ContactService>,
+  getTimezoneService: ServiceProvider<TimezoneService>,
+): void {
+  if (!getCalendarService || !getEventService || !getContactService || !getTimezoneService) {
+    return;
+  }
+
+  /**
+   * Get the events of one calendar, or of all calendars, in a time range sorted by start
+   */
+  const getEventsBetween = async (
+    account: string | undefined,
+    calendarId: string | undefined,
+    start: Date,
+    end: Date,
+  ) => {
+    const calendarIds = calendarId
+      ? [calendarId]
+      : (await getCalendarService(account).getCalendars()).map((calendar) => calendar.id);
+
+    const events: Event[] = (
+      await Promise.all(
+        calendarIds.map((id) =>
+          getEventService(account).getEvents(id, { start, end, expandRecurring: true }),
+        ),
+      )
+    ).flat();
+    return events
+      .filter((event) => event.status !== 'cancelled')
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  };
+
+  const calendarArgs = {
+    calendarId: z
+      .string()
+      .optional()
+      .describe('Calendar to use; all calendars of the account if omitted'),
+    account: z.string().optional().describe('Account to use; the default account if omitted'),
+  };
+
+  server.prompt(
+    'plan-my-day',
+    'Plan a day around the events already in the calendar',
+    {
+      date: z.string().optional().describe('Day to plan as YYYY-MM-DD; today if omitted'),
+      ...calendarArgs,
+    },
+    async ({ date, calendarId, account }) => {
+      const timezoneService = getTimezoneService(account);
+      const day = parseDate(timezoneService, date);
+      const start = startOfDay(timezoneService, day);
+      const events = await getEventsBetween(
+        account,
+        calendarId,
+        start,
+        startOfDay(timezoneService, addDays(day, 1)),
+      );
+
+      return userPrompt(
+        `Plan for ${timezoneService.formatAllDay(start)}`,
+        `Help me plan ${timezoneService.formatAllDay(start)} ` +
+          `(timezone ${timezoneService.getTimezoneInfo().timezone}).\n\n` +
+          `These events are already scheduled:\n${formatEvents(timezoneService, events)}\n\n` +
+          'Suggest an order for the day, point out conflicts and back-to-back meetings, ' +
+          'and propose blocks of focused work and breaks in the free time. ' +
+          'Only create or change events after I confirm.',
+      );
+    },
+  );
+
+  server.prompt(
+    'weekly-review',
+    'Review a week and prepare the next one',
+    {
+      date: z
+        .string()
+        .optional()
+        .describe('Any day of the week to review as YYYY-MM-DD; the current week if omitted'),
+      ...calendarArgs,
+    },
+    async ({ date, calendarId, account }) => {
+      const timezoneService = getTimezoneService(account);
+      const day = parseDate(timezoneService, date);
+      // Weeks start on Monday
+      const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+      const monday = addDays(day, -((weekday + 6) % 7));
+
+      const weekStart = startOfDay(timezoneService, monday);
+      const nextWeekStart = startOfDay(timezoneService, addDays(monday, 7));
+      const nextWeekEnd = startOfDay(timezoneService, addDays(monday, 14));
+      const events = await getEventsBetween(account, calendarId, weekStart, nextWeekEnd);
+      const week = events.filter((event) => event.start < nextWeekStart);
+      const nextWeek = events.filter((event) => event.start >= nextWeekStart);
+      const weekRange = timezoneService.formatDateRange(
+        weekStart,
+        startOfDay(timezoneService, addDays(monday, 6)),
+        true,
+      );
+
+      return userPrompt(
+        `Weekly review of ${weekRange}`,
+        `Help me review the week of ${weekRange}.\n\n` +
+          `Events of the week (${week.length}):\n${formatEvents(timezoneService, week)}\n\n` +
+          `Events of the following week (${nextWeek.length}):\n` +
+          `${formatEvents(timezoneService, nextWeek)}\n\n` +
+          'Summarize where my time went, note meetings that may need follow-up, ' +
+          'and flag overloaded days and missing preparation time in the following week.',
+      );
+    },
+  );
+
+  server.prompt(
+    'prepare-for-meeting',
+    'Prepare for an upcoming meeting with its details and what is known about its participants',
+    {
+      meeting: z.string().describe('ID of the event, or words of its title'),
+      ...calendarArgs,
+    },
+    async ({ meeting, calendarId, account }) => {
+      const timezoneService = getTimezoneService(account);
+      const now = new Date();
+      const lookAhead = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+      const query = meeting.toLowerCase();
+
+      // Meetings that already started today still count as upcoming
+      const today = startOfDay(timezoneService, parseDate(timezoneService));
+      const event = (await getEventsBetween(account, calendarId, today, lookAhead)).find(
+        (candidate) =>
+          candidate.id === meeting ||
+          (candidate.end >= now && candidate.title.toLowerCase().includes(query)),
+      );
+      if (!event) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `No meeting matching "${meeting}" in the next 30 days`,
+        );
+      }
+
+      // Look participants up in parallel; those whose lookup fails are left out
+      const contactService = getContactService(account);
+      const lookups = await contactService.runBulk(event.participants ?? [], (participant) =>
+        contactService.searchContacts(participant.email),
+      );
+      const contacts: Contact[] = [];
+      for (const lookup of lookups) {
+        const matches = lookup.status === 'fulfilled' ? lookup.value : [];
+        contacts.push(...matches.filter((match) => !contacts.some((c) => c.id === match.id)));
+      }
+
+      return userPrompt(
+        `Preparation for ${event.title}`,
+        `Help me prepare for this meeting:\n${formatEvent(timezoneService, event)}\n\n` +
+          (event.description ? `Description:\n${event.description}\n\n` : '') +
+          `Participants in my contacts:\n` +
+          `${contacts.length ? contacts.map(formatContact).join('\n') : '(none)'}\n\n` +
+          'Suggest an agenda, questions to ask and anything I should look up beforehand.',
+      );
+    },
+  );
+
+  server.prompt(
+    'clean-contacts',
+    'Find duplicate contacts and plan how to merge or clean them up',
+    {
+      addressBookId: z
+        .string()
+        .optional()
+        .describe('Address book to clean; all address books if omitted'),
+      query: z
+        .string()
+        .optional()
+        .describe('Only consider duplicates with a contact matching this name, email or company'),
+      account: z.string().optional().describe('Account to use; the default account if omitted'),
+    },
+    async ({ addressBookId, query, account }) => {
+      const search = query?.toLowerCase();
+      const duplicates = (await getContactService(account).findDuplicates(addressBookId)).filter(
+        (duplicate) =>
+          !search ||
+          duplicate.contacts.some(
+            (contact) =>
+              contact.displayName.toLowerCase().includes(search) ||
+              contact.organization?.toLowerCase().includes(search) ||
+              contact.emails.some((email) => email.email.toLowerCase().includes(search)),
+          ),
+      );
+
+      const groups = duplicates.map(
+        (duplicate, index) =>
+          `Group ${index + 1}:\n${duplicate.contacts.map(formatContact).join('\n')}`,
+      );
+
+      return userPrompt(
+        `${duplicates.length} groups of possible duplicate contacts`,
+        'Help me clean up my contacts. These groups of contacts look like duplicates:\n\n' +
+          `${groups.length ? groups.join('\n\n') : '(no duplicates found)'}\n\n` +
+          'For every group, say whether the contacts are really the same person and which ' +
+          'details to keep. Propose the updateContact and deleteContact calls to merge them, ' +
+          'and only make them after I confirm.',
+      );
+    },
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * Calendar and contact resources for the MCP server
+ *
+ * Resources of the default account:
+ * - nextcloud://calendars
+ * - nextcloud://calendar/{calendarId}/events
+ * - nextcloud://calendar/{calendarId}/events/{eventId}
+ * - nextcloud://addressbooks
+ * - nextcloud://addressbook/{addressBookId}/contacts
+ *
+ * Clients can subscribe to any of them. A poller compares the sync tokens (or CTags) of the
+ * collections and sends notifications/resources/updated when a subscribed resource changed.
+ * notifications/resources/list_changed follows when calendars or address books are created
+ * or deleted, through the tools or, while the lists are subscribed, by other clients.
+ */
+
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { URL } from 'url';
+import { ServiceProvider } from '../services/account-service.js';
+import { CalendarService } from '../services/calendar/calendar-service.js';
+import { ContactService } from '../services/calendar/contact-service.js';
+import { EventService } from '../services/calendar/event-service.js';
+import { CalDavError } from '../services/calendar/http-client.js';
+import { ChangePoller } from '../services/change-poller.js';
+import { sanitizeError } from '../utils/error.js';
+
+const CALENDARS_URI = 'nextcloud://calendars';
+const ADDRESS_BOOKS_URI = 'nextcloud://addressbooks';
+
+/**
+ * A resource identified by its URI
+ */
+type ResourceRef =
+  | { type: 'calendars' }
+  | { type: 'events'; calendarId: string }
+  | { type: 'event'; calendarId: string; eventId: string }
+  | { type: 'addressBooks' }
+  | { type: 'contacts'; addressBookId: string };
+
+/**
+ * Identify the resource of a URI
+ * @returns The resource, or null if the URI does not name one of the resources
+ */
+function parseResourceUri(uri: string): ResourceRef | null {
+  const segments = /^nextcloud:\/\/(.*)$/
+    .exec(uri)?.[1]
+    .split('/')
+    .map((segment) => decodeURIComponent(segment));
+
+  if (uri === CALENDARS_URI) {
+    return { type: 'calendars' };
+  } else if (uri === ADDRESS_BOOKS_URI) {
+    return { type: 'addressBooks' };
+  } else if (segments?.[0] === 'calendar' && segments[2] === 'events') {
+    if (segments.length === 3) {
+      return { type: 'events', calendarId: segments[1] };
+    } else if (segments.length === 4) {
+      return { type: 'event', calendarId: segments[1], eventId: segments[3] };
+    }
+  } else if (
+    segments?.[0] === 'addressbook' &&
+    segments[2] === 'contacts' &&
+    segments.length === 3
+  ) {
+    return { type: 'contacts', addressBookId: segments[1] };
+  }
+  return null;
+}
+
+/**
+ * Get the template variable of a resource URI as a string
+ */
+function getVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Create the result of reading a JSON resource
+ */
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+    ],
+  };
+}
+
+/**
+ * Tell the client that calendars or address books, and so the listed resources, changed
+ * Does nothing for servers without resources or without a connected client.
+ * @param server The MCP server instance
+ */
+export function notifyResourceListChanged(server: McpServer): void {
+  server.server.sendResourceListChanged().catch(() => undefined);
+}
+
+/**
+ * Register calendar and contact resources, and subscriptions to them, with the MCP server
+ * Must be called before the server connects, as it declares the subscribe capability.
+ * @param server The MCP server instance
+ * @param getCalendarService Returns the calendar service of an account
+ * @param getEventService Returns the event service of an account
+ * @param getContactService Returns the contact service of an account
+ * @param pollInterval Milliseconds between checks of subscribed resources for changes
+ */
+export function registerCalendarResources(
+  server: McpServer,
+  getCalendarService: ServiceProvider<CalendarService>,
+  getEventService: ServiceProvider<EventService>,
+  getContactService: ServiceProvider<ContactService>,
+  pollInterval: number,
+): void {
+  if (!getCalendarService || !getEventService || !getContactService) {
+    return;
+  }
+
+  server.resource(
+    'calendars',
+    CALENDARS_URI,
+    { description: 'Calendars of the account', mimeType: 'application/json' },
+    async (uri) => jsonContents(uri, await getCalendarService().getCalendars()),
+  );
+
+  server.resource(
+    'calendar-events',
+    new ResourceTemplate('nextcloud://calendar/{calendarId}/events', {
+      list: async () => ({
+        resources: (await getCalendarService().getCalendars()).map((calendar) => ({
+          uri: `nextcloud://calendar/${encodeURIComponent(calendar.id)}/events`,
+          name: `Events of ${calendar.displayName}`,
+        })),
+      }),
+    }),
+    {
+      description: 'Events of a calendar from six months ago to six months ahead',
+      mimeType: 'application/json',
+    },
+    async (uri, { calendarId }) =>
+      jsonContents(uri, await getEventService().getEvents(getVariable(calendarId))),
+  );
+
+  server.resource(
+    'calendar-event',
+    new ResourceTemplate('nextcloud://calendar/{calendarId}/events/{eventId}', {
+      list: undefined,
+    }),
+    { description: 'A single event', mimeType: 'application/json' },
+    async (uri, { calendarId, eventId }) =>
+      jsonContents(
+        uri,
+        await getEventService().getEventById(getVariable(calendarId), getVariable(eventId)),
+      ),
+  );
+
+  server.resource(
+    'addressbooks',
+    ADDRESS_BOOKS_URI,
+    { description: 'Address books of the account', mimeType: 'application/json' },
+    async (uri) => jsonContents(uri, await getContactService().getAddressBooks()),
+  );
+
+  server.resource(
+    'addressbook-contacts',
+    new ResourceTemplate('nextcloud://addressbook/{addressBookId}/contacts', {
+      list: async () => ({
+        resources: (await getContactService().getAddressBooks()).map((addressBook) => ({
+          uri: `nextcloud://addressbook/${encodeURIComponent(addressBook.id)}/contacts`,
+          name: `Contacts of ${addressBook.displayName}`,
+        })),
+      }),
+    }),
+    { description: 'Contacts of an address book', mimeType: 'application/json' },
+    async (uri, { addressBookId }) =>
+      jsonContents(uri, await getContactService().getContacts(getVariable(addressBookId))),
+  );
+
+  // ETags of subscribed events with the calendar token they were fetched at;
+  // an event is only fetched again once its calendar changed
+  const eventVersions = new Map<string, { token: string; etag: string | null }>();
+
+  const getEventVersion = async (
+    uri: string,
+    calendarId: string,
+    eventId: string,
+    token: string,
+  ) => {
+    const known = eventVersions.get(uri);
+    if (known?.token === token) {
+      return known.etag;
+    }
+
+    let etag: string | null;
+    try {
+      // Without an ETag, every change of the calendar counts as a change of the event
+      etag = (await getEventService().getEventEtag(calendarId, eventId)) ?? token;
+    } catch (error) {
+      if (!(error instanceof CalDavError && error.status === 404)) {
+        throw error;
+      }
+      etag = null;
+    }
+    eventVersions.set(uri, { token, etag });
+    return etag;
+  };
+
+  const getVersions = async (uris: string[]) => {
+    const resources = uris.map((uri) => ({ uri, resource: parseResourceUri(uri) }));
+    const types = new Set(resources.map(({ resource }) => resource?.type));
+    const calendarTokens =
+      types.has('calendars') || types.has('events') || types.has('event')
+        ? await getCalendarService().getSyncTokens()
+        : {};
+    const addressBookTokens =
+      types.has('addressBooks') || types.has('contacts')
+        ? await getContactService().getSyncTokens()
+        : {};
+
+    const versions = new Map<string, string | null>();
+    for (const { uri, resource } of resources) {
+      switch (resource?.type) {
+        case 'calendars':
+          versions.set(uri, Object.keys(calendarTokens).sort().join('/'));
+          break;
+        case 'events':
+          versions.set(uri, calendarTokens[resource.calendarId] ?? null);
+          break;
+        case 'event': {
+          const token = calendarTokens[resource.calendarId];
+          versions.set(
+            uri,
+            token ? await getEventVersion(uri, resource.calendarId, resource.eventId, token) : null,
+          );
+          break;
+        }
+        case 'addressBooks':
+          versions.set(uri, Object.keys(addressBookTokens).sort().join('/'));
+          break;
+        case 'contacts':
+          versions.set(uri, addressBookTokens[resource.addressBookId] ?? null);
+          break;
+      }
+    }
+    return versions;
+  };
+
+  const poller = new ChangePoller(
+    getVersions,
+    async (uri) => {
+      await server.server.sendResourceUpdated({ uri });
+      // The versions of the lists change when collections are created or deleted
+      if (uri === CALENDARS_URI || uri === ADDRESS_BOOKS_URI) {
+        await server.server.sendResourceListChanged();
+      }
+    },
+    pollInterval,
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params: { uri } }) => {
+    if (!parseResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource ${uri}`);
+    }
+
+    try {
+      await poller.subscribe(uri);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to subscribe to ${uri}: ${sanitizeError(error).message}`,
+      );
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params: { uri } }) => {
+    poller.unsubscribe(uri);
+    eventVersions.delete(uri);
+    return {};
+  });
+
+  // Stop polling once the client is gone
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    poller.stop();
+    onclose?.();
+  };
+}
@@ -1,13 +1,27 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { AddressBook, Contact } from '../models/index.js';
+import { ServiceProvider } from '../services/account-service.js';
 import { ContactService } from '../services/calendar/contact-service.js';
 import { sanitizeError } from '../utils/error.js';
+import { notifyResourceListChanged } from './calendar-resources.js';
+import {
+  addressBookSchema,
+  contactAnalyticsSchema,
+  contactDuplicateSchema,
+  contactSchema,
+  describeMergeConflicts,
+  nextCursorSchema,
+  structuredResult,
+  summarizeList,
+  summarizePage,
+} from './output-schemas.js';
 
 /**
  * Utility function to handle and sanitize errors for contact tools
  */
 function handleContactToolError(operation: string, error: unknown) {
-  console.error(`Error in ${operation} tool:`, error);
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
 
   const { message: sanitizedMessage } = sanitizeError(error);
 
@@ -16,62 +30,89 @@ function handleContactToolError(operation: string, error: unknown) {
     content: [
       {
         type: 'text',
-        text: `Failed to ${operation}: ${sanitizedMessage}`,
+        text: `Failed to ${operation}: ${sanitizedMessage}${describeMergeConflicts(error)}`,
       },
     ],
   };
 }
 
+// A contact a bulk operation failed for
+const bulkErrorSchema = z.object({ contactId: z.string(), error: z.string() });
+
+/**
+ * Describe an address book in one line for text summaries
+ */
+function describeAddressBook(addressBook: AddressBook): string {
+  return `${addressBook.displayName} (id ${addressBook.id})`;
+}
+
+/**
+ * Describe a contact in one line for text summaries
+ */
+function describeContact(contact: Contact): string {
+  const email = contact.emails[0]?.email;
+  return `${contact.displayName}${email ? ` <${email}>` : ''} (id ${contact.id})`;
+}
+
 /**
  * Register contact-related tools with the MCP server
  * @param server The MCP server instance
- * @param contactService The contact service instance
+ * @param getContactService Returns the contact service of an account
  */
-export function registerContactTools(server: McpServer, contactService: ContactService): void {
-  if (!contactService) {
+export function registerContactTools(
+  server: McpServer,
+  getContactService: ServiceProvider<ContactService>,
+): void {
+  if (!getContactService) {
     return;
   }
 
   // List address books tool
-  server.tool('listAddressBooks', {}, async () => {
-    try {
-      const addressBooks = await contactService.getAddressBooks();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: true, addressBooks }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return handleContactToolError('retrieve address books', error);
-    }
-  });
+  server.registerTool(
+    'listAddressBooks',
+    {
+      inputSchema: { account: z.string().optional() },
+      outputSchema: { success: z.boolean(), addressBooks: z.array(addressBookSchema) },
+    },
+    async ({ account }) => {
+      try {
+        const contactService = getContactService(account);
+        const addressBooks = await contactService.getAddressBooks();
+        return structuredResult(
+          summarizeList(`${addressBooks.length} address books:`, addressBooks, describeAddressBook),
+          { success: true, addressBooks },
+        );
+      } catch (error) {
+        return handleContactToolError('retrieve address books', error);
+      }
+    },
+  );
 
   // Create address book tool
-  server.tool(
+  server.registerTool(
     'createAddressBook',
     {
-      displayName: z.string(),
-      description: z.string().optional(),
-      color: z.string().optional(),
+      inputSchema: {
+        displayName: z.string(),
+        description: z.string().optional(),
+        color: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), addressBook: addressBookSchema },
     },
-    async ({ displayName, description, color }) => {
+    async ({ account, displayName, description, color }) => {
       try {
+        const contactService = getContactService(account);
         const addressBook = await contactService.createAddressBook({
           displayName,
           description,
           color,
         });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, addressBook }, null, 2),
-            },
-          ],
-        };
+        notifyResourceListChanged(server);
+        return structuredResult(`Created address book ${describeAddressBook(addressBook)}`, {
+          success: true,
+          addressBook,
+        });
       } catch (error) {
         return handleContactToolError('create address book', error);
       }
@@ -79,19 +120,28 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // List contacts tool
-  server.tool(
+  server.registerTool(
     'listContacts',
     {
-      addressBookId: z.string(),
-      query: z.string().optional(),
-      categories: z.array(z.string()).optional(),
-      hasEmail: z.boolean().optional(),
-      hasPhone: z.boolean().optional(),
-      organization: z.string().optional(),
-      limit: z.number().optional(),
-      offset: z.number().optional(),
+      inputSchema: {
+        addressBookId: z.string(),
+        query: z.string().optional(),
+        categories: z.array(z.string()).optional(),
+        hasEmail: z.boolean().optional(),
+        hasPhone: z.boolean().optional(),
+        organization: z.string().optional(),
+        limit: z.number().int().positive().optional(),
+        cursor: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        contacts: z.array(contactSchema),
+        nextCursor: nextCursorSchema,
+      },
     },
     async ({
+      account,
       addressBookId,
       query,
       categories,
@@ -99,26 +149,22 @@ export function registerContactTools(server: McpServer, contactService: ContactS
       hasPhone,
       organization,
       limit,
-      offset,
+      cursor,
     }) => {
       try {
-        const contacts = await contactService.getContacts(addressBookId, {
-          query,
-          categories,
-          hasEmail,
-          hasPhone,
-          organization,
-          limit,
-          offset,
-        });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, contacts }, null, 2),
-            },
-          ],
-        };
+        const contactService = getContactService(account);
+        const { items: contacts, nextCursor } = await contactService.getContactsPage(
+          addressBookId,
+          { query, categories, hasEmail, hasPhone, organization, limit, cursor },
+        );
+        return structuredResult(
+          summarizePage(
+            `${contacts.length} contacts in address book ${addressBookId}:`,
+            { items: contacts, nextCursor },
+            describeContact,
+          ),
+          { success: true, contacts, nextCursor },
+        );
       } catch (error) {
         return handleContactToolError('retrieve contacts', error);
       }
@@ -126,86 +172,122 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Get contact by ID tool
-  server.tool(
+  server.registerTool(
     'getContact',
     {
-      addressBookId: z.string(),
-      contactId: z.string(),
+      inputSchema: {
+        addressBookId: z.string(),
+        contactId: z.string(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), contact: contactSchema },
     },
-    async ({ addressBookId, contactId }) => {
+    async ({ account, addressBookId, contactId }) => {
       try {
+        const contactService = getContactService(account);
         const contact = await contactService.getContact(addressBookId, contactId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, contact }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(`Contact ${describeContact(contact)}`, { success: true, contact });
       } catch (error) {
         return handleContactToolError('retrieve contact', error);
       }
     },
   );
 
+  // Get several contacts by ID in one addressbook-multiget request
+  server.registerTool(
+    'getContactsByIds',
+    {
+      inputSchema: {
+        addressBookId: z.string(),
+        contactIds: z.array(z.string()).min(1),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        contacts: z.array(contactSchema),
+        notFound: z.array(z.string()),
+      },
+    },
+    async ({ account, addressBookId, contactIds }) => {
+      try {
+        const contactService = getContactService(account);
+        const { contacts, notFound } = await contactService.getContactsByIds(
+          addressBookId,
+          contactIds,
+        );
+        const summary = summarizeList(
+          `Found ${contacts.length} contacts:`,
+          contacts,
+          describeContact,
+        );
+        return structuredResult(
+          notFound.length > 0 ? `${summary}\nNot found: ${notFound.join(', ')}` : summary,
+          { success: true, contacts, notFound },
+        );
+      } catch (error) {
+        return handleContactToolError('retrieve contacts', error);
+      }
+    },
+  );
+
   // Create contact tool
-  server.tool(
+  server.registerTool(
     'createContact',
     {
-      addressBookId: z.string(),
-      displayName: z.string(),
-      firstName: z.string().optional(),
-      lastName: z.string().optional(),
-      emails: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'other']),
-            email: z.string().email(),
-          }),
-        )
-        .optional(),
-      phones: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'mobile', 'fax', 'other']),
-            number: z.string(),
-          }),
-        )
-        .optional(),
-      addresses: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'other']),
-            street: z.string().optional(),
-            city: z.string().optional(),
-            state: z.string().optional(),
-            postalCode: z.string().optional(),
-            country: z.string().optional(),
-            fullAddress: z.string().optional(),
-          }),
-        )
-        .optional(),
-      organization: z.string().optional(),
-      title: z.string().optional(),
-      department: z.string().optional(),
-      birthday: z.string().optional(),
-      notes: z.string().optional(),
-      categories: z.array(z.string()).optional(),
-      photo: z.string().optional(),
-      customFields: z.record(z.string()).optional(),
+      inputSchema: {
+        addressBookId: z.string(),
+        displayName: z.string(),
+        firstName: z.string().optional(),
+        lastName: z.string().optional(),
+        emails: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'other']),
+              email: z.string().email(),
+            }),
+          )
+          .optional(),
+        phones: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'mobile', 'fax', 'other']),
+              number: z.string(),
+            }),
+          )
+          .optional(),
+        addresses: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'other']),
+              street: z.string().optional(),
+              city: z.string().optional(),
+              state: z.string().optional(),
+              postalCode: z.string().optional(),
+              country: z.string().optional(),
+              fullAddress: z.string().optional(),
+            }),
+          )
+          .optional(),
+        organization: z.string().optional(),
+        title: z.string().optional(),
+        department: z.string().optional(),
+        birthday: z.string().optional(),
+        notes: z.string().optional(),
+        categories: z.array(z.string()).optional(),
+        photo: z.string().optional(),
+        customFields: z.record(z.string()).optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), contact: contactSchema },
     },
-    async ({ addressBookId, ...contactData }) => {
+    async ({ account, addressBookId, ...contactData }) => {
       try {
+        const contactService = getContactService(account);
         const contact = await contactService.createContact(addressBookId, contactData);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, contact }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(`Created contact ${describeContact(contact)}`, {
+          success: true,
+          contact,
+        });
       } catch (error) {
         return handleContactToolError('create contact', error);
       }
@@ -213,63 +295,76 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Update contact tool
-  server.tool(
+  server.registerTool(
     'updateContact',
     {
-      addressBookId: z.string(),
-      contactId: z.string(),
-      displayName: z.string().optional(),
-      firstName: z.string().optional(),
-      lastName: z.string().optional(),
-      emails: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'other']),
-            email: z.string().email(),
-          }),
-        )
-        .optional(),
-      phones: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'mobile', 'fax', 'other']),
-            number: z.string(),
-          }),
-        )
-        .optional(),
-      addresses: z
-        .array(
-          z.object({
-            type: z.enum(['home', 'work', 'other']),
-            street: z.string().optional(),
-            city: z.string().optional(),
-            state: z.string().optional(),
-            postalCode: z.string().optional(),
-            country: z.string().optional(),
-            fullAddress: z.string().optional(),
-          }),
-        )
-        .optional(),
-      organization: z.string().optional(),
-      title: z.string().optional(),
-      department: z.string().optional(),
-      birthday: z.string().optional(),
-      notes: z.string().optional(),
-      categories: z.array(z.string()).optional(),
-      photo: z.string().optional(),
-      customFields: z.record(z.string()).optional(),
+      inputSchema: {
+        addressBookId: z.string(),
+        contactId: z.string(),
+        displayName: z.string().optional(),
+        firstName: z.string().optional(),
+        lastName: z.string().optional(),
+        emails: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'other']),
+              email: z.string().email(),
+            }),
+          )
+          .optional(),
+        phones: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'mobile', 'fax', 'other']),
+              number: z.string(),
+            }),
+          )
+          .optional(),
+        addresses: z
+          .array(
+            z.object({
+              type: z.enum(['home', 'work', 'other']),
+              street: z.string().optional(),
+              city: z.string().optional(),
+              state: z.string().optional(),
+              postalCode: z.string().optional(),
+              country: z.string().optional(),
+              fullAddress: z.string().optional(),
+            }),
+          )
+          .optional(),
+        organization: z.string().optional(),
+        title: z.string().optional(),
+        department: z.string().optional(),
+        birthday: z.string().optional(),
+        notes: z.string().optional(),
+        categories: z.array(z.string()).optional(),
+        photo: z.string().optional(),
+        customFields: z.record(z.string()).optional(),
+        expectedEtag: z.string().optional(),
+        merge: z.boolean().optional(),
+        base: contactSchema
+          .partial()
+          .optional()
+          .describe('The contact as read in the version of expectedEtag, the base of a merge'),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), contact: contactSchema },
     },
-    async ({ addressBookId, contactId, ...updates }) => {
+    async ({ account, addressBookId, contactId, expectedEtag, merge, base, ...updates }) => {
       try {
-        const contact = await contactService.updateContact(addressBookId, contactId, updates);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, contact }, null, 2),
-            },
-          ],
-        };
+        const contactService = getContactService(account);
+        const contact = await contactService.updateContact(
+          addressBookId,
+          contactId,
+          updates,
+          expectedEtag,
+          { merge, base: base as Partial<Contact> | undefined },
+        );
+        return structuredResult(`Updated contact ${describeContact(contact)}`, {
+          success: true,
+          contact,
+        });
       } catch (error) {
         return handleContactToolError('update contact', error);
       }
@@ -277,23 +372,27 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Delete contact tool
-  server.tool(
+  server.registerTool(
     'deleteContact',
     {
-      addressBookId: z.string(),
-      contactId: z.string(),
+      inputSchema: {
+        addressBookId: z.string(),
+        contactId: z.string(),
+        expectedEtag: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean() },
     },
-    async ({ addressBookId, contactId }) => {
+    async ({ account, addressBookId, contactId, expectedEtag }) => {
       try {
-        const result = await contactService.deleteContact(addressBookId, contactId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: result }, null, 2),
-            },
-          ],
-        };
+        const contactService = getContactService(account);
+        const result = await contactService.deleteContact(addressBookId, contactId, expectedEtag);
+        return structuredResult(
+          result
+            ? `Deleted contact ${contactId} from address book ${addressBookId}`
+            : `Contact ${contactId} was not deleted`,
+          { success: result },
+        );
       } catch (error) {
         return handleContactToolError('delete contact', error);
       }
@@ -301,35 +400,44 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Search contacts tool
-  server.tool(
+  server.registerTool(
     'searchContacts',
     {
-      query: z.string(),
-      categories: z.array(z.string()).optional(),
-      hasEmail: z.boolean().optional(),
-      hasPhone: z.boolean().optional(),
-      organization: z.string().optional(),
-      limit: z.number().optional(),
-      offset: z.number().optional(),
+      inputSchema: {
+        query: z.string(),
+        categories: z.array(z.string()).optional(),
+        hasEmail: z.boolean().optional(),
+        hasPhone: z.boolean().optional(),
+        organization: z.string().optional(),
+        limit: z.number().int().positive().optional(),
+        cursor: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        contacts: z.array(contactSchema),
+        nextCursor: nextCursorSchema,
+      },
     },
-    async ({ query, categories, hasEmail, hasPhone, organization, limit, offset }) => {
+    async ({ account, query, categories, hasEmail, hasPhone, organization, limit, cursor }) => {
       try {
-        const contacts = await contactService.searchContacts(query, {
+        const contactService = getContactService(account);
+        const { items: contacts, nextCursor } = await contactService.searchContactsPage(query, {
           categories,
           hasEmail,
           hasPhone,
           organization,
           limit,
-          offset,
+          cursor,
         });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, contacts }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(
+          summarizePage(
+            `${contacts.length} contacts matching "${query}":`,
+            { items: contacts, nextCursor },
+            describeContact,
+          ),
+          { success: true, contacts, nextCursor },
+        );
       } catch (error) {
         return handleContactToolError('search contacts', error);
       }
@@ -337,22 +445,27 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Find duplicate contacts tool
-  server.tool(
+  server.registerTool(
     'findDuplicateContacts',
     {
-      addressBookId: z.string().optional(),
+      inputSchema: {
+        addressBookId: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), duplicates: z.array(contactDuplicateSchema) },
     },
-    async ({ addressBookId }) => {
+    async ({ account, addressBookId }) => {
       try {
+        const contactService = getContactService(account);
         const duplicates = await contactService.findDuplicates(addressBookId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, duplicates }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(
+          summarizeList(
+            `${duplicates.length} groups of possible duplicates:`,
+            duplicates,
+            (duplicate) => duplicate.contacts.map(describeContact).join(' / '),
+          ),
+          { success: true, duplicates },
+        );
       } catch (error) {
         return handleContactToolError('find duplicate contacts', error);
       }
@@ -360,33 +473,50 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Analyze contact database tool
-  server.tool('analyzeContactDatabase', {}, async () => {
-    try {
-      const analytics = await contactService.analyzeContactDatabase();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ success: true, analytics }, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return handleContactToolError('analyze contact database', error);
-    }
-  });
+  server.registerTool(
+    'analyzeContactDatabase',
+    {
+      inputSchema: { account: z.string().optional() },
+      outputSchema: { success: z.boolean(), analytics: contactAnalyticsSchema },
+    },
+    async ({ account }) => {
+      try {
+        const contactService = getContactService(account);
+        const analytics = await contactService.analyzeContactDatabase();
+        return structuredResult(
+          `${analytics.totalContacts} contacts in ${Object.keys(analytics.byAddressBook).length} address books: ` +
+            `${analytics.contactsWithEmails} with email, ${analytics.contactsWithPhones} with phone, ` +
+            `${analytics.duplicateSets.length} groups of possible duplicates`,
+          { success: true, analytics },
+        );
+      } catch (error) {
+        return handleContactToolError('analyze contact database', error);
+      }
+    },
+  );
 
   // Export contacts tool
-  server.tool(
+  server.registerTool(
     'exportContacts',
     {
-      format: z.enum(['vcard', 'csv', 'json']),
-      addressBookId: z.string().optional(),
-      contactIds: z.array(z.string()).optional(),
-      categories: z.array(z.string()).optional(),
+      inputSchema: {
+        format: z.enum(['vcard', 'csv', 'json']),
+        addressBookId: z.string().optional(),
+        contactIds: z.array(z.string()).optional(),
+        categories: z.array(z.string()).optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        format: z.enum(['vcard', 'csv', 'json']),
+        mimeType: z.string(),
+        count: z.number(),
+        data: z.string(),
+      },
     },
-    async ({ format, addressBookId, contactIds, categories }) => {
+    async ({ account, format, addressBookId, contactIds, categories }) => {
       try {
+        const contactService = getContactService(account);
         let contacts;
 
         if (contactIds && contactIds.length > 0) {
@@ -450,24 +580,13 @@ export function registerContactTools(server: McpServer, contactService: ContactS
             break;
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  success: true,
-                  format,
-                  mimeType,
-                  count: contacts.length,
-                  data: exportData,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return structuredResult(`Exported ${contacts.length} contacts as ${format}`, {
+          success: true,
+          format,
+          mimeType,
+          count: contacts.length,
+          data: exportData,
+        });
       } catch (error) {
         return handleContactToolError('export contacts', error);
       }
@@ -475,16 +594,28 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Import contacts tool
-  server.tool(
+  server.registerTool(
     'importContacts',
     {
-      addressBookId: z.string(),
-      format: z.enum(['vcard', 'csv', 'json']),
-      data: z.string(),
-      overwriteExisting: z.boolean().optional(),
-      createCategories: z.boolean().optional(),
+      inputSchema: {
+        addressBookId: z.string(),
+        format: z.enum(['vcard', 'csv', 'json']),
+        data: z.string(),
+        overwriteExisting: z.boolean().optional(),
+        createCategories: z.boolean().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        results: z.object({
+          imported: z.number(),
+          updated: z.number(),
+          errors: z.array(z.object({ error: z.string() }).passthrough()),
+        }),
+      },
     },
     async ({
+      account,
       addressBookId,
       format,
       data,
@@ -492,28 +623,32 @@ export function registerContactTools(server: McpServer, contactService: ContactS
       createCategories: _createCategories = true,
     }) => {
       try {
+        const contactService = getContactService(account);
         const results = {
           imported: 0,
           updated: 0,
           errors: [] as Array<{ error: string; data?: unknown; line?: number; contact?: unknown }>,
         };
 
+        // Contacts to create, with what they were read from to report errors
+        const entries: Array<{
+          contactData: Record<string, unknown>;
+          source: { data?: unknown; line?: number; contact?: unknown };
+        }> = [];
+
         switch (format) {
           case 'vcard': {
             // Parse vCard data
             const vcards = data.split('BEGIN:VCARD').filter((vcard) => vcard.trim());
             for (const vcard of vcards) {
-              try {
-                // Simple vCard parsing
-                const lines = vcard.split('\n');
-                const fnLine = lines.find((line) => line.startsWith('FN:'));
-                if (fnLine) {
-                  const displayName = fnLine.substring(3);
-                  await contactService.createContact(addressBookId, { displayName });
-                  results.imported++;
-                }
-              } catch (error) {
-                results.errors.push({ error: String(error), data: vcard });
+              // Simple vCard parsing
+              const lines = vcard.split('\n');
+              const fnLine = lines.find((line) => line.startsWith('FN:'));
+              if (fnLine) {
+                entries.push({
+                  contactData: { displayName: fnLine.substring(3) },
+                  source: { data: vcard },
+                });
               }
             }
             break;
@@ -525,50 +660,45 @@ export function registerContactTools(server: McpServer, contactService: ContactS
             const headers = csvLines[0].split(',');
 
             for (let i = 1; i < csvLines.length; i++) {
-              try {
-                const values = csvLines[i].split(',');
-                const contactData: Record<string, unknown> = {};
-
-                headers.forEach((header, index) => {
-                  const value = values[index]?.trim();
-                  if (value) {
-                    switch (header.toLowerCase().trim()) {
-                      case 'name':
-                      case 'displayname':
-                        contactData.displayName = value;
-                        break;
-                      case 'firstname':
-                      case 'first name':
-                        contactData.firstName = value;
-                        break;
-                      case 'lastname':
-                      case 'last name':
-                        contactData.lastName = value;
-                        break;
-                      case 'email':
-                        contactData.emails = [{ type: 'work', email: value }];
-                        break;
-                      case 'phone':
-                        contactData.phones = [{ type: 'work', number: value }];
-                        break;
-                      case 'organization':
-                      case 'company':
-                        contactData.organization = value;
-                        break;
-                    }
+              const values = csvLines[i].split(',');
+              const contactData: Record<string, unknown> = {};
+
+              headers.forEach((header, index) => {
+                const value = values[index]?.trim();
+                if (value) {
+                  switch (header.toLowerCase().trim()) {
+                    case 'name':
+                    case 'displayname':
+                      contactData.displayName = value;
+                      break;
+                    case 'firstname':
+                    case 'first name':
+                      contactData.firstName = value;
+                      break;
+                    case 'lastname':
+                    case 'last name':
+                      contactData.lastName = value;
+                      break;
+                    case 'email':
+                      contactData.emails = [{ type: 'work', email: value }];
+                      break;
+                    case 'phone':
+                      contactData.phones = [{ type: 'work', number: value }];
+                      break;
+                    case 'organization':
+                    case 'company':
+                      contactData.organization = value;
+                      break;
                   }
-                });
+                }
+              });
 
-                if (contactData.displayName || contactData.firstName || contactData.lastName) {
-                  if (!contactData.displayName) {
-                    contactData.displayName =
-                      `${contactData.firstName || ''} ${contactData.lastName || ''}`.trim();
-                  }
-                  await contactService.createContact(addressBookId, contactData);
-                  results.imported++;
+              if (contactData.displayName || contactData.firstName || contactData.lastName) {
+                if (!contactData.displayName) {
+                  contactData.displayName =
+                    `${contactData.firstName || ''} ${contactData.lastName || ''}`.trim();
                 }
-              } catch (error) {
-                results.errors.push({ error: String(error), line: i });
+                entries.push({ contactData, source: { line: i } });
               }
             }
             break;
@@ -580,25 +710,28 @@ export function registerContactTools(server: McpServer, contactService: ContactS
             const contactsArray = Array.isArray(jsonContacts) ? jsonContacts : [jsonContacts];
 
             for (const contactData of contactsArray) {
-              try {
-                await contactService.createContact(addressBookId, contactData);
-                results.imported++;
-              } catch (error) {
-                results.errors.push({ error: String(error), contact: contactData });
-              }
+              entries.push({ contactData, source: { contact: contactData } });
             }
             break;
           }
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, results }, null, 2),
-            },
-          ],
-        };
+        // Create the contacts in parallel, within the request limits of the server
+        const outcomes = await contactService.runBulk(entries, ({ contactData }) =>
+          contactService.createContact(addressBookId, contactData),
+        );
+        outcomes.forEach((outcome, i) => {
+          if (outcome.status === 'fulfilled') {
+            results.imported++;
+          } else {
+            results.errors.push({ error: String(outcome.reason), ...entries[i].source });
+          }
+        });
+
+        return structuredResult(
+          `Imported ${results.imported} contacts with ${results.errors.length} errors`,
+          { success: true, results },
+        );
       } catch (error) {
         return handleContactToolError('import contacts', error);
       }
@@ -606,43 +739,45 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Bulk update contacts tool
-  server.tool(
+  server.registerTool(
     'bulkUpdateContacts',
     {
-      addressBookId: z.string(),
-      contactIds: z.array(z.string()),
-      updates: z.object({
-        categories: z.array(z.string()).optional(),
-        organization: z.string().optional(),
-        title: z.string().optional(),
-        department: z.string().optional(),
-        notes: z.string().optional(),
-      }),
+      inputSchema: {
+        addressBookId: z.string(),
+        contactIds: z.array(z.string()),
+        updates: z.object({
+          categories: z.array(z.string()).optional(),
+          organization: z.string().optional(),
+          title: z.string().optional(),
+          department: z.string().optional(),
+          notes: z.string().optional(),
+        }),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        results: z.object({ updated: z.number(), errors: z.array(bulkErrorSchema) }),
+      },
     },
-    async ({ addressBookId, contactIds, updates }) => {
+    async ({ account, addressBookId, contactIds, updates }) => {
       try {
+        const contactService = getContactService(account);
+        const outcomes = await contactService.runBulk(contactIds, (contactId) =>
+          contactService.updateContact(addressBookId, contactId, updates),
+        );
         const results = {
-          updated: 0,
-          errors: [] as Array<{ contactId: string; error: string }>,
+          updated: outcomes.filter((outcome) => outcome.status === 'fulfilled').length,
+          errors: outcomes.flatMap((outcome, i) =>
+            outcome.status === 'rejected'
+              ? [{ contactId: contactIds[i], error: String(outcome.reason) }]
+              : [],
+          ),
         };
 
-        for (const contactId of contactIds) {
-          try {
-            await contactService.updateContact(addressBookId, contactId, updates);
-            results.updated++;
-          } catch (error) {
-            results.errors.push({ contactId, error: String(error) });
-          }
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, results }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(
+          `Updated ${results.updated} contacts with ${results.errors.length} errors`,
+          { success: true, results },
+        );
       } catch (error) {
         return handleContactToolError('bulk update contacts', error);
       }
@@ -650,36 +785,38 @@ export function registerContactTools(server: McpServer, contactService: ContactS
   );
 
   // Bulk delete contacts tool
-  server.tool(
+  server.registerTool(
     'bulkDeleteContacts',
     {
-      addressBookId: z.string(),
-      contactIds: z.array(z.string()),
+      inputSchema: {
+        addressBookId: z.string(),
+        contactIds: z.array(z.string()),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        results: z.object({ deleted: z.number(), errors: z.array(bulkErrorSchema) }),
+      },
     },
-    async ({ addressBookId, contactIds }) => {
+    async ({ account, addressBookId, contactIds }) => {
       try {
+        const contactService = getContactService(account);
+        const outcomes = await contactService.runBulk(contactIds, (contactId) =>
+          contactService.deleteContact(addressBookId, contactId),
+        );
         const results = {
-          deleted: 0,
-          errors: [] as Array<{ contactId: string; error: string }>,
+          deleted: outcomes.filter((outcome) => outcome.status === 'fulfilled').length,
+          errors: outcomes.flatMap((outcome, i) =>
+            outcome.status === 'rejected'
+              ? [{ contactId: contactIds[i], error: String(outcome.reason) }]
+              : [],
+          ),
         };
 
-        for (const contactId of contactIds) {
-          try {
-            await contactService.deleteContact(addressBookId, contactId);
-            results.deleted++;
-          } catch (error) {
-            results.errors.push({ contactId, error: String(error) });
-          }
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, results }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(
+          `Deleted ${results.deleted} contacts with ${results.errors.length} errors`,
+          { success: true, results },
+        );
       } catch (error) {
         return handleContactToolError('bulk delete contacts', error);
       }
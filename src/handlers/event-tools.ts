@@ -1,10 +1,22 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { Event } from '../models/index.js';
+import { ServiceProvider } from '../services/account-service.js';
 import { EventService, EventHelpers } from '../services/calendar/index.js';
+import { sanitizeError } from '../utils/error.js';
+import {
+  describeMergeConflicts,
+  eventSchema,
+  freeBusySchema,
+  nextCursorSchema,
+  structuredResult,
+  summarizeList,
+  summarizePage,
+} from './output-schemas.js';
 // Import handleCalendarToolError
 // This needs to be defined here to avoid circular dependencies
 function handleCalendarToolError(operation: string, error: unknown) {
-  console.error(`Error in ${operation} tool:`, error);
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
 
   // Basic error sanitization
   const errorMessage = error instanceof Error ? error.message : String(error);
@@ -18,46 +30,83 @@ function handleCalendarToolError(operation: string, error: unknown) {
     content: [
       {
         type: 'text',
-        text: `Failed to ${operation}: ${sanitizedMessage}`,
+        text: `Failed to ${operation}: ${sanitizedMessage}${describeMergeConflicts(error)}`,
       },
     ],
   };
 }
 
+// Reminder (VALARM) input; minutesBefore is relative to the start or end, triggerAt absolute
+const reminderSchema = z.object({
+  type: z.enum(['email', 'notification', 'audio']),
+  minutesBefore: z.number().optional(),
+  relativeTo: z.enum(['start', 'end']).optional(),
+  triggerAt: z.string().optional(),
+  description: z.string().optional(),
+  summary: z.string().optional(),
+  attendees: z.array(z.string()).optional(),
+  attachment: z.string().optional(),
+  repeat: z.number().int().positive().optional(),
+  repeatIntervalMinutes: z.number().positive().optional(),
+});
+
+/**
+ * Describe an event in one line for text summaries
+ */
+function describeEvent(event: Event): string {
+  return `${event.title} (${event.start.toISOString()} - ${event.end.toISOString()}, id ${event.id})`;
+}
+
 /**
  * Register event-related tools with the MCP server
  * @param server The MCP server instance
- * @param eventService The event service instance
+ * @param getEventService Returns the event service of an account
  */
-export function registerEventTools(server: McpServer, eventService: EventService): void {
-  if (!eventService) {
+export function registerEventTools(
+  server: McpServer,
+  getEventService: ServiceProvider<EventService>,
+): void {
+  if (!getEventService) {
     return;
   }
 
   // List events tool
-  server.tool(
+  server.registerTool(
     'listEvents',
     {
-      calendarId: z.string(),
-      start: z.string().optional(),
-      end: z.string().optional(),
-      limit: z.number().optional(),
-      expandRecurring: z.boolean().optional(),
-      priorityMinimum: z.number().optional(),
-      adhdCategory: z.string().optional(),
-      tags: z.array(z.string()).optional(),
+      inputSchema: {
+        calendarId: z.string(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        limit: z.number().int().positive().optional(),
+        cursor: z.string().optional(),
+        expandRecurring: z.boolean().optional(),
+        priorityMinimum: z.number().optional(),
+        adhdCategory: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        events: z.array(eventSchema),
+        nextCursor: nextCursorSchema,
+      },
     },
     async ({
+      account,
       calendarId,
       start,
       end,
       limit,
+      cursor,
       expandRecurring,
       priorityMinimum,
       adhdCategory,
       tags,
     }) => {
       try {
+        const eventService = getEventService(account);
+
         // Parse and validate dates if provided
         let startDate = undefined;
         let endDate = undefined;
@@ -80,25 +129,26 @@ export function registerEventTools(server: McpServer, eventService: EventService
           ? EventHelpers.validateAdhdCategory(adhdCategory)
           : undefined;
 
-        // Get events with filtering options
-        const events = await eventService.getEvents(calendarId, {
+        // Get a page of events, ordered by start time, with filtering options
+        const { items: events, nextCursor } = await eventService.getEventsPage(calendarId, {
           start: startDate,
           end: endDate,
           limit,
+          cursor,
           expandRecurring,
           priorityMinimum,
           adhdCategory: validatedAdhdCategory,
           tags,
         });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, events }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(
+          summarizePage(
+            `${events.length} events in calendar ${calendarId}:`,
+            { items: events, nextCursor },
+            describeEvent,
+          ),
+          { success: true, events, nextCursor },
+        );
       } catch (error) {
         return handleCalendarToolError('retrieve events', error);
       }
@@ -106,80 +156,112 @@ export function registerEventTools(server: McpServer, eventService: EventService
   );
 
   // Get event by ID tool
-  server.tool(
+  server.registerTool(
     'getEventById',
     {
-      calendarId: z.string(),
-      eventId: z.string(),
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), event: eventSchema },
     },
-    async ({ calendarId, eventId }) => {
+    async ({ account, calendarId, eventId }) => {
       try {
+        const eventService = getEventService(account);
         const event = await eventService.getEventById(calendarId, eventId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, event }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(`Event ${describeEvent(event)}`, {
+          success: true,
+          event,
+        });
       } catch (error) {
         return handleCalendarToolError('retrieve event', error);
       }
     },
   );
 
+  // Get several events by ID in one calendar-multiget request
+  server.registerTool(
+    'getEventsByIds',
+    {
+      inputSchema: {
+        calendarId: z.string(),
+        eventIds: z.array(z.string()).min(1),
+        account: z.string().optional(),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        events: z.array(eventSchema),
+        notFound: z.array(z.string()),
+      },
+    },
+    async ({ account, calendarId, eventIds }) => {
+      try {
+        const eventService = getEventService(account);
+        const { events, notFound } = await eventService.getEventsByIds(calendarId, eventIds);
+        const summary = summarizeList(`Found ${events.length} events:`, events, describeEvent);
+        return structuredResult(
+          notFound.length > 0 ? `${summary}\nNot found: ${notFound.join(', ')}` : summary,
+          { success: true, events, notFound },
+        );
+      } catch (error) {
+        return handleCalendarToolError('retrieve events', error);
+      }
+    },
+  );
+
   // Create event tool
-  server.tool(
+  server.registerTool(
     'createEvent',
     {
-      calendarId: z.string(),
-      title: z.string(),
-      start: z.string(),
-      end: z.string(),
-      isAllDay: z.boolean().optional(),
-      description: z.string().optional(),
-      location: z.string().optional(),
-      color: z.string().optional(),
-      status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
-      visibility: z.enum(['public', 'private', 'confidential']).optional(),
-      availability: z.enum(['free', 'busy']).optional(),
-      adhdCategory: z.string().optional(),
-      focusPriority: z.number().optional(),
-      energyLevel: z.number().optional(),
-      categories: z.array(z.string()).optional(),
-      participants: z
-        .array(
-          z.object({
-            email: z.string(),
-            name: z.string().optional(),
-            status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']).optional(),
-            role: z.enum(['required', 'optional']).optional(),
-            type: z.enum(['individual', 'group', 'resource', 'room']).optional(),
-          }),
-        )
-        .optional(),
-      recurrenceRule: z
-        .object({
-          frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
-          interval: z.number().optional(),
-          until: z.string().optional(),
-          count: z.number().optional(),
-          byDay: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
-          byMonthDay: z.array(z.number()).optional(),
-          byMonth: z.array(z.number()).optional(),
-        })
-        .optional(),
-      reminders: z
-        .array(
-          z.object({
-            type: z.enum(['email', 'notification']),
-            minutesBefore: z.number(),
-          }),
-        )
-        .optional(),
+      inputSchema: {
+        calendarId: z.string(),
+        title: z.string(),
+        start: z.string(),
+        end: z.string(),
+        isAllDay: z.boolean().optional(),
+        description: z.string().optional(),
+        location: z.string().optional(),
+        color: z.string().optional(),
+        status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
+        visibility: z.enum(['public', 'private', 'confidential']).optional(),
+        availability: z.enum(['free', 'busy']).optional(),
+        adhdCategory: z.string().optional(),
+        focusPriority: z.number().optional(),
+        energyLevel: z.number().optional(),
+        categories: z.array(z.string()).optional(),
+        participants: z
+          .array(
+            z.object({
+              email: z.string(),
+              name: z.string().optional(),
+              status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']).optional(),
+              role: z.enum(['required', 'optional']).optional(),
+              type: z.enum(['individual', 'group', 'resource', 'room']).optional(),
+              rsvp: z.boolean().optional(),
+              scheduleAgent: z.enum(['server', 'client', 'none']).optional(),
+            }),
+          )
+          .optional(),
+        recurrenceRule: z
+          .object({
+            frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+            interval: z.number().optional(),
+            until: z.string().optional(),
+            count: z.number().optional(),
+            byDay: z.array(z.string().regex(/^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/)).optional(),
+            byMonthDay: z.array(z.number()).optional(),
+            byMonth: z.array(z.number()).optional(),
+            bySetPos: z.array(z.number()).optional(),
+          })
+          .optional(),
+        reminders: z.array(reminderSchema).optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), event: eventSchema },
     },
     async ({
+      account,
       calendarId,
       title,
       start,
@@ -200,6 +282,8 @@ export function registerEventTools(server: McpServer, eventService: EventService
       reminders,
     }) => {
       try {
+        const eventService = getEventService(account);
+
         // Parse and validate dates using helper function
         const startDate = EventHelpers.validateDate(start, 'start');
         const endDate = EventHelpers.validateDate(end, 'end');
@@ -236,17 +320,13 @@ export function registerEventTools(server: McpServer, eventService: EventService
           categories,
           participants: EventHelpers.validateParticipants(participants),
           recurrenceRule: processedRecurrenceRule,
-          reminders,
+          reminders: EventHelpers.processReminders(reminders),
         });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, event }, null, 2),
-            },
-          ],
-        };
+        return structuredResult(`Created event ${describeEvent(event)}`, {
+          success: true,
+          event,
+        });
       } catch (error) {
         return handleCalendarToolError('create event', error);
       }
@@ -254,59 +334,69 @@ export function registerEventTools(server: McpServer, eventService: EventService
   );
 
   // Update event tool
-  server.tool(
+  server.registerTool(
     'updateEvent',
     {
-      calendarId: z.string(),
-      eventId: z.string(),
-      title: z.string().optional(),
-      start: z.string().optional(),
-      end: z.string().optional(),
-      isAllDay: z.boolean().optional(),
-      description: z.string().optional(),
-      location: z.string().optional(),
-      color: z.string().optional(),
-      status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
-      visibility: z.enum(['public', 'private', 'confidential']).optional(),
-      availability: z.enum(['free', 'busy']).optional(),
-      adhdCategory: z.string().optional(),
-      focusPriority: z.number().optional(),
-      energyLevel: z.number().optional(),
-      categories: z.array(z.string()).optional(),
-      participants: z
-        .array(
-          z.object({
-            email: z.string(),
-            name: z.string().optional(),
-            status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']).optional(),
-            role: z.enum(['required', 'optional']).optional(),
-            type: z.enum(['individual', 'group', 'resource', 'room']).optional(),
-          }),
-        )
-        .optional(),
-      recurrenceRule: z
-        .object({
-          frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
-          interval: z.number().optional(),
-          until: z.string().optional(),
-          count: z.number().optional(),
-          byDay: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
-          byMonthDay: z.array(z.number()).optional(),
-          byMonth: z.array(z.number()).optional(),
-        })
-        .optional(),
-      reminders: z
-        .array(
-          z.object({
-            type: z.enum(['email', 'notification']),
-            minutesBefore: z.number(),
-          }),
-        )
-        .optional(),
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        title: z.string().optional(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        isAllDay: z.boolean().optional(),
+        description: z.string().optional(),
+        location: z.string().optional(),
+        color: z.string().optional(),
+        status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
+        visibility: z.enum(['public', 'private', 'confidential']).optional(),
+        availability: z.enum(['free', 'busy']).optional(),
+        adhdCategory: z.string().optional(),
+        focusPriority: z.number().optional(),
+        energyLevel: z.number().optional(),
+        categories: z.array(z.string()).optional(),
+        participants: z
+          .array(
+            z.object({
+              email: z.string(),
+              name: z.string().optional(),
+              status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']).optional(),
+              role: z.enum(['required', 'optional']).optional(),
+              type: z.enum(['individual', 'group', 'resource', 'room']).optional(),
+              rsvp: z.boolean().optional(),
+              scheduleAgent: z.enum(['server', 'client', 'none']).optional(),
+            }),
+          )
+          .optional(),
+        recurrenceRule: z
+          .object({
+            frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+            interval: z.number().optional(),
+            until: z.string().optional(),
+            count: z.number().optional(),
+            byDay: z.array(z.string().regex(/^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/)).optional(),
+            byMonthDay: z.array(z.number()).optional(),
+            byMonth: z.array(z.number()).optional(),
+            bySetPos: z.array(z.number()).optional(),
+          })
+          .optional(),
+        reminders: z.array(reminderSchema).optional(),
+        expectedEtag: z.string().optional(),
+        merge: z.boolean().optional(),
+        base: eventSchema
+          .partial()
+          .optional()
+          .describe('The event as read in the version of expectedEtag, the base of a merge'),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), event: eventSchema },
     },
     async ({
+      account,
       calendarId,
       eventId,
+      expectedEtag,
+      merge,
+      base,
       title,
       start,
       end,
@@ -326,6 +416,7 @@ export function registerEventTools(server: McpServer, eventService: EventService
       reminders,
     }) => {
       try {
+        const eventService = getEventService(account);
         const updates: Record<string, unknown> = {};
 
         // Add all provided fields to the updates object
@@ -377,7 +468,9 @@ export function registerEventTools(server: McpServer, eventService: EventService
           updates.recurrenceRule = EventHelpers.processRecurrenceRule(recurrenceRule);
         }
 
-        if (reminders !== undefined) updates.reminders = reminders;
+        if (reminders !== undefined) {
+          updates.reminders = EventHelpers.processReminders(reminders);
+        }
 
         // Check if any updates were provided
         if (Object.keys(updates).length === 0) {
@@ -385,16 +478,21 @@ export function registerEventTools(server: McpServer, eventService: EventService
         }
 
         // Update the event
-        const event = await eventService.updateEvent(calendarId, eventId, updates);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, event }, null, 2),
-            },
-          ],
+        // Times of the base are compared with those of the current version as dates
+        const baseEvent = base && {
+          ...(base as Partial<Event>),
+          ...(base.start && { start: new Date(base.start) }),
+          ...(base.end && { end: new Date(base.end) }),
         };
+        const event = await eventService.updateEvent(calendarId, eventId, updates, expectedEtag, {
+          merge,
+          base: baseEvent,
+        });
+
+        return structuredResult(`Updated event ${describeEvent(event)}`, {
+          success: true,
+          event,
+        });
       } catch (error) {
         return handleCalendarToolError('update event', error);
       }
@@ -402,26 +500,208 @@ export function registerEventTools(server: McpServer, eventService: EventService
   );
 
   // Delete event tool
-  server.tool(
+  server.registerTool(
     'deleteEvent',
     {
-      calendarId: z.string(),
-      eventId: z.string(),
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        expectedEtag: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean() },
     },
-    async ({ calendarId, eventId }) => {
+    async ({ account, calendarId, eventId, expectedEtag }) => {
       try {
-        const result = await eventService.deleteEvent(calendarId, eventId);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: result }, null, 2),
-            },
-          ],
-        };
+        const eventService = getEventService(account);
+        const result = await eventService.deleteEvent(calendarId, eventId, expectedEtag);
+        return structuredResult(
+          result
+            ? `Deleted event ${eventId} from calendar ${calendarId}`
+            : `Event ${eventId} was not deleted`,
+          { success: result },
+        );
       } catch (error) {
         return handleCalendarToolError('delete event', error);
       }
     },
   );
+
+  // Update a single occurrence of a recurring event
+  server.registerTool(
+    'updateEventOccurrence',
+    {
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        occurrenceStart: z.string(),
+        title: z.string().optional(),
+        description: z.string().optional(),
+        location: z.string().optional(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
+        availability: z.enum(['free', 'busy']).optional(),
+        expectedEtag: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), event: eventSchema },
+    },
+    async ({
+      account,
+      calendarId,
+      eventId,
+      occurrenceStart,
+      start,
+      end,
+      expectedEtag,
+      ...changes
+    }) => {
+      try {
+        const eventService = getEventService(account);
+        const occurrenceDate = EventHelpers.validateDate(occurrenceStart, 'occurrenceStart');
+        const startDate = start ? EventHelpers.validateDate(start, 'start') : undefined;
+        const endDate = end ? EventHelpers.validateDate(end, 'end') : undefined;
+
+        if (
+          Object.values(changes).every((value) => value === undefined) &&
+          !startDate &&
+          !endDate
+        ) {
+          throw new Error('No update parameters provided');
+        }
+
+        const event = await eventService.updateEventOccurrence(
+          calendarId,
+          eventId,
+          occurrenceDate,
+          { ...changes, start: startDate, end: endDate },
+          expectedEtag,
+        );
+
+        return structuredResult(`Updated occurrence of event ${describeEvent(event)}`, {
+          success: true,
+          event,
+        });
+      } catch (error) {
+        return handleCalendarToolError('update event occurrence', error);
+      }
+    },
+  );
+
+  // Cancel a single occurrence of a recurring event
+  server.registerTool(
+    'deleteEventOccurrence',
+    {
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        occurrenceStart: z.string(),
+        expectedEtag: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean() },
+    },
+    async ({ account, calendarId, eventId, occurrenceStart, expectedEtag }) => {
+      try {
+        const eventService = getEventService(account);
+        const occurrenceDate = EventHelpers.validateDate(occurrenceStart, 'occurrenceStart');
+        const result = await eventService.deleteEventOccurrence(
+          calendarId,
+          eventId,
+          occurrenceDate,
+          expectedEtag,
+        );
+
+        return structuredResult(
+          result
+            ? `Cancelled the occurrence of event ${eventId} at ${occurrenceDate.toISOString()}`
+            : `Event ${eventId} was not deleted`,
+          { success: result },
+        );
+      } catch (error) {
+        return handleCalendarToolError('delete event occurrence', error);
+      }
+    },
+  );
+
+  // Split a recurring series into "before" and "this and following"
+  server.registerTool(
+    'splitRecurringSeries',
+    {
+      inputSchema: {
+        calendarId: z.string(),
+        eventId: z.string(),
+        occurrenceStart: z.string(),
+        title: z.string().optional(),
+        description: z.string().optional(),
+        location: z.string().optional(),
+        start: z.string().optional(),
+        end: z.string().optional(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), original: eventSchema, series: eventSchema },
+    },
+    async ({ account, calendarId, eventId, occurrenceStart, start, end, ...changes }) => {
+      try {
+        const eventService = getEventService(account);
+        const occurrenceDate = EventHelpers.validateDate(occurrenceStart, 'occurrenceStart');
+
+        const result = await eventService.splitRecurringSeries(
+          calendarId,
+          eventId,
+          occurrenceDate,
+          {
+            ...changes,
+            start: start ? EventHelpers.validateDate(start, 'start') : undefined,
+            end: end ? EventHelpers.validateDate(end, 'end') : undefined,
+          },
+        );
+
+        return structuredResult(
+          `Split the series into ${describeEvent(result.original)} ` +
+            `and ${describeEvent(result.series)}`,
+          { success: true, ...result },
+        );
+      } catch (error) {
+        return handleCalendarToolError('split recurring series', error);
+      }
+    },
+  );
+
+  // Free/busy query tool
+  server.registerTool(
+    'getFreeBusy',
+    {
+      inputSchema: {
+        calendarIds: z.array(z.string()).min(1),
+        start: z.string(),
+        end: z.string(),
+        account: z.string().optional(),
+      },
+      outputSchema: { success: z.boolean(), freeBusy: freeBusySchema },
+    },
+    async ({ account, calendarIds, start, end }) => {
+      try {
+        const eventService = getEventService(account);
+        const startDate = EventHelpers.validateDate(start, 'start');
+        const endDate = EventHelpers.validateDate(end, 'end');
+        EventHelpers.validateDateRange(startDate, endDate);
+
+        const freeBusy = await eventService.getFreeBusy(calendarIds, startDate, endDate);
+
+        return structuredResult(
+          summarizeList(
+            `${freeBusy.busy.length} busy periods between ${start} and ${end}:`,
+            freeBusy.busy,
+            (period) =>
+              `${period.start.toISOString()} - ${period.end.toISOString()} (${period.type})`,
+          ),
+          { success: true, freeBusy },
+        );
+      } catch (error) {
+        return handleCalendarToolError('retrieve free/busy information', error);
+      }
+    },
+  );
 }
@@ -0,0 +1,52 @@
+/**
+ * Health tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { CircuitStatus, getCircuitStatuses } from '../services/calendar/request-pipeline.js';
+import { circuitSchema, structuredResult, summarizeList } from './output-schemas.js';
+
+/**
+ * Describe the circuit of a host in one line for text summaries
+ */
+function describeCircuit(circuit: CircuitStatus): string {
+  const details = [
+    circuit.consecutiveFailures > 0 ? `${circuit.consecutiveFailures} failures` : null,
+    circuit.lastError ? `last error ${circuit.lastError}` : null,
+    circuit.retryAt ? `retrying at ${circuit.retryAt.toISOString()}` : null,
+    circuit.queued ? `${circuit.active} requests in flight, ${circuit.queued} queued` : null,
+  ].filter(Boolean);
+  return `${circuit.host}: ${circuit.state}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Register health tools with the MCP server
+ * @param server The MCP server instance
+ */
+export function registerHealthTools(server: McpServer): void {
+  // Report whether the Nextcloud servers answer, from the circuits of the requests made so far
+  server.registerTool(
+    'health',
+    {
+      inputSchema: {},
+      outputSchema: {
+        status: z.enum(['ok', 'degraded', 'unavailable']),
+        circuits: z.array(circuitSchema),
+      },
+    },
+    async () => {
+      // Failing hosts first, so the summary shows them
+      const circuits = getCircuitStatuses().sort(
+        (a, b) => Number(a.state === 'closed') - Number(b.state === 'closed'),
+      );
+      const open = circuits.filter((circuit) => circuit.state !== 'closed').length;
+      const status = open === 0 ? 'ok' : open === circuits.length ? 'unavailable' : 'degraded';
+
+      return structuredResult(
+        summarizeList(`Status ${status}, ${circuits.length} hosts:`, circuits, describeCircuit),
+        { status, circuits },
+      );
+    },
+  );
+}
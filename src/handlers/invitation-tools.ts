@@ -0,0 +1,93 @@
+/**
+ * Invitation (iTIP) tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
+import { ItipService } from '../services/calendar/itip-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for invitation tools
+ */
+function handleInvitationToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Register invitation tools with the MCP server
+ * @param server The MCP server instance
+ * @param getItipService Returns the iTIP service of an account
+ */
+export function registerInvitationTools(
+  server: McpServer,
+  getItipService: ServiceProvider<ItipService>,
+): void {
+  if (!getItipService) {
+    return;
+  }
+
+  // List invitations from the scheduling inbox that have not been answered
+  server.tool('listPendingInvitations', { account: z.string().optional() }, async ({ account }) => {
+    try {
+      const itipService = getItipService(account);
+      const invitations = await itipService.getPendingInvitations();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ success: true, invitations }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return handleInvitationToolError('list pending invitations', error);
+    }
+  });
+
+  // Accept, decline or tentatively accept an invitation
+  server.tool(
+    'respondToInvitation',
+    {
+      eventId: z.string(),
+      response: z.enum(['accepted', 'declined', 'tentative']),
+      comment: z.string().optional(),
+      calendarId: z.string().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, eventId, response, comment, calendarId }) => {
+      try {
+        const itipService = getItipService(account);
+        const result = await itipService.respondToInvitation(eventId, response, {
+          comment,
+          calendarId,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, ...result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleInvitationToolError('respond to invitation', error);
+      }
+    },
+  );
+}
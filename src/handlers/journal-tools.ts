@@ -0,0 +1,147 @@
+/**
+ * Journal (VJOURNAL) tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
+import { EventHelpers } from '../services/calendar/event-helpers.js';
+import { JournalService } from '../services/calendar/journal-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for journal tools
+ */
+function handleJournalToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Register journal tools with the MCP server
+ * @param server The MCP server instance
+ * @param getJournalService Returns the journal service of an account
+ */
+export function registerJournalTools(
+  server: McpServer,
+  getJournalService: ServiceProvider<JournalService>,
+): void {
+  if (!getJournalService) {
+    return;
+  }
+
+  // List journal entries of a calendar
+  server.tool(
+    'listJournalEntries',
+    {
+      calendarId: z.string(),
+      start: z.string().optional(),
+      end: z.string().optional(),
+      relatedTo: z.string().optional(),
+      limit: z.number().int().positive().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, start, end, ...options }) => {
+      try {
+        const journalService = getJournalService(account);
+        const entries = await journalService.getJournalEntries(calendarId, {
+          ...options,
+          start: start ? EventHelpers.validateDate(start, 'start') : undefined,
+          end: end ? EventHelpers.validateDate(end, 'end') : undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, entries }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleJournalToolError('list journal entries', error);
+      }
+    },
+  );
+
+  // Create a journal entry
+  server.tool(
+    'createJournalEntry',
+    {
+      calendarId: z.string(),
+      title: z.string(),
+      description: z.string().optional(),
+      date: z.string().optional(),
+      isAllDay: z.boolean().optional(),
+      status: z.enum(['draft', 'final', 'cancelled']).optional(),
+      categories: z.array(z.string()).optional(),
+      relatedTo: z.array(z.string()).optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, date, ...data }) => {
+      try {
+        const journalService = getJournalService(account);
+        const entry = await journalService.createJournalEntry(calendarId, {
+          ...data,
+          date: date ? EventHelpers.validateDate(date, 'date') : undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, entry }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleJournalToolError('create journal entry', error);
+      }
+    },
+  );
+
+  // Link a journal entry (e.g. meeting minutes) to an event
+  server.tool(
+    'attachJournalToEvent',
+    {
+      calendarId: z.string(),
+      journalId: z.string(),
+      eventId: z.string(),
+      eventCalendarId: z.string().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, journalId, eventId, eventCalendarId }) => {
+      try {
+        const journalService = getJournalService(account);
+        const entry = await journalService.attachJournalToEvent(
+          calendarId,
+          journalId,
+          eventId,
+          eventCalendarId,
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, entry }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleJournalToolError('attach journal entry', error);
+      }
+    },
+  );
+}
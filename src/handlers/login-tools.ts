@@ -0,0 +1,193 @@
+/**
+ * Login tools for the MCP server
+ *
+ * The MCP counterpart of the login command, for servers that run where no one can use a terminal.
+ * Over HTTP, a login only changes the accounts of the session that started it.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createAccountConfig } from '../config/config.js';
+import { saveCredentials } from '../config/credentials.js';
+import { AccountService } from '../services/account-service.js';
+import { LoginFlowService } from '../services/login-flow-service.js';
+import { redactSecrets, releaseSecret, sanitizeError } from '../utils/error.js';
+
+/**
+ * State of a login started with the startLogin tool
+ */
+interface PendingLogin {
+  status: 'pending' | 'completed' | 'failed';
+  server: string;
+  loginUrl: string;
+  username?: string;
+  error?: string;
+}
+
+/**
+ * Utility function to handle and sanitize errors for login tools
+ */
+function handleLoginToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * How completed logins are kept
+ */
+export interface LoginToolOptions {
+  /**
+   * Save logins to the credential file for the next start; off for the sessions of HTTP
+   * clients, whose logins only last as long as the session
+   */
+  saveLogins?: boolean;
+}
+
+/**
+ * Register login tools with the MCP server
+ * @param server The MCP server instance
+ * @param accountService The account registry, updated when a login completes
+ * @param options How completed logins are kept
+ */
+export function registerLoginTools(
+  server: McpServer,
+  accountService: AccountService,
+  options: LoginToolOptions = {},
+): void {
+  if (!accountService) {
+    return;
+  }
+
+  const saveLogins = options.saveLogins ?? true;
+
+  // Logins by account name, of this server only
+  const logins = new Map<string, PendingLogin>();
+
+  // App passwords of logins that only last as long as the session
+  const sessionSecrets: string[] = [];
+  let closed = false;
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    closed = true;
+    sessionSecrets.splice(0).forEach(releaseSecret);
+    onclose?.();
+  };
+
+  // Start a Nextcloud login; the app password is stored once the user granted access
+  server.tool(
+    'startLogin',
+    {
+      account: z.string().optional(),
+      server: z.string().optional(),
+    },
+    async ({ account, server: serverUrl }) => {
+      try {
+        // Only renew logins of configured accounts, on their own server; new accounts are
+        // added with the login command
+        const name = account || accountService.getDefaultAccount();
+        const existing = accountService.listAccounts().find((info) => info.name === name);
+        if (!existing) {
+          throw new Error(`Account "${name}" is not configured`);
+        }
+        const baseUrl = existing.baseUrl;
+        if (serverUrl && serverUrl.replace(/\/+$/, '') !== baseUrl.replace(/\/+$/, '')) {
+          throw new Error(`Account "${name}" is on ${baseUrl}, not on ${serverUrl}`);
+        }
+
+        const loginFlow = new LoginFlowService(baseUrl);
+        const flow = await loginFlow.start();
+        const login: PendingLogin = { status: 'pending', server: baseUrl, loginUrl: flow.loginUrl };
+        logins.set(name, login);
+
+        // Wait for the user in the background; getLoginStatus reports the outcome
+        loginFlow
+          .poll(flow)
+          .then((result) => {
+            const credentials = {
+              baseUrl,
+              username: result.loginName,
+              appToken: result.appPassword,
+            };
+            const previous = accountService.getAccountConfig(name);
+            if (saveLogins) {
+              saveCredentials(name, credentials);
+            } else if (closed) {
+              releaseSecret(result.appPassword);
+            } else {
+              sessionSecrets.push(result.appPassword);
+            }
+            accountService.setAccount(
+              name,
+              createAccountConfig(name, { ...previous, ...credentials }),
+            );
+            Object.assign(login, { status: 'completed', username: result.loginName });
+          })
+          .catch((error) => {
+            console.error(`Login for account ${name} failed:`, sanitizeError(error).log);
+            const message = error instanceof Error ? error.message : String(error);
+            Object.assign(login, { status: 'failed', error: redactSecrets(message) });
+          });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  account: name,
+                  loginUrl: flow.loginUrl,
+                  message:
+                    'Open the login URL, log in and grant access, then check getLoginStatus.',
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleLoginToolError('start login', error);
+      }
+    },
+  );
+
+  // Report the state of a login started with startLogin
+  server.tool(
+    'getLoginStatus',
+    {
+      account: z.string().optional(),
+    },
+    async ({ account }) => {
+      try {
+        const name = account || accountService.getDefaultAccount();
+        const login = logins.get(name);
+        if (!login) {
+          throw new Error(`No login was started for account "${name}"`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, account: name, ...login }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleLoginToolError('get login status', error);
+      }
+    },
+  );
+}
@@ -0,0 +1,276 @@
+/**
+ * The MCP server with all tools, resources and prompts of the calendar and contact services
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServerConfig } from '../config/config.js';
+import { Calendar } from '../models/index.js';
+import { AccountService } from '../services/account-service.js';
+import { SessionCredentials } from '../services/auth-service.js';
+import { sanitizeError } from '../utils/error.js';
+import { notifyResourceListChanged } from './calendar-resources.js';
+import { calendarSchema, structuredResult, summarizeList } from './output-schemas.js';
+
+/**
+ * Utility function to handle and sanitize errors for MCP calendar tools
+ * @param operation The calendar operation being performed (e.g., 'retrieve calendars')
+ * @param error The original error
+ * @returns A formatted MCP tool error response
+ */
+function handleCalendarToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  // Sanitize error message to avoid exposing sensitive details
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Describe a calendar in one line for text summaries
+ */
+function describeCalendar(calendar: Calendar): string {
+  return `${calendar.displayName} (id ${calendar.id})`;
+}
+
+/**
+ * Create an MCP server with all available tools
+ * The HTTP transport creates one per session, with services of its own when the session
+ * authenticated as a Nextcloud user.
+ * @param serverConfig Configuration of the server
+ * @param accountService The configured accounts; without them, only the health tools are offered
+ * @param credentials The Nextcloud login of the client of the session, if it authenticated
+ */
+export async function createMcpServer(
+  serverConfig: ServerConfig,
+  accountService: AccountService | null,
+  credentials?: SessionCredentials,
+): Promise<McpServer> {
+  const server = new McpServer({
+    name: serverConfig.serverName,
+    version: serverConfig.serverVersion,
+  });
+
+  // Health of the connections to Nextcloud
+  const { registerHealthTools } = await import('./health-tools.js');
+  registerHealthTools(server);
+
+  // Register all tools if an account is available; tools take an optional account name
+  if (accountService) {
+    // Each HTTP session has accounts of its own, so its logins cannot replace those of others
+    const http = serverConfig.transport === 'http';
+    const accounts = credentials
+      ? accountService.withCredentials(credentials)
+      : http
+        ? accountService.forSession()
+        : accountService;
+
+    // List accounts tool
+    const { registerAccountTools } = await import('./account-tools.js');
+    registerAccountTools(server, accounts);
+
+    // Register login tools; logins of HTTP sessions are not saved for the next start
+    const { registerLoginTools } = await import('./login-tools.js');
+    registerLoginTools(server, accounts, { saveLogins: !http });
+
+    // List calendars tool
+    server.registerTool(
+      'listCalendars',
+      {
+        inputSchema: { account: z.string().optional() },
+        outputSchema: { success: z.boolean(), calendars: z.array(calendarSchema) },
+      },
+      async ({ account }) => {
+        try {
+          const calendars = await accounts.getCalendarService(account).getCalendars();
+          return structuredResult(
+            summarizeList(`${calendars.length} calendars:`, calendars, describeCalendar),
+            { success: true, calendars },
+          );
+        } catch (error) {
+          return handleCalendarToolError('retrieve calendars', error);
+        }
+      },
+    );
+
+    // Create calendar tool
+    server.registerTool(
+      'createCalendar',
+      {
+        inputSchema: {
+          displayName: z.string(),
+          color: z.string().optional(),
+          category: z.string().optional(),
+          focusPriority: z.number().optional(),
+          account: z.string().optional(),
+        },
+        outputSchema: { success: z.boolean(), calendar: calendarSchema },
+      },
+      async ({ account, displayName, color, category, focusPriority }) => {
+        try {
+          const newCalendar = {
+            displayName,
+            color: color || '#0082c9',
+            owner: '', // Will be assigned by service
+            isDefault: false,
+            isShared: false,
+            isReadOnly: false,
+            permissions: {
+              canRead: true,
+              canWrite: true,
+              canShare: true,
+              canDelete: true,
+            },
+            category,
+            focusPriority,
+            metadata: null,
+          };
+
+          const calendar = await accounts.getCalendarService(account).createCalendar(newCalendar);
+          notifyResourceListChanged(server);
+          return structuredResult(`Created calendar ${describeCalendar(calendar)}`, {
+            success: true,
+            calendar,
+          });
+        } catch (error) {
+          return handleCalendarToolError('create calendar', error);
+        }
+      },
+    );
+
+    // Update calendar tool
+    server.registerTool(
+      'updateCalendar',
+      {
+        inputSchema: {
+          id: z.string(),
+          displayName: z.string().optional(),
+          color: z.string().optional(),
+          category: z.string().optional(),
+          focusPriority: z.number().optional(),
+          account: z.string().optional(),
+        },
+        outputSchema: { success: z.boolean(), calendar: calendarSchema },
+      },
+      async ({ account, id, displayName, color, category, focusPriority }) => {
+        try {
+          const updates: Record<string, unknown> = {};
+          if (displayName !== undefined) updates.displayName = displayName;
+          if (color !== undefined) updates.color = color;
+          if (category !== undefined) updates.category = category;
+          if (focusPriority !== undefined) updates.focusPriority = focusPriority;
+
+          if (Object.keys(updates).length === 0) {
+            throw new Error('No update parameters provided');
+          }
+
+          const calendar = await accounts.getCalendarService(account).updateCalendar(id, updates);
+          // Resources are named after their calendar
+          notifyResourceListChanged(server);
+          return structuredResult(`Updated calendar ${describeCalendar(calendar)}`, {
+            success: true,
+            calendar,
+          });
+        } catch (error) {
+          return handleCalendarToolError('update calendar', error);
+        }
+      },
+    );
+
+    // Delete calendar tool
+    server.registerTool(
+      'deleteCalendar',
+      {
+        inputSchema: {
+          id: z.string(),
+          account: z.string().optional(),
+        },
+        outputSchema: { success: z.boolean() },
+      },
+      async ({ account, id }) => {
+        try {
+          const result = await accounts.getCalendarService(account).deleteCalendar(id);
+          if (result) {
+            notifyResourceListChanged(server);
+          }
+          return structuredResult(
+            result ? `Deleted calendar ${id}` : `Calendar ${id} was not deleted`,
+            { success: result },
+          );
+        } catch (error) {
+          return handleCalendarToolError('delete calendar', error);
+        }
+      },
+    );
+
+    // Register event tools
+    const { registerEventTools } = await import('./event-tools.js');
+    registerEventTools(server, accounts.getEventService);
+
+    // Register timezone-aware tools
+    const { registerTimezoneEventTools } = await import('./timezone-tools.js');
+    registerTimezoneEventTools(server, accounts.getEventService, accounts.getTimezoneService);
+
+    const { registerSchedulingTools } = await import('./scheduling-tools.js');
+    registerSchedulingTools(server, accounts.getSchedulingService);
+
+    // Register reminder tools
+    const { registerReminderTools } = await import('./reminder-tools.js');
+    registerReminderTools(server, accounts.getReminderService);
+
+    // Register invitation tools
+    const { registerInvitationTools } = await import('./invitation-tools.js');
+    registerInvitationTools(server, accounts.getItipService);
+
+    // Register contact tools
+    const { registerContactTools } = await import('./contact-tools.js');
+    registerContactTools(server, accounts.getContactService);
+
+    // Register task tools
+    const { registerTaskTools } = await import('./task-tools.js');
+    registerTaskTools(server, accounts.getTaskService);
+
+    // Register journal tools
+    const { registerJournalTools } = await import('./journal-tools.js');
+    registerJournalTools(server, accounts.getJournalService);
+
+    // Register sync tools
+    const { registerSyncTools } = await import('./sync-tools.js');
+    registerSyncTools(
+      server,
+      accounts.getCalendarService,
+      accounts.getEventService,
+      accounts.getContactService,
+    );
+
+    // Register calendar and contact resources with change subscriptions
+    const { registerCalendarResources } = await import('./calendar-resources.js');
+    registerCalendarResources(
+      server,
+      accounts.getCalendarService,
+      accounts.getEventService,
+      accounts.getContactService,
+      serverConfig.resourcePollInterval,
+    );
+
+    // Register prompts for common calendar and contact workflows
+    const { registerCalendarPrompts } = await import('./calendar-prompts.js');
+    registerCalendarPrompts(
+      server,
+      accounts.getCalendarService,
+      accounts.getEventService,
+      accounts.getContactService,
+      accounts.getTimezoneService,
+    );
+  }
+
+  return server;
+}
@@ -0,0 +1,486 @@
+/**
+ * HTTP transports for the MCP server
+ *
+ * Serves several MCP clients from one process: the streamable HTTP transport on /mcp
+ * and the older HTTP+SSE transport on /sse and /messages. Every session gets its own
+ * McpServer instance. With authentication, a session is bound to the user that opened it.
+ */
+
+import { Buffer } from 'buffer';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { clearInterval, setInterval } from 'timers';
+import { URL } from 'url';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthenticationError, SessionCredentials } from '../services/auth-service.js';
+import { createLogger } from '../services/logger.js';
+import { registerSecret, releaseSecret } from '../utils/error.js';
+
+const logger = createLogger('McpTransport');
+
+/**
+ * Largest accepted request body
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Sessions without requests for this long are closed
+ */
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Options of the HTTP transport
+ */
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+
+  /**
+   * Interval in milliseconds of keep-alive pings on open event streams
+   */
+  keepAliveInterval: number;
+
+  /**
+   * Resolves the credentials of a request; without it all clients share the configured accounts
+   * @throws AuthenticationError if the request has no valid credentials
+   */
+  authenticate?: (req: IncomingMessage) => SessionCredentials | undefined;
+}
+
+/**
+ * Creates the MCP server of a new session, acting as the user of the credentials if given
+ */
+export type McpServerFactory = (credentials?: SessionCredentials) => Promise<McpServer>;
+
+/**
+ * A connected MCP client
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastActivity: number;
+
+  /**
+   * Fingerprint of the credentials that opened the session, when clients authenticate
+   */
+  credentialsId?: string;
+
+  /**
+   * App token of the session's user, redacted from logs while the session is open
+   */
+  secret?: string;
+}
+
+const sessions = new Map<string, Session>();
+const timers = new Set<ReturnType<typeof setInterval>>();
+let httpServer: Server | null = null;
+
+/**
+ * Start an interval that is cleared on cleanup and does not keep the process alive
+ */
+function startTimer(callback: () => void, interval: number): ReturnType<typeof setInterval> {
+  const timer = setInterval(callback, interval);
+  timer.unref();
+  timers.add(timer);
+  return timer;
+}
+
+/**
+ * Stop an interval started with startTimer
+ */
+function stopTimer(timer: ReturnType<typeof setInterval>): void {
+  clearInterval(timer);
+  timers.delete(timer);
+}
+
+/**
+ * Send keep-alive pings (SSE comments) on an open event stream until it closes
+ * Proxies and load balancers otherwise drop streams that are idle between notifications.
+ */
+function keepStreamAlive(res: ServerResponse, interval: number): void {
+  if (res.writableEnded || interval <= 0) {
+    return;
+  }
+
+  const timer = startTimer(() => {
+    if (!res.writableEnded) {
+      res.write(': keep-alive\n\n');
+    }
+  }, interval);
+  res.on('close', () => stopTimer(timer));
+}
+
+/**
+ * Keep a session for the requests that follow
+ */
+function storeSession(sessionId: string, session: Session): void {
+  registerSecret(session.secret);
+  sessions.set(sessionId, session);
+}
+
+/**
+ * Forget a session
+ * @returns Whether the session was stored
+ */
+function removeSession(sessionId: string): boolean {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return false;
+  }
+
+  sessions.delete(sessionId);
+  releaseSecret(session.secret);
+  return true;
+}
+
+/**
+ * Close a session and its MCP server
+ */
+async function closeSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+
+  removeSession(sessionId);
+  try {
+    await session.server.close();
+  } catch (error) {
+    logger.warn(`Error closing session ${sessionId}:`, error);
+  }
+}
+
+/**
+ * Connect an MCP server to the transport of a session
+ * The session is forgotten when the transport closes (e.g. on a DELETE from the client).
+ * @param getSessionId Returns the session ID, which streamable transports only know after initialization
+ */
+async function connectSession(
+  server: McpServer,
+  transport: StreamableHTTPServerTransport | SSEServerTransport,
+  getSessionId: () => string | undefined,
+): Promise<void> {
+  await server.connect(transport);
+
+  // connect() installs its own close handler, so chain ours after it
+  const onclose = transport.onclose;
+  transport.onclose = () => {
+    onclose?.();
+    const sessionId = getSessionId();
+    if (sessionId && removeSession(sessionId)) {
+      logger.info(`Session ${sessionId} closed (${sessions.size} active)`);
+    }
+  };
+}
+
+/**
+ * Send a JSON-RPC error that is not related to a request
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  res
+    .writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Check that a request of an existing session comes from the user that opened it
+ * Sends a 403 response otherwise, so a leaked session ID does not grant access to another user's data.
+ * @returns Whether the request may use the session
+ */
+function authorizeSession(
+  req: IncomingMessage,
+  res: ServerResponse,
+  session: Session,
+  options: HttpTransportOptions,
+): boolean {
+  if (!options.authenticate || options.authenticate(req)?.id === session.credentialsId) {
+    return true;
+  }
+
+  sendJsonRpcError(res, 403, -32001, 'Session belongs to another user');
+  return false;
+}
+
+/**
+ * Read and parse a JSON request body
+ * @throws Error if the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Handle a request to the streamable HTTP endpoint
+ */
+async function handleStreamableRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  createMcpServer: McpServerFactory,
+  options: HttpTransportOptions,
+): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+  let session = sessionId ? sessions.get(sessionId) : undefined;
+  if (sessionId && !session) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found');
+    return;
+  }
+
+  if (session && !(session.transport instanceof StreamableHTTPServerTransport)) {
+    sendJsonRpcError(res, 400, -32000, 'Session uses the SSE transport');
+    return;
+  }
+
+  if (session && !authorizeSession(req, res, session, options)) {
+    return;
+  }
+
+  const initializing = !session;
+  if (!session) {
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'No valid session ID provided');
+      return;
+    }
+
+    const credentials = options.authenticate?.(req);
+    const server = await createMcpServer(credentials);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        if (session) {
+          storeSession(id, session);
+        }
+        logger.info(`Session ${id} initialized (${sessions.size} active)`);
+      },
+    });
+    await connectSession(server, transport, () => transport.sessionId);
+    session = {
+      transport,
+      server,
+      lastActivity: Date.now(),
+      credentialsId: credentials?.id,
+      secret: credentials?.appToken,
+    };
+  }
+
+  session.lastActivity = Date.now();
+  const { transport, server } = session;
+  try {
+    // A DELETE closes the transport, which removes the session
+    await (transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+  } finally {
+    // An initialize request that failed, or whose client went away, leaves a session nobody stored
+    if (initializing && !(transport.sessionId && sessions.has(transport.sessionId))) {
+      await server.close().catch((error) => logger.warn('Error closing unused session:', error));
+    }
+  }
+
+  // Responses still open after handling are event streams
+  keepStreamAlive(res, options.keepAliveInterval);
+}
+
+/**
+ * Open an event stream of the HTTP+SSE transport
+ */
+async function handleSseConnection(
+  req: IncomingMessage,
+  res: ServerResponse,
+  createMcpServer: McpServerFactory,
+  options: HttpTransportOptions,
+): Promise<void> {
+  const credentials = options.authenticate?.(req);
+  const server = await createMcpServer(credentials);
+  const transport = new SSEServerTransport('/messages', res);
+  const sessionId = transport.sessionId;
+
+  storeSession(sessionId, {
+    transport,
+    server,
+    lastActivity: Date.now(),
+    credentialsId: credentials?.id,
+    secret: credentials?.appToken,
+  });
+  res.on('close', () => void closeSession(sessionId));
+
+  await connectSession(server, transport, () => sessionId);
+  logger.info(`Session ${sessionId} initialized (${sessions.size} active)`);
+  keepStreamAlive(res, options.keepAliveInterval);
+}
+
+/**
+ * Deliver a message to a session of the HTTP+SSE transport
+ */
+async function handleSseMessage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  options: HttpTransportOptions,
+) {
+  const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+  if (!session || !(session.transport instanceof SSEServerTransport)) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found');
+    return;
+  }
+
+  if (!authorizeSession(req, res, session, options)) {
+    return;
+  }
+
+  session.lastActivity = Date.now();
+  await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+}
+
+/**
+ * Start serving MCP over HTTP
+ * @param createMcpServer Creates the MCP server of a new session
+ * @param options Address, keep-alive and authentication settings
+ * @returns The listening HTTP server
+ */
+export async function startHttpTransport(
+  createMcpServer: McpServerFactory,
+  options: HttpTransportOptions,
+): Promise<Server> {
+  if (httpServer) {
+    throw new Error('HTTP transport is already running');
+  }
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    const handle = async () => {
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+        await handleStreamableRequest(req, res, createMcpServer, options);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnection(req, res, createMcpServer, options);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url, options);
+      } else if (url.pathname === '/health' && req.method === 'GET') {
+        res
+          .writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+      }
+    };
+
+    handle().catch((error) => {
+      if (error instanceof AuthenticationError) {
+        logger.warn(`Rejected ${req.method} ${url.pathname}: ${error.message}`);
+        sendJsonRpcError(res, 401, -32001, error.message, {
+          'WWW-Authenticate': error.challenge,
+        });
+        return;
+      }
+
+      logger.error(`Error handling ${req.method} ${url.pathname}:`, error);
+      if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, -32700, 'Parse error');
+      } else {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  // Close streamable HTTP sessions whose clients went away without ending them;
+  // SSE sessions end with their event stream
+  startTimer(
+    () => {
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT;
+      for (const [sessionId, session] of sessions) {
+        if (
+          session.transport instanceof StreamableHTTPServerTransport &&
+          session.lastActivity < cutoff
+        ) {
+          logger.info(`Closing idle session ${sessionId}`);
+          void closeSession(sessionId);
+        }
+      }
+    },
+    Math.min(SESSION_IDLE_TIMEOUT, Math.max(options.keepAliveInterval, 1000)),
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  httpServer = server;
+  logger.info(`MCP HTTP transport listening on http://${options.host}:${options.port}/mcp`);
+  return server;
+}
+
+/**
+ * Get the number of connected sessions
+ */
+export function getActiveSessionCount(): number {
+  return sessions.size;
+}
+
+/**
+ * Gracefully stop the HTTP transport
+ * New connections are refused, sessions are closed and open streams are ended.
+ */
+export async function stopHttpTransport(): Promise<void> {
+  const server = httpServer;
+  httpServer = null;
+
+  timers.forEach(stopTimer);
+  await Promise.all([...sessions.keys()].map(closeSession));
+
+  if (server) {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+    logger.info('MCP HTTP transport stopped');
+  }
+}
+
+/**
+ * Release all transport resources immediately (sessions, timers and the HTTP server)
+ * Used on forced shutdown and between tests.
+ */
+export function cleanupAllResources(): void {
+  timers.forEach(stopTimer);
+
+  for (const sessionId of [...sessions.keys()]) {
+    void closeSession(sessionId);
+  }
+
+  if (httpServer) {
+    httpServer.close();
+    httpServer.closeAllConnections();
+    httpServer = null;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Output schemas of the MCP tools and helpers to build structured results
+ *
+ * Tools return their data as structuredContent matching these schemas, next to a short text
+ * summary for the model. Dates are serialized as ISO 8601 strings. Objects allow additional
+ * properties, so fields added to the models later do not break clients.
+ */
+
+import { z } from 'zod';
+import { MergeConflictError } from '../services/calendar/merge-utils.js';
+
+const dateTime = z.string().describe('ISO 8601 date and time');
+
+/**
+ * Cursor of the next page of a list; absent on the last page
+ */
+export const nextCursorSchema = z
+  .string()
+  .optional()
+  .describe('Pass as cursor to get the next page; absent on the last page');
+
+const permissionsSchema = z
+  .object({
+    canRead: z.boolean(),
+    canWrite: z.boolean(),
+    canShare: z.boolean(),
+    canDelete: z.boolean(),
+  })
+  .passthrough();
+
+export const calendarSchema = z
+  .object({
+    id: z.string(),
+    displayName: z.string(),
+    color: z.string(),
+    owner: z.string(),
+    isDefault: z.boolean(),
+    isShared: z.boolean(),
+    isReadOnly: z.boolean(),
+    permissions: permissionsSchema,
+    url: z.string(),
+    category: z.string().nullish(),
+    focusPriority: z.number().nullish(),
+    metadata: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+const participantSchema = z
+  .object({
+    email: z.string(),
+    name: z.string().nullish(),
+    status: z.enum(['accepted', 'declined', 'tentative', 'needs-action']),
+    role: z.enum(['required', 'optional']).optional(),
+    type: z.enum(['individual', 'group', 'resource', 'room']).optional(),
+    comment: z.string().nullish(),
+    rsvp: z.boolean().optional(),
+    scheduleAgent: z.enum(['server', 'client', 'none']).optional(),
+  })
+  .passthrough();
+
+const recurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.number().optional(),
+    until: dateTime.optional(),
+    count: z.number().optional(),
+    byDay: z.array(z.string()).optional(),
+    byMonthDay: z.array(z.number()).optional(),
+    byMonth: z.array(z.number()).optional(),
+    bySetPos: z.array(z.number()).optional(),
+    exDates: z.array(dateTime).optional(),
+    rDates: z.array(dateTime).optional(),
+  })
+  .passthrough();
+
+const reminderSchema = z
+  .object({
+    type: z.enum(['email', 'notification', 'audio']),
+    minutesBefore: z.number(),
+    relativeTo: z.enum(['start', 'end']).optional(),
+    triggerAt: dateTime.optional(),
+    description: z.string().optional(),
+    summary: z.string().optional(),
+    attendees: z.array(z.string()).optional(),
+    attachment: z.string().optional(),
+    repeat: z.number().optional(),
+    repeatIntervalMinutes: z.number().optional(),
+    isSent: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const eventSchema = z
+  .object({
+    id: z.string(),
+    calendarId: z.string(),
+    title: z.string(),
+    description: z.string().nullish(),
+    start: dateTime,
+    end: dateTime,
+    isAllDay: z.boolean(),
+    location: z.string().nullish(),
+    organizer: z.string().nullish(),
+    participants: z.array(participantSchema).optional(),
+    recurrenceRule: recurrenceRuleSchema.optional(),
+    recurrenceId: dateTime.optional(),
+    masterId: z.string().optional(),
+    overrides: z
+      .array(z.object({}).passthrough())
+      .optional()
+      .describe('Modified occurrences, with the fields of an event'),
+    timezone: z.string().optional(),
+    status: z.enum(['confirmed', 'tentative', 'cancelled']).optional(),
+    visibility: z.enum(['public', 'private', 'confidential']).optional(),
+    availability: z.enum(['free', 'busy']).optional(),
+    reminders: z.array(reminderSchema).optional(),
+    color: z.string().nullish(),
+    categories: z.array(z.string()).optional(),
+    adhdCategory: z.string().optional(),
+    focusPriority: z.number().optional(),
+    energyLevel: z.number().optional(),
+    relatedTasks: z.array(z.string()).optional(),
+    created: dateTime,
+    lastModified: dateTime,
+    etag: z.string().optional().describe('Pass as expectedEtag to only change this version'),
+    metadata: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+export const freeBusySchema = z
+  .object({
+    start: dateTime,
+    end: dateTime,
+    calendarIds: z.array(z.string()),
+    busy: z.array(
+      z
+        .object({
+          start: dateTime,
+          end: dateTime,
+          type: z.enum(['busy', 'busy-tentative', 'busy-unavailable']),
+          calendarIds: z.array(z.string()).optional(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+export const contactSchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    displayName: z.string(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    fullName: z.string().optional(),
+    nickName: z.string().optional(),
+    emails: z.array(
+      z.object({ type: z.string(), email: z.string(), preferred: z.boolean().optional() }),
+    ),
+    phones: z.array(
+      z.object({ type: z.string(), number: z.string(), preferred: z.boolean().optional() }),
+    ),
+    addresses: z.array(
+      z
+        .object({
+          type: z.string(),
+          street: z.string().optional(),
+          city: z.string().optional(),
+          state: z.string().optional(),
+          postalCode: z.string().optional(),
+          country: z.string().optional(),
+          fullAddress: z.string().optional(),
+          preferred: z.boolean().optional(),
+        })
+        .passthrough(),
+    ),
+    urls: z.array(z.object({ type: z.string(), url: z.string() })),
+    organization: z.string().optional(),
+    title: z.string().optional(),
+    department: z.string().optional(),
+    birthday: z.string().optional(),
+    anniversary: z.string().optional(),
+    categories: z.array(z.string()),
+    notes: z.string().optional(),
+    socialProfiles: z.array(
+      z.object({ platform: z.string(), username: z.string(), url: z.string().optional() }),
+    ),
+    instantMessaging: z.array(z.object({ protocol: z.string(), handle: z.string() })),
+    photo: z.string().optional(),
+    photoUrl: z.string().optional(),
+    created: z.string(),
+    lastModified: z.string(),
+    addressBookId: z.string(),
+    customFields: z.record(z.string()),
+    uid: z.string().optional(),
+    version: z.string().optional(),
+    etag: z.string().optional().describe('Pass as expectedEtag to only change this version'),
+  })
+  .passthrough();
+
+export const addressBookSchema = z
+  .object({
+    id: z.string(),
+    url: z.string(),
+    displayName: z.string(),
+    description: z.string().optional(),
+    color: z.string().optional(),
+    owner: z.string(),
+    isDefault: z.boolean(),
+    isShared: z.boolean(),
+    isReadOnly: z.boolean(),
+    permissions: permissionsSchema,
+    syncToken: z.string().optional(),
+    created: z.string(),
+    lastModified: z.string(),
+  })
+  .passthrough();
+
+export const contactDuplicateSchema = z
+  .object({
+    contacts: z.array(contactSchema),
+    similarity: z.number(),
+    matchFields: z.array(z.string()),
+    suggestedMerge: contactSchema,
+  })
+  .passthrough();
+
+export const contactAnalyticsSchema = z
+  .object({
+    totalContacts: z.number(),
+    byAddressBook: z.record(z.number()),
+    byCategory: z.record(z.number()),
+    byOrganization: z.record(z.number()),
+    contactsWithEmails: z.number(),
+    contactsWithPhones: z.number(),
+    contactsWithAddresses: z.number(),
+    contactsWithPhotos: z.number(),
+    duplicateSets: z.array(contactDuplicateSchema),
+    recentlyAdded: z.array(contactSchema),
+    recentlyModified: z.array(contactSchema),
+  })
+  .passthrough();
+
+export const circuitSchema = z
+  .object({
+    host: z.string(),
+    state: z.enum(['closed', 'open', 'half-open']),
+    consecutiveFailures: z.number(),
+    lastFailureAt: dateTime.optional(),
+    lastError: z.string().optional(),
+    retryAt: dateTime.optional(),
+    active: z.number().optional(),
+    queued: z.number().optional(),
+  })
+  .passthrough();
+
+/**
+ * Most items listed in a text summary; the structured content always holds all of them
+ */
+const SUMMARY_ITEMS = 20;
+
+/**
+ * Summarize a list of items, one line each
+ * @param heading First line of the summary
+ * @param items The items
+ * @param describe Describes one item in a line
+ */
+export function summarizeList<T>(heading: string, items: T[], describe: (item: T) => string) {
+  const lines = items.slice(0, SUMMARY_ITEMS).map((item) => `- ${describe(item)}`);
+  if (items.length > SUMMARY_ITEMS) {
+    lines.push(`- ... and ${items.length - SUMMARY_ITEMS} more`);
+  }
+  return [heading, ...lines].join('\n');
+}
+
+/**
+ * Summarize a page of items, one line each, and how to get the next page
+ * @param heading First line of the summary
+ * @param page The items of the page and the cursor of the next page
+ * @param describe Describes one item in a line
+ */
+export function summarizePage<T>(
+  heading: string,
+  page: { items: T[]; nextCursor?: string },
+  describe: (item: T) => string,
+) {
+  const summary = summarizeList(heading, page.items, describe);
+  return page.nextCursor
+    ? `${summary}\nMore results follow; pass cursor "${page.nextCursor}" for the next page.`
+    : summary;
+}
+
+/**
+ * Create a tool result with structured content and a text summary
+ * The data goes through JSON, so dates become ISO 8601 strings as the schemas expect.
+ * @param summary Short human-readable description of the result
+ * @param data The structured content, matching the output schema of the tool
+ */
+export function structuredResult(summary: string, data: Record<string, unknown>) {
+  return {
+    content: [{ type: 'text' as const, text: summary }],
+    structuredContent: JSON.parse(JSON.stringify(data)) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Report the conflicts of a failed merge for the text of an error result
+ * Error results carry no structured content, so the report follows the message as JSON.
+ * @param error The error of the tool
+ * @returns The report, or an empty string for other errors
+ */
+export function describeMergeConflicts(error: unknown): string {
+  if (!(error instanceof MergeConflictError)) {
+    return '';
+  }
+  const report = { currentEtag: error.currentEtag, conflicts: error.conflicts };
+  return `\n${JSON.stringify(report, null, 2)}`;
+}
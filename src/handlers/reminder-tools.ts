@@ -0,0 +1,79 @@
+/**
+ * Reminder tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
+import { EventHelpers } from '../services/calendar/event-helpers.js';
+import { ReminderService } from '../services/calendar/reminder-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for reminder tools
+ */
+function handleReminderToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Register reminder tools with the MCP server
+ * @param server The MCP server instance
+ * @param getReminderService Returns the reminder service of an account
+ */
+export function registerReminderTools(
+  server: McpServer,
+  getReminderService: ServiceProvider<ReminderService>,
+): void {
+  if (!getReminderService) {
+    return;
+  }
+
+  // List reminders due within a time window across calendars
+  server.tool(
+    'upcomingReminders',
+    {
+      start: z.string(),
+      end: z.string(),
+      calendarIds: z.array(z.string()).optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, start, end, calendarIds }) => {
+      try {
+        const reminderService = getReminderService(account);
+        const startDate = EventHelpers.validateDate(start, 'start');
+        const endDate = EventHelpers.validateDate(end, 'end');
+        EventHelpers.validateDateRange(startDate, endDate);
+
+        const reminders = await reminderService.getUpcomingReminders(
+          startDate,
+          endDate,
+          calendarIds,
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, reminders }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleReminderToolError('list upcoming reminders', error);
+      }
+    },
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Scheduling assistant tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
+import { EventHelpers } from '../services/calendar/event-helpers.js';
+import { SchedulingService } from '../services/calendar/scheduling-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for scheduling tools
+ */
+function handleSchedulingToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Register scheduling assistant tools with the MCP server
+ * @param server The MCP server instance
+ * @param getSchedulingService Returns the scheduling service of an account
+ */
+export function registerSchedulingTools(
+  server: McpServer,
+  getSchedulingService: ServiceProvider<SchedulingService>,
+): void {
+  if (!getSchedulingService) {
+    return;
+  }
+
+  // Find free time slots across calendars
+  server.tool(
+    'findFreeSlots',
+    {
+      calendarIds: z.array(z.string()).min(1),
+      durationMinutes: z.number().positive(),
+      start: z.string(),
+      end: z.string(),
+      workingHours: z
+        .object({
+          start: z.string().optional(),
+          end: z.string().optional(),
+          days: z.array(z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'])).optional(),
+        })
+        .optional(),
+      bufferMinutes: z.number().min(0).optional(),
+      slotIncrementMinutes: z.number().positive().optional(),
+      maxResults: z.number().int().positive().optional(),
+      preferredTimeOfDay: z.enum(['morning', 'afternoon', 'any']).optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarIds, start, end, ...options }) => {
+      try {
+        const schedulingService = getSchedulingService(account);
+        const startDate = EventHelpers.validateDate(start, 'start');
+        const endDate = EventHelpers.validateDate(end, 'end');
+        EventHelpers.validateDateRange(startDate, endDate);
+
+        const slots = await schedulingService.findFreeSlots({
+          ...options,
+          calendarIds,
+          start: startDate,
+          end: endDate,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, slots }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleSchedulingToolError('find free slots', error);
+      }
+    },
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Sync tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
+import { CalendarService } from '../services/calendar/calendar-service.js';
+import { ContactService } from '../services/calendar/contact-service.js';
+import { EventService } from '../services/calendar/event-service.js';
+import { SyncResult } from '../services/calendar/sync-cache.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for sync tools
+ */
+function handleSyncToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+/**
+ * Sync a collection and summarize the outcome; a failure is reported instead of thrown
+ * so the other collections are still synced
+ */
+async function syncCollection(
+  type: 'calendar' | 'addressBook',
+  id: string,
+  sync: () => Promise<SyncResult>,
+) {
+  try {
+    const { changed, deleted, resources } = await sync();
+    return { type, id, success: true, changed, deleted, total: Object.keys(resources).length };
+  } catch (error) {
+    return { type, id, success: false, error: sanitizeError(error).message };
+  }
+}
+
+/**
+ * Register sync tools with the MCP server
+ * @param server The MCP server instance
+ * @param getCalendarService Returns the calendar service of an account
+ * @param getEventService Returns the event service of an account
+ * @param getContactService Returns the contact service of an account
+ */
+export function registerSyncTools(
+  server: McpServer,
+  getCalendarService: ServiceProvider<CalendarService>,
+  getEventService: ServiceProvider<EventService>,
+  getContactService: ServiceProvider<ContactService>,
+): void {
+  if (!getCalendarService || !getEventService || !getContactService) {
+    return;
+  }
+
+  // Bring the local cache up to date; without IDs all calendars and address books are synced
+  server.tool(
+    'syncNow',
+    {
+      account: z.string().optional(),
+      calendarIds: z.array(z.string()).optional(),
+      addressBookIds: z.array(z.string()).optional(),
+    },
+    async ({ account, calendarIds, addressBookIds }) => {
+      try {
+        const eventService = getEventService(account);
+        const contactService = getContactService(account);
+        const syncAll = !calendarIds && !addressBookIds;
+
+        const calendars = syncAll
+          ? (await getCalendarService(account).getCalendars()).map((calendar) => calendar.id)
+          : (calendarIds ?? []);
+        const addressBooks = syncAll
+          ? (await contactService.getAddressBooks()).map((addressBook) => addressBook.id)
+          : (addressBookIds ?? []);
+
+        const collections = [];
+        for (const id of calendars) {
+          collections.push(
+            await syncCollection('calendar', id, () => eventService.syncCalendar(id)),
+          );
+        }
+        for (const id of addressBooks) {
+          collections.push(
+            await syncCollection('addressBook', id, () => contactService.syncAddressBook(id)),
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: collections.every((collection) => collection.success),
+                  collections,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleSyncToolError('sync', error);
+      }
+    },
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * Task (VTODO) tools for the MCP server
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { UpdateTaskData } from '../models/index.js';
+import { ServiceProvider } from '../services/account-service.js';
+import { EventHelpers } from '../services/calendar/event-helpers.js';
+import { TaskService } from '../services/calendar/task-service.js';
+import { sanitizeError } from '../utils/error.js';
+
+/**
+ * Utility function to handle and sanitize errors for task tools
+ */
+function handleTaskToolError(operation: string, error: unknown) {
+  console.error(`Error in ${operation} tool:`, sanitizeError(error).log);
+
+  const { message: sanitizedMessage } = sanitizeError(error);
+
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text',
+        text: `Failed to ${operation}: ${sanitizedMessage}`,
+      },
+    ],
+  };
+}
+
+const taskStatusSchema = z.enum(['needs-action', 'in-process', 'completed', 'cancelled']);
+
+// Fields shared by createTask and updateTask; dates are ISO strings, null clears them
+const taskFieldsSchema = {
+  description: z.string().nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: z.number().int().min(0).max(9).optional(),
+  percentComplete: z.number().int().min(0).max(100).optional(),
+  start: z.string().nullable().optional(),
+  due: z.string().nullable().optional(),
+  isAllDay: z.boolean().optional(),
+  categories: z.array(z.string()).optional(),
+  parentId: z.string().nullable().optional(),
+};
+
+/**
+ * Convert the tool's date strings into task data
+ */
+function toTaskData({
+  start,
+  due,
+  ...fields
+}: Omit<UpdateTaskData, 'start' | 'due'> & {
+  start?: string | null;
+  due?: string | null;
+}): UpdateTaskData {
+  const data: UpdateTaskData = { ...fields };
+
+  if (start !== undefined) {
+    data.start = start === null ? null : EventHelpers.validateDate(start, 'start');
+  }
+  if (due !== undefined) {
+    data.due = due === null ? null : EventHelpers.validateDate(due, 'due');
+  }
+
+  return data;
+}
+
+/**
+ * Register task tools with the MCP server
+ * @param server The MCP server instance
+ * @param getTaskService Returns the task service of an account
+ */
+export function registerTaskTools(
+  server: McpServer,
+  getTaskService: ServiceProvider<TaskService>,
+): void {
+  if (!getTaskService) {
+    return;
+  }
+
+  // List tasks of a task list
+  server.tool(
+    'listTasks',
+    {
+      calendarId: z.string(),
+      includeCompleted: z.boolean().optional(),
+      parentId: z.string().optional(),
+      dueBefore: z.string().optional(),
+      categories: z.array(z.string()).optional(),
+      limit: z.number().int().positive().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, dueBefore, ...options }) => {
+      try {
+        const taskService = getTaskService(account);
+        const tasks = await taskService.getTasks(calendarId, {
+          ...options,
+          dueBefore: dueBefore ? EventHelpers.validateDate(dueBefore, 'dueBefore') : undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, tasks }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleTaskToolError('list tasks', error);
+      }
+    },
+  );
+
+  // Create a task
+  server.tool(
+    'createTask',
+    {
+      calendarId: z.string(),
+      title: z.string(),
+      ...taskFieldsSchema,
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, title, ...fields }) => {
+      try {
+        const taskService = getTaskService(account);
+        const task = await taskService.createTask(calendarId, { ...toTaskData(fields), title });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, task }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleTaskToolError('create task', error);
+      }
+    },
+  );
+
+  // Update a task
+  server.tool(
+    'updateTask',
+    {
+      calendarId: z.string(),
+      taskId: z.string(),
+      title: z.string().optional(),
+      ...taskFieldsSchema,
+      expectedEtag: z.string().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, taskId, expectedEtag, ...fields }) => {
+      try {
+        const taskService = getTaskService(account);
+        const task = await taskService.updateTask(
+          calendarId,
+          taskId,
+          toTaskData(fields),
+          expectedEtag,
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, task }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleTaskToolError('update task', error);
+      }
+    },
+  );
+
+  // Complete or reopen a task
+  server.tool(
+    'completeTask',
+    {
+      calendarId: z.string(),
+      taskId: z.string(),
+      completed: z.boolean().optional(),
+      expectedEtag: z.string().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, taskId, completed, expectedEtag }) => {
+      try {
+        const taskService = getTaskService(account);
+        const task = await taskService.completeTask(
+          calendarId,
+          taskId,
+          completed ?? true,
+          expectedEtag,
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, task }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleTaskToolError('complete task', error);
+      }
+    },
+  );
+
+  // Delete a task
+  server.tool(
+    'deleteTask',
+    {
+      calendarId: z.string(),
+      taskId: z.string(),
+      expectedEtag: z.string().optional(),
+      account: z.string().optional(),
+    },
+    async ({ account, calendarId, taskId, expectedEtag }) => {
+      try {
+        const taskService = getTaskService(account);
+        const result = await taskService.deleteTask(calendarId, taskId, expectedEtag);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: result }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleTaskToolError('delete task', error);
+      }
+    },
+  );
+}
@@ -4,6 +4,7 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { ServiceProvider } from '../services/account-service.js';
 import { EventService } from '../services/calendar/event-service.js';
 import { TimezoneService } from '../services/timezone-service.js';
 
@@ -12,10 +13,10 @@ import { TimezoneService } from '../services/timezone-service.js';
  */
 export function registerTimezoneEventTools(
   server: McpServer,
-  eventService: EventService,
-  timezoneService: TimezoneService,
+  getEventService: ServiceProvider<EventService>,
+  getTimezoneService: ServiceProvider<TimezoneService>,
 ): void {
-  if (!eventService || !timezoneService) {
+  if (!getEventService || !getTimezoneService) {
     return;
   }
 
@@ -27,9 +28,13 @@ export function registerTimezoneEventTools(
       start: z.string().optional(),
       end: z.string().optional(),
       limit: z.number().optional(),
+      account: z.string().optional(),
     },
-    async ({ calendarId, start, end, limit }) => {
+    async ({ account, calendarId, start, end, limit }) => {
       try {
+        const eventService = getEventService(account);
+        const timezoneService = getTimezoneService(account);
+
         // Parse dates if provided
         let startDate = start ? new Date(start) : undefined;
         let endDate = end ? new Date(end) : undefined;
@@ -104,8 +109,9 @@ export function registerTimezoneEventTools(
   );
 
   // Get timezone info
-  server.tool('getTimezoneInfo', {}, async () => {
+  server.tool('getTimezoneInfo', { account: z.string().optional() }, async ({ account }) => {
     try {
+      const timezoneService = getTimezoneService(account);
       const timezoneInfo = timezoneService.getTimezoneInfo();
       const now = timezoneService.now();
 
@@ -8,39 +8,25 @@ process.env.NO_COLOR = '1';
 process.env.FORCE_COLOR = '0';
 process.env.NODE_DISABLE_COLORS = '1';
 
-// Import the MCP server with proper type definitions
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { loadConfig, validateEnvironmentVariables } from './config/config.js';
-import { sanitizeError } from './utils/error.js';
-import { CalendarService, EventService, ContactService } from './services/index.js';
-import { TimezoneService } from './services/timezone-service.js';
-import { z } from 'zod';
-
-/**
- * Utility function to handle and sanitize errors for MCP calendar tools
- * @param operation The calendar operation being performed (e.g., 'retrieve calendars')
- * @param error The original error
- * @returns A formatted MCP tool error response
- */
-function handleCalendarToolError(operation: string, error: unknown) {
-  console.error(`Error in ${operation} tool:`, error);
-
-  // Sanitize error message to avoid exposing sensitive details
-  const { message: sanitizedMessage } = sanitizeError(error);
-
-  return {
-    isError: true,
-    content: [
-      {
-        type: 'text',
-        text: `Failed to ${operation}: ${sanitizedMessage}`,
-      },
-    ],
-  };
-}
+import { redactSecrets } from './utils/error.js';
+import { AccountService, AuthService, SessionCredentials } from './services/index.js';
+import { createMcpServer } from './handlers/mcp-server.js';
 
 async function main() {
+  // Obtain an app password instead of starting the server
+  if (process.argv[2] === 'login') {
+    const { runLoginCommand } = await import('./cli/login.js');
+    try {
+      await runLoginCommand(process.argv.slice(3));
+      process.exit(0);
+    } catch (error) {
+      console.error(`Login failed: ${redactSecrets((error as Error).message ?? String(error))}`);
+      process.exit(1);
+    }
+  }
+
   console.error('Starting Nextcloud Calendar MCP Server for Claude Desktop...');
 
   // Validate environment variables
@@ -61,7 +47,7 @@ async function main() {
 
   // Load configuration
   const config = loadConfig();
-  const { server: serverConfig, nextcloud: nextcloudConfig } = config;
+  const { server: serverConfig } = config;
 
   // Show warnings for missing configuration
   if (!validation.serverReady) {
@@ -73,207 +59,48 @@ async function main() {
     console.error('WARNING: Calendar service is disabled due to missing configuration.');
   }
 
-  // Initialize services
-  let calendarService: CalendarService | null = null;
-  let eventService: EventService | null = null;
-  let contactService: ContactService | null = null;
-  let timezoneService: TimezoneService | null = null;
-
-  // Initialize timezone service (always available)
-  timezoneService = new TimezoneService(
-    nextcloudConfig.defaultTimezone || 'Europe/Paris',
-    nextcloudConfig.useLocalTimezone !== false,
-  );
-  console.error('Timezone service initialized:', timezoneService.getTimezoneInfo().timezone);
+  // Initialize the account registry; services of each account are created on first use
+  let accountService: AccountService | null = null;
 
-  // Only try to initialize calendar service if all required environment variables are available
+  // Only try to initialize calendar services if a Nextcloud account is configured
   if (validation.calendarReady) {
     try {
-      calendarService = new CalendarService(nextcloudConfig);
-      console.error('Calendar service initialized successfully');
+      accountService = new AccountService(config.accounts);
+      console.error(
+        'Nextcloud accounts configured:',
+        accountService
+          .listAccounts()
+          .map(({ name, isDefault }) => (isDefault ? `${name} (default)` : name))
+          .join(', '),
+      );
     } catch (error) {
-      console.error('Failed to initialize calendar service:', error);
+      console.error('Failed to initialize accounts:', error);
       process.exit(1);
     }
-
-    try {
-      if (calendarService) {
-        eventService = new EventService(nextcloudConfig);
-        console.error('Event service initialized successfully');
-      }
-    } catch (error) {
-      console.error('Failed to initialize event service:', error);
-      eventService = null;
-    }
-
-    try {
-      contactService = new ContactService(nextcloudConfig);
-      console.error('Contact service initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize contact service:', error);
-      contactService = null;
-    }
   } else {
     console.error(
       'Calendar services not initialized due to missing environment variables:',
-      ['NEXTCLOUD_BASE_URL', 'NEXTCLOUD_USERNAME', 'NEXTCLOUD_APP_TOKEN']
-        .filter((varName) => !process.env[varName])
-        .join(', '),
+      validation.missing.filter((varName) => varName.startsWith('NEXTCLOUD_')).join(', '),
     );
     console.error('Calendar-related functionality will not be available');
     process.exit(1);
   }
 
-  // Create MCP server
-  const server = new McpServer({
-    name: serverConfig.serverName,
-    version: serverConfig.serverVersion,
-  });
-
-  // Register calendar tools if calendar service is available
-  if (calendarService) {
-    // List calendars tool
-    server.tool('listCalendars', {}, async () => {
-      try {
-        const calendars = await calendarService!.getCalendars();
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ success: true, calendars }, null, 2),
-            },
-          ],
-        };
-      } catch (error) {
-        return handleCalendarToolError('retrieve calendars', error);
-      }
-    });
-
-    // Create calendar tool
-    server.tool(
-      'createCalendar',
-      {
-        displayName: z.string(),
-        color: z.string().optional(),
-        category: z.string().optional(),
-        focusPriority: z.number().optional(),
-      },
-      async ({ displayName, color, category, focusPriority }) => {
-        try {
-          const newCalendar = {
-            displayName,
-            color: color || '#0082c9',
-            owner: '', // Will be assigned by service
-            isDefault: false,
-            isShared: false,
-            isReadOnly: false,
-            permissions: {
-              canRead: true,
-              canWrite: true,
-              canShare: true,
-              canDelete: true,
-            },
-            category,
-            focusPriority,
-            metadata: null,
-          };
-
-          const calendar = await calendarService!.createCalendar(newCalendar);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({ success: true, calendar }, null, 2),
-              },
-            ],
-          };
-        } catch (error) {
-          return handleCalendarToolError('create calendar', error);
-        }
-      },
-    );
-
-    // Update calendar tool
-    server.tool(
-      'updateCalendar',
-      {
-        id: z.string(),
-        displayName: z.string().optional(),
-        color: z.string().optional(),
-        category: z.string().optional(),
-        focusPriority: z.number().optional(),
-      },
-      async ({ id, displayName, color, category, focusPriority }) => {
-        try {
-          const updates: Record<string, unknown> = {};
-          if (displayName !== undefined) updates.displayName = displayName;
-          if (color !== undefined) updates.color = color;
-          if (category !== undefined) updates.category = category;
-          if (focusPriority !== undefined) updates.focusPriority = focusPriority;
-
-          if (Object.keys(updates).length === 0) {
-            throw new Error('No update parameters provided');
-          }
-
-          const calendar = await calendarService!.updateCalendar(id, updates);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({ success: true, calendar }, null, 2),
-              },
-            ],
-          };
-        } catch (error) {
-          return handleCalendarToolError('update calendar', error);
-        }
-      },
-    );
-
-    // Delete calendar tool
-    server.tool(
-      'deleteCalendar',
-      {
-        id: z.string(),
-      },
-      async ({ id }) => {
-        try {
-          const result = await calendarService!.deleteCalendar(id);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({ success: result }, null, 2),
-              },
-            ],
-          };
-        } catch (error) {
-          return handleCalendarToolError('delete calendar', error);
-        }
-      },
-    );
-  }
-
-  // Register event tools
-  if (eventService) {
-    const { registerEventTools } = await import('./handlers/event-tools.js');
-    registerEventTools(server, eventService);
-  }
-
-  // Register timezone-aware tools
-  if (eventService && timezoneService) {
-    const { registerTimezoneEventTools } = await import('./handlers/timezone-tools.js');
-    registerTimezoneEventTools(server, eventService, timezoneService);
+  // Authenticate HTTP clients, so each session acts as its own Nextcloud user
+  let authService: AuthService | null = null;
+  if (serverConfig.auth !== 'none') {
+    try {
+      authService = new AuthService(serverConfig.auth, serverConfig.tokenVaultFile);
+      console.error(`HTTP clients authenticate with ${serverConfig.auth} credentials`);
+    } catch (error) {
+      console.error('Failed to initialize authentication:', error);
+      process.exit(1);
+    }
   }
 
-  // Register contact tools
-  if (contactService) {
-    const { registerContactTools } = await import('./handlers/contact-tools.js');
-    registerContactTools(server, contactService);
-  }
-
-  // Create stdio transport for Claude Desktop
-  const transport = new StdioServerTransport();
+  // Create an MCP server with all available tools; the HTTP transport creates one per session
+  const createServer = (credentials?: SessionCredentials) =>
+    createMcpServer(serverConfig, accountService, credentials);
 
   // Add error handling
   process.on('uncaughtException', (error: Error) => {
@@ -286,8 +113,47 @@ async function main() {
     process.exit(1);
   });
 
+  // Serve several clients over HTTP when requested
+  if (serverConfig.transport === 'http') {
+    const { startHttpTransport, stopHttpTransport } = await import('./handlers/mcp-transport.js');
+
+    try {
+      await startHttpTransport(createServer, {
+        port: serverConfig.port,
+        host: serverConfig.host,
+        keepAliveInterval: serverConfig.keepAliveInterval,
+        authenticate: authService ? (req) => authService!.authenticate(req.headers) : undefined,
+      });
+      console.error(
+        `MCP server started successfully - listening on http://${serverConfig.host}:${serverConfig.port}/mcp`,
+      );
+    } catch (error) {
+      console.error('Failed to start MCP HTTP server:', error);
+      process.exit(1);
+    }
+
+    // Close sessions and open streams before exiting
+    const shutdown = (signal: string) => {
+      console.error(`Received ${signal}, shutting down...`);
+      stopHttpTransport().then(
+        () => process.exit(0),
+        (error) => {
+          console.error('Error during shutdown:', error);
+          process.exit(1);
+        },
+      );
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+    return;
+  }
+
+  // Create stdio transport for Claude Desktop
+  const transport = new StdioServerTransport();
+
   // Connect the server to the stdio transport
   try {
+    const server = await createServer();
     await server.connect(transport);
     console.error('MCP server started successfully - ready for Claude Desktop');
   } catch (error) {
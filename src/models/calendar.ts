@@ -147,6 +147,27 @@ export interface Event {
    */
   recurrenceRule?: RecurrenceRule;
 
+  /**
+   * Original start of the occurrence this event represents (RECURRENCE-ID),
+   * set on expanded instances and on overrides of a recurring series
+   */
+  recurrenceId?: Date;
+
+  /**
+   * ID of the master event of the series, set on RECURRENCE-ID overrides
+   */
+  masterId?: string;
+
+  /**
+   * Overrides of single occurrences, set on the master event of a recurring series
+   */
+  overrides?: Event[];
+
+  /**
+   * IANA timezone the event's start and end were defined in (DTSTART TZID)
+   */
+  timezone?: string;
+
   /**
    * Status of the event (confirmed, tentative, cancelled)
    */
@@ -207,6 +228,12 @@ export interface Event {
    */
   lastModified: Date;
 
+  /**
+   * ETag of the stored resource, when the event was read from the server; pass it back with
+   * changes to only apply them if nobody changed the event in between
+   */
+  etag?: string;
+
   /**
    * Additional metadata for the event
    */
@@ -246,6 +273,97 @@ export interface Participant {
    * Response comment from the participant
    */
   comment?: string | null;
+
+  /**
+   * Whether the organizer expects a reply from the participant
+   */
+  rsvp?: boolean;
+
+  /**
+   * Who delivers scheduling messages to the participant (RFC 6638 SCHEDULE-AGENT):
+   * the server (default), the client, or nobody
+   */
+  scheduleAgent?: 'server' | 'client' | 'none';
+}
+
+/**
+ * Reply to an invitation
+ */
+export type InvitationResponse = 'accepted' | 'declined' | 'tentative';
+
+/**
+ * An invitation (iTIP REQUEST) waiting in the scheduling inbox
+ */
+export interface Invitation {
+  /**
+   * UID of the invited event
+   */
+  eventId: string;
+
+  /**
+   * Name of the scheduling inbox item holding the invitation
+   */
+  inboxItem: string;
+
+  /**
+   * Title of the event
+   */
+  title: string;
+
+  /**
+   * Start of the event
+   */
+  start: Date;
+
+  /**
+   * End of the event
+   */
+  end: Date;
+
+  /**
+   * Whether the event lasts all day
+   */
+  isAllDay: boolean;
+
+  /**
+   * Location of the event
+   */
+  location?: string | null;
+
+  /**
+   * Description of the event
+   */
+  description?: string | null;
+
+  /**
+   * Email address of the organizer
+   */
+  organizer?: string | null;
+
+  /**
+   * Other participants of the event
+   */
+  participants: Participant[];
+
+  /**
+   * Current participation status of the user
+   */
+  status: Participant['status'];
+
+  /**
+   * Revision of the invitation; higher sequences supersede lower ones
+   */
+  sequence: number;
+
+  /**
+   * Original start of the occurrence, if the invitation is for a single occurrence
+   */
+  recurrenceId?: Date;
+
+  /**
+   * Whether the event recurs
+   */
+  isRecurring: boolean;
 }
 
 /**
@@ -273,9 +391,10 @@ export interface RecurrenceRule {
   count?: number;
 
   /**
-   * Days of the week the event occurs on (for weekly recurrence)
+   * Days of the week the event occurs on, optionally with an ordinal prefix
+   * for monthly and yearly recurrence (e.g. '2TU' for the second Tuesday, '-1FR' for the last Friday)
    */
-  byDay?: ('MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU')[];
+  byDay?: (Weekday | `${number}${Weekday}`)[];
 
   /**
    * Days of the month the event occurs on (for monthly recurrence)
@@ -296,28 +415,264 @@ export interface RecurrenceRule {
    * Dates to exclude from the recurrence
    */
   exDates?: Date[];
+
+  /**
+   * Additional dates on which the event occurs (RDATE)
+   */
+  rDates?: Date[];
 }
 
+/**
+ * Two-letter iCalendar weekday code
+ */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
 /**
  * Represents a reminder for an event
  */
 export interface EventReminder {
   /**
-   * Type of reminder (email, notification)
+   * Type of reminder (email, notification, audio)
    */
-  type: 'email' | 'notification';
+  type: 'email' | 'notification' | 'audio';
 
   /**
-   * Time before the event to trigger the reminder (in minutes)
+   * Time before the event to trigger the reminder (in minutes); negative values trigger after it.
+   * For absolute triggers this is derived from the event start.
    */
   minutesBefore: number;
 
+  /**
+   * Whether minutesBefore is relative to the start (default) or the end of the event
+   */
+  relativeTo?: 'start' | 'end';
+
+  /**
+   * Absolute trigger time; takes precedence over minutesBefore
+   */
+  triggerAt?: Date;
+
+  /**
+   * Text of the notification or body of the email
+   */
+  description?: string;
+
+  /**
+   * Subject of an email reminder
+   */
+  summary?: string;
+
+  /**
+   * Recipients of an email reminder
+   */
+  attendees?: string[];
+
+  /**
+   * URI of the sound played by an audio reminder
+   */
+  attachment?: string;
+
+  /**
+   * Number of times the reminder repeats after the first trigger
+   */
+  repeat?: number;
+
+  /**
+   * Minutes between repetitions
+   */
+  repeatIntervalMinutes?: number;
+
   /**
    * Whether the reminder has been sent/triggered
    */
   isSent?: boolean;
 }
 
+/**
+ * A reminder that triggers within a requested time window
+ */
+export interface UpcomingReminder {
+  /**
+   * When the reminder triggers
+   */
+  triggerAt: Date;
+
+  /**
+   * The reminder itself
+   */
+  reminder: EventReminder;
+
+  /**
+   * ID of the calendar containing the event
+   */
+  calendarId: string;
+
+  /**
+   * ID of the event
+   */
+  eventId: string;
+
+  /**
+   * Title of the event
+   */
+  eventTitle: string;
+
+  /**
+   * Start of the event (or occurrence) the reminder belongs to
+   */
+  eventStart: Date;
+
+  /**
+   * End of the event (or occurrence)
+   */
+  eventEnd: Date;
+}
+
+/**
+ * Represents a block of busy time from a free/busy query
+ */
+export interface BusyPeriod {
+  /**
+   * Start of the busy period
+   */
+  start: Date;
+
+  /**
+   * End of the busy period
+   */
+  end: Date;
+
+  /**
+   * Free/busy type of the period (busy, busy-tentative, busy-unavailable)
+   */
+  type: 'busy' | 'busy-tentative' | 'busy-unavailable';
+
+  /**
+   * IDs of the calendars that contributed to this period
+   */
+  calendarIds?: string[];
+}
+
+/**
+ * Result of a free/busy query across one or more calendars
+ */
+export interface FreeBusyResult {
+  /**
+   * Start of the queried time range
+   */
+  start: Date;
+
+  /**
+   * End of the queried time range
+   */
+  end: Date;
+
+  /**
+   * IDs of the calendars that were queried
+   */
+  calendarIds: string[];
+
+  /**
+   * Merged busy periods, sorted by start time
+   */
+  busy: BusyPeriod[];
+}
+
+/**
+ * Working hours used to constrain scheduling searches
+ */
+export interface WorkingHours {
+  /**
+   * Start of the working day in the user's timezone (HH:MM)
+   */
+  start: string;
+
+  /**
+   * End of the working day in the user's timezone (HH:MM)
+   */
+  end: string;
+
+  /**
+   * Days of the week that are working days
+   */
+  days: Weekday[];
+}
+
+/**
+ * Options for searching free time slots
+ */
+export interface FreeSlotSearchOptions {
+  /**
+   * IDs of the calendars whose events block time
+   */
+  calendarIds: string[];
+
+  /**
+   * Length of the requested slot in minutes
+   */
+  durationMinutes: number;
+
+  /**
+   * Start of the search window
+   */
+  start: Date;
+
+  /**
+   * End of the search window
+   */
+  end: Date;
+
+  /**
+   * Working hours constraint (defaults to 09:00-17:00, Monday to Friday)
+   */
+  workingHours?: Partial<WorkingHours>;
+
+  /**
+   * Minutes to keep free before and after existing events
+   */
+  bufferMinutes?: number;
+
+  /**
+   * Granularity of candidate start times in minutes
+   */
+  slotIncrementMinutes?: number;
+
+  /**
+   * Maximum number of slots to return
+   */
+  maxResults?: number;
+
+  /**
+   * Preferred part of the day for ranking
+   */
+  preferredTimeOfDay?: 'morning' | 'afternoon' | 'any';
+}
+
+/**
+ * A candidate time slot returned by a free slot search
+ */
+export interface FreeSlot {
+  /**
+   * Start of the slot
+   */
+  start: Date;
+
+  /**
+   * End of the slot
+   */
+  end: Date;
+
+  /**
+   * Ranking score between 0 and 1 (higher is better)
+   */
+  score: number;
+
+  /**
+   * Human-readable date range in the user's timezone
+   */
+  formattedDateRange: string;
+}
+
 /**
  * Type for JSON objects coming from or going to the API
  */
@@ -371,6 +726,13 @@ function isValidParticipantRole(role: unknown): role is 'required' | 'optional'
   return role === 'required' || role === 'optional';
 }
 
+/**
+ * Validates if a value is a valid schedule agent
+ */
+function isValidScheduleAgent(agent: unknown): agent is 'server' | 'client' | 'none' {
+  return agent === 'server' || agent === 'client' || agent === 'none';
+}
+
 /**
  * Validates if a value is a valid participant type
  */
@@ -383,8 +745,8 @@ function isValidParticipantType(
 /**
  * Validates if a value is a valid reminder type
  */
-function isValidReminderType(type: unknown): type is 'email' | 'notification' {
-  return type === 'email' || type === 'notification';
+function isValidReminderType(type: unknown): type is EventReminder['type'] {
+  return type === 'email' || type === 'notification' || type === 'audio';
 }
 
 /**
@@ -606,6 +968,14 @@ export const EventUtils = {
         : data.recurrence_rule
           ? RecurrenceUtils.toRecurrenceRule(data.recurrence_rule as JSONObject)
           : undefined,
+      recurrenceId:
+        safelyParseDate(data.recurrenceId) || safelyParseDate(data.recurrence_id) || undefined,
+      masterId: (data.masterId as string) || (data.master_id as string) || undefined,
+      overrides: Array.isArray(data.overrides)
+        ? (data.overrides as JSONObject[])
+            .filter((o) => o && typeof o === 'object')
+            .map((o) => EventUtils.toEvent(o))
+        : undefined,
       status: isValidEventStatus(data.status) ? data.status : undefined,
       visibility: isValidVisibility(data.visibility) ? data.visibility : undefined,
       availability: isValidAvailability(data.availability) ? data.availability : undefined,
@@ -650,6 +1020,9 @@ export const EventUtils = {
       recurrence_rule: event.recurrenceRule
         ? RecurrenceUtils.fromRecurrenceRule(event.recurrenceRule)
         : undefined,
+      recurrence_id: event.recurrenceId ? event.recurrenceId.toISOString() : undefined,
+      master_id: event.masterId,
+      overrides: event.overrides ? event.overrides.map((o) => EventUtils.fromEvent(o)) : undefined,
       status: event.status,
       visibility: event.visibility,
       availability: event.availability,
@@ -692,6 +1065,8 @@ export const ParticipantUtils = {
       role: isValidParticipantRole(data.role) ? data.role : undefined,
       type: isValidParticipantType(data.type) ? data.type : undefined,
       comment: data.comment as string | null | undefined,
+      rsvp: typeof data.rsvp === 'boolean' ? data.rsvp : undefined,
+      scheduleAgent: isValidScheduleAgent(data.schedule_agent) ? data.schedule_agent : undefined,
     };
   },
 
@@ -706,6 +1081,8 @@ export const ParticipantUtils = {
       role: participant.role,
       type: participant.type,
       comment: participant.comment,
+      rsvp: participant.rsvp,
+      schedule_agent: participant.scheduleAgent,
     };
   },
 };
@@ -744,13 +1121,22 @@ export const RecurrenceUtils = {
         .filter((date) => date !== undefined) as Date[];
     }
 
+    // Safely process rDates if present
+    let rDates: Date[] | undefined = undefined;
+    if (Array.isArray(data.rDates) || Array.isArray(data.r_dates)) {
+      const rDateStrings = (data.rDates || data.r_dates) as unknown[];
+      rDates = rDateStrings
+        .map((dateStr) => safelyParseDate(dateStr))
+        .filter((date) => date !== undefined) as Date[];
+    }
+
     return {
       frequency: isValidFrequency(data.frequency) ? data.frequency : 'daily',
       interval: data.interval as number | undefined,
       until: untilDate,
       count: data.count as number | undefined,
       byDay: Array.isArray(data.byDay || data.by_day)
-        ? ((data.byDay || data.by_day) as ('MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU')[])
+        ? ((data.byDay || data.by_day) as RecurrenceRule['byDay'])
         : undefined,
       byMonthDay: Array.isArray(data.byMonthDay || data.by_month_day)
         ? ((data.byMonthDay || data.by_month_day) as number[])
@@ -762,6 +1148,7 @@ export const RecurrenceUtils = {
         ? ((data.bySetPos || data.by_set_pos) as number[])
         : undefined,
       exDates,
+      rDates,
     };
   },
 
@@ -779,6 +1166,7 @@ export const RecurrenceUtils = {
       by_month: rule.byMonth,
       by_set_pos: rule.bySetPos,
       ex_dates: rule.exDates?.map((d) => d.toISOString()),
+      r_dates: rule.rDates?.map((d) => d.toISOString()),
     };
   },
 };
@@ -795,15 +1183,33 @@ export const ReminderUtils = {
       throw new Error('Invalid reminder data: data object is required');
     }
 
-    // Convert minutesBefore to a number and validate it
-    const minutesBefore = Number(data.minutesBefore) || Number(data.minutes_before) || 10;
-    if (isNaN(minutesBefore) || minutesBefore < 0) {
-      throw new Error('Invalid reminder data: minutesBefore must be a positive number');
+    // Convert minutesBefore to a number; negative values trigger after the event
+    const minutesBefore = Number(data.minutesBefore ?? data.minutes_before ?? 10);
+    if (isNaN(minutesBefore)) {
+      throw new Error('Invalid reminder data: minutesBefore must be a number');
     }
 
+    const relativeTo = data.relativeTo ?? data.relative_to;
+    const attendees = data.attendees;
+    const repeat = Number(data.repeat);
+    const repeatIntervalMinutes = Number(
+      data.repeatIntervalMinutes ?? data.repeat_interval_minutes,
+    );
+
     return {
       type: isValidReminderType(data.type) ? data.type : 'notification',
       minutesBefore,
+      relativeTo: relativeTo === 'end' ? 'end' : undefined,
+      triggerAt: safelyParseDate(data.triggerAt) || safelyParseDate(data.trigger_at),
+      description: typeof data.description === 'string' ? data.description : undefined,
+      summary: typeof data.summary === 'string' ? data.summary : undefined,
+      attendees: Array.isArray(attendees)
+        ? attendees.filter((a): a is string => typeof a === 'string')
+        : undefined,
+      attachment: typeof data.attachment === 'string' ? data.attachment : undefined,
+      repeat: repeat > 0 && repeatIntervalMinutes > 0 ? repeat : undefined,
+      repeatIntervalMinutes:
+        repeat > 0 && repeatIntervalMinutes > 0 ? repeatIntervalMinutes : undefined,
       isSent: Boolean(data.isSent || data.is_sent),
     };
   },
@@ -815,6 +1221,14 @@ export const ReminderUtils = {
     return {
       type: reminder.type,
       minutes_before: reminder.minutesBefore,
+      relative_to: reminder.relativeTo,
+      trigger_at: reminder.triggerAt ? reminder.triggerAt.toISOString() : undefined,
+      description: reminder.description,
+      summary: reminder.summary,
+      attendees: reminder.attendees,
+      attachment: reminder.attachment,
+      repeat: reminder.repeat,
+      repeat_interval_minutes: reminder.repeatIntervalMinutes,
       is_sent: reminder.isSent,
     };
   },
@@ -45,6 +45,9 @@ export interface Contact {
   // vCard related
   uid?: string;
   version?: string;
+
+  // ETag of the stored vCard, when the contact was read from the server
+  etag?: string;
 }
 
 export interface ContactEmail {
@@ -8,8 +8,17 @@ export type {
   CalendarPermissions,
   Event,
   Participant,
+  InvitationResponse,
+  Invitation,
   RecurrenceRule,
+  Weekday,
   EventReminder,
+  UpcomingReminder,
+  BusyPeriod,
+  FreeBusyResult,
+  WorkingHours,
+  FreeSlotSearchOptions,
+  FreeSlot,
   JSONObject,
 } from './calendar.js';
 
@@ -36,6 +45,17 @@ export type {
   ContactAnalytics,
 } from './contact.js';
 
+// Export task types
+export type { Task, TaskStatus, CreateTaskData, UpdateTaskData, TaskQueryOptions } from './task.js';
+
+// Export journal types
+export type {
+  JournalEntry,
+  JournalStatus,
+  CreateJournalEntryData,
+  JournalQueryOptions,
+} from './journal.js';
+
 // Export calendar utilities
 export {
   CalendarUtils,
@@ -0,0 +1,106 @@
+/**
+ * Journal (VJOURNAL) model definitions for notes stored in calendars
+ */
+
+/**
+ * Status of a journal entry (RFC 5545 VJOURNAL STATUS)
+ */
+export type JournalStatus = 'draft' | 'final' | 'cancelled';
+
+/**
+ * Represents a journal entry (e.g. meeting notes) stored as a VJOURNAL in a calendar
+ */
+export interface JournalEntry {
+  /**
+   * Unique identifier for the entry (UID)
+   */
+  id: string;
+
+  /**
+   * ID of the calendar this entry belongs to
+   */
+  calendarId: string;
+
+  /**
+   * Title/summary of the entry
+   */
+  title: string;
+
+  /**
+   * Text of the entry
+   */
+  description?: string | null;
+
+  /**
+   * Date the entry is filed under (DTSTART)
+   */
+  date?: Date;
+
+  /**
+   * Whether the date has no time
+   */
+  isAllDay?: boolean;
+
+  /**
+   * Status of the entry
+   */
+  status: JournalStatus;
+
+  /**
+   * Tags or categories for the entry
+   */
+  categories?: string[];
+
+  /**
+   * UIDs of related components, such as the event the notes belong to (RELATED-TO)
+   */
+  relatedTo?: string[];
+
+  /**
+   * Creation time of the entry
+   */
+  created: Date;
+
+  /**
+   * Last modification time of the entry
+   */
+  lastModified: Date;
+}
+
+/**
+ * Data for creating a journal entry
+ */
+export interface CreateJournalEntryData {
+  title: string;
+  description?: string | null;
+  date?: Date;
+  isAllDay?: boolean;
+  status?: JournalStatus;
+  categories?: string[];
+  relatedTo?: string[];
+}
+
+/**
+ * Options for listing journal entries
+ */
+export interface JournalQueryOptions {
+  /**
+   * Only return entries dated on or after this time
+   */
+  start?: Date;
+
+  /**
+   * Only return entries dated before this time
+   */
+  end?: Date;
+
+  /**
+   * Only return entries related to this component (e.g. an event ID)
+   */
+  relatedTo?: string;
+
+  /**
+   * Maximum number of entries to return
+   */
+  limit?: number;
+}
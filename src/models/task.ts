@@ -0,0 +1,149 @@
+/**
+ * Task (VTODO) model definitions for Nextcloud Tasks integration
+ */
+
+/**
+ * Status of a task (RFC 5545 VTODO STATUS)
+ */
+export type TaskStatus = 'needs-action' | 'in-process' | 'completed' | 'cancelled';
+
+/**
+ * Represents a task stored as a VTODO in a calendar
+ */
+export interface Task {
+  /**
+   * Unique identifier for the task (UID)
+   */
+  id: string;
+
+  /**
+   * ID of the calendar (task list) this task belongs to
+   */
+  calendarId: string;
+
+  /**
+   * Title/summary of the task
+   */
+  title: string;
+
+  /**
+   * Detailed description of the task
+   */
+  description?: string | null;
+
+  /**
+   * Status of the task
+   */
+  status: TaskStatus;
+
+  /**
+   * Priority from 1 (highest) to 9 (lowest); undefined when not set
+   */
+  priority?: number;
+
+  /**
+   * Completion percentage (0-100)
+   */
+  percentComplete?: number;
+
+  /**
+   * Start date of the task (DTSTART)
+   */
+  start?: Date;
+
+  /**
+   * Due date of the task (DUE)
+   */
+  due?: Date;
+
+  /**
+   * Whether start and due are dates without a time
+   */
+  isAllDay?: boolean;
+
+  /**
+   * Time the task was completed (COMPLETED)
+   */
+  completed?: Date;
+
+  /**
+   * Tags or categories for the task
+   */
+  categories?: string[];
+
+  /**
+   * ID of the parent task (RELATED-TO with RELTYPE=PARENT)
+   */
+  parentId?: string | null;
+
+  /**
+   * IDs of the subtasks, from RELTYPE=CHILD relations and tasks naming this one as parent
+   */
+  childIds?: string[];
+
+  /**
+   * Creation time of the task
+   */
+  created: Date;
+
+  /**
+   * Last modification time of the task
+   */
+  lastModified: Date;
+
+  /**
+   * ETag of the stored resource, when the task was read from the server
+   */
+  etag?: string;
+}
+
+/**
+ * Data for creating a task
+ */
+export interface CreateTaskData {
+  title: string;
+  description?: string | null;
+  status?: TaskStatus;
+  priority?: number;
+  percentComplete?: number;
+  start?: Date | null;
+  due?: Date | null;
+  isAllDay?: boolean;
+  categories?: string[];
+  parentId?: string | null;
+}
+
+/**
+ * Data for updating a task
+ */
+export type UpdateTaskData = Partial<CreateTaskData>;
+
+/**
+ * Options for listing tasks
+ */
+export interface TaskQueryOptions {
+  /**
+   * Include completed and cancelled tasks (default: false)
+   */
+  includeCompleted?: boolean;
+
+  /**
+   * Only return subtasks of this task
+   */
+  parentId?: string;
+
+  /**
+   * Only return tasks due before this time
+   */
+  dueBefore?: Date;
+
+  /**
+   * Only return tasks with at least one of these categories
+   */
+  categories?: string[];
+
+  /**
+   * Maximum number of tasks to return
+   */
+  limit?: number;
+}
@@ -0,0 +1,241 @@
+/**
+ * Registry of the configured Nextcloud accounts
+ *
+ * Services of an account (and the HTTP clients they own) are created the first time
+ * a tool uses the account and then reused.
+ */
+import { AccountsConfig, NextcloudConfig } from '../config/config.js';
+import { registerSecret } from '../utils/error.js';
+import { CalendarService } from './calendar/calendar-service.js';
+import { ContactService } from './calendar/contact-service.js';
+import { EventService } from './calendar/event-service.js';
+import { ItipService } from './calendar/itip-service.js';
+import { JournalService } from './calendar/journal-service.js';
+import { ReminderService } from './calendar/reminder-service.js';
+import { SchedulingService } from './calendar/scheduling-service.js';
+import { TaskService } from './calendar/task-service.js';
+import { SessionCredentials } from './auth-service.js';
+import { createLogger } from './logger.js';
+import { TimezoneService } from './timezone-service.js';
+
+/**
+ * Returns the service of an account, or of the default account when none is given
+ * @throws Error if the account is not configured
+ */
+export type ServiceProvider<T> = (account?: string) => T;
+
+/**
+ * Public description of an account; the app token is never exposed
+ */
+export interface AccountInfo {
+  name: string;
+  baseUrl: string;
+  username: string;
+  isDefault: boolean;
+}
+
+/**
+ * Services of one account, created on first use
+ */
+interface AccountServices {
+  calendar?: CalendarService;
+  event?: EventService;
+  contact?: ContactService;
+  task?: TaskService;
+  journal?: JournalService;
+  itip?: ItipService;
+  timezone?: TimezoneService;
+  scheduling?: SchedulingService;
+  reminder?: ReminderService;
+}
+
+export class AccountService {
+  private config: AccountsConfig;
+  private services = new Map<string, AccountServices>();
+  private logger = createLogger('AccountService');
+  private registersSecrets: boolean;
+
+  /**
+   * @param config The accounts
+   * @param registersSecrets Register the app tokens to be redacted from logs; off for the
+   * registries of client sessions, whose tokens the transport registers while a session is open
+   */
+  constructor(config: AccountsConfig, registersSecrets: boolean = true) {
+    if (Object.keys(config.accounts).length === 0) {
+      throw new Error('At least one Nextcloud account must be configured');
+    }
+    if (!config.accounts[config.defaultAccount]) {
+      throw new Error(`Default account "${config.defaultAccount}" is not configured`);
+    }
+
+    this.config = config;
+    this.registersSecrets = registersSecrets;
+    if (registersSecrets) {
+      Object.values(config.accounts).forEach((account) => registerSecret(account.appToken));
+    }
+    this.logger.info('AccountService initialized successfully', {
+      accounts: Object.keys(config.accounts),
+      defaultAccount: config.defaultAccount,
+    });
+  }
+
+  /**
+   * Get the name of the default account
+   */
+  getDefaultAccount(): string {
+    return this.config.defaultAccount;
+  }
+
+  /**
+   * List the configured accounts
+   * @returns The accounts, without their app tokens
+   */
+  listAccounts(): AccountInfo[] {
+    return Object.entries(this.config.accounts).map(([name, account]) => ({
+      name,
+      baseUrl: account.baseUrl,
+      username: account.username,
+      isDefault: name === this.config.defaultAccount,
+    }));
+  }
+
+  /**
+   * Get the configuration of an account
+   * @param account Account name; the default account if omitted
+   * @throws Error if the account is not configured
+   */
+  getAccountConfig(account?: string): NextcloudConfig {
+    const name = account || this.config.defaultAccount;
+    const config = this.config.accounts[name];
+    if (!config) {
+      throw new Error(
+        `Unknown account "${name}". Available accounts: ${Object.keys(this.config.accounts).join(', ')}`,
+      );
+    }
+    return config;
+  }
+
+  /**
+   * Add an account, or replace the login of an account, e.g. after a login flow
+   * Services of the account are created anew on next use.
+   * @param name Account name
+   * @param config Configuration of the account
+   */
+  setAccount(name: string, config: NextcloudConfig): void {
+    this.config.accounts[name] = config;
+    this.services.delete(name);
+    if (this.registersSecrets) {
+      registerSecret(config.appToken);
+    }
+    this.logger.info(`Account ${name} updated`);
+  }
+
+  /**
+   * Create the registry of a client session that acts as the user of the given credentials
+   * Only the account the credentials belong to is available to the session.
+   * @param credentials The Nextcloud login of the client
+   * @throws Error if the account of the credentials is not configured
+   */
+  withCredentials(credentials: SessionCredentials): AccountService {
+    const name = credentials.account || this.config.defaultAccount;
+    const account = this.getAccountConfig(name);
+
+    return new AccountService(
+      {
+        defaultAccount: name,
+        accounts: {
+          [name]: { ...account, username: credentials.username, appToken: credentials.appToken },
+        },
+      },
+      false,
+    );
+  }
+
+  /**
+   * Create the registry of a client session that starts with the configured accounts
+   * Logins of the session replace accounts of the session only.
+   */
+  forSession(): AccountService {
+    return new AccountService(
+      { defaultAccount: this.config.defaultAccount, accounts: { ...this.config.accounts } },
+      false,
+    );
+  }
+
+  // Service providers of the tools; arrow functions so they can be passed on unbound
+
+  getCalendarService = (account?: string): CalendarService =>
+    this.getService(account, 'calendar', (config) => new CalendarService(config));
+
+  getEventService = (account?: string): EventService =>
+    this.getService(account, 'event', (config) => new EventService(config));
+
+  getContactService = (account?: string): ContactService =>
+    this.getService(account, 'contact', (config) => new ContactService(config));
+
+  getTaskService = (account?: string): TaskService =>
+    this.getService(account, 'task', (config) => new TaskService(config));
+
+  getJournalService = (account?: string): JournalService =>
+    this.getService(account, 'journal', (config) => new JournalService(config));
+
+  getItipService = (account?: string): ItipService =>
+    this.getService(
+      account,
+      'itip',
+      (config) =>
+        new ItipService(config, this.getCalendarService(account), this.getEventService(account)),
+    );
+
+  getTimezoneService = (account?: string): TimezoneService =>
+    this.getService(
+      account,
+      'timezone',
+      (config) =>
+        new TimezoneService(
+          config.defaultTimezone || 'Europe/Paris',
+          config.useLocalTimezone !== false,
+        ),
+    );
+
+  getSchedulingService = (account?: string): SchedulingService =>
+    this.getService(
+      account,
+      'scheduling',
+      () => new SchedulingService(this.getEventService(account), this.getTimezoneService(account)),
+    );
+
+  getReminderService = (account?: string): ReminderService =>
+    this.getService(
+      account,
+      'reminder',
+      () => new ReminderService(this.getCalendarService(account), this.getEventService(account)),
+    );
+
+  /**
+   * Get a service of an account, creating it on first use
+   * @private Internal utility method
+   */
+  private getService<K extends keyof AccountServices>(
+    account: string | undefined,
+    key: K,
+    create: (config: NextcloudConfig) => NonNullable<AccountServices[K]>,
+  ): NonNullable<AccountServices[K]> {
+    const config = this.getAccountConfig(account);
+    const name = account || this.config.defaultAccount;
+
+    let services = this.services.get(name);
+    if (!services) {
+      services = {};
+      this.services.set(name, services);
+    }
+
+    let service = services[key];
+    if (!service) {
+      service = create(config);
+      services[key] = service;
+      this.logger.debug(`Created ${key} service for account ${name}`);
+    }
+    return service as NonNullable<AccountServices[K]>;
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Authentication of HTTP clients
+ *
+ * Maps the credentials an MCP client presents to the Nextcloud login its session acts as,
+ * so clients of one HTTP server do not all share the configured app token.
+ */
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { AuthMode, readConfigFile } from '../config/config.js';
+import { registerSecret } from '../utils/error.js';
+import { createLogger } from './logger.js';
+
+/**
+ * Error for requests without valid credentials
+ */
+export class AuthenticationError extends Error {
+  /**
+   * Value of the WWW-Authenticate header sent with the 401 response
+   */
+  challenge: string;
+
+  constructor(message: string, challenge: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+    this.challenge = challenge;
+  }
+}
+
+/**
+ * The Nextcloud login of an authenticated client
+ */
+export interface SessionCredentials {
+  /**
+   * Fingerprint of the presented credentials; every request of a session must present the same
+   */
+  id: string;
+
+  /**
+   * The user, for logs
+   */
+  user: string;
+  username: string;
+  appToken: string;
+
+  /**
+   * Configured account whose server the login belongs to; the default account if omitted
+   */
+  account?: string;
+}
+
+/**
+ * Hash a credential, so tokens are neither used as keys nor kept in sessions
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class AuthService {
+  private mode: AuthMode;
+  private vault = new Map<string, SessionCredentials>();
+  private logger = createLogger('AuthService');
+
+  /**
+   * @param mode Where credentials come from; 'none' disables authentication
+   * @param vaultFile Token vault, required in 'vault' mode:
+   * { "tokens": { "<bearer token>": { "username": ..., "appToken": ..., "account": ... } } }
+   * @throws Error if the token vault is missing or invalid
+   */
+  constructor(mode: AuthMode, vaultFile?: string) {
+    this.mode = mode;
+
+    if (mode === 'vault') {
+      if (!vaultFile) {
+        throw new Error('A token vault file is required for vault authentication');
+      }
+      this.loadVault(vaultFile);
+    }
+
+    this.logger.info('AuthService initialized successfully', {
+      mode,
+      vaultEntries: this.vault.size,
+    });
+  }
+
+  /**
+   * Get the authentication mode
+   */
+  getMode(): AuthMode {
+    return this.mode;
+  }
+
+  /**
+   * Resolve the Nextcloud login of a request
+   * - 'passthrough': the Authorization header carries Basic credentials of the Nextcloud user
+   * - 'vault': the Authorization header carries a bearer token listed in the token vault
+   * @param headers Headers of the HTTP request
+   * @returns The login, or undefined when authentication is disabled
+   * @throws AuthenticationError if the credentials are missing or unknown
+   */
+  authenticate(headers: IncomingHttpHeaders): SessionCredentials | undefined {
+    if (this.mode === 'none') {
+      return undefined;
+    }
+
+    const [scheme, value] = (headers.authorization ?? '').trim().split(/\s+/, 2);
+
+    if (this.mode === 'passthrough') {
+      const challenge = 'Basic realm="Nextcloud"';
+      if (scheme?.toLowerCase() !== 'basic' || !value) {
+        throw new AuthenticationError('Nextcloud credentials required', challenge);
+      }
+
+      const decoded = Buffer.from(value, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      const username = decoded.slice(0, separator);
+      const appToken = decoded.slice(separator + 1);
+      if (separator <= 0 || !appToken) {
+        throw new AuthenticationError('Malformed Basic credentials', challenge);
+      }
+
+      // Registered for redaction by the transport while a session uses it, not on every request
+      return { id: hashToken(decoded), user: username, username, appToken };
+    }
+
+    const challenge = 'Bearer realm="nextcloud-calendar"';
+    if (scheme?.toLowerCase() !== 'bearer' || !value) {
+      throw new AuthenticationError('Bearer token required', challenge);
+    }
+
+    const credentials = this.vault.get(hashToken(value));
+    if (!credentials) {
+      throw new AuthenticationError('Unknown bearer token', challenge);
+    }
+    return credentials;
+  }
+
+  /**
+   * Read the token vault
+   * @private Internal utility method
+   */
+  private loadVault(path: string): void {
+    let data: unknown;
+    try {
+      data = readConfigFile(path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read token vault ${path}: ${message}`);
+    }
+
+    const tokens = (data as { tokens?: unknown } | null)?.tokens;
+    if (!tokens || typeof tokens !== 'object' || Array.isArray(tokens)) {
+      throw new Error(`Token vault ${path} must contain a "tokens" object`);
+    }
+
+    for (const [token, entry] of Object.entries(
+      tokens as Record<string, Record<string, unknown>>,
+    )) {
+      const username = typeof entry?.username === 'string' ? entry.username : '';
+      const appToken = typeof entry?.appToken === 'string' ? entry.appToken : '';
+      const account = typeof entry?.account === 'string' ? entry.account : undefined;
+      if (!username || !appToken) {
+        throw new Error(`Token vault ${path} has an entry without username or appToken`);
+      }
+
+      registerSecret(token);
+      registerSecret(appToken);
+      this.vault.set(hashToken(token), {
+        id: hashToken(token),
+        user: account ? `${username}@${account}` : username,
+        username,
+        appToken,
+        account,
+      });
+    }
+  }
+}
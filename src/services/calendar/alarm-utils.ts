@@ -0,0 +1,220 @@
+/**
+ * Utilities for reading and writing VALARM components (RFC 5545 section 3.6.6)
+ */
+import { EventReminder } from '../../models/index.js';
+import { parseICalDuration } from './free-busy-utils.js';
+import {
+  ICalComponent,
+  ICalProperty,
+  escapeText,
+  formatDateValue,
+  formatProperty,
+  getProperties,
+  getProperty,
+  parseDateValue,
+  unescapeText,
+} from './ical-document.js';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Format a signed number of minutes as an iCalendar duration (e.g. -PT15M, P1DT2H)
+ * @param minutes Duration in minutes; negative durations point into the past
+ * @returns The duration value
+ */
+export function formatAlarmDuration(minutes: number): string {
+  const total = Math.round(Math.abs(minutes));
+  if (total === 0) {
+    return 'PT0S';
+  }
+
+  const days = Math.floor(total / (24 * 60));
+  const hours = Math.floor((total % (24 * 60)) / 60);
+  const mins = total % 60;
+
+  const time = `${hours ? `${hours}H` : ''}${mins ? `${mins}M` : ''}`;
+  return `${minutes < 0 ? '-' : ''}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/**
+ * Map a VALARM ACTION to a reminder type
+ * @returns The reminder type, or null for actions that are not supported (e.g. PROCEDURE)
+ */
+function toReminderType(action: string | undefined): EventReminder['type'] | null {
+  switch (action?.toUpperCase()) {
+    case 'DISPLAY':
+      return 'notification';
+    case 'EMAIL':
+      return 'email';
+    case 'AUDIO':
+      return 'audio';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a VALARM component into a reminder
+ * @param component The VALARM component
+ * @param eventStart Start of the event, used to express absolute triggers in minutesBefore
+ * @returns The reminder, or null if the alarm has no valid trigger or an unsupported action
+ */
+export function parseAlarmComponent(
+  component: ICalComponent,
+  eventStart?: Date,
+): EventReminder | null {
+  const type = toReminderType(getProperty(component, 'ACTION')?.value);
+  const trigger = getProperty(component, 'TRIGGER');
+  if (!type || !trigger) {
+    return null;
+  }
+
+  const reminder: EventReminder = { type, minutesBefore: 0 };
+
+  try {
+    if (trigger.params.get('VALUE')?.toUpperCase() === 'DATE-TIME') {
+      const triggerAt = parseDateValue(trigger.value, trigger.params);
+      if (!triggerAt) {
+        return null;
+      }
+      reminder.triggerAt = triggerAt;
+      if (eventStart) {
+        reminder.minutesBefore = Math.round((eventStart.getTime() - triggerAt.getTime()) / MINUTE);
+      }
+    } else {
+      reminder.minutesBefore = -parseICalDuration(trigger.value) / MINUTE || 0;
+      if (trigger.params.get('RELATED')?.toUpperCase() === 'END') {
+        reminder.relativeTo = 'end';
+      }
+    }
+
+    const repeat = parseInt(getProperty(component, 'REPEAT')?.value ?? '');
+    const duration = getProperty(component, 'DURATION')?.value;
+    if (repeat > 0 && duration) {
+      reminder.repeat = repeat;
+      reminder.repeatIntervalMinutes = parseICalDuration(duration) / MINUTE;
+    }
+  } catch {
+    return null;
+  }
+
+  const text = (name: string) => {
+    const value = getProperty(component, name)?.value;
+    return value ? unescapeText(value) : undefined;
+  };
+
+  const description = text('DESCRIPTION');
+  if (description) {
+    reminder.description = description;
+  }
+
+  if (type === 'email') {
+    const summary = text('SUMMARY');
+    if (summary) {
+      reminder.summary = summary;
+    }
+
+    const attendees = getProperties(component, 'ATTENDEE').map((property) =>
+      property.value.replace(/^mailto:/i, ''),
+    );
+    if (attendees.length > 0) {
+      reminder.attendees = attendees;
+    }
+  }
+
+  const attachment = getProperty(component, 'ATTACH')?.value;
+  if (type === 'audio' && attachment) {
+    reminder.attachment = attachment;
+  }
+
+  // RFC 9074 marks dismissed alarms with ACKNOWLEDGED
+  if (getProperty(component, 'ACKNOWLEDGED')) {
+    reminder.isSent = true;
+  }
+
+  return reminder;
+}
+
+/**
+ * Create a VALARM component for a reminder
+ * DISPLAY and EMAIL alarms get a default description, as RFC 5545 requires one.
+ * @param reminder The reminder
+ * @returns The VALARM component
+ */
+export function createAlarmComponent(reminder: EventReminder): ICalComponent {
+  const property = (name: string, value: string, params: Array<[string, string]> = []) => ({
+    name,
+    params: new Map(params),
+    value,
+  });
+
+  const action = { notification: 'DISPLAY', email: 'EMAIL', audio: 'AUDIO' }[reminder.type];
+  const properties: ICalProperty[] = [property('ACTION', action)];
+
+  if (reminder.triggerAt) {
+    properties.push(
+      property('TRIGGER', formatDateValue(reminder.triggerAt), [['VALUE', 'DATE-TIME']]),
+    );
+  } else {
+    properties.push(
+      property(
+        'TRIGGER',
+        formatAlarmDuration(-reminder.minutesBefore),
+        reminder.relativeTo === 'end' ? [['RELATED', 'END']] : [],
+      ),
+    );
+  }
+
+  if (reminder.type !== 'audio' || reminder.description) {
+    properties.push(property('DESCRIPTION', escapeText(reminder.description || 'Reminder')));
+  }
+
+  if (reminder.type === 'email') {
+    properties.push(property('SUMMARY', escapeText(reminder.summary || 'Reminder')));
+    for (const attendee of reminder.attendees ?? []) {
+      properties.push(property('ATTENDEE', `mailto:${attendee}`));
+    }
+  }
+
+  if (reminder.type === 'audio' && reminder.attachment) {
+    properties.push(property('ATTACH', reminder.attachment));
+  }
+
+  if (reminder.repeat && reminder.repeatIntervalMinutes) {
+    properties.push(property('REPEAT', String(reminder.repeat)));
+    properties.push(property('DURATION', formatAlarmDuration(reminder.repeatIntervalMinutes)));
+  }
+
+  return { name: 'VALARM', properties, components: [] };
+}
+
+/**
+ * Check whether two alarms describe the same reminder, ignoring their acknowledgement
+ */
+export function isSameReminder(a: EventReminder, b: EventReminder): boolean {
+  const format = (reminder: EventReminder) =>
+    createAlarmComponent(reminder).properties.map(formatProperty).join('\n');
+  return format(a) === format(b);
+}
+
+/**
+ * Calculate when a reminder triggers for an event (or occurrence)
+ * @param reminder The reminder
+ * @param start Start of the event
+ * @param end End of the event
+ * @returns The first trigger followed by its repetitions
+ */
+export function getTriggerTimes(reminder: EventReminder, start: Date, end: Date): Date[] {
+  const first = reminder.triggerAt
+    ? reminder.triggerAt.getTime()
+    : (reminder.relativeTo === 'end' ? end : start).getTime() - reminder.minutesBefore * MINUTE;
+
+  const times = [new Date(first)];
+  if (reminder.repeat && reminder.repeatIntervalMinutes) {
+    for (let i = 1; i <= reminder.repeat; i++) {
+      times.push(new Date(first + i * reminder.repeatIntervalMinutes * MINUTE));
+    }
+  }
+
+  return times;
+}
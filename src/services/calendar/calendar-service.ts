@@ -5,6 +5,7 @@ import { NextcloudConfig } from '../../config/config.js';
 import { Calendar, CalendarUtils } from '../../models/index.js';
 import { createLogger } from '../logger.js';
 import { XmlService, CalDavXmlBuilder } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
 import { CalendarHttpClient } from './http-client.js';
 import * as PropertyParser from './property-parser.js';
 
@@ -14,6 +15,7 @@ export class CalendarService {
   private logger = createLogger('CalendarService');
   private xmlService: XmlService;
   private caldavXmlBuilder: CalDavXmlBuilder;
+  private enhancedXmlService: EnhancedXmlService;
 
   constructor(config: NextcloudConfig) {
     this.config = config;
@@ -26,11 +28,17 @@ export class CalendarService {
     const baseUrl = this.config.baseUrl.replace(/\/$/, '');
 
     // Initialize HTTP client
-    this.httpClient = new CalendarHttpClient(baseUrl, this.config.username, this.config.appToken);
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
 
     // Initialize XML service
     this.xmlService = new XmlService();
     this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
+    this.enhancedXmlService = new EnhancedXmlService();
 
     // Log initialization without sensitive details
     this.logger.info('CalendarService initialized successfully', {
@@ -62,11 +70,10 @@ export class CalendarService {
       // Process each response
       for (const response of calDavResponses) {
         try {
-          // Convert CalDavResponse to Record<string, unknown> for compatibility
+          // Rebuild the multistatus structure the parser expects from the successful propstat
           const responseObj: Record<string, unknown> = {
-            href: response.href,
-            status: response.status,
-            ...response.properties,
+            'd:href': response.href,
+            'd:propstat': { 'd:prop': response.properties, 'd:status': 'HTTP/1.1 200 OK' },
           };
 
           const calendar = PropertyParser.parseCalendarResponse(
@@ -94,6 +101,42 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Get the sync token of every calendar, or its CTag if the server has no sync tokens
+   * A token changes whenever an event of the calendar is added, changed or deleted.
+   * @returns Promise<Record<string, string>> Tokens by calendar ID
+   */
+  async getSyncTokens(): Promise<Record<string, string>> {
+    try {
+      const xmlResponse = await this.httpClient.propfind(
+        this.caldavXmlBuilder.buildPropfindRequest([
+          'd:resourcetype',
+          'd:sync-token',
+          'cs:getctag',
+        ]),
+      );
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(xmlResponse);
+
+      const tokens: Record<string, string> = {};
+      for (const { href, properties } of this.enhancedXmlService.extractMultistatusResponses(
+        xmlData,
+      )) {
+        const token = properties['d:sync-token'] || properties['cs:getctag'];
+        if (
+          href &&
+          typeof token === 'string' &&
+          PropertyParser.isCalendarResource(properties['d:resourcetype'])
+        ) {
+          tokens[PropertyParser.extractCalendarId(href)] = token;
+        }
+      }
+      return tokens;
+    } catch (error) {
+      this.logger.error('Error fetching calendar sync tokens:', error);
+      throw new Error(`Failed to fetch calendar sync tokens: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Create a new calendar
    * @param newCalendar Calendar object with properties for the new calendar
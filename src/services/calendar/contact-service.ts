@@ -1,6 +1,7 @@
 /**
  * Contact Service for interacting with Nextcloud contacts via CardDAV
  */
+import crypto from 'crypto';
 import { NextcloudConfig } from '../../config/config.js';
 import {
   Contact,
@@ -14,14 +15,28 @@ import {
   ContactUtils,
 } from '../../models/index.js';
 import { createLogger } from '../logger.js';
-import { XmlService } from '../xml/index.js';
-import { CalendarHttpClient } from './http-client.js';
+import { CalDavXmlBuilder, XmlService } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
+import { CalendarHttpClient, ConflictError } from './http-client.js';
+import * as PaginationUtils from './pagination-utils.js';
+import * as MergeUtils from './merge-utils.js';
+import { VersionStore } from './version-store.js';
+import { SyncCache, SyncResult, getAccountCacheDir } from './sync-cache.js';
+
+/**
+ * Most writes of a merged update; each retry merges into the version another client just wrote
+ */
+const MAX_MERGE_ATTEMPTS = 3;
 
 export class ContactService {
   private config: NextcloudConfig;
   private httpClient: CalendarHttpClient;
   private logger = createLogger('ContactService');
   private xmlService: XmlService;
+  private enhancedXmlService: EnhancedXmlService;
+  private caldavXmlBuilder: CalDavXmlBuilder;
+  private syncCache: SyncCache | null;
+  private versions = new VersionStore();
 
   constructor(config: NextcloudConfig) {
     this.config = config;
@@ -34,10 +49,21 @@ export class ContactService {
     const baseUrl = this.config.baseUrl.replace(/\/$/, '');
 
     // Initialize HTTP client (reuse calendar client for CardDAV)
-    this.httpClient = new CalendarHttpClient(baseUrl, this.config.username, this.config.appToken);
-
-    // Initialize XML service
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
+
+    // Initialize XML services
     this.xmlService = new XmlService();
+    this.enhancedXmlService = new EnhancedXmlService();
+    this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
+
+    // Initialize the local cache, if configured
+    const cacheDir = getAccountCacheDir(this.config);
+    this.syncCache = cacheDir ? new SyncCache(cacheDir, this.httpClient) : null;
 
     // Log initialization without sensitive details
     this.logger.info('ContactService initialized successfully', {
@@ -50,7 +76,7 @@ export class ContactService {
    * Get CardDAV endpoint for address books
    */
   private getCardDAVUrl(): string {
-    return `/remote.php/dav/addressbooks/users/${this.config.username}`;
+    return `${this.httpClient.getBaseUrl()}/remote.php/dav/addressbooks/users/${this.config.username}`;
   }
 
   /**
@@ -98,6 +124,32 @@ export class ContactService {
 </d:propfind>`;
   }
 
+  /**
+   * Build addressbook-query REPORT request for contacts whose name, email or organization
+   * contains a text (RFC 6352 10.3)
+   */
+  private buildContactQueryRequest(query: string): string {
+    const text = this.xmlService.escapeXml(query);
+    const propFilters = ['FN', 'EMAIL', 'ORG']
+      .map(
+        (name) => `    <card:prop-filter name="${name}">
+      <card:text-match collation="i;unicode-casemap" match-type="contains">${text}</card:text-match>
+    </card:prop-filter>`,
+      )
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<card:addressbook-query xmlns:d="DAV:" xmlns:card="urn:ietf:params:xml:ns:carddav">
+  <d:prop>
+    <d:getetag />
+    <card:address-data />
+  </d:prop>
+  <card:filter test="anyof">
+${propFilters}
+  </card:filter>
+</card:addressbook-query>`;
+  }
+
   /**
    * Parse vCard data into Contact object
    */
@@ -305,43 +357,51 @@ export class ContactService {
   }
 
   /**
-   * Get all contacts from an address book
+   * Get the sync token of every address book, or its CTag if the server has no sync tokens
+   * A token changes whenever a contact of the address book is added, changed or deleted.
    */
-  async getContacts(addressBookId: string, options: ContactSearchOptions = {}): Promise<Contact[]> {
+  async getSyncTokens(): Promise<Record<string, string>> {
     try {
-      await this.httpClient.propfind(
-        this.buildContactPropfindRequest(),
-        this.getAddressBookUrl(addressBookId),
+      const response = await this.httpClient.propfind(
+        this.buildAddressBookPropfindRequest(),
+        this.getCardDAVUrl(),
       );
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+
+      const tokens: Record<string, string> = {};
+      for (const { href, properties } of this.enhancedXmlService.extractMultistatusResponses(
+        xmlData,
+      )) {
+        const resourceType = properties['d:resourcetype'];
+        const token = properties['d:sync-token'] || properties['d:getctag'];
+        if (
+          href &&
+          typeof token === 'string' &&
+          !!resourceType &&
+          typeof resourceType === 'object' &&
+          'card:addressbook' in resourceType
+        ) {
+          tokens[href.split('/').filter(Boolean).pop() || ''] = token;
+        }
+      }
+      return tokens;
+    } catch (error) {
+      this.logger.error('Failed to get address book sync tokens', error);
+      throw error;
+    }
+  }
 
-      // For now, return mock contacts
-      // In production, this would parse the CardDAV response
-      const mockContacts: Contact[] = [
-        {
-          id: 'contact-1',
-          url: this.getContactUrl(addressBookId, 'contact-1'),
-          displayName: 'John Doe',
-          firstName: 'John',
-          lastName: 'Doe',
-          fullName: 'John Doe',
-          emails: [{ type: 'work', email: 'john@example.com', preferred: true }],
-          phones: [{ type: 'mobile', number: '+1234567890', preferred: true }],
-          addresses: [],
-          urls: [],
-          socialProfiles: [],
-          instantMessaging: [],
-          organization: 'Example Corp',
-          title: 'Developer',
-          categories: ['work'],
-          customFields: {},
-          created: new Date().toISOString(),
-          lastModified: new Date().toISOString(),
-          addressBookId,
-        },
-      ];
+  /**
+   * Get all contacts from an address book
+   */
+  async getContacts(addressBookId: string, options: ContactSearchOptions = {}): Promise<Contact[]> {
+    try {
+      // Read from the local cache when it is enabled, otherwise fetch the address book
+      const cachedContacts = this.syncCache ? await this.getCachedContacts(addressBookId) : null;
+      const contacts = cachedContacts ?? (await this.fetchContacts(addressBookId, options.query));
 
       // Apply search filters
-      let filteredContacts = mockContacts;
+      let filteredContacts = contacts;
 
       if (options.query) {
         const query = options.query.toLowerCase();
@@ -389,32 +449,162 @@ export class ContactService {
     }
   }
 
+  /**
+   * Fetch the contacts of an address book
+   * With a query, only contacts whose name, email or organization contains it are fetched
+   * (addressbook-query); without, all of them (PROPFIND).
+   */
+  private async fetchContacts(addressBookId: string, query?: string): Promise<Contact[]> {
+    const url = this.getAddressBookUrl(addressBookId);
+    const response = query
+      ? await this.httpClient.report(url, this.buildContactQueryRequest(query))
+      : await this.httpClient.propfind(this.buildContactPropfindRequest(), url);
+    const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+
+    const contacts: Contact[] = [];
+    for (const { href, properties } of this.enhancedXmlService.extractMultistatusResponses(
+      xmlData,
+    )) {
+      const vcardData = properties['card:address-data'];
+      if (href && typeof vcardData === 'string' && vcardData) {
+        const etag = this.enhancedXmlService.extractEtag(properties) ?? undefined;
+        this.versions.remember(this.toContactUrl(href), etag, vcardData);
+        contacts.push({
+          ...this.parseVCard(vcardData, addressBookId, this.toContactUrl(href)),
+          etag,
+        });
+      }
+    }
+    return contacts;
+  }
+
+  /**
+   * Get the contacts of an address book from the local cache after syncing it
+   * Returns null if the address book cannot be synced.
+   */
+  private async getCachedContacts(addressBookId: string): Promise<Contact[] | null> {
+    let result: SyncResult;
+    try {
+      result = await this.syncAddressBook(addressBookId);
+    } catch (error) {
+      this.logger.warn(`Failed to sync address book ${addressBookId}, fetching it:`, error);
+      return null;
+    }
+
+    return Object.entries(result.resources).map(([href, resource]) => {
+      this.versions.remember(this.toContactUrl(href), resource.etag, resource.data);
+      return {
+        ...this.parseVCard(resource.data, addressBookId, this.toContactUrl(href)),
+        etag: resource.etag ?? undefined,
+      };
+    });
+  }
+
+  /**
+   * Bring the local cache of an address book up to date with sync-collection
+   * @throws Error if the local cache is disabled or the server rejects the sync
+   */
+  async syncAddressBook(addressBookId: string): Promise<SyncResult> {
+    if (!this.syncCache) {
+      throw new Error('The local cache is disabled; set NEXTCLOUD_CACHE_DIR to enable it');
+    }
+
+    return this.syncCache.sync(`${this.getAddressBookUrl(addressBookId)}/`, 'card:address-data');
+  }
+
+  /**
+   * Drop a contact from the local cache after writing it
+   */
+  private invalidateCachedContact(addressBookId: string, contactId: string): void {
+    this.syncCache?.invalidate(
+      `${this.getAddressBookUrl(addressBookId)}/`,
+      this.getContactUrl(addressBookId, contactId),
+    );
+  }
+
+  /**
+   * Get the URL of a contact from the href of a CardDAV response
+   */
+  private toContactUrl(href: string): string {
+    return href.startsWith('/') ? `${this.httpClient.getBaseUrl()}${href}` : href;
+  }
+
   /**
    * Get a specific contact by ID
    */
   async getContact(addressBookId: string, contactId: string): Promise<Contact> {
     try {
-      const response = await this.httpClient.get(this.getContactUrl(addressBookId, contactId));
+      const url = this.getContactUrl(addressBookId, contactId);
+      const { data, etag } = await this.httpClient.getWithEtag(url);
+      this.versions.remember(url, etag, data);
 
       // Parse vCard response
-      return this.parseVCard(response, addressBookId, this.getContactUrl(addressBookId, contactId));
+      return { ...this.parseVCard(data, addressBookId, url), etag: etag ?? undefined };
     } catch (error) {
       this.logger.error('Failed to get contact', error);
       throw error;
     }
   }
 
+  /**
+   * Get several contacts of an address book by ID with addressbook-multiget, many per request
+   * Returns the contacts found, in the order of the IDs, and the IDs not found.
+   */
+  async getContactsByIds(
+    addressBookId: string,
+    contactIds: string[],
+  ): Promise<{ contacts: Contact[]; notFound: string[] }> {
+    const ids = [...new Set(contactIds)];
+    const found = new Map<string, Contact>();
+
+    try {
+      const responses = await this.httpClient.multiget(
+        `${this.getAddressBookUrl(addressBookId)}/`,
+        ids.map((contactId) => this.getContactUrl(addressBookId, contactId)),
+        (batch) => this.caldavXmlBuilder.buildAddressbookMultigetRequest(batch),
+      );
+
+      for (const response of responses) {
+        const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+        for (const { href, properties } of this.enhancedXmlService.extractMultistatusResponses(
+          xmlData,
+        )) {
+          const vcardData = properties['card:address-data'];
+          if (href && typeof vcardData === 'string' && vcardData) {
+            const url = this.toContactUrl(href);
+            const etag = this.enhancedXmlService.extractEtag(properties) ?? undefined;
+            this.versions.remember(url, etag, vcardData);
+            const contact = { ...this.parseVCard(vcardData, addressBookId, url), etag };
+            found.set(contact.id, contact);
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to get contacts', error);
+      throw error;
+    }
+
+    return {
+      contacts: ids.flatMap((contactId) => found.get(contactId) ?? []),
+      notFound: ids.filter((contactId) => !found.has(contactId)),
+    };
+  }
+
   /**
    * Create a new contact
    */
   async createContact(addressBookId: string, contactData: CreateContactData): Promise<Contact> {
     try {
-      const contactId = `contact-${Date.now()}`;
+      // Unique even for contacts created at once, e.g. by an import
+      const contactId = `contact-${crypto.randomUUID()}`;
       const vcard = this.generateVCard(contactData);
 
+      // Never overwrite an existing vCard
       await this.httpClient.put(this.getContactUrl(addressBookId, contactId), vcard, {
         'Content-Type': 'text/vcard; charset=utf-8',
+        'If-None-Match': '*',
       });
+      this.invalidateCachedContact(addressBookId, contactId);
 
       // Return the created contact
       return this.getContact(addressBookId, contactId);
@@ -426,38 +616,118 @@ export class ContactService {
 
   /**
    * Update a contact
+   * The vCard is only written if nobody changed it since it was read, or since the version of
+   * expectedEtag if given. With the merge option, updates based on an older version are merged
+   * into the current version field by field instead; the base option is the version of
+   * expectedEtag, if this service did not read it.
+   * @throws ConflictError if the contact changed in between, MergeConflictError if the updates
+   * conflict with those changes
    */
   async updateContact(
     addressBookId: string,
     contactId: string,
     updates: UpdateContactData,
+    expectedEtag?: string,
+    options: MergeUtils.MergeOptions<Contact> = {},
   ): Promise<Contact> {
     try {
       // Get existing contact
-      const existingContact = await this.getContact(addressBookId, contactId);
+      const url = this.getContactUrl(addressBookId, contactId);
+      let { data, etag } = await this.httpClient.getForUpdate(url);
+      this.versions.remember(url, etag, data);
+      let changes: Partial<Contact> = updates;
+
+      if (expectedEtag && expectedEtag !== etag) {
+        // Updates based on an older version are merged into the current one, if it is known
+        const base = options.merge
+          ? (options.base ?? this.versions.recall(url, expectedEtag))
+          : undefined;
+        if (!base) {
+          throw new ConflictError(etag, data);
+        }
+        changes = this.mergeContactUpdates(
+          typeof base === 'string'
+            ? this.parseVCard(base, addressBookId, url)
+            : { ...base, addressBookId, url },
+          data,
+          etag,
+          changes,
+        );
+      }
 
-      // Merge updates
-      const updatedData = { ...existingContact, ...updates };
-      const vcard = this.generateVCard(updatedData);
+      for (let attempt = 1; ; attempt++) {
+        const existingContact = this.parseVCard(data, addressBookId, url);
 
-      await this.httpClient.put(this.getContactUrl(addressBookId, contactId), vcard, {
-        'Content-Type': 'text/vcard; charset=utf-8',
-      });
+        // Merge updates
+        const updatedData = { ...existingContact, ...changes };
+        const vcard = this.generateVCard(updatedData);
 
-      // Return the updated contact
-      return this.getContact(addressBookId, contactId);
+        try {
+          await this.httpClient.put(url, vcard, {
+            'Content-Type': 'text/vcard; charset=utf-8',
+            'If-Match': etag,
+          });
+        } catch (error) {
+          // Changed by another client since it was fetched: merge into that version and retry
+          if (
+            !options.merge ||
+            !(error instanceof ConflictError) ||
+            !error.currentData ||
+            !error.currentEtag ||
+            attempt >= MAX_MERGE_ATTEMPTS
+          ) {
+            throw error;
+          }
+          ({ currentData: data, currentEtag: etag } = error);
+          changes = this.mergeContactUpdates(existingContact, data, etag, changes);
+          continue;
+        }
+        this.invalidateCachedContact(addressBookId, contactId);
+
+        // Return the updated contact
+        return this.getContact(addressBookId, contactId);
+      }
     } catch (error) {
       this.logger.error('Failed to update contact', error);
       throw error;
     }
   }
 
+  /**
+   * Merge updates made to an older version of a contact into the current version
+   * @throws MergeConflictError if another client changed the same fields differently
+   */
+  private mergeContactUpdates(
+    base: Partial<Contact> & Pick<Contact, 'addressBookId' | 'url'>,
+    data: string,
+    etag: string,
+    updates: Partial<Contact>,
+  ): Partial<Contact> {
+    const current = this.parseVCard(data, base.addressBookId, base.url);
+    const { changes, conflicts } = MergeUtils.mergeContactChanges(base, current, updates);
+
+    if (conflicts.length > 0) {
+      throw new MergeUtils.MergeConflictError(etag, data, conflicts);
+    }
+    return changes;
+  }
+
   /**
    * Delete a contact
+   * The vCard is only deleted if nobody changed it since it was read, or since the version of
+   * expectedEtag if given.
+   * @throws ConflictError if the contact changed in between
    */
-  async deleteContact(addressBookId: string, contactId: string): Promise<boolean> {
+  async deleteContact(
+    addressBookId: string,
+    contactId: string,
+    expectedEtag?: string,
+  ): Promise<boolean> {
     try {
-      await this.httpClient.delete(this.getContactUrl(addressBookId, contactId));
+      const url = this.getContactUrl(addressBookId, contactId);
+      const etag = expectedEtag ?? (await this.httpClient.getForUpdate(url)).etag;
+      await this.httpClient.delete(url, { 'If-Match': etag });
+      this.invalidateCachedContact(addressBookId, contactId);
       return true;
     } catch (error) {
       this.logger.error('Failed to delete contact', error);
@@ -506,21 +776,74 @@ export class ContactService {
    */
   async searchContacts(query: string, options: ContactSearchOptions = {}): Promise<Contact[]> {
     try {
+      const { offset, limit, ...filters } = options;
       const addressBooks = await this.getAddressBooks();
-      const allContacts: Contact[] = [];
-
-      for (const addressBook of addressBooks) {
-        const contacts = await this.getContacts(addressBook.id, { ...options, query });
-        allContacts.push(...contacts);
-      }
-
-      return allContacts;
+      const allContacts = (
+        await Promise.all(
+          addressBooks.map((addressBook) =>
+            this.getContacts(addressBook.id, { ...filters, query }),
+          ),
+        )
+      ).flat();
+
+      // Offset and limit apply to the results of all address books together
+      const start = offset ?? 0;
+      return allContacts.slice(start, limit ? start + limit : undefined);
     } catch (error) {
       this.logger.error('Failed to search contacts', error);
       throw error;
     }
   }
 
+  /**
+   * Get a page of the contacts of an address book, ordered by display name
+   * @param options Search filters as for getContacts, the cursor of the page (the first page
+   * if omitted) and limit, the page size (all remaining contacts if omitted); offset is ignored
+   * @throws InvalidCursorError if the cursor is malformed or belongs to other parameters
+   */
+  async getContactsPage(
+    addressBookId: string,
+    options: ContactSearchOptions & { cursor?: string } = {},
+  ): Promise<PaginationUtils.Page<Contact>> {
+    const { cursor, limit, ...rest } = options;
+    const filters = { ...rest, offset: undefined };
+    const contacts = await this.getContacts(addressBookId, filters);
+
+    return PaginationUtils.paginate(contacts, this.getSortKey, {
+      cursor,
+      limit,
+      scope: PaginationUtils.getScope({ addressBookId, ...filters }),
+    });
+  }
+
+  /**
+   * Get a page of the contacts of all address books matching a query, ordered by display name
+   * @param options Search filters as for searchContacts, the cursor of the page (the first page
+   * if omitted) and limit, the page size (all remaining contacts if omitted); offset is ignored
+   * @throws InvalidCursorError if the cursor is malformed or belongs to other parameters
+   */
+  async searchContactsPage(
+    query: string,
+    options: ContactSearchOptions & { cursor?: string } = {},
+  ): Promise<PaginationUtils.Page<Contact>> {
+    const { cursor, limit, ...rest } = options;
+    const filters = { ...rest, offset: undefined };
+    const contacts = await this.searchContacts(query, filters);
+
+    return PaginationUtils.paginate(contacts, this.getSortKey, {
+      cursor,
+      limit,
+      scope: PaginationUtils.getScope({ query, ...filters }),
+    });
+  }
+
+  /**
+   * Sort key of contacts: display name, then address book and ID to keep the order stable
+   */
+  private getSortKey(contact: Contact): PaginationUtils.SortKey {
+    return [contact.displayName.toLowerCase(), contact.addressBookId, contact.id];
+  }
+
   /**
    * Find duplicate contacts
    */
@@ -530,41 +853,61 @@ export class ContactService {
         ? await this.getContacts(addressBookId)
         : await this.searchContacts('');
 
-      const duplicates: ContactDuplicate[] = [];
-      const processedIds = new Set<string>();
+      return this.groupDuplicates(contacts);
+    } catch (error) {
+      this.logger.error('Failed to find duplicates', error);
+      throw error;
+    }
+  }
 
-      for (let i = 0; i < contacts.length; i++) {
-        if (processedIds.has(contacts[i].id)) continue;
+  /**
+   * Group contacts that are similar enough to be duplicates
+   */
+  private groupDuplicates(contacts: Contact[]): ContactDuplicate[] {
+    const duplicates: ContactDuplicate[] = [];
+    const processedIds = new Set<string>();
 
-        const similarContacts = [contacts[i]];
-        processedIds.add(contacts[i].id);
+    for (let i = 0; i < contacts.length; i++) {
+      if (processedIds.has(contacts[i].id)) continue;
 
-        for (let j = i + 1; j < contacts.length; j++) {
-          if (processedIds.has(contacts[j].id)) continue;
+      const similarContacts = [contacts[i]];
+      processedIds.add(contacts[i].id);
 
-          const similarity = ContactUtils.calculateSimilarity(contacts[i], contacts[j]);
-          if (similarity > 0.7) {
-            // 70% similarity threshold
-            similarContacts.push(contacts[j]);
-            processedIds.add(contacts[j].id);
-          }
-        }
+      for (let j = i + 1; j < contacts.length; j++) {
+        if (processedIds.has(contacts[j].id)) continue;
 
-        if (similarContacts.length > 1) {
-          duplicates.push({
-            contacts: similarContacts,
-            similarity: 0.8, // Average similarity
-            matchFields: ['name', 'email'], // Fields that matched
-            suggestedMerge: similarContacts[0], // Use first as base for merge
-          });
+        const similarity = ContactUtils.calculateSimilarity(contacts[i], contacts[j]);
+        if (similarity > 0.7) {
+          // 70% similarity threshold
+          similarContacts.push(contacts[j]);
+          processedIds.add(contacts[j].id);
         }
       }
 
-      return duplicates;
-    } catch (error) {
-      this.logger.error('Failed to find duplicates', error);
-      throw error;
+      if (similarContacts.length > 1) {
+        duplicates.push({
+          contacts: similarContacts,
+          similarity: 0.8, // Average similarity
+          matchFields: ['name', 'email'], // Fields that matched
+          suggestedMerge: similarContacts[0], // Use first as base for merge
+        });
+      }
     }
+
+    return duplicates;
+  }
+
+  /**
+   * Run an operation for many contacts in parallel, within the request limits of the server
+   * @param items The items, e.g. IDs of contacts
+   * @param operation The operation to run for an item, e.g. updating a contact
+   * @returns The outcome for each item, in the order of the items
+   */
+  runBulk<T, R>(
+    items: T[],
+    operation: (item: T) => Promise<R>,
+  ): Promise<PromiseSettledResult<R>[]> {
+    return this.httpClient.mapSettled(items, operation);
   }
 
   /**
@@ -573,12 +916,9 @@ export class ContactService {
   async analyzeContactDatabase(): Promise<ContactAnalytics> {
     try {
       const addressBooks = await this.getAddressBooks();
-      const allContacts: Contact[] = [];
-
-      for (const addressBook of addressBooks) {
-        const contacts = await this.getContacts(addressBook.id);
-        allContacts.push(...contacts);
-      }
+      const allContacts = (
+        await Promise.all(addressBooks.map((addressBook) => this.getContacts(addressBook.id)))
+      ).flat();
 
       const analytics: ContactAnalytics = {
         totalContacts: allContacts.length,
@@ -589,7 +929,7 @@ export class ContactService {
         contactsWithPhones: allContacts.filter((c) => c.phones.length > 0).length,
         contactsWithAddresses: allContacts.filter((c) => c.addresses.length > 0).length,
         contactsWithPhotos: allContacts.filter((c) => c.photo || c.photoUrl).length,
-        duplicateSets: await this.findDuplicates(),
+        duplicateSets: this.groupDuplicates(allContacts),
         recentlyAdded: allContacts
           .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
           .slice(0, 10),
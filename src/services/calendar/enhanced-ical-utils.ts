@@ -1,11 +1,61 @@
 /**
  * Enhanced iCalendar parsing utilities
  */
-import { Event, RecurrenceRule, Participant } from '../../models/index.js';
+import { Event, EventReminder, RecurrenceRule, Participant } from '../../models/index.js';
 import { createLogger } from '../logger.js';
+import { TimezoneService } from '../timezone-service.js';
+import { createAlarmComponent, isSameReminder, parseAlarmComponent } from './alarm-utils.js';
+import { parseICalDuration } from './free-busy-utils.js';
+import {
+  ICalComponent,
+  foldLine,
+  formatDateValue,
+  formatProperty,
+  getProperties,
+  getProperty,
+  parseDateValue,
+  parseDocument,
+  parseProperty,
+  serializeDocument,
+  setProperty,
+  toParamText,
+  unescapeText,
+} from './ical-document.js';
 
 const logger = createLogger('EnhancedICalUtils');
 
+/**
+ * Properties that may appear more than once in a component and are collected into arrays
+ */
+const MULTI_VALUE_PROPERTIES = new Set(['ATTENDEE', 'EXDATE', 'RDATE']);
+
+type ICalProperty = { name: string; value: string; params: Map<string, string> };
+
+/**
+ * A VEVENT with its properties by name and its VALARM components
+ */
+type EventComponent = { type: string; properties: Map<string, unknown>; alarms: ICalComponent[] };
+
+/**
+ * Properties rewritten when an event field changes; all other properties are kept as they are
+ */
+const FIELD_PROPERTIES: Array<[keyof Event, string[]]> = [
+  ['title', ['SUMMARY']],
+  ['description', ['DESCRIPTION']],
+  ['location', ['LOCATION']],
+  ['start', ['DTSTART', 'DTEND', 'DURATION']],
+  ['end', ['DTEND', 'DURATION']],
+  ['isAllDay', ['DTSTART', 'DTEND', 'DURATION', 'RECURRENCE-ID', 'RRULE', 'EXDATE', 'RDATE']],
+  ['timezone', ['DTSTART', 'DTEND', 'DURATION', 'RECURRENCE-ID', 'RRULE', 'EXDATE', 'RDATE']],
+  ['recurrenceRule', ['RRULE', 'EXDATE', 'RDATE']],
+  ['status', ['STATUS']],
+  ['visibility', ['CLASS']],
+  ['availability', ['TRANSP']],
+  ['categories', ['CATEGORIES']],
+  ['organizer', ['ORGANIZER']],
+  ['participants', ['ATTENDEE']],
+];
+
 /**
  * Enhanced iCalendar parser that handles real Nextcloud iCal data
  */
@@ -44,22 +94,46 @@ export class EnhancedICalParser {
         }
       }
 
+      // Overrides belong to the master event with the same UID
+      const linkedEvents = this.linkOverrides(events);
+
       logger.debug(`Successfully parsed ${events.length} events from iCalendar data`);
-      return events;
+      return linkedEvents;
     } catch (error) {
       logger.error('Error parsing iCalendar data:', error);
       return [];
     }
   }
 
+  /**
+   * Attach RECURRENCE-ID overrides to the master event of their series
+   * Overrides without a master in the same data (e.g. server-expanded instances)
+   * are returned as separate events.
+   */
+  private static linkOverrides(events: Event[]): Event[] {
+    const masters = new Map(
+      events.filter((event) => !event.recurrenceId).map((event) => [event.id, event]),
+    );
+
+    return events.filter((event) => {
+      const master = event.recurrenceId ? masters.get(event.id) : undefined;
+      if (!master) {
+        return true;
+      }
+
+      event.masterId = master.id;
+      master.overrides = [...(master.overrides ?? []), event];
+      return false;
+    });
+  }
+
   /**
    * Extract components from iCal lines
    */
-  private static extractComponents(
-    lines: string[],
-  ): Array<{ type: string; properties: Map<string, unknown> }> {
-    const components: Array<{ type: string; properties: Map<string, unknown> }> = [];
-    let currentComponent: { type: string; properties: Map<string, unknown> } | null = null;
+  private static extractComponents(lines: string[]): EventComponent[] {
+    const components: EventComponent[] = [];
+    let currentComponent: EventComponent | null = null;
+    let currentAlarm: ICalComponent | null = null;
     let unfoldedLines: string[] = [];
 
     // First, unfold lines (handle line continuation)
@@ -94,18 +168,33 @@ export class EnhancedICalParser {
           currentComponent = {
             type: componentType,
             properties: new Map(),
+            alarms: [],
           };
+        } else if (componentType === 'VALARM' && currentComponent) {
+          currentAlarm = { name: componentType, properties: [], components: [] };
         }
       } else if (trimmed.startsWith('END:')) {
         const componentType = trimmed.substring(4);
         if (componentType === 'VEVENT' && currentComponent) {
           components.push(currentComponent);
           currentComponent = null;
+        } else if (componentType === 'VALARM' && currentComponent && currentAlarm) {
+          currentComponent.alarms.push(currentAlarm);
+          currentAlarm = null;
+        }
+      } else if (currentAlarm) {
+        // Alarm properties (e.g. DESCRIPTION) must not override those of the event
+        const property = this.parsePropertyLine(trimmed);
+        if (property) {
+          currentAlarm.properties.push(property);
         }
       } else if (currentComponent) {
         // Parse property line
         const property = this.parsePropertyLine(trimmed);
-        if (property) {
+        if (property && MULTI_VALUE_PROPERTIES.has(property.name)) {
+          const existing = currentComponent.properties.get(property.name) as ICalProperty[];
+          currentComponent.properties.set(property.name, [...(existing ?? []), property]);
+        } else if (property) {
           currentComponent.properties.set(property.name, property);
         }
       }
@@ -116,51 +205,22 @@ export class EnhancedICalParser {
 
   /**
    * Parse a single property line
+   * Quoted parameter values may contain ':', ';' and ','.
    */
   private static parsePropertyLine(
     line: string,
   ): { name: string; value: string; params: Map<string, string> } | null {
-    try {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) return null;
-
-      const nameAndParams = line.substring(0, colonIndex);
-      const value = line.substring(colonIndex + 1);
-
-      // Split name and parameters
-      const semicolonIndex = nameAndParams.indexOf(';');
-      const name =
-        semicolonIndex === -1 ? nameAndParams : nameAndParams.substring(0, semicolonIndex);
-      const paramsString = semicolonIndex === -1 ? '' : nameAndParams.substring(semicolonIndex + 1);
-
-      // Parse parameters
-      const params = new Map<string, string>();
-      if (paramsString) {
-        const paramPairs = paramsString.split(';');
-        for (const pair of paramPairs) {
-          const equalIndex = pair.indexOf('=');
-          if (equalIndex !== -1) {
-            const paramName = pair.substring(0, equalIndex);
-            const paramValue = pair.substring(equalIndex + 1);
-            params.set(paramName, paramValue);
-          }
-        }
-      }
-
-      return { name, value, params };
-    } catch (error) {
-      logger.warn('Error parsing property line:', line, error);
-      return null;
+    const property = parseProperty(line);
+    if (!property) {
+      logger.warn('Error parsing property line:', line);
     }
+    return property;
   }
 
   /**
    * Parse a VEVENT component into an Event object
    */
-  private static parseEventComponent(
-    component: { type: string; properties: Map<string, unknown> },
-    calendarId: string,
-  ): Event | null {
+  private static parseEventComponent(component: EventComponent, calendarId: string): Event | null {
     try {
       const props = component.properties;
 
@@ -184,7 +244,16 @@ export class EnhancedICalParser {
         return null;
       }
 
-      // If no end date, make it same as start date
+      // Without DTEND, the end follows from DURATION or equals the start
+      const duration = (props.get('DURATION') as ICalProperty | undefined)?.value;
+      if (!endDate && duration) {
+        try {
+          endDate = new Date(startDate.getTime() + parseICalDuration(duration));
+        } catch {
+          logger.warn('Could not parse duration:', duration);
+        }
+      }
+
       if (!endDate) {
         endDate = new Date(startDate);
       }
@@ -196,28 +265,56 @@ export class EnhancedICalParser {
       const event: Event = {
         id: uid,
         calendarId,
-        title: summary || 'Untitled Event',
-        description: props.get('DESCRIPTION')?.value || '',
+        title: summary ? unescapeText(summary) : 'Untitled Event',
+        description: unescapeText(props.get('DESCRIPTION')?.value || ''),
         start: startDate,
         end: endDate,
         isAllDay,
-        location: props.get('LOCATION')?.value || '',
+        location: unescapeText(props.get('LOCATION')?.value || ''),
         status: this.parseEventStatus(props.get('STATUS')?.value),
         visibility: this.parseEventVisibility(props.get('CLASS')?.value),
         availability: this.parseEventAvailability(props.get('TRANSP')?.value),
         categories: this.parseCategories(props.get('CATEGORIES')?.value),
-        reminders: [],
+        reminders: component.alarms
+          .map((alarm) => parseAlarmComponent(alarm, startDate))
+          .filter((reminder): reminder is EventReminder => reminder !== null),
         participants: [],
         created: this.parseICalDate(props.get('CREATED')) || new Date(),
         lastModified: this.parseICalDate(props.get('LAST-MODIFIED')) || new Date(),
       };
 
+      const timezone = (dtstart as ICalProperty).params?.get('TZID');
+      if (timezone) {
+        event.timezone = timezone;
+      }
+
       // Parse recurrence rule if present
       const rrule = props.get('RRULE')?.value;
       if (rrule) {
         event.recurrenceRule = this.parseRecurrenceRule(rrule);
       }
 
+      // Attach excluded and additional dates to the recurrence rule
+      if (event.recurrenceRule) {
+        const exDates = this.parseDateList(props.get('EXDATE') as ICalProperty[] | undefined);
+        const rDates = this.parseDateList(props.get('RDATE') as ICalProperty[] | undefined);
+
+        if (exDates.length > 0) {
+          event.recurrenceRule.exDates = exDates;
+        }
+        if (rDates.length > 0) {
+          event.recurrenceRule.rDates = rDates;
+        }
+      }
+
+      // Overrides of a recurring series identify the occurrence they replace
+      const recurrenceId = this.parseICalDate(
+        (props.get('RECURRENCE-ID') as ICalProperty | undefined) ?? null,
+      );
+      if (recurrenceId) {
+        event.recurrenceId = recurrenceId;
+      }
+
       // Parse organizer
       const organizer = props.get('ORGANIZER');
       if (organizer) {
@@ -226,12 +323,10 @@ export class EnhancedICalParser {
 
       // Parse attendees
       const attendees: Participant[] = [];
-      for (const [key, prop] of props) {
-        if (key === 'ATTENDEE') {
-          const attendee = this.parseAttendee(prop);
-          if (attendee) {
-            attendees.push(attendee);
-          }
+      for (const prop of (props.get('ATTENDEE') as ICalProperty[] | undefined) ?? []) {
+        const attendee = this.parseAttendee(prop);
+        if (attendee) {
+          attendees.push(attendee);
         }
       }
       event.participants = attendees;
@@ -261,6 +356,9 @@ export class EnhancedICalParser {
         const month = parseInt(dateStr.substring(4, 6)) - 1; // Month is 0-based
         const day = parseInt(dateStr.substring(6, 8));
         return new Date(year, month, day);
+      } else if (dateProperty.params?.get('TZID') && /^\d{8}T\d{6}$/.test(dateStr)) {
+        // Local time in a named timezone
+        return this.parseZonedDateTime(dateStr, dateProperty.params.get('TZID') as string);
       } else {
         // DateTime format (YYYYMMDDTHHMMSSZ or YYYYMMDDTHHMMSS)
         let isoString = dateStr;
@@ -292,6 +390,44 @@ export class EnhancedICalParser {
     }
   }
 
+  /**
+   * Parse a local date-time in an IANA timezone, falling back to the process
+   * timezone when the TZID is not recognised
+   */
+  private static parseZonedDateTime(dateStr: string, tzid: string): Date {
+    const parts = [0, 4, 6, 9, 11, 13].map((index, i) =>
+      parseInt(dateStr.substring(index, index + (i === 0 ? 4 : 2))),
+    );
+    const [year, month, day, hour, minute, second] = parts;
+
+    try {
+      const zoned = new TimezoneService(tzid).fromZonedTime(year, month, day, hour, minute);
+      return new Date(zoned.getTime() + second * 1000);
+    } catch {
+      logger.debug(`Unknown timezone ${tzid}, using local time`);
+      return new Date(year, month - 1, day, hour, minute, second);
+    }
+  }
+
+  /**
+   * Parse the dates of EXDATE or RDATE properties, which may hold comma-separated values
+   */
+  private static parseDateList(properties: ICalProperty[] | undefined): Date[] {
+    const dates: Date[] = [];
+
+    for (const property of properties ?? []) {
+      // Periods (start/end) only contribute their start
+      for (const value of property.value.split(',')) {
+        const date = this.parseICalDate({ value: value.split('/')[0], params: property.params });
+        if (date && !isNaN(date.getTime())) {
+          dates.push(date);
+        }
+      }
+    }
+
+    return dates;
+  }
+
   /**
    * Parse event status
    */
@@ -383,6 +519,18 @@ export class EnhancedICalParser {
             }
             break;
           }
+          case 'BYDAY':
+            rule.byDay = value.split(',') as RecurrenceRule['byDay'];
+            break;
+          case 'BYMONTHDAY':
+            rule.byMonthDay = value.split(',').map((day) => parseInt(day));
+            break;
+          case 'BYMONTH':
+            rule.byMonth = value.split(',').map((month) => parseInt(month));
+            break;
+          case 'BYSETPOS':
+            rule.bySetPos = value.split(',').map((pos) => parseInt(pos));
+            break;
         }
       }
 
@@ -403,7 +551,7 @@ export class EnhancedICalParser {
     if (!organizer || !organizer.value) return undefined;
 
     // Extract email from mailto: URL
-    const email = organizer.value.replace(/^mailto:/, '');
+    const email = organizer.value.replace(/^mailto:/i, '');
     return email;
   }
 
@@ -417,7 +565,7 @@ export class EnhancedICalParser {
     if (!attendee || !attendee.value) return undefined;
 
     try {
-      const email = attendee.value.replace(/^mailto:/, '');
+      const email = attendee.value.replace(/^mailto:/i, '');
       const name = attendee.params?.get('CN') || email;
       const role = attendee.params?.get('ROLE') === 'OPT-PARTICIPANT' ? 'optional' : 'required';
 
@@ -437,13 +585,30 @@ export class EnhancedICalParser {
         }
       }
 
-      return {
+      const participant: Participant = {
         email,
         name,
         role,
         status,
         type: 'individual',
       };
+
+      if (attendee.params?.get('RSVP')?.toUpperCase() === 'TRUE') {
+        participant.rsvp = true;
+      }
+
+      const scheduleAgent = attendee.params?.get('SCHEDULE-AGENT')?.toLowerCase();
+      if (scheduleAgent === 'server' || scheduleAgent === 'client' || scheduleAgent === 'none') {
+        participant.scheduleAgent = scheduleAgent;
+      }
+
+      // Nextcloud stores the comment of a reply as a parameter of the attendee
+      const comment = attendee.params?.get('X-RESPONSE-COMMENT');
+      if (comment) {
+        participant.comment = comment;
+      }
+
+      return participant;
     } catch (error) {
       logger.warn('Error parsing attendee:', attendee, error);
       return undefined;
@@ -452,6 +617,8 @@ export class EnhancedICalParser {
 
   /**
    * Generate iCalendar data from Event object (improved version)
+   * Overrides of a recurring event are written as RECURRENCE-ID components of
+   * the same resource, so the whole series round-trips.
    */
   static generateICalEvent(event: Event): string {
     try {
@@ -465,76 +632,374 @@ export class EnhancedICalParser {
       lines.push('PRODID:-//Nextcloud Calendar MCP//EN');
       lines.push('CALSCALE:GREGORIAN');
 
-      // Event
-      lines.push('BEGIN:VEVENT');
-      lines.push(`UID:${event.id}`);
-      lines.push(`DTSTAMP:${this.formatICalDate(new Date())}`);
+      // Master event followed by its overrides
+      this.generateEventComponent(event, lines);
+      for (const override of event.overrides ?? []) {
+        this.generateEventComponent({ ...override, id: event.id, overrides: undefined }, lines);
+      }
+
+      lines.push('END:VCALENDAR');
 
-      if (event.created) {
-        lines.push(`CREATED:${this.formatICalDate(event.created)}`);
+      return lines.map(foldLine).join('\r\n');
+    } catch (error) {
+      logger.error('Error generating iCalendar data:', error);
+      throw new Error(`Failed to generate iCalendar data: ${error}`);
+    }
+  }
+
+  /**
+   * Merge an edited event into the resource it was parsed from
+   * Only the properties of fields that changed are rewritten, so properties,
+   * parameters and components this parser does not model (X-*, ATTACH, VTIMEZONE, ...)
+   * survive the update. Alarms are only replaced when the reminders change, and
+   * overrides missing from the event are removed.
+   * @param calendar The original VCALENDAR component, modified in place
+   * @param event The edited event, including its overrides
+   * @returns The updated iCalendar data
+   */
+  static mergeICalEvent(calendar: ICalComponent, event: Event): string {
+    try {
+      logger.debug(`Merging changes into iCalendar data for event ${event.id}`);
+
+      const [original] = this.parseICalEvents(serializeDocument(calendar), event.calendarId);
+      const components = calendar.components.filter((component) => component.name === 'VEVENT');
+      const master = components.find((component) => !getProperty(component, 'RECURRENCE-ID'));
+
+      if (!original || original.recurrenceId || !master) {
+        logger.warn(`No master event found for ${event.id}, regenerating iCalendar data`);
+        return this.generateICalEvent(event);
       }
 
-      if (event.lastModified) {
-        lines.push(`LAST-MODIFIED:${this.formatICalDate(event.lastModified)}`);
+      this.mergeEventComponent(master, original, event);
+
+      const kept = new Set([master]);
+      for (const override of event.overrides ?? []) {
+        const recurrenceId = override.recurrenceId?.getTime();
+        const edited = { ...override, id: event.id, overrides: undefined };
+        const originalOverride = original.overrides?.find(
+          (candidate) => candidate.recurrenceId?.getTime() === recurrenceId,
+        );
+        const component = components.find((candidate) => {
+          const property = getProperty(candidate, 'RECURRENCE-ID');
+          return (
+            property && parseDateValue(property.value, property.params)?.getTime() === recurrenceId
+          );
+        });
+
+        if (component && originalOverride) {
+          this.mergeEventComponent(component, originalOverride, edited);
+          kept.add(component);
+        } else {
+          const generated = this.generateComponent(edited);
+          calendar.components.push(generated);
+          kept.add(generated);
+        }
       }
 
-      // Dates
-      if (event.isAllDay) {
-        lines.push(`DTSTART;VALUE=DATE:${this.formatICalDate(event.start, true)}`);
-        lines.push(`DTEND;VALUE=DATE:${this.formatICalDate(event.end, true)}`);
-      } else {
-        lines.push(`DTSTART:${this.formatICalDate(event.start)}`);
-        lines.push(`DTEND:${this.formatICalDate(event.end)}`);
+      calendar.components = calendar.components.filter(
+        (component) => component.name !== 'VEVENT' || kept.has(component),
+      );
+
+      return serializeDocument(calendar);
+    } catch (error) {
+      logger.error('Error merging iCalendar data:', error);
+      throw new Error(`Failed to merge iCalendar data: ${error}`);
+    }
+  }
+
+  /**
+   * Rewrite the properties of the fields that differ between two versions of an event
+   */
+  private static mergeEventComponent(
+    component: ICalComponent,
+    original: Event,
+    event: Event,
+  ): void {
+    const normalize = (value: unknown) =>
+      JSON.stringify(
+        value === '' || (Array.isArray(value) && value.length === 0) ? null : (value ?? null),
+      );
+
+    const names = new Set<string>();
+    for (const [field, properties] of FIELD_PROPERTIES) {
+      if (normalize(original[field]) !== normalize(event[field])) {
+        properties.forEach((name) => names.add(name));
       }
+    }
+
+    const remindersChanged = normalize(original.reminders) !== normalize(event.reminders);
+
+    if (names.size === 0 && !remindersChanged) {
+      return;
+    }
 
-      // Basic properties
-      lines.push(`SUMMARY:${this.escapeICalText(event.title)}`);
+    const generated = this.generateComponent(event);
+    names.forEach((name) => this.replaceProperties(component, generated, name));
 
-      if (event.description) {
-        lines.push(`DESCRIPTION:${this.escapeICalText(event.description)}`);
+    if (remindersChanged) {
+      this.mergeAlarms(component, event.reminders ?? []);
+    }
+
+    const sequence = parseInt(getProperty(component, 'SEQUENCE')?.value ?? '0');
+    setProperty(component, 'SEQUENCE', String((isNaN(sequence) ? 0 : sequence) + 1));
+
+    const now = this.formatICalDate(new Date());
+    setProperty(component, 'DTSTAMP', now);
+    setProperty(component, 'LAST-MODIFIED', now);
+  }
+
+  /**
+   * Replace the alarms of a component by those of the given reminders
+   * Alarms matching a reminder are kept unchanged (including X-WR-ALARMUID and the
+   * like), as are alarms with actions this parser does not model.
+   */
+  private static mergeAlarms(component: ICalComponent, reminders: EventReminder[]): void {
+    const added = [...reminders];
+
+    component.components = component.components.filter((child) => {
+      const reminder = child.name === 'VALARM' ? parseAlarmComponent(child) : null;
+      if (!reminder) {
+        return true;
       }
 
-      if (event.location) {
-        lines.push(`LOCATION:${this.escapeICalText(event.location)}`);
+      const index = added.findIndex((candidate) => isSameReminder(candidate, reminder));
+      if (index === -1) {
+        return false;
       }
 
-      // Status
-      if (event.status) {
-        lines.push(`STATUS:${event.status.toUpperCase()}`);
+      added.splice(index, 1);
+      return true;
+    });
+
+    component.components.push(...added.map(createAlarmComponent));
+  }
+
+  /**
+   * Replace all properties with a given name by those of another component
+   * Replacements stay at the position of the first original property and keep
+   * the parameters of an original property with the same value (e.g. RSVP on an attendee).
+   */
+  private static replaceProperties(
+    component: ICalComponent,
+    source: ICalComponent,
+    name: string,
+  ): void {
+    const existing = getProperties(component, name);
+    const replacements = getProperties(source, name).map((property) => {
+      const match = existing.find(
+        (candidate) => candidate.value.toLowerCase() === property.value.toLowerCase(),
+      );
+      return match
+        ? { ...property, params: new Map([...match.params, ...property.params]) }
+        : property;
+    });
+
+    const index = component.properties.findIndex((property) => property.name === name);
+    const before = index === -1 ? component.properties : component.properties.slice(0, index);
+    const after = index === -1 ? [] : component.properties.slice(index);
+
+    component.properties = [
+      ...before,
+      ...replacements,
+      ...after.filter((property) => property.name !== name),
+    ];
+  }
+
+  /**
+   * Generate the VEVENT component of a single event
+   */
+  private static generateComponent(event: Event): ICalComponent {
+    const lines: string[] = [];
+    this.generateEventComponent(event, lines);
+    return parseDocument(lines.join('\r\n'));
+  }
+
+  /**
+   * Generate the VEVENT lines of a single event
+   */
+  private static generateEventComponent(event: Event, lines: string[]): void {
+    const dateParams = this.getDateParams(event);
+    const dateProperty = (name: string, date: Date) =>
+      formatProperty({ name, params: dateParams, value: formatDateValue(date, dateParams) });
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.id}`);
+
+    if (event.recurrenceId) {
+      lines.push(dateProperty('RECURRENCE-ID', event.recurrenceId));
+    }
+
+    lines.push(`DTSTAMP:${this.formatICalDate(new Date())}`);
+
+    if (event.created) {
+      lines.push(`CREATED:${this.formatICalDate(event.created)}`);
+    }
+
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${this.formatICalDate(event.lastModified)}`);
+    }
+
+    // Dates
+    lines.push(dateProperty('DTSTART', event.start));
+    lines.push(dateProperty('DTEND', event.end));
+
+    // Recurrence
+    if (event.recurrenceRule) {
+      lines.push(`RRULE:${this.formatRecurrenceRule(event.recurrenceRule, event.isAllDay)}`);
+
+      for (const exDate of event.recurrenceRule.exDates ?? []) {
+        lines.push(dateProperty('EXDATE', exDate));
       }
 
-      // Availability
-      if (event.availability) {
-        lines.push(`TRANSP:${event.availability === 'free' ? 'TRANSPARENT' : 'OPAQUE'}`);
+      for (const rDate of event.recurrenceRule.rDates ?? []) {
+        lines.push(dateProperty('RDATE', rDate));
       }
+    }
+
+    // Basic properties
+    lines.push(`SUMMARY:${this.escapeICalText(event.title)}`);
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${this.escapeICalText(event.description)}`);
+    }
 
-      // Categories
-      if (event.categories && event.categories.length > 0) {
-        lines.push(`CATEGORIES:${event.categories.join(',')}`);
+    if (event.location) {
+      lines.push(`LOCATION:${this.escapeICalText(event.location)}`);
+    }
+
+    // Status
+    if (event.status) {
+      lines.push(`STATUS:${event.status.toUpperCase()}`);
+    }
+
+    // Visibility
+    if (event.visibility) {
+      lines.push(`CLASS:${event.visibility.toUpperCase()}`);
+    }
+
+    // Availability
+    if (event.availability) {
+      lines.push(`TRANSP:${event.availability === 'free' ? 'TRANSPARENT' : 'OPAQUE'}`);
+    }
+
+    // Categories
+    if (event.categories && event.categories.length > 0) {
+      lines.push(`CATEGORIES:${event.categories.join(',')}`);
+    }
+
+    // Organizer and attendees
+    if (event.organizer) {
+      lines.push(`ORGANIZER:mailto:${event.organizer}`);
+    }
+
+    for (const participant of event.participants ?? []) {
+      lines.push(this.formatAttendee(participant));
+    }
+
+    // Alarms
+    for (const reminder of event.reminders ?? []) {
+      const alarm = createAlarmComponent(reminder);
+      lines.push('BEGIN:VALARM', ...alarm.properties.map(formatProperty), 'END:VALARM');
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  /**
+   * Get the parameters used for the date properties of an event
+   * All-day events use DATE values, events with a known timezone local times
+   * with a TZID, and all other events UTC times.
+   */
+  private static getDateParams(event: Event): Map<string, string> {
+    if (event.isAllDay) {
+      return new Map([['VALUE', 'DATE']]);
+    }
+
+    if (event.timezone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: event.timezone });
+        return new Map([['TZID', event.timezone]]);
+      } catch {
+        logger.debug(`Unknown timezone ${event.timezone}, writing UTC times`);
       }
+    }
 
-      lines.push('END:VEVENT');
-      lines.push('END:VCALENDAR');
+    return new Map();
+  }
 
-      return lines.join('\r\n');
-    } catch (error) {
-      logger.error('Error generating iCalendar data:', error);
-      throw new Error(`Failed to generate iCalendar data: ${error}`);
+  /**
+   * Format a recurrence rule as an RRULE value
+   */
+  private static formatRecurrenceRule(rule: RecurrenceRule, isAllDay: boolean): string {
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+    if (rule.interval && rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+
+    if (rule.count) {
+      parts.push(`COUNT=${rule.count}`);
+    } else if (rule.until) {
+      // UNTIL must be a DATE for all-day events and a UTC date-time otherwise
+      const params = isAllDay ? new Map([['VALUE', 'DATE']]) : new Map<string, string>();
+      parts.push(`UNTIL=${formatDateValue(rule.until, params)}`);
+    }
+
+    if (rule.byDay && rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.join(',')}`);
+    }
+
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+      parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    }
+
+    if (rule.byMonth && rule.byMonth.length > 0) {
+      parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    }
+
+    if (rule.bySetPos && rule.bySetPos.length > 0) {
+      parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
     }
+
+    return parts.join(';');
   }
 
   /**
-   * Format date for iCalendar
+   * Format a participant as an ATTENDEE line
    */
-  private static formatICalDate(date: Date, dateOnly = false): string {
-    if (dateOnly) {
-      return date.toISOString().substring(0, 10).replace(/-/g, '');
-    } else {
-      return date
-        .toISOString()
-        .replace(/[-:]/g, '')
-        .replace(/\.\d{3}/, '');
+  private static formatAttendee(participant: Participant): string {
+    const params = new Map<string, string>();
+
+    if (participant.name && participant.name !== participant.email) {
+      params.set('CN', participant.name);
     }
+
+    params.set('ROLE', participant.role === 'optional' ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT');
+    params.set('PARTSTAT', participant.status.toUpperCase());
+
+    if (participant.rsvp) {
+      params.set('RSVP', 'TRUE');
+    }
+
+    if (participant.scheduleAgent) {
+      params.set('SCHEDULE-AGENT', participant.scheduleAgent.toUpperCase());
+    }
+
+    if (participant.comment) {
+      params.set('X-RESPONSE-COMMENT', toParamText(participant.comment));
+    }
+
+    return formatProperty({ name: 'ATTENDEE', params, value: `mailto:${participant.email}` });
+  }
+
+  /**
+   * Format date for iCalendar
+   */
+  private static formatICalDate(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
   }
 
   /**
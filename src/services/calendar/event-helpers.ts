@@ -1,7 +1,7 @@
 /**
  * Helper functions for validating and processing event data
  */
-import type { Participant, RecurrenceRule } from '../../models/calendar.js';
+import type { EventReminder, Participant, RecurrenceRule } from '../../models/calendar.js';
 
 /**
  * Helper functions for validating and processing event data
@@ -108,19 +108,22 @@ export const EventHelpers = {
     }
 
     // Validate array fields
-    const validateDayArray = (
-      days: unknown,
-    ): ('MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU')[] | undefined => {
+    const validateDayArray = (days: unknown): RecurrenceRule['byDay'] | undefined => {
       if (!days) return undefined;
       if (!Array.isArray(days)) throw new Error('byDay must be an array');
 
       const validDays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
       for (const day of days) {
-        if (!validDays.includes(day as string)) {
+        // Days may carry an ordinal prefix such as '2TU' or '-1FR'
+        const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(day as string);
+        if (!match || !validDays.includes(match[2])) {
           throw new Error(`Invalid day: ${day}. Must be one of: ${validDays.join(', ')}`);
         }
+        if (match[1] && (Number(match[1]) === 0 || Math.abs(Number(match[1])) > 53)) {
+          throw new Error(`Invalid day ordinal: ${day}. Must be between -53 and 53, excluding 0`);
+        }
       }
-      return days as ('MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU')[];
+      return days as RecurrenceRule['byDay'];
     };
 
     const validateNumberArray = (numbers: unknown, fieldName: string): number[] | undefined => {
@@ -243,6 +246,59 @@ export const EventHelpers = {
         role: p.role as 'required' | 'optional' | undefined,
         type: p.type as 'individual' | 'group' | 'resource' | 'room' | undefined,
         comment: p.comment as string | null | undefined,
+        rsvp: p.rsvp as boolean | undefined,
+        scheduleAgent: p.scheduleAgent as Participant['scheduleAgent'],
+      };
+    });
+  },
+  /**
+   * Validates reminders and converts their trigger times to dates
+   * @param reminders Array of reminders
+   * @returns Array of validated reminders
+   * @throws Error if reminder data is invalid
+   */
+  processReminders(reminders: Record<string, unknown>[] | undefined): EventReminder[] | undefined {
+    if (!reminders) return undefined;
+
+    return reminders.map((r) => {
+      const type = r.type as EventReminder['type'];
+      const triggerAt =
+        r.triggerAt !== undefined
+          ? this.validateDate(r.triggerAt as string, 'reminder trigger')
+          : undefined;
+
+      if (triggerAt === undefined && r.minutesBefore === undefined) {
+        throw new Error('Reminder requires either minutesBefore or triggerAt');
+      }
+
+      const attendees = r.attendees as string[] | undefined;
+      for (const email of attendees ?? []) {
+        if (!this.isValidEmail(email)) {
+          throw new Error(`Invalid email format: ${email}`);
+        }
+      }
+      if (attendees && type !== 'email') {
+        throw new Error('Only email reminders can have attendees');
+      }
+
+      // RFC 5545 requires REPEAT and DURATION to be given together
+      const repeat = r.repeat as number | undefined;
+      const repeatIntervalMinutes = r.repeatIntervalMinutes as number | undefined;
+      if ((repeat !== undefined) !== (repeatIntervalMinutes !== undefined)) {
+        throw new Error('Reminder repeat and repeatIntervalMinutes must be given together');
+      }
+
+      return {
+        type,
+        minutesBefore: (r.minutesBefore as number | undefined) ?? 0,
+        relativeTo: r.relativeTo as EventReminder['relativeTo'],
+        triggerAt,
+        description: r.description as string | undefined,
+        summary: r.summary as string | undefined,
+        attendees,
+        attachment: r.attachment as string | undefined,
+        repeat,
+        repeatIntervalMinutes,
       };
     });
   },
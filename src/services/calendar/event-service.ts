@@ -2,16 +2,35 @@
  * Service for handling Nextcloud calendar events via CalDAV - Enhanced Version
  */
 import { NextcloudConfig } from '../../config/config.js';
-import { Event } from '../../models/index.js';
+import { Event, BusyPeriod, FreeBusyResult, RecurrenceRule } from '../../models/index.js';
 import { createLogger } from '../logger.js';
 import { XmlService, CalDavXmlBuilder } from '../xml/index.js';
 import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
 import { EnhancedICalParser } from './enhanced-ical-utils.js';
-import { CalendarHttpClient, CalDavError } from './http-client.js';
+import { CalendarHttpClient, CalDavError, ConflictError } from './http-client.js';
+import { SyncCache, SyncResult, getAccountCacheDir } from './sync-cache.js';
+import * as FreeBusyUtils from './free-busy-utils.js';
+import * as RecurrenceExpander from './recurrence-expander.js';
+import * as OccurrenceUtils from './occurrence-utils.js';
+import * as ItipUtils from './itip-utils.js';
+import * as PaginationUtils from './pagination-utils.js';
+import * as MergeUtils from './merge-utils.js';
+import { VersionStore } from './version-store.js';
+import { ICalComponent, parseDocument, serializeDocument } from './ical-document.js';
 import { TimezoneService } from '../timezone-service.js';
 
 import crypto from 'crypto';
 
+/**
+ * Master event of a recurring series
+ */
+type RecurringEvent = Event & { recurrenceRule: RecurrenceRule };
+
+/**
+ * Most writes of a merged update; each retry merges into the version another client just wrote
+ */
+const MAX_MERGE_ATTEMPTS = 3;
+
 export class EventService {
   private config: NextcloudConfig;
   private httpClient: CalendarHttpClient;
@@ -20,6 +39,9 @@ export class EventService {
   private enhancedXmlService: EnhancedXmlService;
   private caldavXmlBuilder: CalDavXmlBuilder;
   private timezoneService: TimezoneService;
+  private syncCache: SyncCache | null;
+  private versions = new VersionStore();
+  private calendarUserAddresses: string[] | null = null;
 
   constructor(config: NextcloudConfig) {
     this.config = config;
@@ -32,13 +54,22 @@ export class EventService {
     const baseUrl = this.config.baseUrl.replace(/\/$/, '');
 
     // Initialize HTTP client
-    this.httpClient = new CalendarHttpClient(baseUrl, this.config.username, this.config.appToken);
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
 
     // Initialize XML services
     this.xmlService = new XmlService();
     this.enhancedXmlService = new EnhancedXmlService();
     this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
 
+    // Initialize the local cache, if configured
+    const cacheDir = getAccountCacheDir(this.config);
+    this.syncCache = cacheDir ? new SyncCache(cacheDir, this.httpClient) : null;
+
     // Initialize timezone service with user preferences
     this.timezoneService = new TimezoneService(
       this.config.defaultTimezone || 'Europe/Paris',
@@ -161,54 +192,11 @@ export class EventService {
       const timeRange =
         options?.start && options?.end ? { start: options.start, end: options.end } : undefined;
 
-      // Build the REPORT request for calendar events
-      const reportXml = this.caldavXmlBuilder.buildCalendarQueryReport(timeRange);
-
-      this.logger.debug('Sending CalDAV REPORT request', { calendarId, timeRange });
-
-      // Send the REPORT request
-      const reportResponse = await this.httpClient.calendarReport(calendarId, reportXml);
-
-      this.logger.debug('Received CalDAV REPORT response, parsing...');
-
-      // Parse the XML response using enhanced parser
-      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
-
-      // Extract events from the response using enhanced parser
-      const events: Event[] = [];
-      const responses = this.enhancedXmlService.extractMultistatusResponses(xmlData);
-
-      this.logger.debug(`Processing ${responses.length} CalDAV responses`);
-
-      for (const response of responses) {
-        try {
-          // Get the href (event URL)
-          const href = response.href;
-
-          if (!href) {
-            this.logger.debug('Skipping response with no href');
-            continue;
-          }
-
-          // Get calendar data from properties using enhanced extractor
-          const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
-
-          if (!calendarData) {
-            this.logger.debug('Skipping response with no calendar data', { href });
-            continue;
-          }
-
-          this.logger.debug('Parsing iCalendar data for event', { href });
-
-          // Parse the iCalendar data using enhanced parser
-          const parsedEvents = EnhancedICalParser.parseICalEvents(calendarData, calendarId);
-
-          // Add to our list of events
-          events.push(...parsedEvents);
-        } catch (parseError) {
-          this.logger.warn('Error parsing event response:', parseError);
-        }
-      }
+      // Read from the local cache when it is enabled, otherwise query the server
+      const cachedEvents = this.syncCache
+        ? await this.getCachedEvents(calendarId, timeRange)
+        : null;
+      const events = cachedEvents ?? (await this.queryEvents(calendarId, timeRange));
 
       this.logger.info(`Successfully fetched ${events.length} events from calendar ${calendarId}`);
 
@@ -267,6 +255,187 @@ export class EventService {
     }
   }
 
+  /**
+   * Get a page of the events of a calendar, ordered by start time and then UID
+   * Later pages query the server from the start of the cursor on, so they fetch fewer events.
+   * @param calendarId ID of the calendar to get events from
+   * @param options Filtering parameters as for getEvents, the cursor of the page (the first
+   * page if omitted) and limit, the page size (all remaining events if omitted)
+   * @returns Promise<Page<Event>> The events of the page and the cursor of the next page
+   * @throws InvalidCursorError if the cursor is malformed or belongs to other parameters
+   */
+  async getEventsPage(
+    calendarId: string,
+    options: Parameters<EventService['getEvents']>[1] & { cursor?: string } = {},
+  ): Promise<PaginationUtils.Page<Event>> {
+    const { cursor, limit, ...filters } = options;
+    const scope = PaginationUtils.getScope({ calendarId, ...filters });
+
+    // Like getEvents, use the default range unless both ends are given
+    const range =
+      filters.start && filters.end
+        ? { start: filters.start, end: filters.end }
+        : this.caldavXmlBuilder.getDefaultTimeRange();
+
+    // Events of the next page start at or after the last event of this page
+    if (cursor) {
+      const [cursorStart] = PaginationUtils.decodeCursor(cursor, scope);
+      if (typeof cursorStart === 'number' && cursorStart > range.start.getTime()) {
+        range.start = new Date(cursorStart);
+      }
+    }
+
+    const events = await this.getEvents(calendarId, { ...filters, ...range });
+    return PaginationUtils.paginate(events, (event) => [event.start.getTime(), event.id], {
+      cursor,
+      limit,
+      scope,
+    });
+  }
+
+  /**
+   * Query the events of a calendar with the calendar-query REPORT
+   * @param calendarId ID of the calendar
+   * @param timeRange Time range of the query; the default range if omitted
+   * @returns Promise<Event[]> Events of the resources overlapping the range
+   * @private Internal utility method
+   */
+  private async queryEvents(
+    calendarId: string,
+    timeRange?: { start: Date; end: Date },
+  ): Promise<Event[]> {
+    // Build the REPORT request for calendar events
+    const reportXml = this.caldavXmlBuilder.buildCalendarQueryReport(timeRange);
+
+    this.logger.debug('Sending CalDAV REPORT request', { calendarId, timeRange });
+
+    // Send the REPORT request
+    const reportResponse = await this.httpClient.calendarReport(calendarId, reportXml);
+
+    this.logger.debug('Received CalDAV REPORT response, parsing...');
+
+    // Parse the XML response using enhanced parser
+    const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
+
+    // Extract events from the response using enhanced parser
+    const events: Event[] = [];
+    const responses = this.enhancedXmlService.extractMultistatusResponses(xmlData);
+
+    this.logger.debug(`Processing ${responses.length} CalDAV responses`);
+
+    for (const response of responses) {
+      try {
+        // Get the href (event URL)
+        const href = response.href;
+
+        if (!href) {
+          this.logger.debug('Skipping response with no href');
+          continue;
+        }
+
+        // Get calendar data from properties using enhanced extractor
+        const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
+
+        if (!calendarData) {
+          this.logger.debug('Skipping response with no calendar data', { href });
+          continue;
+        }
+
+        this.logger.debug('Parsing iCalendar data for event', { href });
+
+        // Parse the iCalendar data using enhanced parser
+        const etag = this.enhancedXmlService.extractEtag(response.properties) ?? undefined;
+        this.versions.remember(href, etag, calendarData);
+        const parsedEvents = EnhancedICalParser.parseICalEvents(calendarData, calendarId);
+
+        // Add to our list of events
+        events.push(...parsedEvents.map((event) => ({ ...event, etag })));
+      } catch (parseError) {
+        this.logger.warn('Error parsing event response:', parseError);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Get the events of a calendar from the local cache after syncing it
+   * @param calendarId ID of the calendar
+   * @param timeRange Time range to filter by; the default range of calendar queries if omitted
+   * @returns Promise<Event[] | null> Events of the resources overlapping the range,
+   * or null if the calendar cannot be synced
+   * @private Internal utility method
+   */
+  private async getCachedEvents(
+    calendarId: string,
+    timeRange?: { start: Date; end: Date },
+  ): Promise<Event[] | null> {
+    let result: SyncResult;
+    try {
+      result = await this.syncCalendar(calendarId);
+    } catch (error) {
+      this.logger.warn(`Failed to sync calendar ${calendarId}, querying the server:`, error);
+      return null;
+    }
+
+    const range = timeRange ?? this.caldavXmlBuilder.getDefaultTimeRange();
+    const events: Event[] = [];
+
+    for (const [href, resource] of Object.entries(result.resources)) {
+      try {
+        const parsedEvents = EnhancedICalParser.parseICalEvents(resource.data, calendarId);
+
+        // Like a calendar-query time-range filter, keep whole resources with an instance in the range
+        const instances = RecurrenceExpander.expandEvents(parsedEvents, range.start, range.end, {
+          timezone: this.config.defaultTimezone || 'Europe/Paris',
+        })
+          // Events that do not recur are passed through whatever their time
+          .flatMap((instance) => RecurrenceExpander.expandEvent(instance, range.start, range.end));
+        if (instances.length > 0) {
+          // Only returned versions can be the base of a merge; the others would crowd them out
+          this.versions.remember(href, resource.etag, resource.data);
+          events.push(
+            ...parsedEvents.map((event) => ({ ...event, etag: resource.etag ?? undefined })),
+          );
+        }
+      } catch (parseError) {
+        this.logger.warn(`Error parsing cached event ${href}:`, parseError);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Bring the local cache of a calendar up to date with sync-collection
+   * @param calendarId ID of the calendar
+   * @returns Promise<SyncResult> The changes and all resources of the calendar
+   * @throws Error if the local cache is disabled or the server rejects the sync
+   */
+  async syncCalendar(calendarId: string): Promise<SyncResult> {
+    this.validateCalendarId(calendarId);
+
+    if (!this.syncCache) {
+      throw new Error('The local cache is disabled; set NEXTCLOUD_CACHE_DIR to enable it');
+    }
+
+    return this.syncCache.sync(
+      `${this.httpClient.getCalDavUrl()}${calendarId}/`,
+      'c:calendar-data',
+    );
+  }
+
+  /**
+   * Drop an event from the local cache after writing it
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the event
+   * @private Internal utility method
+   */
+  private invalidateCachedEvent(calendarId: string, eventId: string): void {
+    const calendarUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/`;
+    this.syncCache?.invalidate(calendarUrl, `${calendarUrl}${eventId}.ics`);
+  }
+
   /**
    * Get a specific event by ID
    * @param calendarId ID of the calendar containing the event
@@ -284,8 +453,9 @@ export class EventService {
       // Construct the event URL
       const eventUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${eventId}.ics`;
 
-      // Fetch the event directly
-      const iCalData = await this.httpClient.getEvent(eventUrl);
+      // Fetch the event directly, with the ETag of its resource
+      const { data: iCalData, etag } = await this.httpClient.getWithEtag(eventUrl, 'text/calendar');
+      this.versions.remember(eventUrl, etag, iCalData);
 
       // Parse the iCalendar data using enhanced parser
       const events = EnhancedICalParser.parseICalEvents(iCalData, calendarId);
@@ -295,7 +465,7 @@ export class EventService {
       }
 
       // Return the first (and should be only) event
-      const event = events[0];
+      const event = { ...events[0], etag: etag ?? undefined };
       this.logger.debug(`Successfully fetched event ${eventId} from calendar ${calendarId}`);
       return event;
     } catch (error) {
@@ -310,6 +480,83 @@ export class EventService {
     }
   }
 
+  /**
+   * Get several events of a calendar by ID with calendar-multiget, many per request
+   * @param calendarId ID of the calendar containing the events
+   * @param eventIds IDs of the events to fetch
+   * @returns Promise with the events found, in the order of the IDs, and the IDs not found
+   */
+  async getEventsByIds(
+    calendarId: string,
+    eventIds: string[],
+  ): Promise<{ events: Event[]; notFound: string[] }> {
+    this.validateCalendarId(calendarId);
+    const ids = [...new Set(eventIds)];
+    ids.forEach((eventId) => this.validateEventId(eventId));
+
+    const calendarUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/`;
+    const found = new Map<string, Event>();
+
+    try {
+      const responses = await this.httpClient.multiget(
+        calendarUrl,
+        ids.map((eventId) => `${calendarUrl}${eventId}.ics`),
+        (batch) => this.caldavXmlBuilder.buildCalendarMultigetRequest(batch),
+      );
+
+      for (const response of responses) {
+        const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+
+        for (const { href, properties } of this.enhancedXmlService.extractMultistatusResponses(
+          xmlData,
+        )) {
+          const iCalData = this.enhancedXmlService.extractCalendarData(properties);
+          if (!href || !iCalData) {
+            continue;
+          }
+
+          // The ID of an event is the name of its resource
+          const eventId = decodeURIComponent(href.split('/').pop() ?? '').replace(/\.ics$/, '');
+          try {
+            const etag = this.enhancedXmlService.extractEtag(properties);
+            const events = EnhancedICalParser.parseICalEvents(iCalData, calendarId);
+            this.versions.remember(`${calendarUrl}${eventId}.ics`, etag, iCalData);
+            if (events.length > 0) {
+              found.set(eventId, { ...events[0], etag: etag ?? undefined });
+            }
+          } catch (parseError) {
+            this.logger.warn(`Error parsing event ${href}:`, parseError);
+          }
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error fetching events from calendar ${calendarId}:`, error);
+      throw new Error(`Failed to fetch events: ${(error as Error).message}`);
+    }
+
+    this.logger.debug(`Fetched ${found.size} of ${ids.length} events from calendar ${calendarId}`);
+    return {
+      events: ids.flatMap((eventId) => found.get(eventId) ?? []),
+      notFound: ids.filter((eventId) => !found.has(eventId)),
+    };
+  }
+
+  /**
+   * Get the ETag of an event, which changes whenever the event changes
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the event
+   * @returns Promise<string | null> The ETag, or null if the server did not send one
+   * @throws CalDavError with status 404 if the event does not exist
+   */
+  async getEventEtag(calendarId: string, eventId: string): Promise<string | null> {
+    this.validateCalendarId(calendarId);
+    this.validateEventId(eventId);
+
+    return this.httpClient.getEventEtag(
+      `${this.httpClient.getCalDavUrl()}${calendarId}/${eventId}.ics`,
+    );
+  }
+
   /**
    * Create a new event in a calendar
    * @param calendarId ID of the calendar to add the event to
@@ -349,7 +596,7 @@ export class EventService {
         end: event.end,
         isAllDay: event.isAllDay || false,
         location: event.location,
-        organizer: event.organizer,
+        organizer: event.organizer ?? (await this.getDefaultOrganizer(event.participants)),
         participants: event.participants,
         recurrenceRule: event.recurrenceRule,
         status: event.status,
@@ -376,6 +623,7 @@ export class EventService {
       if (!success) {
         throw new Error('Failed to create event, server did not acknowledge successful creation');
       }
+      this.invalidateCachedEvent(calendarId, eventId);
 
       // Return the complete event object
       this.logger.info(`Event ${eventId} created successfully in calendar ${calendarId}`);
@@ -386,14 +634,80 @@ export class EventService {
     }
   }
 
+  /**
+   * Get the email addresses the server knows the user by (calendar-user-address-set)
+   * The addresses are read once and cached.
+   * @returns Promise<string[]> Lowercased email addresses, primary address first
+   */
+  async getCalendarUserAddresses(): Promise<string[]> {
+    if (this.calendarUserAddresses) {
+      return this.calendarUserAddresses;
+    }
+
+    try {
+      const xmlResponse = await this.httpClient.propfind(
+        this.caldavXmlBuilder.buildPropfindRequest(['c:calendar-user-address-set']),
+        this.httpClient.getPrincipalUrl(),
+        '0',
+      );
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(xmlResponse);
+      const addresses = this.enhancedXmlService
+        .extractMultistatusResponses(xmlData)
+        .flatMap((response) => ItipUtils.extractCalendarUserAddresses(response.properties));
+
+      this.calendarUserAddresses = [...new Set(addresses)];
+      return this.calendarUserAddresses;
+    } catch (error) {
+      this.logger.error('Error fetching calendar user addresses:', error);
+      throw new Error(`Failed to fetch calendar user addresses: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Choose the organizer of a new event with participants
+   * Nextcloud only sends invitations (iTIP REQUEST) and cancellations when the
+   * organizer is one of the user's own addresses.
+   * @param participants Participants of the new event
+   * @returns The user's primary address, or undefined if there are no participants
+   * @private Internal utility method
+   */
+  private async getDefaultOrganizer(
+    participants?: Event['participants'],
+  ): Promise<string | undefined> {
+    if (!participants || participants.length === 0) {
+      return undefined;
+    }
+
+    try {
+      const [address] = await this.getCalendarUserAddresses();
+      return address;
+    } catch (error) {
+      this.logger.warn('Creating event without organizer, invitations will not be sent', error);
+      return undefined;
+    }
+  }
+
   /**
    * Update an existing event
    * @param calendarId ID of the calendar containing the event
    * @param eventId ID of the event to update
    * @param updates Partial event object with updated properties
+   * @param expectedEtag ETag of the version the updates are based on; if given, the event is only
+   * updated if it is still that version
+   * @param options With merge, updates based on an older version are merged into the current
+   * version field by field instead of failing; base is the version of expectedEtag, if this
+   * service did not read it
    * @returns Promise<Event> The updated event
+   * @throws ConflictError if the event changed since it was read, MergeConflictError if the
+   * updates conflict with those changes
    */
-  async updateEvent(calendarId: string, eventId: string, updates: Partial<Event>): Promise<Event> {
+  async updateEvent(
+    calendarId: string,
+    eventId: string,
+    updates: Partial<Event>,
+    expectedEtag?: string,
+    options: MergeUtils.MergeOptions<Event> = {},
+  ): Promise<Event> {
     this.logger.debug(`Updating event ${eventId} in calendar ${calendarId}`);
 
     try {
@@ -401,70 +715,468 @@ export class EventService {
       this.validateCalendarId(calendarId);
       this.validateEventId(eventId);
 
-      // Fetch the current event to get existing data
-      const currentEvent = await this.getEventById(calendarId, eventId);
+      // Fetch the current resource; edits are merged into it so that properties
+      // this server does not model are preserved
+      let { calendar, etag } = await this.fetchEventResource(
+        calendarId,
+        eventId,
+        options.merge ? undefined : expectedEtag,
+      );
+      let changes = updates;
+
+      // Updates based on an older version are merged into the current one
+      if (options.merge && expectedEtag && expectedEtag !== etag) {
+        const eventUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${eventId}.ics`;
+        const base = options.base ?? this.versions.recall(eventUrl, expectedEtag);
+        if (!base) {
+          // The version the updates are based on is unknown, so they cannot be merged
+          throw new ConflictError(etag, serializeDocument(calendar));
+        }
+        changes = this.mergeEventUpdates(
+          typeof base === 'string'
+            ? this.parseMasterEvent(parseDocument(base), calendarId, eventId)
+            : { ...base, id: eventId, calendarId },
+          calendar,
+          etag,
+          changes,
+        );
+      }
 
-      // Merge the updates with the current event
-      const updatedEvent: Event = {
-        ...currentEvent,
-        ...updates,
-        id: eventId, // Ensure ID doesn't change
-        calendarId: calendarId, // Ensure calendar doesn't change
-        lastModified: new Date(), // Update the modification timestamp
-      };
+      for (let attempt = 1; ; attempt++) {
+        const currentEvent = this.parseMasterEvent(calendar, calendarId, eventId);
 
-      // We need to fetch the event's ETag to avoid conflicts
-      // This involves making a direct request to the event URL
-      const eventUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${eventId}.ics`;
-      let etag = '';
+        // Merge the updates with the current event
+        const updatedEvent: Event = {
+          ...currentEvent,
+          ...changes,
+          id: eventId, // Ensure ID doesn't change
+          calendarId: calendarId, // Ensure calendar doesn't change
+          lastModified: new Date(), // Update the modification timestamp
+          etag: undefined, // The stored version changes
+        };
 
-      try {
-        // Make a HEAD request to get the ETag using the httpClient instead of direct axios
-        const response = await this.httpClient.getEventEtag(eventUrl);
-        etag = response || '';
-      } catch (etagError) {
-        this.logger.warn(
-          `Failed to fetch ETag for event ${eventId}, proceeding without optimistic concurrency control`,
-          etagError,
+        // Merge the changed fields into the original iCalendar data
+        const iCalData = EnhancedICalParser.mergeICalEvent(calendar, updatedEvent);
+
+        // Update the event via PUT request, only if nobody changed it in between
+        let success: boolean;
+        try {
+          success = await this.httpClient.updateEvent(calendarId, eventId, iCalData, etag);
+        } catch (error) {
+          // Changed by another client since it was fetched: merge into that version and retry
+          if (
+            !options.merge ||
+            !(error instanceof ConflictError) ||
+            !error.currentData ||
+            !error.currentEtag ||
+            attempt >= MAX_MERGE_ATTEMPTS
+          ) {
+            throw error;
+          }
+          calendar = parseDocument(error.currentData);
+          etag = error.currentEtag;
+          changes = this.mergeEventUpdates(currentEvent, calendar, etag, changes);
+          continue;
+        }
+
+        if (!success) {
+          throw new Error('Failed to update event, server did not acknowledge successful update');
+        }
+        this.invalidateCachedEvent(calendarId, eventId);
+
+        // Return the updated event object
+        this.logger.info(`Event ${eventId} updated successfully in calendar ${calendarId}`);
+        return updatedEvent;
+      }
+    } catch (error) {
+      this.logger.error(`Error updating event ${eventId} in calendar ${calendarId}:`, error);
+
+      // Conflicts carry the current version, so callers can read it again and retry
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      // Check for optimistic concurrency failures using the CalDavError type
+      if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+        throw new Error(
+          `The event was modified by another user. Please refresh the event data and try again.`,
         );
       }
 
-      // Generate iCalendar data using enhanced generator
-      const iCalData = EnhancedICalParser.generateICalEvent(updatedEvent);
+      throw new Error(`Failed to update event: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Merge updates made to an older version of an event into the current version
+   * @param base The event as it was when the updates were made
+   * @param calendar The current version of the resource
+   * @param etag ETag of the current version
+   * @param updates The updates
+   * @returns The updates to apply to the current version
+   * @throws MergeConflictError if another client changed the same fields differently
+   * @private Internal utility method
+   */
+  private mergeEventUpdates(
+    base: Partial<Event> & Pick<Event, 'id' | 'calendarId'>,
+    calendar: ICalComponent,
+    etag: string,
+    updates: Partial<Event>,
+  ): Partial<Event> {
+    const current = this.parseMasterEvent(calendar, base.calendarId, base.id);
+    const { changes, conflicts } = MergeUtils.mergeEventChanges(base, current, updates);
+
+    if (conflicts.length > 0) {
+      throw new MergeUtils.MergeConflictError(etag, serializeDocument(calendar), conflicts);
+    }
+    return changes;
+  }
+
+  /**
+   * Parse the event of a resource
+   * @param calendar The VCALENDAR component
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the event
+   * @returns The event
+   * @throws Error if the resource contains no event
+   * @private Internal utility method
+   */
+  private parseMasterEvent(calendar: ICalComponent, calendarId: string, eventId: string): Event {
+    const [event] = EnhancedICalParser.parseICalEvents(serializeDocument(calendar), calendarId);
+
+    if (!event) {
+      throw new Error(`Event with ID ${eventId} not found in calendar ${calendarId}`);
+    }
+    return event;
+  }
+
+  /**
+   * Fetch an event resource as an editable iCalendar document
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the event
+   * @param expectedEtag ETag of the version the caller's changes are based on, if known
+   * @returns The VCALENDAR component and the resource's ETag, to write it back with
+   * @throws ConflictError if the resource is no longer the expected version
+   * @private Internal utility method
+   */
+  private async fetchEventResource(
+    calendarId: string,
+    eventId: string,
+    expectedEtag?: string,
+  ): Promise<{ calendar: ICalComponent; etag: string }> {
+    const eventUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${eventId}.ics`;
+    const { data, etag } = await this.httpClient.getForUpdate(eventUrl, 'text/calendar');
+    this.versions.remember(eventUrl, etag, data);
+
+    if (expectedEtag && expectedEtag !== etag) {
+      throw new ConflictError(etag, data);
+    }
+    return { calendar: parseDocument(data), etag };
+  }
+
+  /**
+   * Write an edited event resource back to the server
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the event
+   * @param calendar The VCALENDAR component to write
+   * @param etag ETag of the version that was edited
+   * @throws ConflictError if the resource changed since it was read
+   * @private Internal utility method
+   */
+  private async saveEventResource(
+    calendarId: string,
+    eventId: string,
+    calendar: ICalComponent,
+    etag: string,
+  ): Promise<void> {
+    const iCalData = serializeDocument(calendar);
+    const success = await this.httpClient.updateEvent(calendarId, eventId, iCalData, etag);
+
+    if (!success) {
+      throw new Error('Server did not acknowledge the update');
+    }
+    this.invalidateCachedEvent(calendarId, eventId);
+  }
+
+  /**
+   * Parse the master event of a recurring resource and check that an occurrence belongs to it
+   * @param calendar The VCALENDAR component
+   * @param calendarId ID of the calendar containing the event
+   * @param occurrenceStart Original start of the occurrence
+   * @returns The master event
+   * @throws Error if the event does not recur or has no occurrence at that time
+   * @private Internal utility method
+   */
+  private getSeriesMaster(
+    calendar: ICalComponent,
+    calendarId: string,
+    occurrenceStart: Date,
+  ): RecurringEvent {
+    const master = EnhancedICalParser.parseICalEvents(serializeDocument(calendar), calendarId).find(
+      (event) => !event.recurrenceId,
+    );
+
+    if (!master?.recurrenceRule) {
+      throw new Error('Event is not a recurring event');
+    }
 
-      // Update the event via PUT request
-      let success: boolean;
+    const series = master as RecurringEvent;
+    const matches = (date: Date) =>
+      series.isAllDay
+        ? date.toDateString() === occurrenceStart.toDateString()
+        : date.getTime() === occurrenceStart.getTime();
+
+    // Overridden occurrences keep their original start as RECURRENCE-ID
+    const occurrences = this.getOccurrenceStarts(series, new Date(occurrenceStart.getTime() + 1));
+    const overridden = (series.overrides ?? []).some(
+      (override) => override.recurrenceId && matches(override.recurrenceId),
+    );
+
+    if (!overridden && !occurrences.some(matches)) {
+      throw new Error(
+        `Event has no occurrence starting at ${occurrenceStart.toISOString()}; use the original start time of the occurrence`,
+      );
+    }
 
-      if (etag) {
-        success = await this.httpClient.updateEvent(calendarId, eventId, iCalData, etag);
-      } else {
-        // Fallback without ETag
-        success = await this.httpClient.putEvent(calendarId, eventId, iCalData);
+    return series;
+  }
+
+  /**
+   * Generate the occurrence start times of a series up to a given time
+   * @param master The master event
+   * @param until Occurrences starting at or after this time are not generated
+   * @param rule Rule to expand, defaults to the master's rule
+   * @returns Occurrence start times
+   * @private Internal utility method
+   */
+  private getOccurrenceStarts(
+    master: RecurringEvent,
+    until: Date,
+    rule = master.recurrenceRule,
+  ): Date[] {
+    return RecurrenceExpander.expandRecurrenceRule(rule, master.start, until, {
+      timezone: master.timezone ?? (this.config.defaultTimezone || 'Europe/Paris'),
+      isAllDay: master.isAllDay,
+      maxOccurrences: rule.count ?? 100000,
+    });
+  }
+
+  /**
+   * Update a single occurrence of a recurring event
+   * The change is stored as a RECURRENCE-ID override in the same resource, so
+   * the rest of the series is unaffected.
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the recurring event
+   * @param occurrenceStart Original start of the occurrence
+   * @param changes Changes to apply to the occurrence
+   * @param expectedEtag ETag of the version the changes are based on, if known
+   * @returns Promise<Event> The updated occurrence
+   * @throws ConflictError if the event changed since it was read
+   */
+  async updateEventOccurrence(
+    calendarId: string,
+    eventId: string,
+    occurrenceStart: Date,
+    changes: OccurrenceUtils.OccurrenceChanges,
+    expectedEtag?: string,
+  ): Promise<Event> {
+    this.logger.debug(`Updating occurrence of event ${eventId} in calendar ${calendarId}`, {
+      occurrenceStart,
+    });
+
+    try {
+      this.validateCalendarId(calendarId);
+      this.validateEventId(eventId);
+
+      if (changes.start && changes.end && changes.start >= changes.end) {
+        throw new Error('Start date must be before end date');
       }
 
-      if (!success) {
-        throw new Error('Failed to update event, server did not acknowledge successful update');
+      const { calendar, etag } = await this.fetchEventResource(calendarId, eventId, expectedEtag);
+      this.getSeriesMaster(calendar, calendarId, occurrenceStart);
+
+      OccurrenceUtils.overrideOccurrence(calendar, occurrenceStart, changes);
+      await this.saveEventResource(calendarId, eventId, calendar, etag);
+
+      const occurrence = EnhancedICalParser.parseICalEvents(serializeDocument(calendar), calendarId)
+        .flatMap((event) => event.overrides ?? [])
+        .find(
+          (override) =>
+            override.recurrenceId &&
+            (override.isAllDay
+              ? override.recurrenceId.toDateString() === occurrenceStart.toDateString()
+              : override.recurrenceId.getTime() === occurrenceStart.getTime()),
+        );
+
+      if (!occurrence) {
+        throw new Error('Updated occurrence could not be read back');
       }
 
-      // Return the updated event object
-      this.logger.info(`Event ${eventId} updated successfully in calendar ${calendarId}`);
-      return updatedEvent;
+      this.logger.info(`Occurrence of event ${eventId} updated in calendar ${calendarId}`);
+      return occurrence;
     } catch (error) {
-      this.logger.error(`Error updating event ${eventId} in calendar ${calendarId}:`, error);
+      this.logger.error(`Error updating occurrence of event ${eventId}:`, error);
 
-      // Check for optimistic concurrency failures using the CalDavError type
+      if (error instanceof ConflictError) {
+        throw error;
+      }
       if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
         throw new Error(
           `The event was modified by another user. Please refresh the event data and try again.`,
         );
       }
 
-      throw new Error(`Failed to update event: ${(error as Error).message}`);
+      throw new Error(`Failed to update event occurrence: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Cancel a single occurrence of a recurring event
+   * The occurrence is excluded with an EXDATE on the series, and any override for it is removed.
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the recurring event
+   * @param occurrenceStart Original start of the occurrence
+   * @param expectedEtag ETag of the version the deletion is based on, if known
+   * @returns Promise<boolean> True if the occurrence was cancelled
+   * @throws ConflictError if the event changed since it was read
+   */
+  async deleteEventOccurrence(
+    calendarId: string,
+    eventId: string,
+    occurrenceStart: Date,
+    expectedEtag?: string,
+  ): Promise<boolean> {
+    this.logger.debug(`Deleting occurrence of event ${eventId} in calendar ${calendarId}`, {
+      occurrenceStart,
+    });
+
+    try {
+      this.validateCalendarId(calendarId);
+      this.validateEventId(eventId);
+
+      const { calendar, etag } = await this.fetchEventResource(calendarId, eventId, expectedEtag);
+      this.getSeriesMaster(calendar, calendarId, occurrenceStart);
+
+      OccurrenceUtils.excludeOccurrence(calendar, occurrenceStart);
+      await this.saveEventResource(calendarId, eventId, calendar, etag);
+
+      this.logger.info(`Occurrence of event ${eventId} deleted from calendar ${calendarId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error deleting occurrence of event ${eventId}:`, error);
+
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+        throw new Error(
+          `The event was modified by another user. Please refresh the event data and try again.`,
+        );
+      }
+
+      throw new Error(`Failed to delete event occurrence: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Split a recurring series at an occurrence ("this and following")
+   * The original series is truncated with UNTIL before the occurrence and a new
+   * series starting at the occurrence is created, carrying over later exceptions
+   * and overrides. Optional changes apply to the new series only.
+   * @param calendarId ID of the calendar containing the event
+   * @param eventId ID of the recurring event
+   * @param occurrenceStart Original start of the first occurrence of the new series
+   * @param changes Optional changes for the new series
+   * @returns Promise with the truncated original series and the new series
+   */
+  async splitRecurringSeries(
+    calendarId: string,
+    eventId: string,
+    occurrenceStart: Date,
+    changes: OccurrenceUtils.OccurrenceChanges = {},
+  ): Promise<{ original: Event; series: Event }> {
+    this.logger.debug(`Splitting series ${eventId} in calendar ${calendarId}`, {
+      occurrenceStart,
+    });
+
+    try {
+      this.validateCalendarId(calendarId);
+      this.validateEventId(eventId);
+
+      if (changes.start && changes.end && changes.start >= changes.end) {
+        throw new Error('Start date must be before end date');
+      }
+
+      const { calendar, etag } = await this.fetchEventResource(calendarId, eventId);
+      const master = this.getSeriesMaster(calendar, calendarId, occurrenceStart);
+
+      // COUNT carries over as the number of rule occurrences left after the split
+      const occurrencesBefore = this.getOccurrenceStarts(master, occurrenceStart, {
+        ...master.recurrenceRule,
+        exDates: undefined,
+        rDates: undefined,
+      }).length;
+
+      const newEventId = crypto.randomUUID().replace(/-/g, '');
+      const newCalendar = OccurrenceUtils.splitSeries(
+        calendar,
+        occurrenceStart,
+        newEventId,
+        occurrencesBefore,
+      );
+      OccurrenceUtils.applyChanges(OccurrenceUtils.findSeries(newCalendar).master, changes);
+
+      // Create the new series first so a failure leaves the original untouched
+      const created = await this.httpClient.putEvent(
+        calendarId,
+        newEventId,
+        serializeDocument(newCalendar),
+      );
+      if (!created) {
+        throw new Error('Server did not acknowledge creation of the new series');
+      }
+
+      try {
+        await this.saveEventResource(calendarId, eventId, calendar, etag);
+      } catch (saveError) {
+        // Roll back so the occurrences are not duplicated
+        await this.httpClient
+          .getEventEtag(`${this.httpClient.getCalDavUrl()}${calendarId}/${newEventId}.ics`)
+          .then((newEtag) => this.httpClient.deleteEvent(calendarId, newEventId, newEtag ?? '*'))
+          .catch((rollbackError) => {
+            this.logger.error(`Failed to roll back new series ${newEventId}:`, rollbackError);
+          });
+        throw saveError;
+      }
+
+      const findMaster = (document: ICalComponent) =>
+        EnhancedICalParser.parseICalEvents(serializeDocument(document), calendarId).find(
+          (event) => !event.recurrenceId,
+        ) as Event;
+      const original = findMaster(calendar);
+      const series = findMaster(newCalendar);
+
+      this.logger.info(`Series ${eventId} split into new series ${newEventId}`);
+      return { original, series };
+    } catch (error) {
+      this.logger.error(`Error splitting series ${eventId}:`, error);
+
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+        throw new Error(
+          `The event was modified by another user. Please refresh the event data and try again.`,
+        );
+      }
+
+      throw new Error(`Failed to split recurring series: ${(error as Error).message}`);
     }
   }
 
   /**
    * Expand recurring events within a date range
+   * Depending on the configured recurrenceExpansion mode, the server's CalDAV
+   * expand report, the local expansion engine, or the server with a local fallback is used.
    * @param events List of events to check for recurring events
    * @param calendarId ID of the calendar containing the events
    * @param start Optional start date for expansion
@@ -488,58 +1200,116 @@ export class EventService {
       `Expanding recurring events from ${startDate.toISOString()} to ${endDate.toISOString()}`,
     );
 
-    // Filter the events to find those with recurrence rules
-    const recurringEvents = events.filter((event) => event.recurrenceRule);
-
-    if (recurringEvents.length === 0) {
+    if (!events.some((event) => event.recurrenceRule)) {
       // No recurring events to expand
       return events;
     }
 
-    // Create a list of event URLs to fetch for the multiget request
-    const eventUrls: string[] = recurringEvents.map(
-      (event) => `${this.httpClient.getCalDavUrl()}${calendarId}/${event.id}.ics`,
-    );
-
-    // Build the XML request for expanding recurring events
-    const expandXml = this.caldavXmlBuilder.buildExpandRecurringEventsRequest(
-      eventUrls,
-      startDate,
-      endDate,
-    );
+    const mode = this.config.recurrenceExpansion ?? 'auto';
+    if (mode === 'local') {
+      return this.expandRecurringEventsLocally(events, startDate, endDate);
+    }
 
     try {
-      // Send the REPORT request
-      const reportResponse = await this.httpClient.calendarReport(calendarId, expandXml);
+      const expandedEvents = await this.expandRecurringEventsOnServer(
+        events,
+        calendarId,
+        startDate,
+        endDate,
+      );
 
-      // Parse the XML response using enhanced parser
-      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
+      // Servers without expand support return the master events unchanged
+      if (mode === 'auto' && expandedEvents.some((event) => event.recurrenceRule)) {
+        this.logger.info('Server returned unexpanded recurring events, expanding locally');
+        return this.expandRecurringEventsLocally(events, startDate, endDate);
+      }
 
-      // Extract expanded events from the response
-      const expandedEvents: Event[] = [];
-      const responses = this.enhancedXmlService.extractMultistatusResponses(xmlData);
+      return expandedEvents;
+    } catch (error) {
+      if (mode === 'server') {
+        throw error;
+      }
 
-      for (const response of responses) {
-        try {
-          // Get calendar data from properties using enhanced extractor
-          const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
+      this.logger.warn('Server-side expansion failed, expanding locally:', error);
+      return this.expandRecurringEventsLocally(events, startDate, endDate);
+    }
+  }
 
-          if (!calendarData) {
-            continue;
-          }
+  /**
+   * Expand recurring events with the local RRULE engine
+   * @param events List of events including masters and overrides
+   * @param start Start of the expansion range
+   * @param end End of the expansion range
+   * @returns List of events with recurring instances expanded
+   * @private Internal utility method
+   */
+  private expandRecurringEventsLocally(events: Event[], start: Date, end: Date): Event[] {
+    const expandedEvents = RecurrenceExpander.expandEvents(events, start, end, {
+      timezone: this.config.defaultTimezone || 'Europe/Paris',
+    });
 
-          // Parse the iCalendar data to get expanded instances using enhanced parser
-          const parsedEvents = EnhancedICalParser.parseICalEvents(calendarData, calendarId);
+    this.logger.info(`Expanded recurring events locally into ${expandedEvents.length} events`);
+    return expandedEvents;
+  }
+
+  /**
+   * Expand recurring events with the CalDAV expand report
+   * @param events List of events to check for recurring events
+   * @param calendarId ID of the calendar containing the events
+   * @param startDate Start of the expansion range
+   * @param endDate End of the expansion range
+   * @returns Promise<Event[]> List of events with recurring instances expanded
+   * @private Internal utility method
+   */
+  private async expandRecurringEventsOnServer(
+    events: Event[],
+    calendarId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Event[]> {
+    // Filter the events to find those with recurrence rules
+    const recurringEvents = events.filter((event) => event.recurrenceRule);
 
-          // Add to our list of expanded events
-          expandedEvents.push(...parsedEvents);
-        } catch (parseError) {
-          this.logger.warn('Error parsing expanded event response:', parseError);
+    // Create a list of event URLs to fetch for the multiget request
+    const calendarUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/`;
+    const eventUrls: string[] = recurringEvents.map((event) => `${calendarUrl}${event.id}.ics`);
+
+    try {
+      // Send the multiget REPORT requests for expanding recurring events
+      const reportResponses = await this.httpClient.multiget(calendarUrl, eventUrls, (batch) =>
+        this.caldavXmlBuilder.buildExpandRecurringEventsRequest(batch, startDate, endDate),
+      );
+
+      // Extract expanded events from the responses
+      const expandedEvents: Event[] = [];
+      for (const reportResponse of reportResponses) {
+        // Parse the XML response using enhanced parser
+        const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
+
+        for (const response of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+          try {
+            // Get calendar data from properties using enhanced extractor
+            const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
+
+            if (!calendarData) {
+              continue;
+            }
+
+            // Parse the iCalendar data to get expanded instances using enhanced parser
+            const parsedEvents = EnhancedICalParser.parseICalEvents(calendarData, calendarId);
+
+            // Add to our list of expanded events
+            expandedEvents.push(...parsedEvents);
+          } catch (parseError) {
+            this.logger.warn('Error parsing expanded event response:', parseError);
+          }
         }
       }
 
-      // Now merge the expanded events with the non-recurring events
-      const nonRecurringEvents = events.filter((event) => !event.recurrenceRule);
+      // Now merge the expanded events with the non-recurring events; overrides of
+      // the expanded series are already part of the server's response
+      const recurringIds = new Set(recurringEvents.map((event) => event.id));
+      const nonRecurringEvents = events.filter((event) => !recurringIds.has(event.id));
       const mergedEvents = [...nonRecurringEvents, ...expandedEvents];
 
       this.logger.info(
@@ -552,13 +1322,107 @@ export class EventService {
     }
   }
 
+  /**
+   * Get merged busy periods across one or more calendars
+   * Uses the CalDAV free-busy-query REPORT and falls back to an event query
+   * when the server does not support it. Free and cancelled events never count as busy.
+   * @param calendarIds IDs of the calendars to query
+   * @param start Start of the time range
+   * @param end End of the time range
+   * @returns Promise<FreeBusyResult> Merged busy periods within the range
+   */
+  async getFreeBusy(calendarIds: string[], start: Date, end: Date): Promise<FreeBusyResult> {
+    this.logger.debug(`Fetching free/busy information for ${calendarIds.length} calendars`, {
+      start,
+      end,
+    });
+
+    try {
+      if (!calendarIds || calendarIds.length === 0) {
+        throw new Error('At least one calendar ID is required');
+      }
+
+      calendarIds.forEach((calendarId) => this.validateCalendarId(calendarId));
+
+      if (start >= end) {
+        throw new Error('Start date must be before end date');
+      }
+
+      // Build the free-busy-query once and reuse it for every calendar
+      const reportXml = this.caldavXmlBuilder.buildFreeBusyQueryReport({ start, end });
+
+      const periods: BusyPeriod[] = (
+        await Promise.all(
+          calendarIds.map((calendarId) =>
+            this.getCalendarBusyPeriods(calendarId, reportXml, start, end),
+          ),
+        )
+      ).flat();
+
+      const busy = FreeBusyUtils.mergeBusyPeriods(
+        FreeBusyUtils.clipBusyPeriods(periods, start, end),
+      );
+
+      this.logger.info(`Found ${busy.length} busy periods across ${calendarIds.length} calendars`);
+
+      return { start, end, calendarIds, busy };
+    } catch (error) {
+      this.logger.error('Error fetching free/busy information:', error);
+      throw new Error(`Failed to fetch free/busy information: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get the busy periods of a single calendar
+   * @param calendarId ID of the calendar to query
+   * @param reportXml The free-busy-query REPORT body
+   * @param start Start of the time range
+   * @param end End of the time range
+   * @returns Promise<BusyPeriod[]> Busy periods of the calendar
+   * @private Internal utility method
+   */
+  private async getCalendarBusyPeriods(
+    calendarId: string,
+    reportXml: string,
+    start: Date,
+    end: Date,
+  ): Promise<BusyPeriod[]> {
+    try {
+      const response = await this.httpClient.calendarReport(calendarId, reportXml);
+
+      if (typeof response === 'string' && response.includes('BEGIN:VFREEBUSY')) {
+        return FreeBusyUtils.parseFreeBusyData(response, calendarId);
+      }
+
+      this.logger.warn(
+        `Server returned no VFREEBUSY data for calendar ${calendarId}, falling back to event query`,
+      );
+    } catch (error) {
+      // Authentication and missing calendars are real failures, not missing server support
+      if (error instanceof CalDavError && (error.status === 401 || error.status === 404)) {
+        throw error;
+      }
+
+      this.logger.warn(
+        `free-busy-query failed for calendar ${calendarId}, falling back to event query`,
+        error,
+      );
+    }
+
+    const events = await this.getEvents(calendarId, { start, end, expandRecurring: true });
+    return FreeBusyUtils.eventsToBusyPeriods(events, calendarId);
+  }
+
   /**
    * Delete an event from a calendar
    * @param calendarId ID of the calendar containing the event
    * @param eventId ID of the event to delete
+   * @param expectedEtag ETag of the version to delete; if given, the event is only deleted if it
+   * is still that version
    * @returns Promise<boolean> True if event was deleted successfully
+   * @throws ConflictError if the event changed since it was read
    */
-  async deleteEvent(calendarId: string, eventId: string): Promise<boolean> {
+  async deleteEvent(calendarId: string, eventId: string, expectedEtag?: string): Promise<boolean> {
     this.logger.debug(`Deleting event ${eventId} from calendar ${calendarId}`);
 
     try {
@@ -567,8 +1431,9 @@ export class EventService {
       this.validateEventId(eventId);
 
       // Verify the event exists before attempting to delete it
+      let etag: string | undefined;
       try {
-        await this.getEventById(calendarId, eventId);
+        ({ etag } = await this.getEventById(calendarId, eventId));
       } catch (error) {
         // If the event doesn't exist, log a warning but don't fail (idempotent delete)
         if ((error as Error).message.includes('not found')) {
@@ -581,12 +1446,17 @@ export class EventService {
         throw error;
       }
 
-      // Delete the event via DELETE request
-      const success = await this.httpClient.deleteEvent(calendarId, eventId);
+      if (!etag) {
+        throw new Error('The server did not send an ETag, so the event cannot be deleted safely');
+      }
+
+      // Delete the event via DELETE request, only if nobody changed it in between
+      const success = await this.httpClient.deleteEvent(calendarId, eventId, expectedEtag ?? etag);
 
       if (!success) {
         throw new Error('Failed to delete event, server did not acknowledge successful deletion');
       }
+      this.invalidateCachedEvent(calendarId, eventId);
 
       this.logger.info(`Event ${eventId} deleted successfully from calendar ${calendarId}`);
       return true;
@@ -596,6 +1466,13 @@ export class EventService {
         this.logger.warn(`Event ${eventId} was already deleted, treating as success`);
         return true;
       }
+      if (error instanceof ConflictError) {
+        // Deleted by another client in the meantime, which is what was asked for
+        if (error.currentData === null) {
+          return true;
+        }
+        throw error;
+      }
 
       this.logger.error(`Error deleting event ${eventId} from calendar ${calendarId}:`, error);
       throw new Error(`Failed to delete event: ${(error as Error).message}`);
@@ -0,0 +1,240 @@
+/**
+ * Utilities for building and merging free/busy information
+ */
+import type { BusyPeriod, Event } from '../../models/calendar.js';
+import { createLogger } from '../logger.js';
+
+const logger = createLogger('FreeBusyUtils');
+
+/**
+ * Ranking used when overlapping periods of different types are merged
+ */
+const BUSY_TYPE_RANK: Record<BusyPeriod['type'], number> = {
+  'busy-tentative': 1,
+  busy: 2,
+  'busy-unavailable': 3,
+};
+
+/**
+ * Parse an iCalendar UTC date-time value (YYYYMMDDTHHMMSSZ)
+ * @param value The date-time value
+ * @returns The parsed date or null if the value is malformed
+ */
+function parseUtcDateTime(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+/**
+ * Parse an iCalendar DURATION value (e.g. PT1H30M, P1D, -PT15M)
+ * @param value The duration value
+ * @returns The duration in milliseconds
+ * @throws Error if the value is not a valid duration
+ */
+export function parseICalDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim(),
+  );
+  if (!match || value.trim().endsWith('T')) {
+    throw new Error(`Invalid iCalendar duration: ${value}`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks || 0) * 7 * 24 * 3600 +
+    Number(days || 0) * 24 * 3600 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+}
+
+/**
+ * Map an FBTYPE parameter value to a busy period type
+ * @param fbType The FBTYPE parameter value (defaults to BUSY)
+ * @returns The busy type, or null for FREE periods
+ */
+function toBusyType(fbType: string | undefined): BusyPeriod['type'] | null {
+  switch ((fbType || 'BUSY').toUpperCase()) {
+    case 'FREE':
+      return null;
+    case 'BUSY-TENTATIVE':
+      return 'busy-tentative';
+    case 'BUSY-UNAVAILABLE':
+      return 'busy-unavailable';
+    default:
+      return 'busy';
+  }
+}
+
+/**
+ * Extract busy periods from the VFREEBUSY component of a free-busy-query response
+ * @param iCalData The iCalendar data returned by the server
+ * @param calendarId Optional ID of the calendar the data belongs to
+ * @returns List of busy periods (FREE periods are skipped)
+ */
+export function parseFreeBusyData(iCalData: string, calendarId?: string): BusyPeriod[] {
+  const periods: BusyPeriod[] = [];
+
+  if (!iCalData || typeof iCalData !== 'string') {
+    return periods;
+  }
+
+  // Unfold continuation lines before parsing
+  const lines = iCalData
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n');
+
+  let inFreeBusy = false;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (line === 'BEGIN:VFREEBUSY') {
+      inFreeBusy = true;
+      continue;
+    }
+
+    if (line === 'END:VFREEBUSY') {
+      inFreeBusy = false;
+      continue;
+    }
+
+    if (!inFreeBusy || !line.toUpperCase().startsWith('FREEBUSY')) {
+      continue;
+    }
+
+    const colonIndex = line.indexOf(':');
+    if (colonIndex === -1) {
+      continue;
+    }
+
+    // Read the FBTYPE parameter, if any
+    const params = line.substring(0, colonIndex).split(';').slice(1);
+    const fbTypeParam = params.find((param) => param.toUpperCase().startsWith('FBTYPE='));
+    const type = toBusyType(fbTypeParam?.substring(7));
+
+    if (!type) {
+      continue;
+    }
+
+    // A FREEBUSY line may hold several comma-separated periods
+    for (const periodValue of line.substring(colonIndex + 1).split(',')) {
+      const [startValue, endOrDuration] = periodValue.split('/');
+      const start = parseUtcDateTime(startValue || '');
+
+      if (!start || !endOrDuration) {
+        logger.warn('Skipping malformed FREEBUSY period:', periodValue);
+        continue;
+      }
+
+      let end: Date | null;
+      try {
+        end = /^[+-]?P/.test(endOrDuration)
+          ? new Date(start.getTime() + parseICalDuration(endOrDuration))
+          : parseUtcDateTime(endOrDuration);
+      } catch (error) {
+        logger.warn('Skipping FREEBUSY period with invalid duration:', periodValue, error);
+        continue;
+      }
+
+      if (!end || end <= start) {
+        logger.warn('Skipping FREEBUSY period with invalid end:', periodValue);
+        continue;
+      }
+
+      periods.push({
+        start,
+        end,
+        type,
+        calendarIds: calendarId ? [calendarId] : undefined,
+      });
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Convert events into busy periods
+ * Events marked as free (TRANSP:TRANSPARENT) and cancelled events do not block time.
+ * @param events The events to convert
+ * @param calendarId Optional ID of the calendar the events belong to
+ * @returns List of busy periods
+ */
+export function eventsToBusyPeriods(events: Event[], calendarId?: string): BusyPeriod[] {
+  return events
+    .filter((event) => event.availability !== 'free' && event.status !== 'cancelled')
+    .filter((event) => event.end > event.start)
+    .map(
+      (event): BusyPeriod => ({
+        start: event.start,
+        end: event.end,
+        type: event.status === 'tentative' ? 'busy-tentative' : 'busy',
+        calendarIds: [calendarId || event.calendarId],
+      }),
+    );
+}
+
+/**
+ * Clip busy periods to a time range, dropping those entirely outside of it
+ * @param periods The periods to clip
+ * @param start Start of the range
+ * @param end End of the range
+ * @returns The clipped periods
+ */
+export function clipBusyPeriods(periods: BusyPeriod[], start: Date, end: Date): BusyPeriod[] {
+  return periods
+    .filter((period) => period.end > start && period.start < end)
+    .map((period) => ({
+      ...period,
+      start: period.start < start ? start : period.start,
+      end: period.end > end ? end : period.end,
+    }));
+}
+
+/**
+ * Merge overlapping or adjacent busy periods into a sorted, non-overlapping list
+ * When periods of different types overlap, the merged period takes the strongest type
+ * (busy-unavailable, then busy, then busy-tentative).
+ * @param periods The periods to merge
+ * @returns The merged periods sorted by start time
+ */
+export function mergeBusyPeriods(periods: BusyPeriod[]): BusyPeriod[] {
+  const sorted = [...periods].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyPeriod[] = [];
+
+  for (const period of sorted) {
+    const last = merged[merged.length - 1];
+
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) {
+        last.end = period.end;
+      }
+
+      if (BUSY_TYPE_RANK[period.type] > BUSY_TYPE_RANK[last.type]) {
+        last.type = period.type;
+      }
+
+      if (period.calendarIds) {
+        last.calendarIds = Array.from(
+          new Set([...(last.calendarIds || []), ...period.calendarIds]),
+        );
+      }
+    } else {
+      merged.push({
+        ...period,
+        calendarIds: period.calendarIds ? [...period.calendarIds] : undefined,
+      });
+    }
+  }
+
+  return merged;
+}
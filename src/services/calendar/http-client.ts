@@ -2,10 +2,17 @@
  * HTTP client for interacting with Nextcloud CalDAV API
  */
 import axios from 'axios';
+import { HttpConfig } from '../../config/config.js';
 import { createLogger } from '../logger.js';
+import { CircuitOpenError, RequestPipeline } from './request-pipeline.js';
 
 const logger = createLogger('CalendarHttpClient');
 
+/**
+ * Most members fetched by one multiget request; larger sets are split into several requests
+ */
+export const MULTIGET_BATCH_SIZE = 100;
+
 /**
  * Custom error class for CalDAV HTTP errors
  */
@@ -13,22 +20,66 @@ export class CalDavError extends Error {
   status?: number;
   isOptimisticConcurrencyFailure: boolean;
 
-  constructor(message: string, status?: number) {
+  /**
+   * Name of the failed DAV precondition reported in the error body, e.g. 'valid-sync-token'
+   */
+  condition?: string;
+
+  constructor(message: string, status?: number, condition?: string) {
     super(message);
     this.name = 'CalDavError';
     this.status = status;
+    this.condition = condition;
     this.isOptimisticConcurrencyFailure = status === 412;
   }
 }
 
+/**
+ * Thrown when a conditional write fails because the resource changed on the server (HTTP 412)
+ * Carries the version the server has now, so callers can read it again or merge their changes.
+ */
+export class ConflictError extends CalDavError {
+  /**
+   * ETag of the current version; null if the resource no longer exists
+   */
+  currentEtag: string | null;
+
+  /**
+   * Current data of the resource (iCalendar or vCard); null if the resource no longer exists
+   */
+  currentData: string | null;
+
+  constructor(currentEtag: string | null, currentData: string | null) {
+    super(
+      currentData === null
+        ? 'Precondition Failed: The resource was deleted by another client.'
+        : `Precondition Failed: The resource was modified by another client. Its current ETag is ${currentEtag}.`,
+      412,
+    );
+    this.name = 'ConflictError';
+    this.currentEtag = currentEtag;
+    this.currentData = currentData;
+  }
+}
+
 export class CalendarHttpClient {
   private authHeader: string;
   private baseUrl: string;
   private caldavUrl: string;
+  private principalUrl: string;
+  private pipeline: RequestPipeline;
 
-  constructor(baseUrl: string, username: string, appToken: string) {
+  /**
+   * @param baseUrl URL of the Nextcloud server
+   * @param username Nextcloud username
+   * @param appToken App password of the user
+   * @param http Timeouts and retries of the requests
+   */
+  constructor(baseUrl: string, username: string, appToken: string, http?: Partial<HttpConfig>) {
     this.baseUrl = baseUrl;
+    this.pipeline = new RequestPipeline(baseUrl, http);
     this.caldavUrl = `${baseUrl}/remote.php/dav/calendars/${username}/`;
+    this.principalUrl = `${baseUrl}/remote.php/dav/principals/users/${username}/`;
 
     // Create Basic Auth header
     // Use global Buffer (available in Node.js)
@@ -46,7 +97,7 @@ export class CalendarHttpClient {
     try {
       logger.debug(`Making HEAD request for event at ${eventUrl} to get ETag`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'HEAD',
         url: eventUrl,
         headers: {
@@ -61,6 +112,20 @@ export class CalendarHttpClient {
     }
   }
 
+  /**
+   * Run an operation for each item in parallel, as many at a time as requests may be in flight
+   * Use for bulk operations; their requests share the limits of the server with all others.
+   * @param items The items
+   * @param operation The operation to run for an item
+   * @returns The outcome for each item, in the order of the items
+   */
+  mapSettled<T, R>(
+    items: T[],
+    operation: (item: T) => Promise<R>,
+  ): Promise<PromiseSettledResult<R>[]> {
+    return this.pipeline.mapSettled(items, operation);
+  }
+
   /**
    * Get the CalDAV URL for the user
    */
@@ -68,6 +133,20 @@ export class CalendarHttpClient {
     return this.caldavUrl;
   }
 
+  /**
+   * Get the principal URL of the user
+   */
+  getPrincipalUrl(): string {
+    return this.principalUrl;
+  }
+
+  /**
+   * Get the URL of the user's scheduling inbox (RFC 6638)
+   */
+  getInboxUrl(): string {
+    return `${this.caldavUrl}inbox/`;
+  }
+
   /**
    * Get the base URL for the Nextcloud server
    */
@@ -84,7 +163,7 @@ export class CalendarHttpClient {
     try {
       logger.debug(`Making GET request to ${url}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'GET',
         url,
         headers: {
@@ -99,6 +178,50 @@ export class CalendarHttpClient {
     }
   }
 
+  /**
+   * Make a GET request and return the ETag of the response with its data
+   * @param url The URL to request
+   * @param accept Optional media type to accept, e.g. 'text/calendar'
+   * @returns The response data and its ETag, or null if the server did not send one
+   */
+  async getWithEtag(url: string, accept?: string): Promise<{ data: string; etag: string | null }> {
+    try {
+      logger.debug(`Making GET request to ${url}`);
+
+      const response = await this.pipeline.request({
+        method: 'GET',
+        url,
+        headers: {
+          Authorization: this.authHeader,
+          ...(accept ? { Accept: accept } : {}),
+        },
+      });
+
+      return { data: response.data, etag: response.headers['etag'] || null };
+    } catch (error) {
+      logger.error(`GET request failed for ${url}:`, error);
+      throw this.handleHttpError(error, 'Failed to fetch resource');
+    }
+  }
+
+  /**
+   * Fetch a resource to change it, with the ETag its changes must be written with
+   * @param url The URL of the resource
+   * @param accept Optional media type to accept, e.g. 'text/calendar'
+   * @returns The resource data and its ETag
+   * @throws CalDavError if the request fails or the server sent no ETag, so that a write
+   * could not be made conditional
+   */
+  async getForUpdate(url: string, accept?: string): Promise<{ data: string; etag: string }> {
+    const { data, etag } = await this.getWithEtag(url, accept);
+    if (!etag) {
+      throw new CalDavError(
+        'The server did not send an ETag, so the resource cannot be changed safely.',
+      );
+    }
+    return { data, etag };
+  }
+
   /**
    * Make a generic PUT request
    * @param url The URL to request
@@ -110,7 +233,7 @@ export class CalendarHttpClient {
     try {
       logger.debug(`Making PUT request to ${url}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'PUT',
         url,
         headers: {
@@ -123,31 +246,33 @@ export class CalendarHttpClient {
       return response.data;
     } catch (error) {
       logger.error(`PUT request failed for ${url}:`, error);
-      throw this.handleHttpError(error, 'Failed to update resource');
+      throw await this.handleWriteError(error, url, 'Failed to update resource');
     }
   }
 
   /**
    * Make a generic DELETE request
    * @param url The URL to request
+   * @param headers Optional additional headers, e.g. If-Match
    * @returns The response data
    */
-  async delete(url: string): Promise<string> {
+  async delete(url: string, headers: Record<string, string> = {}): Promise<string> {
     try {
       logger.debug(`Making DELETE request to ${url}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'DELETE',
         url,
         headers: {
           Authorization: this.authHeader,
+          ...headers,
         },
       });
 
       return response.data;
     } catch (error) {
       logger.error(`DELETE request failed for ${url}:`, error);
-      throw this.handleHttpError(error, 'Failed to delete resource');
+      throw await this.handleWriteError(error, url, 'Failed to delete resource');
     }
   }
 
@@ -163,7 +288,7 @@ export class CalendarHttpClient {
       const requestUrl = url || this.caldavUrl;
       logger.debug(`Making PROPFIND request to ${requestUrl}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'PROPFIND',
         url: requestUrl,
         headers: {
@@ -181,6 +306,61 @@ export class CalendarHttpClient {
     }
   }
 
+  /**
+   * Make a REPORT request with a custom URL, e.g. an addressbook-query
+   * @param url URL of the calendar or address book
+   * @param data XML data for the request
+   * @param depth Depth of the request (0 or 1)
+   * @returns The response data (XML multistatus)
+   */
+  async report(url: string, data: string, depth: string = '1'): Promise<string> {
+    try {
+      logger.debug(`Making REPORT request to ${url}`);
+
+      const response = await this.pipeline.request({
+        method: 'REPORT',
+        url,
+        headers: {
+          Authorization: this.authHeader,
+          Depth: depth,
+          'Content-Type': 'application/xml; charset=utf-8',
+        },
+        data,
+      });
+
+      return response.data;
+    } catch (error) {
+      logger.error('REPORT request failed:', error);
+      throw this.handleHttpError(error, 'Failed to query collection');
+    }
+  }
+
+  /**
+   * Fetch members of a collection with multiget REPORTs, up to MULTIGET_BATCH_SIZE per request
+   * @param collectionUrl The full URL of the calendar or address book
+   * @param hrefs URLs or paths of the members to fetch
+   * @param buildRequest Builds the calendar-multiget or addressbook-multiget request of a batch
+   * @returns The response data of each batch (XML multistatus); missing members are reported
+   * with status 404
+   */
+  async multiget(
+    collectionUrl: string,
+    hrefs: string[],
+    buildRequest: (hrefs: string[]) => string,
+  ): Promise<string[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH_SIZE) {
+      batches.push(hrefs.slice(i, i + MULTIGET_BATCH_SIZE));
+    }
+
+    return Promise.all(
+      batches.map((batch) => {
+        logger.debug(`Fetching ${batch.length} members of ${collectionUrl} with multiget`);
+        return this.report(collectionUrl, buildRequest(batch));
+      }),
+    );
+  }
+
   /**
    * Make a MKCALENDAR request to create a new calendar
    * @param calendarId The ID for the new calendar
@@ -195,7 +375,7 @@ export class CalendarHttpClient {
       const calendarUrl = `${this.caldavUrl}${validatedCalendarId}/`;
       logger.debug(`Making MKCALENDAR request for calendar ${validatedCalendarId}`);
 
-      await axios({
+      await this.pipeline.request({
         method: 'MKCALENDAR',
         url: calendarUrl,
         headers: {
@@ -224,7 +404,7 @@ export class CalendarHttpClient {
       const calendarUrl = `${this.caldavUrl}${validatedCalendarId}/`;
       logger.debug(`Making PROPPATCH request for calendar ${validatedCalendarId}`);
 
-      await axios({
+      await this.pipeline.request({
         method: 'PROPPATCH',
         url: calendarUrl,
         headers: {
@@ -251,7 +431,7 @@ export class CalendarHttpClient {
       const calendarUrl = `${this.caldavUrl}${validatedCalendarId}/`;
       logger.debug(`Making DELETE request for calendar ${validatedCalendarId}`);
 
-      await axios({
+      await this.pipeline.request({
         method: 'DELETE',
         url: calendarUrl,
         headers: {
@@ -278,7 +458,7 @@ export class CalendarHttpClient {
       const calendarUrl = `${this.caldavUrl}${validatedCalendarId}/`;
       logger.debug(`Making REPORT request for calendar ${validatedCalendarId}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'REPORT',
         url: calendarUrl,
         headers: {
@@ -296,6 +476,34 @@ export class CalendarHttpClient {
     }
   }
 
+  /**
+   * Fetch the changes of a collection with the sync-collection REPORT (RFC 6578)
+   * @param collectionUrl The full URL of the calendar or address book
+   * @param data The sync-collection request
+   * @returns The response data (XML multistatus)
+   */
+  async syncCollection(collectionUrl: string, data: string): Promise<string> {
+    try {
+      logger.debug(`Making sync-collection REPORT request to ${collectionUrl}`);
+
+      const response = await this.pipeline.request({
+        method: 'REPORT',
+        url: collectionUrl,
+        headers: {
+          Authorization: this.authHeader,
+          'Content-Type': 'application/xml; charset=utf-8',
+          Depth: '0',
+        },
+        data,
+      });
+
+      return response.data;
+    } catch (error) {
+      logger.error(`sync-collection REPORT request failed for ${collectionUrl}:`, error);
+      throw this.handleHttpError(error, 'Failed to sync collection');
+    }
+  }
+
   /**
    * Fetch a specific event by URL
    * @param eventUrl The full URL of the event to fetch
@@ -305,7 +513,7 @@ export class CalendarHttpClient {
     try {
       logger.debug(`Making GET request for event at ${eventUrl}`);
 
-      const response = await axios({
+      const response = await this.pipeline.request({
         method: 'GET',
         url: eventUrl,
         headers: {
@@ -381,7 +589,7 @@ export class CalendarHttpClient {
         ? { 'If-Match': etag } // Update existing - only if matches ETag
         : { 'If-None-Match': '*' }; // Create new - only if doesn't exist
 
-      await axios({
+      await this.pipeline.request({
         method: 'PUT',
         url: eventUrl,
         headers: {
@@ -395,16 +603,17 @@ export class CalendarHttpClient {
       return true;
     } catch (error) {
       logger.error(`PUT request failed to ${logAction} event ${validatedEventId}:`, error);
-      throw this.handleHttpError(error, `Failed to ${logAction} event`);
+      throw await this.handleWriteError(error, eventUrl, `Failed to ${logAction} event`);
     }
   }
 
   /**
-   * Create or update an event
+   * Create an event; an existing resource with the same ID is never overwritten
    * @param calendarId The ID of the calendar
    * @param eventId The ID of the event
    * @param iCalData The event data in iCalendar format
    * @returns True if the operation was successful
+   * @throws ConflictError if a resource with this ID already exists
    */
   async putEvent(calendarId: string, eventId: string, iCalData: string): Promise<boolean> {
     return this.sendEventRequest(calendarId, eventId, iCalData);
@@ -417,6 +626,7 @@ export class CalendarHttpClient {
    * @param iCalData The updated event data in iCalendar format
    * @param etag The ETag of the current version to prevent conflicts
    * @returns True if the operation was successful
+   * @throws ConflictError if the event was modified or deleted since
    */
   async updateEvent(
     calendarId: string,
@@ -431,31 +641,63 @@ export class CalendarHttpClient {
    * Delete an event
    * @param calendarId The ID of the calendar containing the event
    * @param eventId The ID of the event to delete
+   * @param etag ETag of the version to delete; the event is only deleted if it was not modified
    * @returns True if the operation was successful
+   * @throws ConflictError if the event was modified or deleted since
    */
-  async deleteEvent(calendarId: string, eventId: string): Promise<boolean> {
-    try {
-      // Validate IDs for path safety
-      const validatedCalendarId = this.validateComponentId(calendarId, 'Calendar');
-      const validatedEventId = this.validateComponentId(eventId, 'Event');
+  async deleteEvent(calendarId: string, eventId: string, etag: string): Promise<boolean> {
+    // Validate IDs for path safety
+    const validatedCalendarId = this.validateComponentId(calendarId, 'Calendar');
+    const validatedEventId = this.validateComponentId(eventId, 'Event');
+    const eventUrl = `${this.caldavUrl}${validatedCalendarId}/${validatedEventId}.ics`;
 
-      const eventUrl = `${this.caldavUrl}${validatedCalendarId}/${validatedEventId}.ics`;
+    try {
       logger.debug(
         `Making DELETE request for event ${validatedEventId} in calendar ${validatedCalendarId}`,
       );
 
-      await axios({
+      await this.pipeline.request({
         method: 'DELETE',
         url: eventUrl,
         headers: {
           Authorization: this.authHeader,
+          'If-Match': etag,
         },
       });
 
       return true;
     } catch (error) {
       logger.error(`DELETE request failed for event ${eventId}:`, error);
-      throw this.handleHttpError(error, 'Failed to delete event');
+      throw await this.handleWriteError(error, eventUrl, 'Failed to delete event');
+    }
+  }
+
+  /**
+   * Process errors of conditional writes
+   * A failed precondition becomes a ConflictError with the version the server has now.
+   * @param error The axios error
+   * @param url URL of the written resource
+   * @param defaultMessage Default error message if specific error cannot be determined
+   * @returns ConflictError or CalDavError with meaningful message and status code
+   */
+  private async handleWriteError(
+    error: unknown,
+    url: string,
+    defaultMessage: string,
+  ): Promise<CalDavError> {
+    if (!axios.isAxiosError(error) || error.response?.status !== 412) {
+      return this.handleHttpError(error, defaultMessage);
+    }
+
+    try {
+      const { data, etag } = await this.getWithEtag(url);
+      return new ConflictError(etag, data);
+    } catch (getError) {
+      if (getError instanceof CalDavError && getError.status === 404) {
+        return new ConflictError(null, null);
+      }
+      // The current version is unknown, but the write still conflicted
+      return this.handleHttpError(error, defaultMessage);
     }
   }
 
@@ -466,8 +708,32 @@ export class CalendarHttpClient {
    * @returns CalDavError with meaningful message and status code
    */
   private handleHttpError(error: unknown, defaultMessage: string): CalDavError {
+    if (error instanceof CircuitOpenError) {
+      return new CalDavError(error.message, 503);
+    }
+
+    // No answer even after retries: the connection failed or timed out
+    if (axios.isAxiosError(error) && !error.response) {
+      return new CalDavError(
+        error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+          ? 'Service unavailable: The server did not respond in time.'
+          : 'Service unavailable: The server could not be reached.',
+        503,
+      );
+    }
+
     if (axios.isAxiosError(error)) {
       const status = error.response?.status || 500;
+      const body = error.response?.data;
+      const condition =
+        typeof body === 'string'
+          ? /<(?:\w+:)?error\b[^>]*>\s*<(?:\w+:)?([\w-]+)/.exec(body)?.[1]
+          : undefined;
+
+      // An outdated sync token is not a permission problem; the collection must be synced anew
+      if (condition === 'valid-sync-token') {
+        return new CalDavError('The sync token is no longer valid.', status, condition);
+      }
 
       // Handle common HTTP errors with more specific messages
       if (status === 401 || status === 403) {
@@ -487,6 +753,11 @@ export class CalendarHttpClient {
         return new CalDavError('Resource is locked and cannot be modified.', status);
       } else if (status === 507) {
         return new CalDavError('Insufficient storage space.', status);
+      } else if (status === 429 || status === 502 || status === 503 || status === 504) {
+        return new CalDavError(
+          'Service unavailable: The server is overloaded or down. Please try again later.',
+          status,
+        );
       }
 
       // For other status codes, include them in the error
@@ -0,0 +1,458 @@
+/**
+ * Lossless iCalendar document model for editing calendar resources in place
+ * Properties and components the server sent are kept verbatim unless they are
+ * explicitly changed, so edits never drop data this server does not understand.
+ */
+import { TimezoneService } from '../timezone-service.js';
+
+/**
+ * A single content line of an iCalendar component
+ */
+export interface ICalProperty {
+  /**
+   * Upper-case property name (e.g. 'DTSTART')
+   */
+  name: string;
+
+  /**
+   * Parameters in their original order, with quotes removed from values
+   */
+  params: Map<string, string>;
+
+  /**
+   * Raw property value, still escaped
+   */
+  value: string;
+}
+
+/**
+ * An iCalendar component such as VCALENDAR, VEVENT or VALARM
+ */
+export interface ICalComponent {
+  /**
+   * Upper-case component name
+   */
+  name: string;
+
+  /**
+   * Properties in their original order
+   */
+  properties: ICalProperty[];
+
+  /**
+   * Nested components in their original order
+   */
+  components: ICalComponent[];
+}
+
+/**
+ * Maximum line length in octets before folding, as recommended by RFC 5545
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Unfold iCalendar content lines
+ * @param data Raw iCalendar data
+ * @returns Unfolded, non-empty lines
+ */
+export function unfoldLines(data: string): string[] {
+  return data
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/**
+ * Parse a content line into a property
+ * @param line Unfolded content line
+ * @returns The property, or null if the line is malformed
+ */
+export function parseProperty(line: string): ICalProperty | null {
+  const params = new Map<string, string>();
+  let index = 0;
+
+  // Name runs until the first parameter or value separator
+  while (index < line.length && line[index] !== ';' && line[index] !== ':') index++;
+  const name = line.substring(0, index).toUpperCase();
+  if (!name || index >= line.length) {
+    return null;
+  }
+
+  // Parameters may contain quoted values with ':' or ';' inside
+  while (line[index] === ';') {
+    const equals = line.indexOf('=', index);
+    if (equals === -1) return null;
+
+    const paramName = line.substring(index + 1, equals).toUpperCase();
+    let cursor = equals + 1;
+    let paramValue = '';
+    let inQuotes = false;
+
+    while (cursor < line.length && (inQuotes || (line[cursor] !== ';' && line[cursor] !== ':'))) {
+      if (line[cursor] === '"') {
+        inQuotes = !inQuotes;
+      } else {
+        paramValue += line[cursor];
+      }
+      cursor++;
+    }
+
+    params.set(paramName, paramValue);
+    index = cursor;
+  }
+
+  if (line[index] !== ':') {
+    return null;
+  }
+
+  return { name, params, value: line.substring(index + 1) };
+}
+
+/**
+ * Format a property as an unfolded content line
+ * @param property The property
+ * @returns The content line
+ */
+export function formatProperty(property: ICalProperty): string {
+  let line = property.name;
+
+  for (const [name, value] of property.params) {
+    line += `;${name}=${/[:;,]/.test(value) ? `"${value}"` : value}`;
+  }
+
+  return `${line}:${property.value}`;
+}
+
+/**
+ * Fold a content line so that no physical line exceeds 75 octets
+ * @param line Unfolded content line
+ * @returns Folded line, using CRLF and a single leading space for continuations
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const code = char.codePointAt(0) as number;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Parse iCalendar data into its root component
+ * @param data Raw iCalendar data
+ * @returns The root component (normally VCALENDAR)
+ * @throws Error if the data does not contain a complete component
+ */
+export function parseDocument(data: string): ICalComponent {
+  const stack: ICalComponent[] = [];
+  let root: ICalComponent | null = null;
+
+  for (const line of unfoldLines(data)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      stack[stack.length - 1]?.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const component = stack.pop();
+      if (component && stack.length === 0 && !root) {
+        root = component;
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (!root) {
+    throw new Error('Invalid iCalendar data: no complete component found');
+  }
+
+  return root;
+}
+
+/**
+ * Serialize a component, folding long lines
+ * @param component The component to serialize
+ * @returns iCalendar data with CRLF line endings
+ */
+export function serializeDocument(component: ICalComponent): string {
+  const lines: string[] = [];
+
+  const write = (current: ICalComponent) => {
+    lines.push(`BEGIN:${current.name}`);
+    current.properties.forEach((property) => lines.push(foldLine(formatProperty(property))));
+    current.components.forEach(write);
+    lines.push(`END:${current.name}`);
+  };
+
+  write(component);
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Get the first property with a given name
+ */
+export function getProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find((property) => property.name === name);
+}
+
+/**
+ * Get all properties with a given name
+ */
+export function getProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter((property) => property.name === name);
+}
+
+/**
+ * Replace the first property with a given name, or append it when absent
+ * Later duplicates of the property are removed.
+ */
+export function setProperty(
+  component: ICalComponent,
+  name: string,
+  value: string,
+  params: Map<string, string> = new Map(),
+): void {
+  const index = component.properties.findIndex((property) => property.name === name);
+  const property = { name, params, value };
+
+  if (index === -1) {
+    component.properties.push(property);
+  } else {
+    component.properties[index] = property;
+    component.properties = component.properties.filter(
+      (other, i) => i <= index || other.name !== name,
+    );
+  }
+}
+
+/**
+ * Remove all properties with the given names
+ */
+export function removeProperties(component: ICalComponent, ...names: string[]): void {
+  component.properties = component.properties.filter((property) => !names.includes(property.name));
+}
+
+/**
+ * Deep copy a component
+ */
+export function cloneComponent(component: ICalComponent): ICalComponent {
+  return {
+    name: component.name,
+    properties: component.properties.map((property) => ({
+      ...property,
+      params: new Map(property.params),
+    })),
+    components: component.components.map(cloneComponent),
+  };
+}
+
+/**
+ * Escape a text value for use in a property
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Make free text usable as a parameter value
+ * Parameter values cannot contain double quotes or line breaks, so these are replaced.
+ */
+export function toParamText(text: string): string {
+  return text
+    .replace(/"/g, "'")
+    .replace(/\s*[\r\n]+\s*/g, ' ')
+    .trim();
+}
+
+/**
+ * Unescape a text value of a property
+ */
+export function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * Date-times with a TZID are resolved in that timezone, floating date-times
+ * and dates in the process timezone.
+ * @param value A single value (e.g. '20250106T090000Z')
+ * @param params Parameters of the property the value belongs to
+ * @returns The date, or null if the value is not a date
+ */
+export function parseDateValue(
+  value: string,
+  params: Map<string, string> = new Map(),
+): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((n) => Number(n ?? 0));
+
+  if (match[4] === undefined) {
+    return new Date(year, month - 1, day);
+  }
+
+  if (match[7] === 'Z') {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  const tzid = params.get('TZID');
+  if (tzid) {
+    try {
+      const zoned = new TimezoneService(tzid).fromZonedTime(year, month, day, hour, minute);
+      return new Date(zoned.getTime() + second * 1000);
+    } catch {
+      // Unknown timezone, treat as floating time
+    }
+  }
+
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Format a date in the same form (DATE, UTC, TZID-local or floating) as an existing property
+ * @param date The date to format
+ * @param params Parameters of the property whose form should be used
+ * @param template An existing value of that property, used to tell UTC from floating times
+ * @returns The formatted value
+ */
+export function formatDateValue(
+  date: Date,
+  params: Map<string, string> = new Map(),
+  template = 'Z',
+): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+  if (params.get('VALUE') === 'DATE') {
+    return `${pad(date.getFullYear(), 4)}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  }
+
+  const tzid = params.get('TZID');
+  if (tzid) {
+    try {
+      const parts = new TimezoneService(tzid).getZonedParts(date);
+      return (
+        `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}` +
+        `T${pad(parts.hour)}${pad(parts.minute)}${pad(date.getUTCSeconds())}`
+      );
+    } catch {
+      // Unknown timezone, fall through to floating time
+    }
+  }
+
+  if (tzid || !template.endsWith('Z')) {
+    return (
+      `${pad(date.getFullYear(), 4)}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+      `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    );
+  }
+
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse all date values of a property, which may be comma-separated or periods
+ * @param property The property (e.g. EXDATE or RDATE)
+ * @returns Parsed start dates
+ */
+export function parseDateList(property: ICalProperty): Date[] {
+  return property.value
+    .split(',')
+    .map((value) => parseDateValue(value.split('/')[0], property.params))
+    .filter((date): date is Date => date !== null);
+}
+
+/**
+ * Read a date property of a component
+ * @returns The date, or undefined if the property is absent or invalid
+ */
+export function getDateProperty(component: ICalComponent, name: string): Date | undefined {
+  const property = getProperty(component, name);
+  return (property && parseDateValue(property.value, property.params)) || undefined;
+}
+
+/**
+ * Write a date property, keeping the form (TZID, floating) of an existing value
+ * unless the all-day flag changes it
+ */
+export function setDateProperty(
+  component: ICalComponent,
+  name: string,
+  date: Date,
+  isAllDay?: boolean,
+): void {
+  const existing = getProperty(component, name);
+  const keepForm =
+    existing !== undefined &&
+    (isAllDay === undefined || (existing.params.get('VALUE') === 'DATE') === isAllDay);
+  const params = keepForm
+    ? new Map(existing.params)
+    : new Map<string, string>(isAllDay ? [['VALUE', 'DATE']] : []);
+
+  setProperty(
+    component,
+    name,
+    formatDateValue(date, params, keepForm ? existing.value : 'Z'),
+    params,
+  );
+}
+
+/**
+ * Read the comma-separated text values of all properties with a given name (e.g. CATEGORIES)
+ */
+export function getTextList(component: ICalComponent, name: string): string[] {
+  return getProperties(component, name)
+    .flatMap((property) => property.value.split(/(?<!\\),/))
+    .map((value) => unescapeText(value).trim())
+    .filter((value) => value);
+}
+
+/**
+ * Create a VCALENDAR wrapping a single component
+ */
+export function createCalendarDocument(component: ICalComponent): ICalComponent {
+  return {
+    name: 'VCALENDAR',
+    properties: [
+      { name: 'VERSION', params: new Map(), value: '2.0' },
+      { name: 'PRODID', params: new Map(), value: '-//Nextcloud Calendar MCP//EN' },
+      { name: 'CALSCALE', params: new Map(), value: 'GREGORIAN' },
+    ],
+    components: [component],
+  };
+}
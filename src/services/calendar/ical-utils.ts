@@ -3,6 +3,8 @@
  */
 import { Event, RecurrenceRule, EventReminder } from '../../models/index.js';
 import { createLogger } from '../logger.js';
+import { createAlarmComponent } from './alarm-utils.js';
+import { serializeDocument } from './ical-document.js';
 import * as crypto from 'crypto';
 
 const logger = createLogger('iCalUtils');
@@ -930,22 +932,8 @@ function generateRecurrenceRule(rule: RecurrenceRule): string {
  * @returns An iCalendar VALARM string
  */
 function generateAlarm(reminder: EventReminder): string {
-  let alarm = 'BEGIN:VALARM\r\n';
-
-  // The action depends on the reminder type
-  if (reminder.type === 'email') {
-    alarm += 'ACTION:EMAIL\r\n';
-    alarm += 'DESCRIPTION:Reminder\r\n';
-  } else {
-    alarm += 'ACTION:DISPLAY\r\n';
-    alarm += 'DESCRIPTION:Reminder\r\n';
-  }
-
-  // Set the trigger (minutes before the event)
-  alarm += `TRIGGER:-PT${reminder.minutesBefore}M\r\n`;
-
-  alarm += 'END:VALARM\r\n';
-  return alarm;
+  // Absolute and END-relative triggers, actions and repetition are handled by AlarmUtils
+  return serializeDocument(createAlarmComponent(reminder));
 }
 
 /**
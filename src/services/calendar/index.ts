@@ -3,8 +3,23 @@
  */
 export * from './calendar-service.js';
 export * from './event-service.js';
+export * from './scheduling-service.js';
+export * from './task-service.js';
+export * from './journal-service.js';
+export * from './reminder-service.js';
+export * from './itip-service.js';
 export * from './http-client.js';
+export * from './request-pipeline.js';
+export * from './work-queue.js';
+export * from './sync-cache.js';
 export * from './event-helpers.js';
 export * as XmlUtils from './xml-utils.js';
 export * as PropertyParser from './property-parser.js';
 export * as iCalUtils from './ical-utils.js';
+export * as FreeBusyUtils from './free-busy-utils.js';
+export * as TaskUtils from './task-utils.js';
+export * as JournalUtils from './journal-utils.js';
+export * as AlarmUtils from './alarm-utils.js';
+export * as ItipUtils from './itip-utils.js';
+export * as PaginationUtils from './pagination-utils.js';
+export * as MergeUtils from './merge-utils.js';
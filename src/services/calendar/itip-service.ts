@@ -0,0 +1,346 @@
+/**
+ * Service for answering invitations (iTIP, RFC 5546) through Nextcloud's CalDAV scheduling
+ *
+ * Nextcloud schedules implicitly (RFC 6638): invitations are delivered into the
+ * attendee's calendar and scheduling inbox, and changing the attendee's PARTSTAT
+ * in their copy of the event makes the server send the REPLY to the organizer.
+ */
+import { NextcloudConfig } from '../../config/config.js';
+import { Event, Invitation, InvitationResponse } from '../../models/index.js';
+import { createLogger } from '../logger.js';
+import { XmlService, CalDavXmlBuilder } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
+import { CalendarService } from './calendar-service.js';
+import { EnhancedICalParser } from './enhanced-ical-utils.js';
+import { EventService } from './event-service.js';
+import { CalendarHttpClient, CalDavError } from './http-client.js';
+import * as ItipUtils from './itip-utils.js';
+import { ICalComponent, getProperty, parseDocument, serializeDocument } from './ical-document.js';
+
+import crypto from 'crypto';
+import { URL } from 'url';
+
+/**
+ * A scheduling inbox item
+ */
+interface InboxItem {
+  name: string;
+  url: string;
+  calendar: ICalComponent;
+  iCalData: string;
+}
+
+/**
+ * Options for answering an invitation
+ */
+export interface RespondToInvitationOptions {
+  /**
+   * Comment for the organizer
+   */
+  comment?: string;
+
+  /**
+   * Calendar to store the event in if it is not in any calendar yet (default: first writable calendar)
+   */
+  calendarId?: string;
+}
+
+/**
+ * Result of answering an invitation
+ */
+export interface InvitationResult {
+  /**
+   * The user's copy of the event
+   */
+  event: Event;
+
+  /**
+   * Calendar containing the event
+   */
+  calendarId: string;
+
+  /**
+   * Whether the server sends the reply to the organizer; false when the
+   * organizer handles scheduling itself (SCHEDULE-AGENT=CLIENT or NONE)
+   */
+  replySent: boolean;
+}
+
+export class ItipService {
+  private config: NextcloudConfig;
+  private httpClient: CalendarHttpClient;
+  private logger = createLogger('ItipService');
+  private xmlService: XmlService;
+  private enhancedXmlService: EnhancedXmlService;
+  private caldavXmlBuilder: CalDavXmlBuilder;
+  private calendarService: CalendarService;
+  private eventService: EventService;
+
+  constructor(
+    config: NextcloudConfig,
+    calendarService: CalendarService,
+    eventService: EventService,
+  ) {
+    this.config = config;
+
+    if (!this.config.baseUrl || !this.config.username || !this.config.appToken) {
+      throw new Error('Nextcloud configuration is incomplete');
+    }
+
+    // Remove trailing slash if present
+    const baseUrl = this.config.baseUrl.replace(/\/$/, '');
+
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
+    this.xmlService = new XmlService();
+    this.enhancedXmlService = new EnhancedXmlService();
+    this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
+    this.calendarService = calendarService;
+    this.eventService = eventService;
+
+    this.logger.info('ItipService initialized successfully', {
+      baseUrl: baseUrl,
+      username: this.config.username,
+    });
+  }
+
+  /**
+   * Resolve an href of a multistatus response against the server
+   * @private Internal utility method
+   */
+  private resolveHref(href: string): string {
+    return new URL(href, `${this.httpClient.getBaseUrl()}/`).toString();
+  }
+
+  /**
+   * Read the items of the scheduling inbox
+   * @returns Promise<InboxItem[]> Items with parseable calendar data
+   * @private Internal utility method
+   */
+  private async getInboxItems(): Promise<InboxItem[]> {
+    const inboxUrl = this.httpClient.getInboxUrl();
+    const xmlResponse = await this.httpClient.propfind(
+      this.caldavXmlBuilder.buildPropfindRequest(['d:getetag', 'c:calendar-data']),
+      inboxUrl,
+    );
+    const xmlData = await this.enhancedXmlService.parseCalDAVResponse(xmlResponse);
+
+    const items: InboxItem[] = [];
+    for (const response of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+      const iCalData = this.enhancedXmlService.extractCalendarData(response.properties);
+      if (!response.href || !iCalData) {
+        // The inbox collection itself has no calendar data
+        continue;
+      }
+
+      try {
+        const url = this.resolveHref(response.href);
+        items.push({
+          name: decodeURIComponent(url.split('/').pop() ?? ''),
+          url,
+          calendar: parseDocument(iCalData),
+          iCalData,
+        });
+      } catch (parseError) {
+        this.logger.warn(`Skipping unreadable inbox item ${response.href}:`, parseError);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the invitations waiting for an answer
+   * Updates of an invitation replace earlier versions with the same UID.
+   * @returns Promise<Invitation[]> Invitations with status needs-action, ordered by start
+   */
+  async getPendingInvitations(): Promise<Invitation[]> {
+    this.logger.debug('Fetching pending invitations');
+
+    try {
+      const addresses = await this.eventService.getCalendarUserAddresses();
+      const latest = new Map<string, Invitation>();
+
+      for (const item of await this.getInboxItems()) {
+        const invitation = ItipUtils.parseInvitation(item.iCalData, item.name, addresses);
+        if (!invitation) {
+          continue;
+        }
+
+        const key = `${invitation.eventId}/${invitation.recurrenceId?.getTime() ?? ''}`;
+        const current = latest.get(key);
+        if (!current || invitation.sequence >= current.sequence) {
+          latest.set(key, invitation);
+        }
+      }
+
+      const invitations = [...latest.values()]
+        .filter((invitation) => invitation.status === 'needs-action')
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      this.logger.info(`Found ${invitations.length} pending invitations`);
+      return invitations;
+    } catch (error) {
+      this.logger.error('Error fetching pending invitations:', error);
+      throw new Error(`Failed to fetch pending invitations: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Find the user's copy of an event by UID across all calendars
+   * @param uid UID of the event
+   * @returns The calendar and URL of the copy, or null if no calendar contains the event
+   * @private Internal utility method
+   */
+  private async findEventResource(
+    uid: string,
+  ): Promise<{ calendarId: string; url: string } | null> {
+    const request = this.caldavXmlBuilder.buildEventByUidRequest(uid);
+
+    // Query all calendars at once; the first calendar holding the event wins
+    const calendars = await this.calendarService.getCalendars();
+    const resources = await Promise.all(
+      calendars.map(async (calendar) => {
+        try {
+          const xmlResponse = await this.httpClient.calendarReport(calendar.id, request);
+          const xmlData = await this.enhancedXmlService.parseCalDAVResponse(xmlResponse);
+          const [response] = this.enhancedXmlService
+            .extractMultistatusResponses(xmlData)
+            .filter((candidate) => candidate.href);
+
+          return response?.href
+            ? { calendarId: calendar.id, url: this.resolveHref(response.href) }
+            : null;
+        } catch (calendarError) {
+          this.logger.warn(
+            `Skipping calendar ${calendar.id} while looking up ${uid}:`,
+            calendarError,
+          );
+          return null;
+        }
+      }),
+    );
+
+    return resources.find((resource) => resource !== null) ?? null;
+  }
+
+  /**
+   * Choose the calendar an invitation is stored in when the server did not deliver it
+   * @private Internal utility method
+   */
+  private async getTargetCalendarId(calendarId?: string): Promise<string> {
+    if (calendarId) {
+      return calendarId;
+    }
+
+    const calendar = (await this.calendarService.getCalendars()).find(
+      (candidate) => !candidate.isReadOnly,
+    );
+    if (!calendar) {
+      throw new Error('No writable calendar to store the invitation in');
+    }
+
+    return calendar.id;
+  }
+
+  /**
+   * Accept, decline or tentatively accept an invitation
+   * The user's copy of the event is updated and the server replies to the organizer.
+   * Inbox items of the invitation are removed afterwards.
+   * @param eventId UID of the invited event
+   * @param response The reply
+   * @param options Comment and fallback calendar
+   * @returns Promise<InvitationResult> The updated event
+   */
+  async respondToInvitation(
+    eventId: string,
+    response: InvitationResponse,
+    options: RespondToInvitationOptions = {},
+  ): Promise<InvitationResult> {
+    this.logger.debug(`Responding ${response} to invitation ${eventId}`);
+
+    try {
+      if (!eventId) {
+        throw new Error('Event ID is required');
+      }
+
+      const addresses = await this.eventService.getCalendarUserAddresses();
+      const inboxItems = (await this.getInboxItems()).filter((item) =>
+        item.calendar.components.some(
+          (component) => getProperty(component, 'UID')?.value === eventId,
+        ),
+      );
+
+      let calendarId: string;
+      let calendar: ICalComponent;
+      const existing = await this.findEventResource(eventId);
+
+      if (existing) {
+        const { data, etag } = await this.httpClient.getForUpdate(existing.url, 'text/calendar');
+        calendar = parseDocument(data);
+        ItipUtils.applyResponse(calendar, addresses, response, options.comment);
+
+        await this.httpClient.put(existing.url, serializeDocument(calendar), {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'If-Match': etag,
+        });
+        calendarId = existing.calendarId;
+      } else {
+        // Not delivered into a calendar (e.g. automatic delivery is disabled): store the latest request
+        const request = inboxItems
+          .filter((item) => ItipUtils.getMethod(item.calendar) === 'REQUEST')
+          .sort((a, b) => sequenceOf(b.calendar) - sequenceOf(a.calendar))[0];
+        if (!request) {
+          throw new Error(`Invitation ${eventId} not found`);
+        }
+
+        calendar = ItipUtils.toCalendarObject(request.calendar);
+        ItipUtils.applyResponse(calendar, addresses, response, options.comment);
+
+        calendarId = await this.getTargetCalendarId(options.calendarId);
+        const resourceId = crypto.randomUUID().replace(/-/g, '');
+        await this.httpClient.putEvent(calendarId, resourceId, serializeDocument(calendar));
+      }
+
+      // Processed messages are no longer needed; failing to remove them is harmless
+      for (const item of inboxItems) {
+        try {
+          await this.httpClient.delete(item.url);
+        } catch (deleteError) {
+          this.logger.warn(`Failed to remove inbox item ${item.name}:`, deleteError);
+        }
+      }
+
+      const [event] = EnhancedICalParser.parseICalEvents(serializeDocument(calendar), calendarId);
+      const organizer = calendar.components
+        .map((component) => getProperty(component, 'ORGANIZER'))
+        .find(Boolean);
+
+      this.logger.info(`Responded ${response} to invitation ${eventId}`);
+      return { event, calendarId, replySent: ItipUtils.isScheduledByServer(organizer) };
+    } catch (error) {
+      this.logger.error(`Error responding to invitation ${eventId}:`, error);
+
+      if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+        throw new Error(
+          `The event was modified by another user. Please refresh the event data and try again.`,
+        );
+      }
+
+      throw new Error(`Failed to respond to invitation: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Get the SEQUENCE of the first event of a scheduling message
+ */
+function sequenceOf(calendar: ICalComponent): number {
+  const event = calendar.components.find((component) => component.name === 'VEVENT');
+  const sequence = parseInt((event && getProperty(event, 'SEQUENCE')?.value) ?? '0');
+  return isNaN(sequence) ? 0 : sequence;
+}
@@ -0,0 +1,193 @@
+/**
+ * Utilities for iTIP scheduling messages (RFC 5546) exchanged through CalDAV scheduling (RFC 6638)
+ */
+import { Invitation, InvitationResponse } from '../../models/index.js';
+import { EnhancedICalParser } from './enhanced-ical-utils.js';
+import {
+  ICalComponent,
+  ICalProperty,
+  cloneComponent,
+  formatDateValue,
+  getProperties,
+  getProperty,
+  parseDocument,
+  removeProperties,
+  setProperty,
+  toParamText,
+} from './ical-document.js';
+
+/**
+ * Strip the mailto: scheme from a calendar user address
+ */
+function toEmail(address: string): string {
+  return address
+    .replace(/^mailto:/i, '')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Collect the email addresses of a calendar-user-address-set property
+ * @param value The parsed property value; hrefs may be nested in objects and arrays
+ * @returns Lowercased email addresses, without duplicates
+ */
+export function extractCalendarUserAddresses(value: unknown): string[] {
+  const addresses = new Set<string>();
+
+  const collect = (node: unknown) => {
+    if (typeof node === 'string') {
+      if (/^mailto:/i.test(node.trim())) {
+        addresses.add(toEmail(node));
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach(collect);
+    } else if (node && typeof node === 'object') {
+      Object.values(node).forEach(collect);
+    }
+  };
+
+  collect(value);
+  return [...addresses];
+}
+
+/**
+ * Get the iTIP method of a scheduling message
+ * @param calendar The VCALENDAR component
+ * @returns The uppercased method (e.g. REQUEST, REPLY, CANCEL), or undefined for plain calendar data
+ */
+export function getMethod(calendar: ICalComponent): string | undefined {
+  return getProperty(calendar, 'METHOD')?.value.toUpperCase();
+}
+
+/**
+ * Find the ATTENDEE property of the user in an event
+ * @param component The VEVENT component
+ * @param addresses Email addresses of the user
+ * @returns The attendee property, or undefined if the user is not invited
+ */
+export function findAttendee(
+  component: ICalComponent,
+  addresses: string[],
+): ICalProperty | undefined {
+  const emails = addresses.map(toEmail);
+  return getProperties(component, 'ATTENDEE').find((property) =>
+    emails.includes(toEmail(property.value)),
+  );
+}
+
+/**
+ * Check whether the server delivers scheduling messages for an organizer or attendee
+ * Messages are only sent by the server when SCHEDULE-AGENT is absent or SERVER (RFC 6638 section 7.1).
+ * @param property The ORGANIZER or ATTENDEE property
+ */
+export function isScheduledByServer(property: ICalProperty | undefined): boolean {
+  const agent = property?.params.get('SCHEDULE-AGENT')?.toUpperCase();
+  return !!property && (!agent || agent === 'SERVER');
+}
+
+/**
+ * Set the participation status of the user in every component of an event
+ * Only the user's attendee property is changed; SEQUENCE is left to the organizer.
+ * @param calendar The VCALENDAR component of the user's copy of the event
+ * @param addresses Email addresses of the user
+ * @param response The reply
+ * @param comment Optional comment for the organizer
+ * @throws Error if the user is not an attendee of the event
+ */
+export function applyResponse(
+  calendar: ICalComponent,
+  addresses: string[],
+  response: InvitationResponse,
+  comment?: string,
+): void {
+  const now = formatDateValue(new Date());
+  let found = false;
+
+  for (const component of calendar.components.filter((child) => child.name === 'VEVENT')) {
+    const attendee = findAttendee(component, addresses);
+    if (!attendee) {
+      continue;
+    }
+    found = true;
+
+    attendee.params.set('PARTSTAT', response.toUpperCase());
+    attendee.params.delete('RSVP');
+    const text = comment ? toParamText(comment) : '';
+    if (text) {
+      attendee.params.set('X-RESPONSE-COMMENT', text);
+    } else {
+      attendee.params.delete('X-RESPONSE-COMMENT');
+    }
+
+    setProperty(component, 'DTSTAMP', now);
+  }
+
+  if (!found) {
+    throw new Error('You are not an attendee of this event');
+  }
+}
+
+/**
+ * Convert a scheduling message into calendar data that can be stored in a calendar
+ * Calendar object resources must not contain a METHOD property (RFC 4791 section 4.1).
+ * @param calendar The VCALENDAR component of the message
+ * @returns A copy without METHOD
+ */
+export function toCalendarObject(calendar: ICalComponent): ICalComponent {
+  const copy = cloneComponent(calendar);
+  removeProperties(copy, 'METHOD');
+  return copy;
+}
+
+/**
+ * Parse an invitation from a scheduling inbox item
+ * @param iCalData The iCalendar data of the inbox item
+ * @param inboxItem Name of the inbox item
+ * @param addresses Email addresses of the user
+ * @returns The invitation, or null if the item is not a REQUEST addressed to the user
+ */
+export function parseInvitation(
+  iCalData: string,
+  inboxItem: string,
+  addresses: string[],
+): Invitation | null {
+  const calendar = parseDocument(iCalData);
+  if (getMethod(calendar) !== 'REQUEST') {
+    return null;
+  }
+
+  const components = calendar.components.filter((child) => child.name === 'VEVENT');
+  const master =
+    components.find((component) => !getProperty(component, 'RECURRENCE-ID')) ?? components[0];
+  const [event] = EnhancedICalParser.parseICalEvents(iCalData, 'inbox');
+  if (!master || !event) {
+    return null;
+  }
+
+  const emails = addresses.map(toEmail);
+  const self = (event.participants ?? []).find((participant) =>
+    emails.includes(participant.email.toLowerCase()),
+  );
+  if (!self) {
+    return null;
+  }
+
+  const sequence = parseInt(getProperty(master, 'SEQUENCE')?.value ?? '0');
+
+  return {
+    eventId: event.id,
+    inboxItem,
+    title: event.title,
+    start: event.start,
+    end: event.end,
+    isAllDay: event.isAllDay,
+    location: event.location,
+    description: event.description,
+    organizer: event.organizer,
+    participants: (event.participants ?? []).filter((participant) => participant !== self),
+    status: self.status,
+    sequence: isNaN(sequence) ? 0 : sequence,
+    recurrenceId: event.recurrenceId,
+    isRecurring: !!event.recurrenceRule,
+  };
+}
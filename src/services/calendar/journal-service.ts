@@ -0,0 +1,263 @@
+/**
+ * Service for handling journal entries (VJOURNAL) via CalDAV
+ */
+import { NextcloudConfig } from '../../config/config.js';
+import { CreateJournalEntryData, JournalEntry, JournalQueryOptions } from '../../models/index.js';
+import { createLogger } from '../logger.js';
+import { XmlService, CalDavXmlBuilder } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
+import { CalendarHttpClient, CalDavError, ConflictError } from './http-client.js';
+import * as JournalUtils from './journal-utils.js';
+import { ICalComponent, parseDocument, serializeDocument } from './ical-document.js';
+
+import crypto from 'crypto';
+
+export class JournalService {
+  private config: NextcloudConfig;
+  private httpClient: CalendarHttpClient;
+  private logger = createLogger('JournalService');
+  private xmlService: XmlService;
+  private enhancedXmlService: EnhancedXmlService;
+  private caldavXmlBuilder: CalDavXmlBuilder;
+
+  constructor(config: NextcloudConfig) {
+    this.config = config;
+
+    if (!this.config.baseUrl || !this.config.username || !this.config.appToken) {
+      throw new Error('Nextcloud configuration is incomplete');
+    }
+
+    // Remove trailing slash if present
+    const baseUrl = this.config.baseUrl.replace(/\/$/, '');
+
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
+    this.xmlService = new XmlService();
+    this.enhancedXmlService = new EnhancedXmlService();
+    this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
+
+    this.logger.info('JournalService initialized successfully', {
+      baseUrl: baseUrl,
+      username: this.config.username,
+    });
+  }
+
+  /**
+   * Validate an ID (calendar, entry or event) for use in a resource path
+   * @param id The ID to validate
+   * @param type Type of the ID for error messages
+   * @throws Error if the ID is missing or contains unsafe characters
+   * @private Internal utility method
+   */
+  private validateId(id: string, type: 'calendar' | 'journal' | 'event'): void {
+    const label = { calendar: 'Calendar', journal: 'Journal entry', event: 'Event' }[type];
+
+    if (!id) {
+      throw new Error(`${label} ID is required`);
+    }
+
+    if (!/^[a-zA-Z0-9_.-]+$/.test(id)) {
+      this.logger.error(`Invalid ${type} ID format: ${id}`);
+      throw new Error(
+        `Invalid ${type} ID format: Only alphanumeric characters, dash, underscore, and period are allowed`,
+      );
+    }
+  }
+
+  /**
+   * Get the journal entries of a calendar
+   * @param calendarId ID of the calendar
+   * @param options Filter options
+   * @returns Promise<JournalEntry[]> Entries sorted by date, newest first
+   */
+  async getJournalEntries(
+    calendarId: string,
+    options: JournalQueryOptions = {},
+  ): Promise<JournalEntry[]> {
+    this.logger.debug(`Fetching journal entries for calendar ${calendarId}`, options);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+
+      const { start, end } = options;
+      const reportXml = this.caldavXmlBuilder.buildJournalQueryReport(
+        start && end ? { start, end } : undefined,
+      );
+      const reportResponse = await this.httpClient.calendarReport(calendarId, reportXml);
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
+
+      let entries: JournalEntry[] = [];
+      for (const response of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+        try {
+          const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
+          if (calendarData) {
+            entries.push(...JournalUtils.parseJournalEntries(calendarData, calendarId));
+          }
+        } catch (parseError) {
+          this.logger.warn('Error parsing journal response:', parseError);
+        }
+      }
+
+      // Open-ended ranges are not sent to the server, so filter here as well
+      entries = entries.filter(
+        (entry) =>
+          (!start || (entry.date && entry.date >= start)) &&
+          (!end || (entry.date && entry.date < end)) &&
+          (!options.relatedTo || entry.relatedTo?.includes(options.relatedTo)),
+      );
+
+      entries.sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0));
+
+      if (options.limit) {
+        entries = entries.slice(0, options.limit);
+      }
+
+      this.logger.info(`Fetched ${entries.length} journal entries from calendar ${calendarId}`);
+      return entries;
+    } catch (error) {
+      this.logger.error(`Error fetching journal entries from calendar ${calendarId}:`, error);
+      throw new Error(`Failed to fetch journal entries: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Create a new journal entry
+   * @param calendarId ID of the calendar to add the entry to
+   * @param data Values of the new entry
+   * @returns Promise<JournalEntry> The created entry
+   */
+  async createJournalEntry(
+    calendarId: string,
+    data: CreateJournalEntryData,
+  ): Promise<JournalEntry> {
+    this.logger.debug(`Creating new journal entry in calendar ${calendarId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+
+      if (!data.title) {
+        throw new Error('Journal entry title is required');
+      }
+
+      const entryId = crypto.randomUUID().replace(/-/g, '');
+      const calendar = JournalUtils.createJournalDocument(entryId, data);
+
+      const success = await this.httpClient.putEvent(
+        calendarId,
+        entryId,
+        serializeDocument(calendar),
+      );
+      if (!success) {
+        throw new Error('Server did not acknowledge creation of the journal entry');
+      }
+
+      this.logger.info(`Journal entry ${entryId} created successfully in calendar ${calendarId}`);
+      return JournalUtils.parseJournalComponent(calendar.components[0], calendarId)!;
+    } catch (error) {
+      this.logger.error(`Error creating journal entry in calendar ${calendarId}:`, error);
+      throw new Error(`Failed to create journal entry: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Link a journal entry to an event through RELATED-TO
+   * @param calendarId ID of the calendar containing the entry
+   * @param journalId ID of the entry
+   * @param eventId ID of the event
+   * @param eventCalendarId ID of the calendar containing the event (default: calendarId)
+   * @returns Promise<JournalEntry> The updated entry
+   */
+  async attachJournalToEvent(
+    calendarId: string,
+    journalId: string,
+    eventId: string,
+    eventCalendarId: string = calendarId,
+  ): Promise<JournalEntry> {
+    this.logger.debug(`Attaching journal entry ${journalId} to event ${eventId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+      this.validateId(journalId, 'journal');
+      this.validateId(eventId, 'event');
+      this.validateId(eventCalendarId, 'calendar');
+
+      // Make sure the event exists before pointing at it
+      try {
+        await this.httpClient.getEventEtag(
+          `${this.httpClient.getCalDavUrl()}${eventCalendarId}/${eventId}.ics`,
+        );
+      } catch (eventError) {
+        if (eventError instanceof CalDavError && eventError.status === 404) {
+          throw new Error(`Event with ID ${eventId} not found in calendar ${eventCalendarId}`);
+        }
+        throw eventError;
+      }
+
+      const { calendar, journal, etag } = await this.fetchJournalResource(calendarId, journalId);
+
+      if (JournalUtils.addJournalRelation(journal, eventId)) {
+        const iCalData = serializeDocument(calendar);
+        const success = await this.httpClient.updateEvent(calendarId, journalId, iCalData, etag);
+
+        if (!success) {
+          throw new Error('Server did not acknowledge the update');
+        }
+      }
+
+      this.logger.info(`Journal entry ${journalId} attached to event ${eventId}`);
+      return JournalUtils.parseJournalComponent(journal, calendarId)!;
+    } catch (error) {
+      this.logger.error(`Error attaching journal entry ${journalId}:`, error);
+
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+        throw new Error(
+          'The journal entry was modified by another user. Please refresh the entry and try again.',
+        );
+      }
+
+      throw new Error(`Failed to attach journal entry: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fetch a journal resource with its ETag
+   * @param calendarId ID of the calendar containing the entry
+   * @param journalId ID of the entry
+   * @returns The VCALENDAR component, its VJOURNAL and the ETag to write it back with
+   * @throws Error if the resource does not contain a journal entry
+   * @private Internal utility method
+   */
+  private async fetchJournalResource(
+    calendarId: string,
+    journalId: string,
+  ): Promise<{ calendar: ICalComponent; journal: ICalComponent; etag: string }> {
+    const journalUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${journalId}.ics`;
+
+    let resource: { data: string; etag: string };
+    try {
+      resource = await this.httpClient.getForUpdate(journalUrl, 'text/calendar');
+    } catch (fetchError) {
+      if (fetchError instanceof CalDavError && fetchError.status === 404) {
+        throw new Error(`Journal entry with ID ${journalId} not found in calendar ${calendarId}`);
+      }
+      throw fetchError;
+    }
+
+    const { data, etag } = resource;
+    const calendar = parseDocument(data);
+    const [journal] = JournalUtils.findJournalComponents(calendar);
+
+    if (!journal) {
+      throw new Error(`Journal entry with ID ${journalId} not found in calendar ${calendarId}`);
+    }
+
+    return { calendar, journal, etag };
+  }
+}
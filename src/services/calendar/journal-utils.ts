@@ -0,0 +1,147 @@
+/**
+ * Utilities for reading and writing VJOURNAL components
+ * Like tasks, journal entries are edited in place on the parsed resource.
+ */
+import { CreateJournalEntryData, JournalEntry, JournalStatus } from '../../models/index.js';
+import {
+  ICalComponent,
+  createCalendarDocument,
+  escapeText,
+  formatDateValue,
+  getDateProperty,
+  getProperties,
+  getProperty,
+  getTextList,
+  parseDocument,
+  setDateProperty,
+  setProperty,
+  unescapeText,
+} from './ical-document.js';
+
+/**
+ * Parse a VJOURNAL STATUS value; entries without a status count as final
+ */
+function parseStatus(value: string | undefined): JournalStatus {
+  switch (value?.toUpperCase()) {
+    case 'DRAFT':
+      return 'draft';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'final';
+  }
+}
+
+/**
+ * Parse a VJOURNAL component into a JournalEntry
+ * @param component The VJOURNAL component
+ * @param calendarId ID of the calendar containing the entry
+ * @returns The entry, or null if the component has no UID
+ */
+export function parseJournalComponent(
+  component: ICalComponent,
+  calendarId: string,
+): JournalEntry | null {
+  const uid = getProperty(component, 'UID')?.value;
+  if (!uid) {
+    return null;
+  }
+
+  // RFC 5545 allows several DESCRIPTION properties in a VJOURNAL
+  const description = getProperties(component, 'DESCRIPTION')
+    .map((property) => unescapeText(property.value))
+    .join('\n\n');
+  const summary = getProperty(component, 'SUMMARY')?.value;
+
+  return {
+    id: uid,
+    calendarId,
+    title: summary ? unescapeText(summary) : 'Untitled Entry',
+    description,
+    date: getDateProperty(component, 'DTSTART'),
+    isAllDay: getProperty(component, 'DTSTART')?.params.get('VALUE') === 'DATE' || undefined,
+    status: parseStatus(getProperty(component, 'STATUS')?.value),
+    categories: getTextList(component, 'CATEGORIES'),
+    relatedTo: getProperties(component, 'RELATED-TO').map((property) => property.value),
+    created: getDateProperty(component, 'CREATED') ?? new Date(),
+    lastModified: getDateProperty(component, 'LAST-MODIFIED') ?? new Date(),
+  };
+}
+
+/**
+ * Find the VJOURNAL components of a VCALENDAR
+ */
+export function findJournalComponents(calendar: ICalComponent): ICalComponent[] {
+  return calendar.components.filter((component) => component.name === 'VJOURNAL');
+}
+
+/**
+ * Parse all journal entries of an iCalendar resource
+ * @param iCalData Raw iCalendar data
+ * @param calendarId ID of the calendar containing the entries
+ * @returns Entries found in the data
+ */
+export function parseJournalEntries(iCalData: string, calendarId: string): JournalEntry[] {
+  return findJournalComponents(parseDocument(iCalData))
+    .map((component) => parseJournalComponent(component, calendarId))
+    .filter((entry): entry is JournalEntry => entry !== null);
+}
+
+/**
+ * Relate a journal entry to another component, such as the event it holds notes for
+ * @param component The VJOURNAL component, modified in place
+ * @param uid UID of the related component
+ * @returns False if the entry was already related to the component
+ */
+export function addJournalRelation(component: ICalComponent, uid: string): boolean {
+  if (getProperties(component, 'RELATED-TO').some((property) => property.value === uid)) {
+    return false;
+  }
+
+  // Without RELTYPE the related component is the parent of the entry
+  component.properties.push({ name: 'RELATED-TO', params: new Map(), value: uid });
+
+  const now = formatDateValue(new Date());
+  setProperty(component, 'DTSTAMP', now);
+  setProperty(component, 'LAST-MODIFIED', now);
+
+  return true;
+}
+
+/**
+ * Create a VCALENDAR holding a single new VJOURNAL
+ * @param id UID of the entry
+ * @param data Values of the entry; the date defaults to now
+ * @returns The VCALENDAR component
+ */
+export function createJournalDocument(id: string, data: CreateJournalEntryData): ICalComponent {
+  const now = formatDateValue(new Date());
+  const journal: ICalComponent = {
+    name: 'VJOURNAL',
+    properties: [
+      { name: 'UID', params: new Map(), value: id },
+      { name: 'DTSTAMP', params: new Map(), value: now },
+      { name: 'CREATED', params: new Map(), value: now },
+      { name: 'LAST-MODIFIED', params: new Map(), value: now },
+      { name: 'SUMMARY', params: new Map(), value: escapeText(data.title) },
+      { name: 'STATUS', params: new Map(), value: (data.status ?? 'final').toUpperCase() },
+    ],
+    components: [],
+  };
+
+  setDateProperty(journal, 'DTSTART', data.date ?? new Date(), data.isAllDay ?? false);
+
+  if (data.description) {
+    setProperty(journal, 'DESCRIPTION', escapeText(data.description));
+  }
+
+  if (data.categories && data.categories.length > 0) {
+    setProperty(journal, 'CATEGORIES', data.categories.map(escapeText).join(','));
+  }
+
+  for (const uid of data.relatedTo ?? []) {
+    journal.properties.push({ name: 'RELATED-TO', params: new Map(), value: uid });
+  }
+
+  return createCalendarDocument(journal);
+}
@@ -0,0 +1,245 @@
+/**
+ * Three-way merge of changes to events and contacts
+ *
+ * When an item changed on the server after a client read it, the client's changes are merged
+ * into the current version field by field: a field only the client changed takes the client's
+ * value, a field only the server changed keeps the server's value, and a field both changed to
+ * different values is a conflict. Lists of attendees, categories, emails and phones are merged
+ * item by item, so adding an attendee on one side and another on the other side keeps both.
+ */
+import { Contact, Event } from '../../models/index.js';
+import { ConflictError } from './http-client.js';
+
+/**
+ * How an update handles a newer version on the server
+ */
+export interface MergeOptions<T = object> {
+  /**
+   * Merge the changes into the newer version instead of failing, unless they conflict
+   */
+  merge?: boolean;
+  /**
+   * The version of expectedEtag the changes were made to, as iCalendar or vCard data or as the
+   * item the caller read; if omitted, only versions this server read recently can be merged
+   */
+  base?: string | Partial<T>;
+}
+
+/**
+ * A field both the caller and another client changed to different values
+ */
+export interface FieldConflict {
+  /**
+   * Name of the field; list items are named by their key, e.g. 'participants[ann@example.com]'
+   */
+  field: string;
+  /**
+   * Value in the version the caller edited
+   */
+  base: unknown;
+  /**
+   * Value the caller set
+   */
+  mine: unknown;
+  /**
+   * Value in the current version on the server
+   */
+  theirs: unknown;
+}
+
+/**
+ * Outcome of a three-way merge
+ */
+export interface MergeResult<T> {
+  /**
+   * Changes to apply to the current version; conflicting fields keep the current value
+   */
+  changes: Partial<T>;
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Thrown when changes conflict with the changes made by another client
+ * Nothing is written; resolve the conflicts and retry with currentEtag.
+ */
+export class MergeConflictError extends ConflictError {
+  conflicts: FieldConflict[];
+
+  constructor(currentEtag: string | null, currentData: string | null, conflicts: FieldConflict[]) {
+    super(currentEtag, currentData);
+    this.name = 'MergeConflictError';
+    this.message = `Conflicting changes by another client to ${conflicts
+      .map((conflict) => conflict.field)
+      .join(', ')}. The current ETag is ${currentEtag}.`;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * How the fields of an item are merged
+ */
+interface MergeRules<T> {
+  /**
+   * Lists merged item by item, with the key identifying an item
+   */
+  lists?: { [K in keyof T]?: (item: never) => string };
+  /**
+   * Fields that only make sense together and are merged as one
+   */
+  groups?: Array<Array<keyof T>>;
+}
+
+const eventRules: MergeRules<Event> = {
+  lists: {
+    participants: (participant: { email: string }) => participant.email.toLowerCase(),
+    categories: (category: string) => category,
+  },
+  groups: [['start', 'end', 'isAllDay']],
+};
+
+const contactRules: MergeRules<Contact> = {
+  lists: {
+    emails: (email: { email: string }) => email.email.toLowerCase(),
+    phones: (phone: { number: string }) => phone.number.replace(/[^\d+]/g, ''),
+    categories: (category: string) => category,
+  },
+};
+
+/**
+ * Compare two values by content; dates compare by time
+ */
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Merge a list item by item
+ * @returns The merged list and the conflicting items
+ */
+function mergeList(
+  field: string,
+  base: unknown[] = [],
+  mine: unknown[] = [],
+  theirs: unknown[] = [],
+  getKey: (item: unknown) => string,
+): { value: unknown[]; conflicts: FieldConflict[] } {
+  const byKey = (items: unknown[]) => new Map(items.map((item) => [getKey(item), item]));
+  const [baseItems, myItems, theirItems] = [byKey(base), byKey(mine), byKey(theirs)];
+
+  // Keep the server's order and append the items only the caller added
+  const keys = [...new Set([...theirItems.keys(), ...myItems.keys(), ...baseItems.keys()])];
+  const value: unknown[] = [];
+  const conflicts: FieldConflict[] = [];
+
+  for (const key of keys) {
+    const [b, m, t] = [baseItems.get(key), myItems.get(key), theirItems.get(key)];
+    let merged = t;
+    if (same(t, b) || same(t, m)) {
+      merged = m;
+    } else if (!same(m, b)) {
+      conflicts.push({ field: `${field}[${key}]`, base: b, mine: m, theirs: t });
+    }
+    if (merged !== undefined) {
+      value.push(merged);
+    }
+  }
+
+  return { value, conflicts };
+}
+
+/**
+ * Merge changes made to a base version into the current version
+ * @param base The version the changes were made to
+ * @param current The current version
+ * @param changes The changed fields; fields equal to the base are not changes
+ * @param rules How lists and groups of fields are merged
+ */
+function mergeChanges<T extends object>(
+  base: Partial<T>,
+  current: T,
+  changes: Partial<T>,
+  rules: MergeRules<T>,
+): MergeResult<T> {
+  const merged: Partial<T> = {};
+  const conflicts: FieldConflict[] = [];
+  const handled = new Set<keyof T>();
+
+  for (const group of rules.groups ?? []) {
+    group.forEach((field) => handled.add(field));
+    if (!group.some((field) => field in changes)) {
+      continue;
+    }
+
+    const pick = (item: Partial<T>) => group.map((field) => item[field]);
+    const mine = group.map((field) => (field in changes ? changes[field] : base[field]));
+    const [b, t] = [pick(base), pick(current)];
+
+    if (same(mine, b) || same(t, mine)) {
+      continue;
+    }
+    if (same(t, b)) {
+      group.forEach((field, i) => (merged[field] = mine[i] as T[keyof T]));
+    } else {
+      conflicts.push({ field: group.join('/'), base: b, mine, theirs: t });
+    }
+  }
+
+  for (const field of Object.keys(changes) as Array<keyof T>) {
+    if (handled.has(field)) {
+      continue;
+    }
+
+    const [b, m, t] = [base[field], changes[field], current[field]];
+    const getKey = rules.lists?.[field] as ((item: unknown) => string) | undefined;
+
+    if (same(m, b) || same(t, m)) {
+      continue;
+    }
+    if (same(t, b)) {
+      merged[field] = m;
+    } else if (getKey && (Array.isArray(m) || m === undefined)) {
+      const list = mergeList(
+        String(field),
+        b as unknown[] | undefined,
+        m as unknown[] | undefined,
+        t as unknown[] | undefined,
+        getKey,
+      );
+      merged[field] = list.value as T[keyof T];
+      conflicts.push(...list.conflicts);
+    } else {
+      conflicts.push({ field: String(field), base: b, mine: m, theirs: t });
+    }
+  }
+
+  return { changes: merged, conflicts };
+}
+
+/**
+ * Merge changes to an event into its current version
+ * Start, end and all-day flag are merged as one field, 'start/end/isAllDay'.
+ * @param base The version of the event the changes were made to
+ * @param current The current version of the event
+ * @param changes The changed fields
+ */
+export function mergeEventChanges(
+  base: Partial<Event>,
+  current: Event,
+  changes: Partial<Event>,
+): MergeResult<Event> {
+  return mergeChanges(base, current, changes, eventRules);
+}
+
+/**
+ * Merge changes to a contact into its current version
+ * @param base The version of the contact the changes were made to
+ * @param current The current version of the contact
+ * @param changes The changed fields
+ */
+export function mergeContactChanges(
+  base: Partial<Contact>,
+  current: Contact,
+  changes: Partial<Contact>,
+): MergeResult<Contact> {
+  return mergeChanges(base, current, changes, contactRules);
+}
@@ -0,0 +1,329 @@
+/**
+ * Utilities for editing single occurrences of recurring events in an iCalendar resource
+ */
+import { Event } from '../../models/index.js';
+import {
+  ICalComponent,
+  cloneComponent,
+  escapeText,
+  formatDateValue,
+  getProperties,
+  getProperty,
+  parseDateList,
+  parseDateValue,
+  removeProperties,
+  setProperty,
+} from './ical-document.js';
+
+/**
+ * Changes that can be applied to an occurrence or to a new series
+ */
+export type OccurrenceChanges = Partial<
+  Pick<Event, 'title' | 'description' | 'location' | 'start' | 'end' | 'status' | 'availability'>
+>;
+
+/**
+ * Format a date as a UTC DATE-TIME value
+ */
+function formatUtc(date: Date): string {
+  return formatDateValue(date, new Map(), 'Z');
+}
+
+/**
+ * Check whether two dates identify the same occurrence
+ * All-day occurrences are compared by calendar day.
+ */
+function sameOccurrence(a: Date, b: Date, isAllDay: boolean): boolean {
+  return isAllDay ? a.toDateString() === b.toDateString() : a.getTime() === b.getTime();
+}
+
+/**
+ * Read a date property of a component
+ */
+function getDate(component: ICalComponent, name: string): Date | null {
+  const property = getProperty(component, name);
+  return property ? parseDateValue(property.value, property.params) : null;
+}
+
+/**
+ * Write a date property in the same form as the component's DTSTART
+ */
+function setDate(component: ICalComponent, name: string, date: Date): void {
+  const dtstart = getProperty(component, 'DTSTART');
+  const params = new Map(dtstart?.params ?? []);
+  setProperty(component, name, formatDateValue(date, params, dtstart?.value), params);
+}
+
+/**
+ * Find the master VEVENT of a resource and its RECURRENCE-ID overrides
+ * @param calendar The VCALENDAR component
+ * @returns The master and its overrides
+ * @throws Error if the resource has no master event
+ */
+export function findSeries(calendar: ICalComponent): {
+  master: ICalComponent;
+  overrides: ICalComponent[];
+} {
+  const events = calendar.components.filter((component) => component.name === 'VEVENT');
+  const master = events.find((event) => !getProperty(event, 'RECURRENCE-ID'));
+
+  if (!master) {
+    throw new Error('Resource does not contain a master event');
+  }
+
+  return { master, overrides: events.filter((event) => event !== master) };
+}
+
+/**
+ * Find the override for an occurrence, if one exists
+ * @param calendar The VCALENDAR component
+ * @param recurrenceId Original start of the occurrence
+ * @returns The override VEVENT or undefined
+ */
+export function findOverride(
+  calendar: ICalComponent,
+  recurrenceId: Date,
+): ICalComponent | undefined {
+  const { master, overrides } = findSeries(calendar);
+  const isAllDay = getProperty(master, 'DTSTART')?.params.get('VALUE') === 'DATE';
+
+  return overrides.find((override) => {
+    const id = getDate(override, 'RECURRENCE-ID');
+    return id !== null && sameOccurrence(id, recurrenceId, isAllDay);
+  });
+}
+
+/**
+ * Apply changes to a VEVENT, bumping its SEQUENCE and timestamps
+ * When only the start changes, the event keeps its duration.
+ * @param event The VEVENT component
+ * @param changes Changes to apply
+ */
+export function applyChanges(event: ICalComponent, changes: OccurrenceChanges): void {
+  const textProperties: Array<[keyof OccurrenceChanges, string]> = [
+    ['title', 'SUMMARY'],
+    ['description', 'DESCRIPTION'],
+    ['location', 'LOCATION'],
+  ];
+
+  for (const [field, name] of textProperties) {
+    const value = changes[field] as string | null | undefined;
+    if (value === undefined) continue;
+
+    if (value === null || value === '') {
+      removeProperties(event, name);
+    } else {
+      setProperty(event, name, escapeText(value));
+    }
+  }
+
+  if (changes.status) {
+    setProperty(event, 'STATUS', changes.status.toUpperCase());
+  }
+
+  if (changes.availability) {
+    setProperty(event, 'TRANSP', changes.availability === 'free' ? 'TRANSPARENT' : 'OPAQUE');
+  }
+
+  const start = getDate(event, 'DTSTART');
+  const end = getDate(event, 'DTEND');
+
+  if (changes.start) {
+    setDate(event, 'DTSTART', changes.start);
+
+    // Keep the duration unless a new end is given
+    if (!changes.end && start && end) {
+      setDate(event, 'DTEND', new Date(end.getTime() + changes.start.getTime() - start.getTime()));
+    }
+  }
+
+  if (changes.end) {
+    removeProperties(event, 'DURATION');
+    setDate(event, 'DTEND', changes.end);
+  }
+
+  const sequence = parseInt(getProperty(event, 'SEQUENCE')?.value ?? '0');
+  setProperty(event, 'SEQUENCE', String((isNaN(sequence) ? 0 : sequence) + 1));
+
+  const now = formatUtc(new Date());
+  setProperty(event, 'DTSTAMP', now);
+  setProperty(event, 'LAST-MODIFIED', now);
+}
+
+/**
+ * Override a single occurrence with a RECURRENCE-ID VEVENT
+ * An existing override for the occurrence is updated; otherwise the master is
+ * copied without its recurrence properties and inserted after the last event.
+ * @param calendar The VCALENDAR component, modified in place
+ * @param recurrenceId Original start of the occurrence
+ * @param changes Changes to apply to the occurrence
+ * @returns The override VEVENT
+ */
+export function overrideOccurrence(
+  calendar: ICalComponent,
+  recurrenceId: Date,
+  changes: OccurrenceChanges,
+): ICalComponent {
+  const existing = findOverride(calendar, recurrenceId);
+  if (existing) {
+    applyChanges(existing, changes);
+    return existing;
+  }
+
+  const { master, overrides } = findSeries(calendar);
+  const override = cloneComponent(master);
+  removeProperties(override, 'RRULE', 'RDATE', 'EXDATE', 'EXRULE');
+
+  // The occurrence starts at its recurrence ID and keeps the series duration
+  const masterStart = getDate(master, 'DTSTART');
+  const masterEnd = getDate(master, 'DTEND');
+  setDate(override, 'RECURRENCE-ID', recurrenceId);
+  setDate(override, 'DTSTART', recurrenceId);
+  if (masterStart && masterEnd) {
+    setDate(
+      override,
+      'DTEND',
+      new Date(recurrenceId.getTime() + masterEnd.getTime() - masterStart.getTime()),
+    );
+  }
+
+  applyChanges(override, changes);
+
+  const anchor = overrides.length > 0 ? overrides[overrides.length - 1] : master;
+  calendar.components.splice(calendar.components.indexOf(anchor) + 1, 0, override);
+
+  return override;
+}
+
+/**
+ * Cancel a single occurrence by adding an EXDATE to the master
+ * Any override for the occurrence is removed.
+ * @param calendar The VCALENDAR component, modified in place
+ * @param recurrenceId Original start of the occurrence
+ */
+export function excludeOccurrence(calendar: ICalComponent, recurrenceId: Date): void {
+  const override = findOverride(calendar, recurrenceId);
+  if (override) {
+    calendar.components = calendar.components.filter((component) => component !== override);
+  }
+
+  const { master } = findSeries(calendar);
+  const dtstart = getProperty(master, 'DTSTART');
+  const params = new Map(dtstart?.params ?? []);
+  const value = formatDateValue(recurrenceId, params, dtstart?.value);
+
+  // Insert after the last EXDATE (or the RRULE) to keep related lines together
+  const anchor = getProperties(master, 'EXDATE').pop() ?? getProperty(master, 'RRULE');
+  const index = anchor ? master.properties.indexOf(anchor) + 1 : master.properties.length;
+  master.properties.splice(index, 0, { name: 'EXDATE', params, value });
+
+  applyChanges(master, {});
+}
+
+/**
+ * Keep only the EXDATE and RDATE values on one side of a split
+ */
+function filterDateLists(event: ICalComponent, keep: (date: Date) => boolean): void {
+  event.properties = event.properties.flatMap((property) => {
+    if (property.name !== 'EXDATE' && property.name !== 'RDATE') {
+      return [property];
+    }
+
+    const values = property.value.split(',').filter((value) => {
+      const [date] = parseDateList({ ...property, value });
+      return date ? keep(date) : true;
+    });
+    return values.length > 0 ? [{ ...property, value: values.join(',') }] : [];
+  });
+}
+
+/**
+ * Split a series into "before" and "this and following"
+ * The master RRULE is truncated with UNTIL just before the split point, and a
+ * new resource holds the remaining occurrences, exceptions and overrides.
+ * @param calendar The VCALENDAR component, modified in place to end before the split
+ * @param splitAt Original start of the first occurrence of the new series
+ * @param newUid UID of the new series
+ * @param occurrencesBefore Number of RRULE occurrences before the split, used to carry over COUNT
+ * @returns The VCALENDAR component of the new series
+ */
+export function splitSeries(
+  calendar: ICalComponent,
+  splitAt: Date,
+  newUid: string,
+  occurrencesBefore: number,
+): ICalComponent {
+  const { master, overrides } = findSeries(calendar);
+  const rrule = getProperty(master, 'RRULE');
+  const masterStart = getDate(master, 'DTSTART');
+  const isAllDay = getProperty(master, 'DTSTART')?.params.get('VALUE') === 'DATE';
+
+  if (!rrule || !masterStart) {
+    throw new Error('Event is not a recurring series');
+  }
+
+  if (splitAt.getTime() <= masterStart.getTime()) {
+    throw new Error('Cannot split a series at or before its first occurrence');
+  }
+
+  const ruleParts = rrule.value.split(';').filter((part) => part !== '');
+  const isRulePart = (part: string, name: string) => part.toUpperCase().startsWith(`${name}=`);
+  const countPart = ruleParts.find((part) => isRulePart(part, 'COUNT'));
+
+  // The new series starts at the split point
+  const newCalendar = cloneComponent({
+    ...calendar,
+    components: calendar.components.filter((component) => component.name !== 'VEVENT'),
+  });
+  const newMaster = cloneComponent(master);
+  setProperty(newMaster, 'UID', newUid);
+  applyChanges(newMaster, { start: splitAt });
+  setProperty(newMaster, 'SEQUENCE', '0');
+
+  if (countPart) {
+    const remaining = parseInt(countPart.split('=')[1]) - occurrencesBefore;
+    if (remaining <= 0) {
+      throw new Error('The series has no occurrences at or after the split point');
+    }
+    setProperty(
+      newMaster,
+      'RRULE',
+      ruleParts.map((part) => (part === countPart ? `COUNT=${remaining}` : part)).join(';'),
+      new Map(rrule.params),
+    );
+  }
+
+  filterDateLists(newMaster, (date) => date >= splitAt);
+  newCalendar.components.push(newMaster);
+
+  // Overrides of later occurrences move to the new series
+  for (const override of overrides) {
+    const recurrenceId = getDate(override, 'RECURRENCE-ID');
+    if (recurrenceId && recurrenceId >= splitAt) {
+      calendar.components = calendar.components.filter((component) => component !== override);
+      setProperty(override, 'UID', newUid);
+      newCalendar.components.push(override);
+    }
+  }
+
+  // The original series ends just before the split point
+  const until = isAllDay
+    ? formatDateValue(
+        new Date(splitAt.getTime() - 24 * 60 * 60 * 1000),
+        new Map([['VALUE', 'DATE']]),
+      )
+    : formatUtc(new Date(splitAt.getTime() - 1000));
+  setProperty(
+    master,
+    'RRULE',
+    [
+      ...ruleParts.filter((part) => !isRulePart(part, 'COUNT') && !isRulePart(part, 'UNTIL')),
+      `UNTIL=${until}`,
+    ].join(';'),
+    new Map(rrule.params),
+  );
+  filterDateLists(master, (date) => date < splitAt);
+  applyChanges(master, {});
+
+  return newCalendar;
+}
@@ -0,0 +1,126 @@
+/**
+ * Utilities for paging through sorted lists with opaque cursors
+ *
+ * A cursor holds the sort key of the last item of a page, so the next page starts right
+ * after that item even when items were added or removed in between. It also holds a
+ * fingerprint of the request, so a cursor cannot be used with different filters.
+ */
+import { Buffer } from 'buffer';
+import { createHash } from 'crypto';
+
+/**
+ * Sort key of an item; compared element by element
+ */
+export type SortKey = Array<string | number>;
+
+/**
+ * A page of items
+ */
+export interface Page<T> {
+  items: T[];
+  /**
+   * Cursor of the next page; undefined on the last page
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Thrown for cursors that are malformed or belong to another request
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Compare two sort keys
+ * @returns A negative number if a sorts first, a positive number if b sorts first, 0 if equal
+ */
+export function compareKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Fingerprint the parameters of a request, the scope of its cursors
+ * @param params The parameters that select and filter the items, without cursor and limit
+ */
+export function getScope(params: Record<string, unknown>): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  return createHash('sha256').update(JSON.stringify(entries)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Create the cursor of the items after a sort key
+ * @param key Sort key of the last item of a page
+ * @param scope Fingerprint of the request
+ */
+export function encodeCursor(key: SortKey, scope: string): string {
+  return Buffer.from(JSON.stringify({ k: key, s: scope })).toString('base64url');
+}
+
+/**
+ * Read the sort key of a cursor
+ * @param cursor The cursor
+ * @param scope Fingerprint of the request the cursor must belong to
+ * @throws InvalidCursorError if the cursor is malformed or was created for another request
+ */
+export function decodeCursor(cursor: string, scope: string): SortKey {
+  let decoded: { k?: unknown; s?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const key = decoded?.k;
+  if (
+    !Array.isArray(key) ||
+    !key.every((part) => typeof part === 'string' || typeof part === 'number')
+  ) {
+    throw new InvalidCursorError();
+  }
+  if (decoded.s !== scope) {
+    throw new InvalidCursorError('Invalid cursor: it belongs to a request with other parameters');
+  }
+  return key;
+}
+
+/**
+ * Sort items and cut out the page after a cursor
+ * @param items All items, in any order
+ * @param getKey Sort key of an item; must be unique for the ordering to be stable
+ * @param options cursor of the page (the first page if omitted), limit of its size
+ * (all remaining items if omitted) and scope, the fingerprint of the request
+ * @returns The items of the page and the cursor of the next page
+ * @throws InvalidCursorError if the cursor is invalid
+ */
+export function paginate<T>(
+  items: T[],
+  getKey: (item: T) => SortKey,
+  options: { cursor?: string; limit?: number; scope: string },
+): Page<T> {
+  const after = options.cursor ? decodeCursor(options.cursor, options.scope) : null;
+
+  const sorted = items
+    .map((item) => ({ item, key: getKey(item) }))
+    .filter(({ key }) => !after || compareKeys(key, after) > 0)
+    .sort((a, b) => compareKeys(a.key, b.key));
+
+  const page = options.limit && options.limit > 0 ? sorted.slice(0, options.limit) : sorted;
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(({ item }) => item),
+    nextCursor:
+      page.length < sorted.length && last ? encodeCursor(last.key, options.scope) : undefined,
+  };
+}
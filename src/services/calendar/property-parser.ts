@@ -60,10 +60,14 @@ export function isCalendarResource(resourceType: unknown): boolean {
  * @param defaultUsername Default username to use if owner cannot be extracted
  * @returns The extracted owner username
  */
-export function extractOwner(ownerPrincipal: string | null | undefined, defaultUsername: string): string {
+export function extractOwner(
+  ownerPrincipal: string | null | undefined,
+  defaultUsername: string,
+): string {
   if (!ownerPrincipal) return defaultUsername;
 
-  const ownerMatch = ownerPrincipal.match(/principal:principals\/users\/([^/]+)/);
+  // Nextcloud sends principals/users/<name>; sharing properties use principal:principals/users/<name>
+  const ownerMatch = ownerPrincipal.match(/principals\/users\/([^/]+)/);
   if (ownerMatch && ownerMatch[1]) {
     return ownerMatch[1];
   }
@@ -98,52 +102,55 @@ export function normalizeColor(color: string | null | undefined): string {
 /**
  * Parse WebDAV privilege set into permission object
  */
-export function parsePrivilegeSet(privilegeSet: Record<string, unknown> | null): CalendarPermissions {
+export function parsePrivilegeSet(
+  privilegeSet: Record<string, unknown> | null,
+): CalendarPermissions {
   const permissions = {
     canRead: false,
     canWrite: false,
     canShare: false,
-    canDelete: false
+    canDelete: false,
   };
-  
+
   // If no privilege set provided, default to read-only access
   if (!privilegeSet) {
     permissions.canRead = true;
     return permissions;
   }
-  
+
   // If no privileges found, assume read access
   if (!privilegeSet['d:privilege']) {
     permissions.canRead = true;
     return permissions;
   }
-  
-  const privileges = Array.isArray(privilegeSet['d:privilege']) 
-    ? privilegeSet['d:privilege'] 
+
+  const privileges = Array.isArray(privilegeSet['d:privilege'])
+    ? privilegeSet['d:privilege']
     : [privilegeSet['d:privilege']];
-    
+
   // For Nextcloud, assume we have read access if we can see the calendar at all
   permissions.canRead = true;
-  
+
   for (const privilege of privileges) {
+    // Privileges are empty elements, which the XML parser turns into empty strings
+    const has = (name: string) => !!privilege && typeof privilege === 'object' && name in privilege;
+
     // Write permissions
-    if (privilege['d:write'] || 
-        privilege['d:write-content'] || 
-        privilege['d:write-properties']) {
+    if (has('d:write') || has('d:write-content') || has('d:write-properties')) {
       permissions.canWrite = true;
     }
-    
+
     // Share permission (Nextcloud specific)
-    if (privilege['d:share'] || privilege['oc:share']) {
+    if (has('d:share') || has('oc:share')) {
       permissions.canShare = true;
     }
-    
+
     // Delete permission
-    if (privilege['d:unbind'] || privilege['d:write']) {
+    if (has('d:unbind') || has('d:write')) {
       permissions.canDelete = true;
     }
   }
-  
+
   return permissions;
 }
 
@@ -159,7 +166,7 @@ export function parseCalendarResponse(
   response: Record<string, unknown>,
   baseUrl: string,
   caldavUrl: string,
-  defaultUsername: string
+  defaultUsername: string,
 ): Calendar | null {
   // Skip responses without proper structure
   if (!response['d:href'] || !response['d:propstat']) {
@@ -173,7 +180,9 @@ export function parseCalendarResponse(
 
   // Find successful propstat
   const propstat = Array.isArray(response['d:propstat'])
-    ? response['d:propstat'].find((ps: { 'd:status'?: string }) => ps['d:status'] === 'HTTP/1.1 200 OK')
+    ? response['d:propstat'].find(
+        (ps: { 'd:status'?: string }) => ps['d:status'] === 'HTTP/1.1 200 OK',
+      )
     : response['d:propstat'];
 
   if (!propstat || !propstat['d:prop']) {
@@ -217,12 +226,12 @@ export function parseCalendarResponse(
       canRead: privileges.canRead,
       canWrite: privileges.canWrite,
       canShare: privileges.canShare,
-      canDelete: privileges.canDelete
+      canDelete: privileges.canDelete,
     },
     url: `${baseUrl}${response['d:href']}`,
     // For ADHD-friendly organization
     category: null,
     focusPriority: null,
-    metadata: null
+    metadata: null,
   });
-}
\ No newline at end of file
+}
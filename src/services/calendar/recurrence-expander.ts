@@ -0,0 +1,451 @@
+/**
+ * Local expansion of recurring events for servers without CalDAV expand support
+ */
+import { Event, RecurrenceRule, Weekday } from '../../models/index.js';
+import { TimezoneService } from '../timezone-service.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Upper bound on the number of recurrence periods examined for a single rule,
+ * so rules that can never match terminate
+ */
+const MAX_ITERATIONS = 100000;
+
+/**
+ * Options controlling local expansion
+ */
+export interface ExpansionOptions {
+  /**
+   * Timezone whose wall-clock time a series repeats in when the event has no TZID
+   */
+  timezone?: string;
+
+  /**
+   * Maximum number of occurrences generated per series
+   */
+  maxOccurrences?: number;
+}
+
+/**
+ * Maps instants to wall-clock timestamps (local time encoded as UTC) and back
+ */
+interface WallClock {
+  toWall(date: Date): number;
+  toInstant(wall: number): Date;
+}
+
+/**
+ * Wall clock of an IANA timezone
+ */
+function zonedClock(timezoneService: TimezoneService): WallClock {
+  return {
+    toWall(date) {
+      const parts = timezoneService.getZonedParts(date);
+      return (
+        Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) +
+        date.getUTCSeconds() * 1000
+      );
+    },
+    toInstant(wall) {
+      const w = new Date(wall);
+      const instant = timezoneService.fromZonedTime(
+        w.getUTCFullYear(),
+        w.getUTCMonth() + 1,
+        w.getUTCDate(),
+        w.getUTCHours(),
+        w.getUTCMinutes(),
+      );
+      return new Date(instant.getTime() + w.getUTCSeconds() * 1000);
+    },
+  };
+}
+
+/**
+ * Wall clock of the process timezone, matching how all-day dates are parsed
+ */
+const localClock: WallClock = {
+  toWall(date) {
+    return Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+    );
+  },
+  toInstant(wall) {
+    const w = new Date(wall);
+    return new Date(
+      w.getUTCFullYear(),
+      w.getUTCMonth(),
+      w.getUTCDate(),
+      w.getUTCHours(),
+      w.getUTCMinutes(),
+      w.getUTCSeconds(),
+    );
+  },
+};
+
+/**
+ * Check whether Intl recognises a timezone name
+ */
+function isKnownTimezone(timezone: string | undefined): timezone is string {
+  if (!timezone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a BYDAY entry such as 'TU', '2TU' or '-1FR'
+ * @param entry The BYDAY entry
+ * @returns Ordinal (0 when absent) and weekday index (0 is Sunday)
+ */
+function parseByDay(entry: string): { ordinal: number; weekday: number } {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry.trim().toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid BYDAY value: ${entry}`);
+  }
+
+  return {
+    ordinal: match[1] ? parseInt(match[1]) : 0,
+    weekday: WEEKDAYS.indexOf(match[2] as Weekday),
+  };
+}
+
+/**
+ * Number of days in a month
+ * @param year Full year
+ * @param month Month (1-based)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Select entries of a sorted list by 1-based position, negative positions counting from the end
+ */
+function selectPositions<T>(items: T[], positions: number[]): T[] {
+  const selected = new Set<T>();
+
+  for (const position of positions) {
+    const item = position > 0 ? items[position - 1] : items[items.length + position];
+    if (item !== undefined) {
+      selected.add(item);
+    }
+  }
+
+  return items.filter((item) => selected.has(item));
+}
+
+/**
+ * Select days (UTC midnight timestamps) matching BYDAY entries, with ordinals
+ * counted within the given list
+ */
+function matchByDay(days: number[], byDay: { ordinal: number; weekday: number }[]): number[] {
+  const matched = new Set<number>();
+
+  for (const { ordinal, weekday } of byDay) {
+    const candidates = days.filter((day) => new Date(day).getUTCDay() === weekday);
+    const picked = ordinal === 0 ? candidates : selectPositions(candidates, [ordinal]);
+    picked.forEach((day) => matched.add(day));
+  }
+
+  return days.filter((day) => matched.has(day));
+}
+
+/**
+ * List the days of a month, as UTC midnight timestamps
+ */
+function monthDays(year: number, month: number): number[] {
+  return Array.from({ length: daysInMonth(year, month) }, (_, i) =>
+    Date.UTC(year, month - 1, i + 1),
+  );
+}
+
+/**
+ * Resolve BYMONTHDAY entries against the days of a month
+ */
+function matchByMonthDay(days: number[], byMonthDay: number[]): number[] {
+  return days.filter((day) => {
+    const date = new Date(day);
+    const dayOfMonth = date.getUTCDate();
+    const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth() + 1);
+    return byMonthDay.some((n) => n === dayOfMonth || (n < 0 && length + n + 1 === dayOfMonth));
+  });
+}
+
+/**
+ * Compute the candidate days of a single recurrence period before BYSETPOS
+ * @param rule The recurrence rule
+ * @param period Index of the period since the start of the series
+ * @param first Wall-clock date of the first occurrence at midnight
+ * @returns Sorted UTC midnight timestamps
+ */
+function periodDays(rule: RecurrenceRule, period: number, first: Date): number[] {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const byDay = rule.byDay?.map(parseByDay);
+  const byMonthDay = rule.byMonthDay?.length ? rule.byMonthDay : undefined;
+  const byMonth = rule.byMonth?.length ? rule.byMonth : undefined;
+  const firstDay = first.getTime();
+
+  let days: number[];
+
+  switch (rule.frequency) {
+    case 'daily': {
+      days = [firstDay + period * interval * DAY];
+      if (byDay)
+        days = days.filter((day) => byDay.some((d) => d.weekday === new Date(day).getUTCDay()));
+      if (byMonthDay) days = matchByMonthDay(days, byMonthDay);
+      break;
+    }
+
+    case 'weekly': {
+      // Weeks start on Monday
+      const weekStart =
+        firstDay - ((first.getUTCDay() + 6) % 7) * DAY + period * interval * 7 * DAY;
+      const weekdays = byDay ? byDay.map((d) => d.weekday) : [first.getUTCDay()];
+      days = Array.from({ length: 7 }, (_, i) => weekStart + i * DAY).filter((day) =>
+        weekdays.includes(new Date(day).getUTCDay()),
+      );
+      break;
+    }
+
+    case 'monthly': {
+      const monthIndex = first.getUTCMonth() + period * interval;
+      const year = first.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      days = monthDays(year, month);
+
+      if (byDay) days = matchByDay(days, byDay);
+      if (byMonthDay) days = matchByMonthDay(days, byMonthDay);
+      if (!byDay && !byMonthDay) days = matchByMonthDay(days, [first.getUTCDate()]);
+      break;
+    }
+
+    case 'yearly': {
+      const year = first.getUTCFullYear() + period * interval;
+
+      if (byDay && !byMonth) {
+        // Ordinals count within the whole year
+        days = matchByDay(
+          Array.from({ length: 12 }, (_, i) => monthDays(year, i + 1)).flat(),
+          byDay,
+        );
+        if (byMonthDay) days = matchByMonthDay(days, byMonthDay);
+      } else {
+        const months =
+          byMonth ??
+          (byMonthDay ? [...Array(12).keys()].map((i) => i + 1) : [first.getUTCMonth() + 1]);
+        days = [];
+        for (const month of [...months].sort((a, b) => a - b)) {
+          let candidates = monthDays(year, month);
+          if (byDay) candidates = matchByDay(candidates, byDay);
+          if (byMonthDay) candidates = matchByMonthDay(candidates, byMonthDay);
+          if (!byDay && !byMonthDay) candidates = matchByMonthDay(candidates, [first.getUTCDate()]);
+          days.push(...candidates);
+        }
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${rule.frequency}`);
+  }
+
+  if (byMonth) {
+    days = days.filter((day) => byMonth.includes(new Date(day).getUTCMonth() + 1));
+  }
+
+  return rule.bySetPos?.length ? selectPositions(days, rule.bySetPos) : days;
+}
+
+/**
+ * Expand a recurrence rule into occurrence start times
+ * The first occurrence is always the start of the series. RDATEs are added and
+ * EXDATEs removed after COUNT and UNTIL are applied, as RFC 5545 specifies.
+ * @param rule The recurrence rule
+ * @param start Start of the first occurrence
+ * @param rangeEnd Occurrences starting at or after this time are not generated
+ * @param options Expansion options
+ * @param isAllDay Whether the series consists of all-day occurrences
+ * @param rangeStart Optional lower bound used to skip work; earlier occurrences may be omitted
+ * @returns Occurrence start times in ascending order
+ */
+export function expandRecurrenceRule(
+  rule: RecurrenceRule,
+  start: Date,
+  rangeEnd: Date,
+  options: ExpansionOptions & { isAllDay?: boolean; rangeStart?: Date } = {},
+): Date[] {
+  const clock = options.isAllDay
+    ? localClock
+    : zonedClock(new TimezoneService(isKnownTimezone(options.timezone) ? options.timezone : 'UTC'));
+  const maxOccurrences = options.maxOccurrences ?? 1000;
+
+  const startWall = clock.toWall(start);
+  const timeOfDay = ((startWall % DAY) + DAY) % DAY;
+  const first = new Date(startWall - timeOfDay);
+  const endWall = clock.toWall(rangeEnd);
+  const untilWall = rule.until ? clock.toWall(rule.until) : Infinity;
+  // Occurrences before this cannot reach the range, so their instants are never computed
+  const skipBeforeWall = options.rangeStart
+    ? clock.toWall(options.rangeStart) - 2 * DAY
+    : -Infinity;
+
+  const occurrences: Date[] = [start];
+  let count = 1;
+  let done = (rule.count !== undefined && count >= rule.count) || startWall >= endWall;
+
+  // Shortest possible length of each frequency's period, used to stop once past the range
+  const minPeriodLength = { daily: 1, weekly: 7, monthly: 28, yearly: 365 }[rule.frequency] * DAY;
+  const interval = Math.max(1, rule.interval ?? 1);
+
+  for (let period = 0; !done && period < MAX_ITERATIONS; period++) {
+    if (first.getTime() + (period - 1) * interval * minPeriodLength > endWall) {
+      break;
+    }
+
+    for (const day of periodDays(rule, period, first)) {
+      const wall = day + timeOfDay;
+      if (wall <= startWall) continue;
+
+      if (wall > untilWall || wall >= endWall || occurrences.length >= maxOccurrences) {
+        done = true;
+        break;
+      }
+
+      count++;
+      if (wall >= skipBeforeWall) {
+        occurrences.push(clock.toInstant(wall));
+      }
+
+      if (rule.count !== undefined && count >= rule.count) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  // Add RDATEs, then drop EXDATEs by matching wall-clock time (or the day for all-day events)
+  const key = (date: Date) => {
+    const wall = clock.toWall(date);
+    return options.isAllDay ? Math.floor(wall / DAY) : wall;
+  };
+  const excluded = new Set((rule.exDates ?? []).map(key));
+  const seen = new Set<number>();
+
+  return [...occurrences, ...(rule.rDates ?? []).filter((date) => date < rangeEnd)]
+    .filter((date) => {
+      const k = key(date);
+      if (excluded.has(k) || seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Expand a recurring event into the instances overlapping a range
+ * Instances keep the event's UID and carry their original start in recurrenceId.
+ * @param event The master event of the series
+ * @param rangeStart Start of the range
+ * @param rangeEnd End of the range
+ * @param options Expansion options
+ * @returns Instances overlapping the range, or the event itself when it does not recur
+ */
+export function expandEvent(
+  event: Event,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: ExpansionOptions = {},
+): Event[] {
+  const overlaps = (start: Date, end: Date) =>
+    start < rangeEnd &&
+    (end > rangeStart || (end.getTime() === start.getTime() && start >= rangeStart));
+
+  if (!event.recurrenceRule) {
+    return overlaps(event.start, event.end) ? [event] : [];
+  }
+
+  const duration = event.end.getTime() - event.start.getTime();
+  const starts = expandRecurrenceRule(event.recurrenceRule, event.start, rangeEnd, {
+    ...options,
+    timezone: isKnownTimezone(event.timezone) ? event.timezone : options.timezone,
+    isAllDay: event.isAllDay,
+    rangeStart: new Date(rangeStart.getTime() - duration),
+  });
+
+  return starts
+    .map((start) => ({
+      ...event,
+      start,
+      end: new Date(start.getTime() + duration),
+      recurrenceId: start,
+      recurrenceRule: undefined,
+      overrides: undefined,
+    }))
+    .filter((instance) => overlaps(instance.start, instance.end));
+}
+
+/**
+ * Expand every recurring event in a list, applying RECURRENCE-ID overrides
+ * Overrides attached to a master or listed next to it replace the generated
+ * instance they identify; overrides without a master are kept as they are.
+ * @param events Events as returned by a calendar query, masters and overrides included
+ * @param rangeStart Start of the range
+ * @param rangeEnd End of the range
+ * @param options Expansion options
+ * @returns Non-recurring events, expanded instances and overrides
+ */
+export function expandEvents(
+  events: Event[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: ExpansionOptions = {},
+): Event[] {
+  const masters = new Map(
+    events.filter((event) => event.recurrenceRule).map((event) => [event.id, event]),
+  );
+  const overrides = new Map<string, Event[]>(
+    [...masters.values()].map((master) => [master.id, master.overrides ?? []]),
+  );
+  const result: Event[] = [];
+
+  for (const event of events) {
+    if (event.recurrenceRule) continue;
+
+    if (event.recurrenceId && masters.has(event.id)) {
+      overrides.set(event.id, [...(overrides.get(event.id) ?? []), event]);
+    } else {
+      result.push(event);
+    }
+  }
+
+  for (const master of masters.values()) {
+    const seriesOverrides = overrides.get(master.id) ?? [];
+    const overridden = new Set(seriesOverrides.map((o) => o.recurrenceId?.getTime()));
+
+    for (const instance of expandEvent(master, rangeStart, rangeEnd, options)) {
+      if (!overridden.has(instance.recurrenceId?.getTime())) {
+        result.push(instance);
+      }
+    }
+
+    // Overrides may move an occurrence into or out of the range
+    result.push(
+      ...seriesOverrides.flatMap((override) =>
+        expandEvent(override, rangeStart, rangeEnd, options),
+      ),
+    );
+  }
+
+  return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
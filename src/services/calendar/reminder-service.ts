@@ -0,0 +1,130 @@
+/**
+ * Service for finding event reminders (VALARM) that trigger within a time window
+ */
+import { Event, UpcomingReminder } from '../../models/index.js';
+import { createLogger } from '../logger.js';
+import * as AlarmUtils from './alarm-utils.js';
+import { CalendarService } from './calendar-service.js';
+import { EventService } from './event-service.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How far after the window events are read, so reminders set up to a week
+ * ahead of an event are found
+ */
+const LOOKAHEAD = 7 * DAY;
+
+/**
+ * How far before the window events are read, for reminders triggering after
+ * an event started or relative to its end
+ */
+const LOOKBEHIND = DAY;
+
+export class ReminderService {
+  private calendarService: CalendarService;
+  private eventService: EventService;
+  private logger = createLogger('ReminderService');
+
+  constructor(calendarService: CalendarService, eventService: EventService) {
+    this.calendarService = calendarService;
+    this.eventService = eventService;
+  }
+
+  /**
+   * Collect the reminders of events that trigger within a window
+   * @param events Events (with recurring events expanded) of one calendar
+   * @param calendarId ID of the calendar
+   * @param start Start of the window
+   * @param end End of the window
+   * @returns Reminders triggering within the window
+   * @private Internal utility method
+   */
+  private collectReminders(
+    events: Event[],
+    calendarId: string,
+    start: Date,
+    end: Date,
+  ): UpcomingReminder[] {
+    const reminders: UpcomingReminder[] = [];
+    // Absolute triggers are shared by all occurrences of a series
+    const seen = new Set<string>();
+
+    for (const event of events) {
+      (event.reminders ?? []).forEach((reminder, index) => {
+        if (reminder.isSent) {
+          return;
+        }
+
+        for (const triggerAt of AlarmUtils.getTriggerTimes(reminder, event.start, event.end)) {
+          const key = `${event.id}/${index}/${triggerAt.getTime()}`;
+          if (triggerAt < start || triggerAt >= end || (reminder.triggerAt && seen.has(key))) {
+            continue;
+          }
+          seen.add(key);
+
+          reminders.push({
+            triggerAt,
+            reminder,
+            calendarId,
+            eventId: event.id,
+            eventTitle: event.title,
+            eventStart: event.start,
+            eventEnd: event.end,
+          });
+        }
+      });
+    }
+
+    return reminders;
+  }
+
+  /**
+   * Find reminders that trigger within a time window
+   * @param start Start of the window
+   * @param end End of the window
+   * @param calendarIds Calendars to search (default: all calendars)
+   * @returns Promise<UpcomingReminder[]> Reminders ordered by trigger time
+   */
+  async getUpcomingReminders(
+    start: Date,
+    end: Date,
+    calendarIds?: string[],
+  ): Promise<UpcomingReminder[]> {
+    this.logger.debug('Searching for upcoming reminders', { start, end, calendarIds });
+
+    try {
+      if (start >= end) {
+        throw new Error('Start date must be before end date');
+      }
+
+      const ids =
+        calendarIds && calendarIds.length > 0
+          ? calendarIds
+          : (await this.calendarService.getCalendars()).map((calendar) => calendar.id);
+
+      const reminders: UpcomingReminder[] = [];
+      for (const calendarId of ids) {
+        try {
+          const events = await this.eventService.getEvents(calendarId, {
+            start: new Date(start.getTime() - LOOKBEHIND),
+            end: new Date(end.getTime() + LOOKAHEAD),
+            expandRecurring: true,
+          });
+          reminders.push(...this.collectReminders(events, calendarId, start, end));
+        } catch (calendarError) {
+          // One unreadable calendar (e.g. a task list) should not hide the others' reminders
+          this.logger.warn(`Skipping reminders of calendar ${calendarId}:`, calendarError);
+        }
+      }
+
+      reminders.sort((a, b) => a.triggerAt.getTime() - b.triggerAt.getTime());
+
+      this.logger.info(`Found ${reminders.length} upcoming reminders`);
+      return reminders;
+    } catch (error) {
+      this.logger.error('Error searching for upcoming reminders:', error);
+      throw new Error(`Failed to find upcoming reminders: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Shared pipeline of the requests to Nextcloud: connections, limits, timeouts, retries and a
+ * circuit breaker per host
+ *
+ * All clients of a host share keep-alive connections and a work queue that caps the requests
+ * in flight and, if configured, the requests started per second.
+ *
+ * Transient failures (connection errors, timeouts, 429, 502, 503 and 504) are retried with
+ * jittered exponential backoff, or after the delay a Retry-After header asks for. Only requests
+ * that can be repeated safely are retried: idempotent methods and PUTs guarded by If-Match.
+ *
+ * When a host keeps failing, its circuit opens and requests to it fail fast instead of piling
+ * up. After a while a single trial request is let through; if it succeeds, the circuit closes.
+ */
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { setTimeout as sleep } from 'timers/promises';
+import { URL } from 'url';
+import { HttpConfig } from '../../config/config.js';
+import { createLogger } from '../logger.js';
+import { WorkQueue, mapSettled } from './work-queue.js';
+
+const logger = createLogger('RequestPipeline');
+
+/**
+ * Settings used where the configuration sets none
+ */
+export const DEFAULT_HTTP_CONFIG: HttpConfig = {
+  timeout: 30000,
+  retries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 30000,
+  circuitThreshold: 5,
+  circuitResetTimeout: 30000,
+  maxConcurrentRequests: 6,
+  maxRequestsPerSecond: 0,
+};
+
+/**
+ * Methods that have the same effect when repeated (RFC 9110, RFC 4918)
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PROPFIND', 'REPORT', 'DELETE']);
+
+/**
+ * Statuses of an overloaded or temporarily unavailable server
+ */
+const TRANSIENT_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Error codes of connections that failed or timed out
+ */
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_NETWORK',
+]);
+
+/**
+ * State of the circuit of a host:
+ * - 'closed': requests are sent
+ * - 'open': requests fail fast, the host kept failing
+ * - 'half-open': a trial request checks whether the host recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * State of the circuit of a host, as reported by the health tool
+ */
+export interface CircuitStatus {
+  host: string;
+  state: CircuitState;
+  /**
+   * Failed attempts since the last success
+   */
+  consecutiveFailures: number;
+  /**
+   * When the last attempt failed, and why
+   */
+  lastFailureAt?: Date;
+  lastError?: string;
+  /**
+   * When an open circuit lets a trial request through
+   */
+  retryAt?: Date;
+  /**
+   * Requests in flight, and requests waiting for one of them to finish
+   */
+  active?: number;
+  queued?: number;
+}
+
+/**
+ * Thrown instead of sending a request while the circuit of its host is open
+ */
+export class CircuitOpenError extends Error {
+  host: string;
+  retryAt: Date | null;
+
+  constructor(host: string, retryAt: Date | null) {
+    super(
+      retryAt
+        ? `Service unavailable: ${host} keeps failing, so requests are paused until ${retryAt.toISOString()}.`
+        : `Service unavailable: ${host} keeps failing; a trial request is checking whether it recovered.`,
+    );
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Circuit breaker of one host
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialPending = false;
+  private lastFailureAt?: Date;
+  private lastError?: string;
+
+  constructor(
+    private host: string,
+    private config: HttpConfig,
+  ) {}
+
+  /**
+   * Let a request through
+   * @throws CircuitOpenError while the circuit is open or a trial request is pending
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const retryAt = this.openedAt + this.config.circuitResetTimeout;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(this.host, new Date(retryAt));
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialPending) {
+        throw new CircuitOpenError(this.host, null);
+      }
+      this.trialPending = true;
+    }
+  }
+
+  /**
+   * Record that the host answered; client errors like 404 count, the host is working
+   */
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit of ${this.host} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialPending = false;
+  }
+
+  /**
+   * Record a transient failure; opens the circuit at the threshold or when a trial failed
+   * @param description Why the attempt failed
+   */
+  recordFailure(description: string): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date();
+    this.lastError = description;
+    this.trialPending = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.circuitThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit of ${this.host} opened after ${this.consecutiveFailures} failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      host: this.host,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      retryAt:
+        this.state === 'open'
+          ? new Date(this.openedAt + this.config.circuitResetTimeout)
+          : undefined,
+    };
+  }
+}
+
+/**
+ * What the clients of a host share
+ */
+interface HostConnection {
+  breaker: CircuitBreaker;
+  queue: WorkQueue;
+  httpAgent: HttpAgent;
+  httpsAgent: HttpsAgent;
+}
+
+/**
+ * Connections by host; created with the settings of the first client of a host
+ */
+const hostConnections = new Map<string, HostConnection>();
+
+/**
+ * Get the shared connection of a host, creating it on first use
+ */
+function getHostConnection(host: string, config: HttpConfig): HostConnection {
+  let connection = hostConnections.get(host);
+  if (!connection) {
+    const agentOptions = { keepAlive: true, maxSockets: config.maxConcurrentRequests };
+    connection = {
+      breaker: new CircuitBreaker(host, config),
+      queue: new WorkQueue(config.maxConcurrentRequests, config.maxRequestsPerSecond),
+      httpAgent: new HttpAgent(agentOptions),
+      httpsAgent: new HttpsAgent(agentOptions),
+    };
+    hostConnections.set(host, connection);
+  }
+  return connection;
+}
+
+/**
+ * Get the state of the circuits of all hosts requested so far
+ */
+export function getCircuitStatuses(): CircuitStatus[] {
+  return [...hostConnections.values()].map(({ breaker, queue }) => ({
+    ...breaker.getStatus(),
+    ...queue.getStatus(),
+  }));
+}
+
+/**
+ * Check whether a request can be repeated without changing its effect
+ */
+function isRepeatable(method: string, headers: AxiosRequestConfig['headers']): boolean {
+  if (IDEMPOTENT_METHODS.has(method)) {
+    return true;
+  }
+  // A PUT guarded by If-Match fails instead of overwriting a version written in between
+  return (
+    method === 'PUT' && Object.keys(headers ?? {}).some((name) => name.toLowerCase() === 'if-match')
+  );
+}
+
+/**
+ * Describe a transient failure, or return null if the error is not transient
+ */
+function describeTransientFailure(error: unknown): string | null {
+  if (!axios.isAxiosError(error)) {
+    return null;
+  }
+  if (error.response) {
+    return TRANSIENT_STATUSES.has(error.response.status) ? `HTTP ${error.response.status}` : null;
+  }
+  return error.code && TRANSIENT_ERROR_CODES.has(error.code) ? error.code : null;
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @returns Milliseconds to wait, or null without a valid header
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Sends the requests of a client to one host
+ */
+export class RequestPipeline {
+  private config: HttpConfig;
+  private connection: HostConnection;
+
+  /**
+   * @param baseUrl URL of the server; its host shares connections, queue and circuit with other
+   * clients
+   * @param config Limits, timeouts and retries; what the clients of a host share uses the settings
+   * of the first client of the host
+   */
+  constructor(baseUrl: string, config: Partial<HttpConfig> = {}) {
+    this.config = { ...DEFAULT_HTTP_CONFIG, ...config };
+    this.connection = getHostConnection(new URL(baseUrl).host, this.config);
+  }
+
+  /**
+   * Send a request, retrying transient failures if it can be repeated safely
+   * Every attempt waits for a slot in the queue of the host; retries wait outside of it.
+   * @param request The axios request; the configured timeout applies unless it sets one
+   * @returns The response
+   * @throws The axios error of the last attempt, or CircuitOpenError if the host keeps failing
+   */
+  async request<T = string>(request: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (request.method ?? 'GET').toUpperCase();
+    const repeatable = isRepeatable(method, request.headers);
+
+    const { breaker, queue, httpAgent, httpsAgent } = this.connection;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await queue.run(() => {
+          breaker.acquire();
+          return axios<T>({ timeout: this.config.timeout, httpAgent, httpsAgent, ...request });
+        });
+        breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          throw error;
+        }
+
+        const failure = describeTransientFailure(error);
+        if (!failure) {
+          breaker.recordSuccess();
+          throw error;
+        }
+        breaker.recordFailure(failure);
+
+        const delay =
+          repeatable && attempt < this.config.retries ? this.getRetryDelay(error, attempt) : null;
+        if (delay === null) {
+          throw error;
+        }
+
+        logger.warn(`${method} request failed with ${failure}, retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Run an operation for each item, as many at a time as requests to the host may be in flight
+   * The requests of the operations wait in the queue of the host like all others.
+   * @param items The items
+   * @param operation The operation to run for an item
+   * @returns The outcome for each item, in the order of the items
+   */
+  mapSettled<T, R>(
+    items: T[],
+    operation: (item: T) => Promise<R>,
+  ): Promise<PromiseSettledResult<R>[]> {
+    return mapSettled(items, operation, this.config.maxConcurrentRequests);
+  }
+
+  /**
+   * Get the wait before a retry: the Retry-After of the response, or the backoff of the attempt
+   * with jitter, so that clients failing together do not retry together
+   * @returns Milliseconds to wait, or null if the server asks for a longer wait than allowed
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    const retryAfter = axios.isAxiosError(error)
+      ? parseRetryAfter(error.response?.headers?.['retry-after'])
+      : null;
+    if (retryAfter !== null) {
+      return retryAfter <= this.config.maxRetryDelay ? retryAfter : null;
+    }
+
+    const backoff = Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** attempt);
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+}
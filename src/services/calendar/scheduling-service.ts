@@ -0,0 +1,352 @@
+/**
+ * Scheduling assistant service for finding free time across calendars
+ */
+import { BusyPeriod, FreeSlot, FreeSlotSearchOptions, WorkingHours } from '../../models/index.js';
+import { createLogger } from '../logger.js';
+import { TimezoneService } from '../timezone-service.js';
+import { EventService } from './event-service.js';
+import * as FreeBusyUtils from './free-busy-utils.js';
+
+const MINUTE = 60 * 1000;
+const WEEKDAYS: WorkingHours['days'] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  days: ['MO', 'TU', 'WE', 'TH', 'FR'],
+};
+
+export class SchedulingService {
+  private eventService: EventService;
+  private timezoneService: TimezoneService;
+  private logger = createLogger('SchedulingService');
+
+  constructor(eventService: EventService, timezoneService: TimezoneService) {
+    this.eventService = eventService;
+    this.timezoneService = timezoneService;
+  }
+
+  /**
+   * Parse a HH:MM time of day into minutes after midnight
+   * @param value Time of day string
+   * @param fieldName Name of the field for error messages
+   * @returns Minutes after midnight
+   * @throws Error if the value is not a valid time of day
+   * @private Internal utility method
+   */
+  private parseTimeOfDay(value: string, fieldName: string): number {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+
+    if (!match || Number(match[2]) > 59 || minutes > 24 * 60) {
+      throw new Error(`Invalid ${fieldName} time format: expected HH:MM`);
+    }
+    return minutes;
+  }
+
+  /**
+   * Collect busy periods from all calendars, padded by the buffer
+   * @param calendarIds IDs of the calendars to read
+   * @param start Start of the search window
+   * @param end End of the search window
+   * @param bufferMinutes Minutes of padding around each busy period
+   * @returns Promise<BusyPeriod[]> Merged busy periods
+   * @private Internal utility method
+   */
+  private async collectBusyPeriods(
+    calendarIds: string[],
+    start: Date,
+    end: Date,
+    bufferMinutes: number,
+  ): Promise<BusyPeriod[]> {
+    const buffer = bufferMinutes * MINUTE;
+    const periods: BusyPeriod[] = [];
+
+    for (const calendarId of calendarIds) {
+      // Widen the query so events just outside the window still apply their buffer
+      const events = await this.eventService.getEvents(calendarId, {
+        start: new Date(start.getTime() - buffer),
+        end: new Date(end.getTime() + buffer),
+        expandRecurring: true,
+      });
+
+      periods.push(
+        ...FreeBusyUtils.eventsToBusyPeriods(events, calendarId).map((period) => ({
+          ...period,
+          start: new Date(period.start.getTime() - buffer),
+          end: new Date(period.end.getTime() + buffer),
+        })),
+      );
+    }
+
+    return FreeBusyUtils.mergeBusyPeriods(periods);
+  }
+
+  /**
+   * Compute the working-hour windows of each working day within the search range
+   * @param start Start of the search window
+   * @param end End of the search window
+   * @param workingHours Working hours in the user's timezone
+   * @returns Windows in UTC, clipped to the search range
+   * @private Internal utility method
+   */
+  private getWorkingWindows(
+    start: Date,
+    end: Date,
+    workingHours: WorkingHours,
+  ): Array<{ start: Date; end: Date }> {
+    const dayStart = this.parseTimeOfDay(workingHours.start, 'working hours start');
+    const dayEnd = this.parseTimeOfDay(workingHours.end, 'working hours end');
+
+    if (dayStart >= dayEnd) {
+      throw new Error('Working hours start must be before working hours end');
+    }
+
+    const windows: Array<{ start: Date; end: Date }> = [];
+    const first = this.timezoneService.getZonedParts(start);
+    const last = this.timezoneService.getZonedParts(end);
+    const lastDay = Date.UTC(last.year, last.month - 1, last.day);
+
+    // Walk the local calendar days covered by the search window
+    for (
+      let day = new Date(Date.UTC(first.year, first.month - 1, first.day));
+      day.getTime() <= lastDay;
+      day = new Date(day.getTime() + 24 * 60 * MINUTE)
+    ) {
+      if (!workingHours.days.includes(WEEKDAYS[day.getUTCDay()])) {
+        continue;
+      }
+
+      const year = day.getUTCFullYear();
+      const month = day.getUTCMonth() + 1;
+      const date = day.getUTCDate();
+      const windowStart = this.timezoneService.fromZonedTime(
+        year,
+        month,
+        date,
+        Math.floor(dayStart / 60),
+        dayStart % 60,
+      );
+      const windowEnd = this.timezoneService.fromZonedTime(
+        year,
+        month,
+        date,
+        Math.floor(dayEnd / 60),
+        dayEnd % 60,
+      );
+
+      const clippedStart = windowStart < start ? start : windowStart;
+      const clippedEnd = windowEnd > end ? end : windowEnd;
+
+      if (clippedStart < clippedEnd) {
+        windows.push({ start: clippedStart, end: clippedEnd });
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * Subtract busy periods from a window
+   * @param window The window to split
+   * @param busy Merged busy periods sorted by start time
+   * @returns Free intervals within the window
+   * @private Internal utility method
+   */
+  private subtractBusy(
+    window: { start: Date; end: Date },
+    busy: BusyPeriod[],
+  ): Array<{ start: Date; end: Date }> {
+    const free: Array<{ start: Date; end: Date }> = [];
+    let cursor = window.start;
+
+    for (const period of busy) {
+      if (period.end <= cursor || period.start >= window.end) {
+        continue;
+      }
+
+      if (period.start > cursor) {
+        free.push({ start: cursor, end: period.start });
+      }
+
+      cursor = period.end > cursor ? period.end : cursor;
+      if (cursor >= window.end) {
+        break;
+      }
+    }
+
+    if (cursor < window.end) {
+      free.push({ start: cursor, end: window.end });
+    }
+
+    return free;
+  }
+
+  /**
+   * Get the first slot start at or after a time
+   * Slots are aligned to the increment in the user's timezone, so half-hour slots start at
+   * :00 and :30 local time also in zones with an offset of, e.g., five and a half hours.
+   * @param time The time in milliseconds
+   * @param increment Milliseconds between slot starts
+   * @returns The slot start in milliseconds
+   * @private Internal utility method
+   */
+  private alignSlotStart(time: number, increment: number): number {
+    const offset = this.timezoneService.getOffset(new Date(time));
+    return Math.ceil((time + offset) / increment) * increment - offset;
+  }
+
+  /**
+   * Score a candidate slot
+   * Earlier slots, slots that sit against the edge of a free interval (leaving
+   * the rest of it unfragmented) and slots in the preferred part of the day rank higher.
+   * @returns Score between 0 and 1
+   * @private Internal utility method
+   */
+  private scoreSlot(
+    slotStart: Date,
+    slotEnd: Date,
+    interval: { start: Date; end: Date },
+    searchStart: Date,
+    searchEnd: Date,
+    preferredTimeOfDay: 'morning' | 'afternoon' | 'any',
+  ): number {
+    const span = searchEnd.getTime() - searchStart.getTime();
+    const earliness = span > 0 ? 1 - (slotStart.getTime() - searchStart.getTime()) / span : 1;
+
+    const touchesEdge =
+      slotStart.getTime() === interval.start.getTime() ||
+      slotEnd.getTime() === interval.end.getTime();
+    const compactness = touchesEdge ? 1 : 0.5;
+
+    let timeOfDay = 1;
+    if (preferredTimeOfDay !== 'any') {
+      const { hour } = this.timezoneService.getZonedParts(slotStart);
+      const isMorning = hour < 12;
+      timeOfDay = (preferredTimeOfDay === 'morning') === isMorning ? 1 : 0;
+    }
+
+    const score = 0.4 * earliness + 0.3 * compactness + 0.3 * timeOfDay;
+    return Math.round(score * 1000) / 1000;
+  }
+
+  /**
+   * Find ranked free time slots across one or more calendars
+   * Recurring events are expanded so every occurrence blocks time, and working
+   * hours are interpreted in the user's timezone.
+   * @param options Search options
+   * @returns Promise<FreeSlot[]> Non-overlapping candidate slots, best first
+   */
+  async findFreeSlots(options: FreeSlotSearchOptions): Promise<FreeSlot[]> {
+    this.logger.debug('Searching for free slots', {
+      calendarIds: options.calendarIds,
+      durationMinutes: options.durationMinutes,
+    });
+
+    try {
+      if (!options.calendarIds || options.calendarIds.length === 0) {
+        throw new Error('At least one calendar ID is required');
+      }
+
+      if (!options.durationMinutes || options.durationMinutes <= 0) {
+        throw new Error('Duration must be a positive number of minutes');
+      }
+
+      if (options.start >= options.end) {
+        throw new Error('Start date must be before end date');
+      }
+
+      const workingHours: WorkingHours = {
+        start: options.workingHours?.start ?? DEFAULT_WORKING_HOURS.start,
+        end: options.workingHours?.end ?? DEFAULT_WORKING_HOURS.end,
+        days: options.workingHours?.days ?? DEFAULT_WORKING_HOURS.days,
+      };
+      const bufferMinutes = Math.max(0, options.bufferMinutes ?? 0);
+      const increment = Math.max(1, options.slotIncrementMinutes ?? 15) * MINUTE;
+      const duration = options.durationMinutes * MINUTE;
+      const maxResults = Math.max(1, options.maxResults ?? 10);
+      const preferredTimeOfDay = options.preferredTimeOfDay ?? 'any';
+
+      const windows = this.getWorkingWindows(options.start, options.end, workingHours);
+      const busy = await this.collectBusyPeriods(
+        options.calendarIds,
+        options.start,
+        options.end,
+        bufferMinutes,
+      );
+
+      // Generate every candidate start time that fits in a free interval
+      const candidates: Array<{ start: Date; end: Date; score: number }> = [];
+      for (const window of windows) {
+        for (const interval of this.subtractBusy(window, busy)) {
+          const firstStart = this.alignSlotStart(interval.start.getTime(), increment);
+
+          for (let t = firstStart; t + duration <= interval.end.getTime(); t += increment) {
+            const slotStart = new Date(t);
+            const slotEnd = new Date(t + duration);
+            candidates.push({
+              start: slotStart,
+              end: slotEnd,
+              score: this.scoreSlot(
+                slotStart,
+                slotEnd,
+                interval,
+                options.start,
+                options.end,
+                preferredTimeOfDay,
+              ),
+            });
+          }
+
+          // Also offer the slot that ends exactly at the end of the interval
+          const lastStart = interval.end.getTime() - duration;
+          if (
+            lastStart >= interval.start.getTime() &&
+            this.alignSlotStart(lastStart, increment) !== lastStart
+          ) {
+            const slotStart = new Date(lastStart);
+            candidates.push({
+              start: slotStart,
+              end: interval.end,
+              score: this.scoreSlot(
+                slotStart,
+                interval.end,
+                interval,
+                options.start,
+                options.end,
+                preferredTimeOfDay,
+              ),
+            });
+          }
+        }
+      }
+
+      // Pick the best candidates greedily, skipping any that overlap a chosen slot
+      candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+
+      const chosen: Array<{ start: Date; end: Date; score: number }> = [];
+      for (const candidate of candidates) {
+        if (chosen.length >= maxResults) {
+          break;
+        }
+
+        const overlaps = chosen.some(
+          (slot) => candidate.start < slot.end && candidate.end > slot.start,
+        );
+        if (!overlaps) {
+          chosen.push(candidate);
+        }
+      }
+
+      this.logger.info(`Found ${chosen.length} free slots out of ${candidates.length} candidates`);
+
+      return chosen.map((slot) => ({
+        ...slot,
+        formattedDateRange: this.timezoneService.formatDateRange(slot.start, slot.end),
+      }));
+    } catch (error) {
+      this.logger.error('Error searching for free slots:', error);
+      throw new Error(`Failed to find free slots: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Local cache of calendars and address books, kept current with WebDAV sync-collection (RFC 6578)
+ *
+ * Every collection is stored as a JSON file in the cache directory of its account:
+ * { "syncToken": ..., "resources": { "<href>": { "etag": ..., "data": ... } } }
+ * A sync only transfers the members that changed or were deleted since the stored sync token;
+ * members the server reports without their data are fetched in batches with a multiget.
+ */
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { URL } from 'url';
+import { NextcloudConfig } from '../../config/config.js';
+import { createLogger } from '../logger.js';
+import { CalDavXmlBuilder, XmlService } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
+import { CalDavError, CalendarHttpClient } from './http-client.js';
+
+/**
+ * A cached member of a collection
+ */
+export interface CachedResource {
+  etag: string | null;
+  data: string;
+}
+
+/**
+ * A cached collection
+ */
+interface CachedCollection {
+  syncToken: string | null;
+  resources: Record<string, CachedResource>;
+}
+
+/**
+ * Outcome of syncing a collection
+ */
+export interface SyncResult {
+  syncToken: string | null;
+  /**
+   * Number of members fetched because they were added or changed
+   */
+  changed: number;
+  /**
+   * Number of members removed from the cache because they were deleted
+   */
+  deleted: number;
+  /**
+   * All members of the collection by href
+   */
+  resources: Record<string, CachedResource>;
+}
+
+/**
+ * Get the cache directory of an account
+ * Accounts of different servers or users never share a directory.
+ * @param config The account configuration
+ * @returns The directory, or null if caching is off
+ */
+export function getAccountCacheDir(config: NextcloudConfig): string | null {
+  if (!config.cacheDir) {
+    return null;
+  }
+
+  const account = createHash('sha256').update(`${config.baseUrl}\n${config.username}`);
+  return join(config.cacheDir, account.digest('hex').slice(0, 16));
+}
+
+export class SyncCache {
+  private directory: string;
+  private httpClient: CalendarHttpClient;
+  private caldavXmlBuilder: CalDavXmlBuilder;
+  private enhancedXmlService: EnhancedXmlService;
+  private collections = new Map<string, CachedCollection>();
+  private logger = createLogger('SyncCache');
+
+  /**
+   * @param directory Cache directory of the account
+   * @param httpClient HTTP client of the account
+   */
+  constructor(directory: string, httpClient: CalendarHttpClient) {
+    this.directory = directory;
+    this.httpClient = httpClient;
+    this.caldavXmlBuilder = new CalDavXmlBuilder(new XmlService());
+    this.enhancedXmlService = new EnhancedXmlService();
+  }
+
+  /**
+   * Bring the cached copy of a collection up to date
+   * An expired sync token starts a full sync.
+   * @param collectionUrl The full URL of the calendar or address book
+   * @param dataProperty The property holding the member data, 'c:calendar-data' or 'card:address-data'
+   * @returns The changes and all members of the collection
+   * @throws CalDavError if the server rejects the sync, e.g. when it does not support sync-collection
+   */
+  async sync(collectionUrl: string, dataProperty: string): Promise<SyncResult> {
+    const cached = this.load(collectionUrl);
+    const collectionPath = this.toPath(collectionUrl, collectionUrl);
+    const resources = cached.syncToken ? { ...cached.resources } : {};
+    let syncToken = cached.syncToken;
+    let changed = 0;
+    let deleted = 0;
+    let truncated = true;
+    const withoutData = new Set<string>();
+
+    // Servers may truncate the changes (507 on the collection); continue from the new token
+    while (truncated) {
+      let response: string;
+      try {
+        response = await this.httpClient.syncCollection(
+          collectionUrl,
+          this.caldavXmlBuilder.buildSyncCollectionRequest(syncToken ?? '', [
+            'd:getetag',
+            dataProperty,
+          ]),
+        );
+      } catch (error) {
+        if (error instanceof CalDavError && error.condition === 'valid-sync-token' && syncToken) {
+          this.logger.info(`Sync token of ${collectionUrl} is no longer valid, syncing anew`);
+          this.invalidate(collectionUrl);
+          return this.sync(collectionUrl, dataProperty);
+        }
+        if (error instanceof CalDavError && error.status === 404) {
+          this.invalidate(collectionUrl);
+        }
+        throw error;
+      }
+
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+      truncated = false;
+
+      for (const member of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+        if (!member.href) {
+          continue;
+        }
+
+        const href = this.toPath(member.href, collectionUrl);
+        if (href.replace(/\/$/, '') === collectionPath.replace(/\/$/, '')) {
+          truncated = !!member.status?.includes('507');
+          continue;
+        }
+
+        const data = this.getDataProperty(member.properties, dataProperty);
+        if (member.status?.includes('404')) {
+          deleted += href in resources ? 1 : 0;
+          delete resources[href];
+        } else if (!data) {
+          // Some servers only report the ETags of changed members
+          delete resources[href];
+          withoutData.add(href);
+        } else {
+          const etag = member.properties['d:getetag'];
+          resources[href] = { etag: typeof etag === 'string' ? etag : null, data };
+          withoutData.delete(href);
+          changed++;
+        }
+      }
+
+      const previousToken = syncToken;
+      syncToken = this.enhancedXmlService.extractSyncToken(xmlData) ?? syncToken;
+      // A server that truncates without moving the token on would be asked the same forever
+      if (truncated && syncToken === previousToken) {
+        throw new Error(`The server truncated the changes of ${collectionUrl} without progress`);
+      }
+    }
+
+    if (withoutData.size > 0) {
+      const fetched = await this.fetchMembers(collectionUrl, [...withoutData], dataProperty);
+      Object.assign(resources, fetched);
+      changed += Object.keys(fetched).length;
+    }
+
+    // A sync without changes leaves the cache file as it is
+    if (changed > 0 || deleted > 0 || withoutData.size > 0 || syncToken !== cached.syncToken) {
+      this.save(collectionUrl, { syncToken, resources });
+    }
+    this.logger.debug(`Synced ${collectionUrl}: ${changed} changed, ${deleted} deleted`);
+
+    return { syncToken, changed, deleted, resources };
+  }
+
+  /**
+   * Fetch the data of changed members with calendar-multiget or addressbook-multiget
+   * @param collectionUrl The full URL of the collection
+   * @param hrefs Paths of the members
+   * @param dataProperty The property holding the member data
+   * @returns The members by path; members deleted in between are left out
+   * @private Internal utility method
+   */
+  private async fetchMembers(
+    collectionUrl: string,
+    hrefs: string[],
+    dataProperty: string,
+  ): Promise<Record<string, CachedResource>> {
+    const responses = await this.httpClient.multiget(collectionUrl, hrefs, (batch) =>
+      dataProperty === 'card:address-data'
+        ? this.caldavXmlBuilder.buildAddressbookMultigetRequest(batch)
+        : this.caldavXmlBuilder.buildCalendarMultigetRequest(batch),
+    );
+
+    const members: Record<string, CachedResource> = {};
+    for (const response of responses) {
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(response);
+      for (const member of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+        const data = this.getDataProperty(member.properties, dataProperty);
+        if (member.href && data) {
+          members[this.toPath(member.href, collectionUrl)] = {
+            etag: this.enhancedXmlService.extractEtag(member.properties),
+            data,
+          };
+        }
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Drop a member, or the whole collection, from the cache after a write
+   * The next sync fetches it again.
+   * @param collectionUrl The full URL of the collection
+   * @param resourceUrl The URL of the member; the whole collection if omitted
+   */
+  invalidate(collectionUrl: string, resourceUrl?: string): void {
+    if (!resourceUrl) {
+      this.collections.delete(collectionUrl);
+      rmSync(this.getFilePath(collectionUrl), { force: true });
+      return;
+    }
+
+    const cached = this.load(collectionUrl);
+    const href = this.toPath(resourceUrl, collectionUrl);
+    if (href in cached.resources) {
+      const resources = { ...cached.resources };
+      delete resources[href];
+      this.save(collectionUrl, { ...cached, resources });
+    }
+  }
+
+  /**
+   * Get the path of a URL or href, the key of cached members
+   * @private Internal utility method
+   */
+  private toPath(href: string, collectionUrl: string): string {
+    return new URL(href, collectionUrl).pathname;
+  }
+
+  /**
+   * Get a data property by its local name; prefixes differ between servers
+   * @private Internal utility method
+   */
+  private getDataProperty(properties: Record<string, unknown>, name: string): string | null {
+    const localName = name.split(':').pop();
+    const value = Object.entries(properties).find(
+      ([key]) => key.split(':').pop() === localName,
+    )?.[1];
+    return typeof value === 'string' && value ? value : null;
+  }
+
+  /**
+   * Get the cache file of a collection
+   * @private Internal utility method
+   */
+  private getFilePath(collectionUrl: string): string {
+    const name = createHash('sha256').update(collectionUrl).digest('hex').slice(0, 32);
+    return join(this.directory, `${name}.json`);
+  }
+
+  /**
+   * Load a collection from memory or its cache file
+   * An unreadable file is treated like a missing one, so the collection is synced anew.
+   * @private Internal utility method
+   */
+  private load(collectionUrl: string): CachedCollection {
+    const loaded = this.collections.get(collectionUrl);
+    if (loaded) {
+      return loaded;
+    }
+
+    const path = this.getFilePath(collectionUrl);
+    let collection: CachedCollection = { syncToken: null, resources: {} };
+    if (existsSync(path)) {
+      try {
+        const data = JSON.parse(readFileSync(path, 'utf8')) as Partial<CachedCollection> | null;
+        if (data?.resources && typeof data.resources === 'object') {
+          collection = { syncToken: data.syncToken ?? null, resources: data.resources };
+        }
+      } catch (error) {
+        this.logger.warn(`Ignoring unreadable cache file ${path}:`, error);
+      }
+    }
+
+    this.collections.set(collectionUrl, collection);
+    return collection;
+  }
+
+  /**
+   * Store a collection in memory and in its cache file
+   * The file is only readable by its owner, as it holds calendar and contact data.
+   * @private Internal utility method
+   */
+  private save(collectionUrl: string, collection: CachedCollection): void {
+    this.collections.set(collectionUrl, collection);
+
+    const path = this.getFilePath(collectionUrl);
+    mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+    // Write to a temporary file first so readers never see a partial file
+    const tempPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(collection), { mode: 0o600 });
+    renameSync(tempPath, path);
+  }
+}
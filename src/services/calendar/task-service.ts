@@ -0,0 +1,421 @@
+/**
+ * Service for handling Nextcloud tasks (VTODO) via CalDAV
+ */
+import { NextcloudConfig } from '../../config/config.js';
+import { CreateTaskData, Task, TaskQueryOptions, UpdateTaskData } from '../../models/index.js';
+import { createLogger } from '../logger.js';
+import { XmlService, CalDavXmlBuilder } from '../xml/index.js';
+import { EnhancedXmlService } from '../xml/enhanced-xml-service.js';
+import { CalendarHttpClient, CalDavError, ConflictError } from './http-client.js';
+import * as TaskUtils from './task-utils.js';
+import { ICalComponent, parseDocument, serializeDocument } from './ical-document.js';
+
+import crypto from 'crypto';
+
+export class TaskService {
+  private config: NextcloudConfig;
+  private httpClient: CalendarHttpClient;
+  private logger = createLogger('TaskService');
+  private xmlService: XmlService;
+  private enhancedXmlService: EnhancedXmlService;
+  private caldavXmlBuilder: CalDavXmlBuilder;
+
+  constructor(config: NextcloudConfig) {
+    this.config = config;
+
+    if (!this.config.baseUrl || !this.config.username || !this.config.appToken) {
+      throw new Error('Nextcloud configuration is incomplete');
+    }
+
+    // Remove trailing slash if present
+    const baseUrl = this.config.baseUrl.replace(/\/$/, '');
+
+    this.httpClient = new CalendarHttpClient(
+      baseUrl,
+      this.config.username,
+      this.config.appToken,
+      this.config.http,
+    );
+    this.xmlService = new XmlService();
+    this.enhancedXmlService = new EnhancedXmlService();
+    this.caldavXmlBuilder = new CalDavXmlBuilder(this.xmlService);
+
+    this.logger.info('TaskService initialized successfully', {
+      baseUrl: baseUrl,
+      username: this.config.username,
+    });
+  }
+
+  /**
+   * Validate an ID (calendar or task) for use in a resource path
+   * @param id The ID to validate
+   * @param type Type of the ID for error messages
+   * @throws Error if the ID is missing or contains unsafe characters
+   * @private Internal utility method
+   */
+  private validateId(id: string, type: 'calendar' | 'task'): void {
+    if (!id) {
+      throw new Error(`${type === 'calendar' ? 'Calendar' : 'Task'} ID is required`);
+    }
+
+    if (!/^[a-zA-Z0-9_.-]+$/.test(id)) {
+      this.logger.error(`Invalid ${type} ID format: ${id}`);
+      throw new Error(
+        `Invalid ${type} ID format: Only alphanumeric characters, dash, underscore, and period are allowed`,
+      );
+    }
+  }
+
+  /**
+   * Validate task fields that have a limited range
+   * @param data Task data to validate
+   * @private Internal utility method
+   */
+  private validateTaskData(data: UpdateTaskData): void {
+    if (data.priority !== undefined && (data.priority < 0 || data.priority > 9)) {
+      throw new Error('Priority must be between 0 (undefined) and 9');
+    }
+
+    if (
+      data.percentComplete !== undefined &&
+      (data.percentComplete < 0 || data.percentComplete > 100)
+    ) {
+      throw new Error('Percent complete must be between 0 and 100');
+    }
+
+    if (data.start && data.due && data.start > data.due) {
+      throw new Error('Start date must not be after the due date');
+    }
+
+    if (data.parentId) {
+      this.validateId(data.parentId, 'task');
+    }
+  }
+
+  /**
+   * Get the tasks of a calendar
+   * @param calendarId ID of the calendar (task list)
+   * @param options Filter options
+   * @returns Promise<Task[]> Tasks sorted by due date, then priority
+   */
+  async getTasks(calendarId: string, options: TaskQueryOptions = {}): Promise<Task[]> {
+    this.logger.debug(`Fetching tasks for calendar ${calendarId}`, options);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+
+      const reportXml = this.caldavXmlBuilder.buildTaskQueryReport(options.includeCompleted);
+      const reportResponse = await this.httpClient.calendarReport(calendarId, reportXml);
+      const xmlData = await this.enhancedXmlService.parseCalDAVResponse(reportResponse);
+
+      const tasks: Task[] = [];
+      for (const response of this.enhancedXmlService.extractMultistatusResponses(xmlData)) {
+        try {
+          const calendarData = this.enhancedXmlService.extractCalendarData(response.properties);
+          if (calendarData) {
+            const etag = this.enhancedXmlService.extractEtag(response.properties) ?? undefined;
+            tasks.push(
+              ...TaskUtils.parseTasks(calendarData, calendarId).map((task) => ({ ...task, etag })),
+            );
+          }
+        } catch (parseError) {
+          this.logger.warn('Error parsing task response:', parseError);
+        }
+      }
+
+      TaskUtils.linkSubtasks(tasks);
+
+      let filteredTasks = tasks;
+
+      // Servers ignoring the COMPLETED filter still return finished tasks
+      if (!options.includeCompleted) {
+        filteredTasks = filteredTasks.filter(
+          (task) => task.status !== 'completed' && task.status !== 'cancelled',
+        );
+      }
+
+      if (options.parentId) {
+        filteredTasks = filteredTasks.filter((task) => task.parentId === options.parentId);
+      }
+
+      if (options.dueBefore) {
+        filteredTasks = filteredTasks.filter((task) => task.due && task.due < options.dueBefore!);
+      }
+
+      if (options.categories && options.categories.length > 0) {
+        filteredTasks = filteredTasks.filter((task) =>
+          options.categories!.some((category) => task.categories?.includes(category)),
+        );
+      }
+
+      // Tasks without a due date or priority come last
+      filteredTasks.sort(
+        (a, b) =>
+          (a.due?.getTime() ?? Infinity) - (b.due?.getTime() ?? Infinity) ||
+          (a.priority ?? 10) - (b.priority ?? 10),
+      );
+
+      if (options.limit) {
+        filteredTasks = filteredTasks.slice(0, options.limit);
+      }
+
+      this.logger.info(`Fetched ${filteredTasks.length} tasks from calendar ${calendarId}`);
+      return filteredTasks;
+    } catch (error) {
+      this.logger.error(`Error fetching tasks from calendar ${calendarId}:`, error);
+      throw new Error(`Failed to fetch tasks: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a specific task by ID
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @returns Promise<Task> The task
+   */
+  async getTaskById(calendarId: string, taskId: string): Promise<Task> {
+    this.logger.debug(`Fetching task ${taskId} from calendar ${calendarId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+      this.validateId(taskId, 'task');
+
+      const { todo, etag } = await this.fetchTaskResource(calendarId, taskId);
+      return { ...(TaskUtils.parseTaskComponent(todo, calendarId) as Task), etag };
+    } catch (error) {
+      this.logger.error(`Error fetching task ${taskId} from calendar ${calendarId}:`, error);
+      throw new Error(`Failed to fetch task: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Create a new task
+   * @param calendarId ID of the calendar (task list) to add the task to
+   * @param data Values of the new task
+   * @returns Promise<Task> The created task
+   */
+  async createTask(calendarId: string, data: CreateTaskData): Promise<Task> {
+    this.logger.debug(`Creating new task in calendar ${calendarId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+
+      if (!data.title) {
+        throw new Error('Task title is required');
+      }
+
+      this.validateTaskData(data);
+
+      const taskId = crypto.randomUUID().replace(/-/g, '');
+      const calendar = TaskUtils.createTaskDocument(taskId, data);
+
+      // Created without an ETag, so an existing resource is never overwritten
+      const success = await this.httpClient.putEvent(
+        calendarId,
+        taskId,
+        serializeDocument(calendar),
+      );
+      if (!success) {
+        throw new Error('Server did not acknowledge creation of the task');
+      }
+
+      this.logger.info(`Task ${taskId} created successfully in calendar ${calendarId}`);
+      return TaskUtils.parseTaskComponent(calendar.components[0], calendarId) as Task;
+    } catch (error) {
+      this.logger.error(`Error creating task in calendar ${calendarId}:`, error);
+      throw new Error(`Failed to create task: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Update an existing task
+   * Changes are merged into the stored VTODO and written with the resource's ETag.
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @param updates Changed values
+   * @param expectedEtag ETag of the version the updates are based on; if given, the task is only
+   * updated if it is still that version
+   * @returns Promise<Task> The updated task
+   * @throws ConflictError if the task changed since it was read
+   */
+  async updateTask(
+    calendarId: string,
+    taskId: string,
+    updates: UpdateTaskData,
+    expectedEtag?: string,
+  ): Promise<Task> {
+    this.logger.debug(`Updating task ${taskId} in calendar ${calendarId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+      this.validateId(taskId, 'task');
+      this.validateTaskData(updates);
+
+      if (updates.parentId === taskId) {
+        throw new Error('A task cannot be its own parent');
+      }
+
+      return await this.modifyTask(calendarId, taskId, updates, expectedEtag);
+    } catch (error) {
+      this.logger.error(`Error updating task ${taskId} in calendar ${calendarId}:`, error);
+      throw this.wrapWriteError('update task', error);
+    }
+  }
+
+  /**
+   * Mark a task as completed, or reopen it
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @param completed True to complete the task, false to reopen it
+   * @param expectedEtag ETag of the version the change is based on, if known
+   * @returns Promise<Task> The updated task
+   * @throws ConflictError if the task changed since it was read
+   */
+  async completeTask(
+    calendarId: string,
+    taskId: string,
+    completed = true,
+    expectedEtag?: string,
+  ): Promise<Task> {
+    this.logger.debug(`${completed ? 'Completing' : 'Reopening'} task ${taskId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+      this.validateId(taskId, 'task');
+
+      return await this.modifyTask(
+        calendarId,
+        taskId,
+        completed ? { status: 'completed' } : { status: 'needs-action', percentComplete: 0 },
+        expectedEtag,
+      );
+    } catch (error) {
+      this.logger.error(`Error completing task ${taskId} in calendar ${calendarId}:`, error);
+      throw this.wrapWriteError('complete task', error);
+    }
+  }
+
+  /**
+   * Delete a task
+   * The task is only deleted if it was not modified since its ETag was read.
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @param expectedEtag ETag of the version to delete; read from the server if omitted
+   * @returns Promise<boolean> True if the task was deleted
+   * @throws ConflictError if the task changed since it was read
+   */
+  async deleteTask(calendarId: string, taskId: string, expectedEtag?: string): Promise<boolean> {
+    this.logger.debug(`Deleting task ${taskId} from calendar ${calendarId}`);
+
+    try {
+      this.validateId(calendarId, 'calendar');
+      this.validateId(taskId, 'task');
+
+      const { etag } = await this.fetchTaskResource(calendarId, taskId, expectedEtag);
+      const success = await this.httpClient.deleteEvent(calendarId, taskId, etag);
+
+      if (!success) {
+        throw new Error('Server did not acknowledge deletion of the task');
+      }
+
+      this.logger.info(`Task ${taskId} deleted from calendar ${calendarId}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error deleting task ${taskId} from calendar ${calendarId}:`, error);
+      throw this.wrapWriteError('delete task', error);
+    }
+  }
+
+  /**
+   * Apply changes to a stored task and write it back
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @param changes Changes to apply
+   * @param expectedEtag ETag of the version the changes are based on, if known
+   * @returns The updated task
+   * @private Internal utility method
+   */
+  private async modifyTask(
+    calendarId: string,
+    taskId: string,
+    changes: TaskUtils.TaskChanges,
+    expectedEtag?: string,
+  ): Promise<Task> {
+    const { calendar, todo, etag } = await this.fetchTaskResource(calendarId, taskId, expectedEtag);
+
+    TaskUtils.applyTaskChanges(todo, changes);
+
+    const iCalData = serializeDocument(calendar);
+    const success = await this.httpClient.updateEvent(calendarId, taskId, iCalData, etag);
+
+    if (!success) {
+      throw new Error('Server did not acknowledge the update');
+    }
+
+    this.logger.info(`Task ${taskId} updated in calendar ${calendarId}`);
+    return TaskUtils.parseTaskComponent(todo, calendarId) as Task;
+  }
+
+  /**
+   * Fetch a task resource with its ETag
+   * @param calendarId ID of the calendar containing the task
+   * @param taskId ID of the task
+   * @param expectedEtag ETag of the version the caller's changes are based on, if known
+   * @returns The VCALENDAR component, its VTODO and the ETag to write it back with
+   * @throws Error if the resource does not contain a task
+   * @throws ConflictError if the resource is no longer the expected version
+   * @private Internal utility method
+   */
+  private async fetchTaskResource(
+    calendarId: string,
+    taskId: string,
+    expectedEtag?: string,
+  ): Promise<{ calendar: ICalComponent; todo: ICalComponent; etag: string }> {
+    const taskUrl = `${this.httpClient.getCalDavUrl()}${calendarId}/${taskId}.ics`;
+
+    let resource: { data: string; etag: string };
+    try {
+      resource = await this.httpClient.getForUpdate(taskUrl, 'text/calendar');
+    } catch (fetchError) {
+      if (fetchError instanceof CalDavError && fetchError.status === 404) {
+        throw new Error(`Task with ID ${taskId} not found in calendar ${calendarId}`);
+      }
+      throw fetchError;
+    }
+
+    const { data, etag } = resource;
+    if (expectedEtag && expectedEtag !== etag) {
+      throw new ConflictError(etag, data);
+    }
+
+    const calendar = parseDocument(data);
+    const [todo] = TaskUtils.findTaskComponents(calendar);
+
+    if (!todo) {
+      throw new Error(`Task with ID ${taskId} not found in calendar ${calendarId}`);
+    }
+
+    return { calendar, todo, etag };
+  }
+
+  /**
+   * Wrap an error of a write operation, explaining ETag conflicts
+   * @param operation The operation that failed
+   * @param error The original error
+   * @returns The error to throw
+   * @private Internal utility method
+   */
+  private wrapWriteError(operation: string, error: unknown): Error {
+    // Conflicts carry the current version, so callers can read it again and retry
+    if (error instanceof ConflictError) {
+      return error;
+    }
+    if (error instanceof CalDavError && error.isOptimisticConcurrencyFailure) {
+      return new Error(
+        `The task was modified by another user. Please refresh the task data and try again.`,
+      );
+    }
+
+    return new Error(`Failed to ${operation}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Utilities for reading and editing VTODO components
+ * Tasks are edited in place on the parsed resource, so properties this server
+ * does not model (alarms, X-* properties, ...) are kept.
+ */
+import { Task, TaskStatus, UpdateTaskData } from '../../models/index.js';
+import {
+  ICalComponent,
+  ICalProperty,
+  createCalendarDocument,
+  escapeText,
+  formatDateValue,
+  getDateProperty,
+  getProperties,
+  getProperty,
+  getTextList,
+  parseDocument,
+  removeProperties,
+  setDateProperty,
+  setProperty,
+  unescapeText,
+} from './ical-document.js';
+
+/**
+ * Changes that can be applied to a VTODO
+ */
+export type TaskChanges = UpdateTaskData & { completed?: Date | null };
+
+/**
+ * Get the relation type of a RELATED-TO property, which defaults to PARENT
+ */
+function getRelationType(property: ICalProperty): string {
+  return (property.params.get('RELTYPE') ?? 'PARENT').toUpperCase();
+}
+
+/**
+ * Parse a VTODO STATUS value
+ */
+function parseStatus(value: string | undefined): TaskStatus {
+  switch (value?.toUpperCase()) {
+    case 'IN-PROCESS':
+      return 'in-process';
+    case 'COMPLETED':
+      return 'completed';
+    case 'CANCELLED':
+      return 'cancelled';
+    default:
+      return 'needs-action';
+  }
+}
+
+/**
+ * Parse a VTODO component into a Task
+ * @param component The VTODO component
+ * @param calendarId ID of the calendar containing the task
+ * @returns The task, or null if the component has no UID
+ */
+export function parseTaskComponent(component: ICalComponent, calendarId: string): Task | null {
+  const uid = getProperty(component, 'UID')?.value;
+  if (!uid) {
+    return null;
+  }
+
+  const text = (name: string) => {
+    const value = getProperty(component, name)?.value;
+    return value ? unescapeText(value) : undefined;
+  };
+
+  const relations = getProperties(component, 'RELATED-TO');
+  const priority = parseInt(getProperty(component, 'PRIORITY')?.value ?? '');
+  const percentComplete = parseInt(getProperty(component, 'PERCENT-COMPLETE')?.value ?? '');
+  const dateProperty = getProperty(component, 'DUE') ?? getProperty(component, 'DTSTART');
+
+  const task: Task = {
+    id: uid,
+    calendarId,
+    title: text('SUMMARY') || 'Untitled Task',
+    description: text('DESCRIPTION') ?? '',
+    status: parseStatus(getProperty(component, 'STATUS')?.value),
+    priority: priority > 0 ? priority : undefined,
+    percentComplete: isNaN(percentComplete) ? undefined : percentComplete,
+    start: getDateProperty(component, 'DTSTART'),
+    due: getDateProperty(component, 'DUE'),
+    isAllDay: dateProperty?.params.get('VALUE') === 'DATE' || undefined,
+    completed: getDateProperty(component, 'COMPLETED'),
+    categories: getTextList(component, 'CATEGORIES'),
+    parentId: relations.find((property) => getRelationType(property) === 'PARENT')?.value ?? null,
+    childIds: relations
+      .filter((property) => getRelationType(property) === 'CHILD')
+      .map((property) => property.value),
+    created: getDateProperty(component, 'CREATED') ?? new Date(),
+    lastModified: getDateProperty(component, 'LAST-MODIFIED') ?? new Date(),
+  };
+
+  return task;
+}
+
+/**
+ * Parse all tasks of an iCalendar resource
+ * @param iCalData Raw iCalendar data
+ * @param calendarId ID of the calendar containing the tasks
+ * @returns Tasks found in the data
+ */
+export function parseTasks(iCalData: string, calendarId: string): Task[] {
+  return findTaskComponents(parseDocument(iCalData))
+    .map((component) => parseTaskComponent(component, calendarId))
+    .filter((task): task is Task => task !== null);
+}
+
+/**
+ * Find the VTODO components of a VCALENDAR
+ */
+export function findTaskComponents(calendar: ICalComponent): ICalComponent[] {
+  return calendar.components.filter((component) => component.name === 'VTODO');
+}
+
+/**
+ * Fill in subtask IDs from the parent relations of the tasks in a list
+ * @param tasks Tasks of one or more task lists
+ * @returns The same tasks, with childIds including every task naming them as parent
+ */
+export function linkSubtasks(tasks: Task[]): Task[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+
+  for (const task of tasks) {
+    const parent = task.parentId ? byId.get(task.parentId) : undefined;
+    if (parent && !parent.childIds?.includes(task.id)) {
+      parent.childIds = [...(parent.childIds ?? []), task.id];
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Apply changes to a VTODO component and update its timestamps
+ * Completing a task sets COMPLETED and PERCENT-COMPLETE:100; reopening it removes COMPLETED.
+ * @param component The VTODO component, modified in place
+ * @param changes Changes to apply
+ */
+export function applyTaskChanges(component: ICalComponent, changes: TaskChanges): void {
+  const textProperties: Array<['title' | 'description', string]> = [
+    ['title', 'SUMMARY'],
+    ['description', 'DESCRIPTION'],
+  ];
+
+  for (const [field, name] of textProperties) {
+    const value = changes[field];
+    if (value === undefined) continue;
+
+    if (value === null || value === '') {
+      removeProperties(component, name);
+    } else {
+      setProperty(component, name, escapeText(value));
+    }
+  }
+
+  if (changes.priority !== undefined) {
+    setProperty(component, 'PRIORITY', String(changes.priority));
+  }
+
+  if (changes.percentComplete !== undefined) {
+    setProperty(component, 'PERCENT-COMPLETE', String(changes.percentComplete));
+  }
+
+  // Dates; a changed all-day flag also converts dates that are not changed
+  for (const [field, name] of [
+    ['start', 'DTSTART'],
+    ['due', 'DUE'],
+  ] as const) {
+    const value = changes[field] === undefined ? getDateProperty(component, name) : changes[field];
+
+    if (value === null) {
+      removeProperties(component, name);
+    } else if (value && (changes[field] !== undefined || changes.isAllDay !== undefined)) {
+      setDateProperty(component, name, value, changes.isAllDay);
+    }
+  }
+
+  if (changes.categories !== undefined) {
+    removeProperties(component, 'CATEGORIES');
+    if (changes.categories.length > 0) {
+      setProperty(component, 'CATEGORIES', changes.categories.map(escapeText).join(','));
+    }
+  }
+
+  if (changes.parentId !== undefined) {
+    component.properties = component.properties.filter(
+      (property) => property.name !== 'RELATED-TO' || getRelationType(property) !== 'PARENT',
+    );
+    if (changes.parentId) {
+      component.properties.push({
+        name: 'RELATED-TO',
+        params: new Map([['RELTYPE', 'PARENT']]),
+        value: changes.parentId,
+      });
+    }
+  }
+
+  if (changes.status !== undefined) {
+    setProperty(component, 'STATUS', changes.status.toUpperCase());
+
+    if (changes.status === 'completed') {
+      if (!getProperty(component, 'COMPLETED')) {
+        setProperty(component, 'COMPLETED', formatDateValue(changes.completed ?? new Date()));
+      }
+      setProperty(component, 'PERCENT-COMPLETE', '100');
+    } else {
+      removeProperties(component, 'COMPLETED');
+    }
+  }
+
+  const now = formatDateValue(new Date());
+  setProperty(component, 'DTSTAMP', now);
+  setProperty(component, 'LAST-MODIFIED', now);
+}
+
+/**
+ * Create a VCALENDAR holding a single new VTODO
+ * @param id UID of the task
+ * @param changes Initial values of the task
+ * @returns The VCALENDAR component
+ */
+export function createTaskDocument(id: string, changes: TaskChanges): ICalComponent {
+  const now = formatDateValue(new Date());
+  const todo: ICalComponent = {
+    name: 'VTODO',
+    properties: [
+      { name: 'UID', params: new Map(), value: id },
+      { name: 'CREATED', params: new Map(), value: now },
+    ],
+    components: [],
+  };
+
+  applyTaskChanges(todo, { status: 'needs-action', ...changes });
+
+  return createCalendarDocument(todo);
+}
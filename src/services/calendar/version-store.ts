@@ -0,0 +1,62 @@
+/**
+ * Recently read versions of calendar objects and vCards, the bases of three-way merges
+ *
+ * A client that read an item and changes it later only sends its changes and the ETag of the
+ * version it read. To merge those changes into a newer version, the service needs the data of
+ * that older version, which the server no longer has; this store keeps it in memory.
+ */
+import { URL } from 'url';
+
+/**
+ * Most versions kept; the least recently read are dropped first
+ */
+const DEFAULT_CAPACITY = 500;
+
+export class VersionStore {
+  private versions = new Map<string, string>();
+  private capacity: number;
+
+  /**
+   * @param capacity Most versions to keep
+   */
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Keep the data of a version that was read
+   * @param url URL of the resource
+   * @param etag ETag of the version; versions without one are not kept
+   * @param data The iCalendar or vCard data
+   */
+  remember(url: string, etag: string | null | undefined, data: string): void {
+    if (!etag) {
+      return;
+    }
+
+    const key = this.getKey(url, etag);
+    this.versions.delete(key);
+    this.versions.set(key, data);
+
+    while (this.versions.size > this.capacity) {
+      this.versions.delete(this.versions.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Get the data of a version read before
+   * @param url URL of the resource
+   * @param etag ETag of the version
+   * @returns The data, or undefined if the version is not known
+   */
+  recall(url: string, etag: string): string | undefined {
+    return this.versions.get(this.getKey(url, etag));
+  }
+
+  /**
+   * Key of a version; hrefs of multistatus responses and full URLs of a resource share it
+   */
+  private getKey(url: string, etag: string): string {
+    return `${decodeURIComponent(new URL(url, 'http://localhost').pathname)}\n${etag}`;
+  }
+}
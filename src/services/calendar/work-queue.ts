@@ -0,0 +1,110 @@
+/**
+ * Queue that limits how many tasks run at once and how often one starts
+ *
+ * Requests to a Nextcloud server go through the queue of its host, so that bulk operations
+ * can fan out freely without flooding the server or tripping its brute-force protection.
+ */
+import { setTimeout as sleep } from 'timers/promises';
+
+export class WorkQueue {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private nextStart = 0;
+
+  /**
+   * @param concurrency Most tasks running at once
+   * @param ratePerSecond Most tasks started per second; 0 for no limit
+   */
+  constructor(
+    private concurrency: number,
+    private ratePerSecond: number = 0,
+  ) {}
+
+  /**
+   * Run a task once a slot is free and the rate limit allows it
+   * @param task The task
+   * @returns The result of the task
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Number of running and of waiting tasks
+   */
+  getStatus(): { active: number; queued: number } {
+    return { active: this.active, queued: this.waiting.length };
+  }
+
+  /**
+   * Wait for a free slot, then for the start time the rate limit assigns
+   */
+  private async acquire(): Promise<void> {
+    if (this.active < Math.max(1, this.concurrency)) {
+      this.active++;
+    } else {
+      // The slot is handed over by release
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    if (this.ratePerSecond > 0) {
+      const now = Date.now();
+      const start = Math.max(now, this.nextStart);
+      this.nextStart = start + 1000 / this.ratePerSecond;
+      if (start > now) {
+        await sleep(start - now);
+      }
+    }
+  }
+
+  /**
+   * Hand the slot to the next waiting task, or free it
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Run an operation for each item, a limited number at a time
+ * Unlike Promise.allSettled over all items, no more than concurrency operations are pending,
+ * so a large bulk operation does not queue thousands of requests at once.
+ * @param items The items
+ * @param operation The operation to run for an item
+ * @param concurrency Most operations running at once
+ * @returns The outcome for each item, in the order of the items
+ */
+export async function mapSettled<T, R>(
+  items: T[],
+  operation: (item: T, index: number) => Promise<R>,
+  concurrency: number,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await operation(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(items.length, Math.max(1, concurrency)) }, worker),
+  );
+  return results;
+}
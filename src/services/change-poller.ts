@@ -0,0 +1,117 @@
+/**
+ * Detects changes of subscribed resources by polling their versions
+ *
+ * A version is any string that changes when the resource changes, e.g. the sync token
+ * or CTag of a calendar or the ETag of an event. Versions of all subscribed resources
+ * are fetched together, so one request can serve many subscriptions.
+ */
+import { clearInterval, setInterval } from 'timers';
+import { createLogger } from './logger.js';
+
+/**
+ * Fetches the current versions of resources; a missing or null version means the resource is gone
+ */
+export type VersionLookup = (uris: string[]) => Promise<Map<string, string | null>>;
+
+export class ChangePoller {
+  private getVersions: VersionLookup;
+  private onChange: (uri: string) => void | Promise<void>;
+  private interval: number;
+  private versions = new Map<string, string | null>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+  private logger = createLogger('ChangePoller');
+
+  /**
+   * @param getVersions Fetches the current versions of resources
+   * @param onChange Called with the URI of every resource whose version changed
+   * @param interval Milliseconds between polls
+   */
+  constructor(
+    getVersions: VersionLookup,
+    onChange: (uri: string) => void | Promise<void>,
+    interval: number,
+  ) {
+    this.getVersions = getVersions;
+    this.onChange = onChange;
+    this.interval = interval;
+  }
+
+  /**
+   * Start watching a resource; changes are reported from its current version on
+   * @param uri URI of the resource
+   */
+  async subscribe(uri: string): Promise<void> {
+    const versions = await this.getVersions([uri]);
+    this.versions.set(uri, versions.get(uri) ?? null);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.interval);
+      // Polling alone must not keep the process running
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop watching a resource
+   * @param uri URI of the resource
+   */
+  unsubscribe(uri: string): void {
+    this.versions.delete(uri);
+    if (this.versions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Get the URIs of the watched resources
+   */
+  getSubscriptions(): string[] {
+    return [...this.versions.keys()];
+  }
+
+  /**
+   * Compare the versions of all watched resources with the last known ones
+   * Polls do not overlap; a poll requested while one runs is skipped.
+   */
+  async poll(): Promise<void> {
+    if (this.polling || this.versions.size === 0) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const versions = await this.getVersions(this.getSubscriptions());
+
+      for (const [uri, previous] of this.versions) {
+        const current = versions.get(uri) ?? null;
+        // Resources unsubscribed during the lookup are not reported
+        if (current === previous || !this.versions.has(uri)) {
+          continue;
+        }
+
+        this.versions.set(uri, current);
+        try {
+          await this.onChange(uri);
+        } catch (error) {
+          this.logger.warn(`Failed to report change of ${uri}:`, error);
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to poll for changes:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stop polling and forget all watched resources
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.versions.clear();
+  }
+}
@@ -4,7 +4,18 @@
 
 export { CalendarService } from './calendar/calendar-service.js';
 export { EventService } from './calendar/event-service.js';
+export { SchedulingService } from './calendar/scheduling-service.js';
+export { TaskService } from './calendar/task-service.js';
+export { JournalService } from './calendar/journal-service.js';
+export { ReminderService } from './calendar/reminder-service.js';
+export { ItipService } from './calendar/itip-service.js';
 export { ContactService } from './calendar/contact-service.js';
+export { AccountService } from './account-service.js';
+export type { AccountInfo, ServiceProvider } from './account-service.js';
+export { AuthService, AuthenticationError } from './auth-service.js';
+export type { SessionCredentials } from './auth-service.js';
+export { LoginFlowService } from './login-flow-service.js';
+export type { LoginFlow, LoginResult, LoginPollOptions } from './login-flow-service.js';
 export { createLogger, Logger, LogLevel } from './logger.js';
 
 // XML Service exports
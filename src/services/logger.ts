@@ -60,27 +60,43 @@ export class Logger {
   /**
    * Masks sensitive information in objects before logging
    * @param data Object containing potentially sensitive information
+   * @param seen Objects already visited, so circular structures (e.g. HTTP errors) terminate
    * @returns Object with sensitive fields masked
    */
-  static maskSensitiveData<T>(data: T): T {
+  static maskSensitiveData<T>(data: T, seen: WeakSet<object> = new WeakSet()): T {
     if (!data || typeof data !== 'object') {
       return data;
     }
 
+    if (seen.has(data)) {
+      return '[Circular]' as T;
+    }
+    seen.add(data);
+
     // Define sensitive fields to mask, add more as needed
     const sensitiveFields = [
-      'password', 'token', 'secret', 'key', 'auth', 'credentials',
-      'appToken', 'app_token', 'authorization', 'apiKey', 'api_key'
+      'password',
+      'token',
+      'secret',
+      'key',
+      'auth',
+      'credentials',
+      'appToken',
+      'app_token',
+      'authorization',
+      'apiKey',
+      'api_key',
     ];
 
     // Create a copy to avoid modifying the original
-    const maskedData = { ...data as object } as Record<string, unknown>;
+    const maskedData = { ...(data as object) } as Record<string, unknown>;
 
     // Recursively mask sensitive data
     for (const [key, value] of Object.entries(maskedData)) {
       // Check if the key is sensitive
-      const isSensitive = sensitiveFields.some(field =>
-        key.toLowerCase().includes(field.toLowerCase()));
+      const isSensitive = sensitiveFields.some((field) =>
+        key.toLowerCase().includes(field.toLowerCase()),
+      );
 
       if (isSensitive && value) {
         // Mask the sensitive value - preserve the first and last character
@@ -91,7 +107,7 @@ export class Logger {
         }
       } else if (value && typeof value === 'object') {
         // Recursively mask nested objects
-        maskedData[key] = Logger.maskSensitiveData(value);
+        maskedData[key] = Logger.maskSensitiveData(value, seen);
       }
     }
 
@@ -106,13 +122,13 @@ export class Logger {
   debug(message: string, ...optionalParams: unknown[]): void {
     if (this.logLevel <= LogLevel.DEBUG) {
       // Mask sensitive information in the optional parameters
-      const maskedParams = optionalParams.map(param =>
-        typeof param === 'object' ? Logger.maskSensitiveData(param) : param
+      const maskedParams = optionalParams.map((param) =>
+        typeof param === 'object' ? Logger.maskSensitiveData(param) : param,
       );
 
       console.error(
         COLORS.gray + this.formatMessage('DEBUG', message) + COLORS.reset,
-        ...maskedParams
+        ...maskedParams,
       );
     }
   }
@@ -125,13 +141,13 @@ export class Logger {
   info(message: string, ...optionalParams: unknown[]): void {
     if (this.logLevel <= LogLevel.INFO) {
       // Mask sensitive information in the optional parameters
-      const maskedParams = optionalParams.map(param =>
-        typeof param === 'object' ? Logger.maskSensitiveData(param) : param
+      const maskedParams = optionalParams.map((param) =>
+        typeof param === 'object' ? Logger.maskSensitiveData(param) : param,
       );
 
       console.error(
         COLORS.green + this.formatMessage('INFO', message) + COLORS.reset,
-        ...maskedParams
+        ...maskedParams,
       );
     }
   }
@@ -144,13 +160,13 @@ export class Logger {
   warn(message: string, ...optionalParams: unknown[]): void {
     if (this.logLevel <= LogLevel.WARN) {
       // Mask sensitive information in the optional parameters
-      const maskedParams = optionalParams.map(param =>
-        typeof param === 'object' ? Logger.maskSensitiveData(param) : param
+      const maskedParams = optionalParams.map((param) =>
+        typeof param === 'object' ? Logger.maskSensitiveData(param) : param,
       );
 
       console.error(
         COLORS.yellow + this.formatMessage('WARN', message) + COLORS.reset,
-        ...maskedParams
+        ...maskedParams,
       );
     }
   }
@@ -163,13 +179,13 @@ export class Logger {
   error(message: string, ...optionalParams: unknown[]): void {
     if (this.logLevel <= LogLevel.ERROR) {
       // Mask sensitive information in the optional parameters
-      const maskedParams = optionalParams.map(param =>
-        typeof param === 'object' ? Logger.maskSensitiveData(param) : param
+      const maskedParams = optionalParams.map((param) =>
+        typeof param === 'object' ? Logger.maskSensitiveData(param) : param,
       );
 
       console.error(
         COLORS.red + this.formatMessage('ERROR', message) + COLORS.reset,
-        ...maskedParams
+        ...maskedParams,
       );
     }
   }
@@ -0,0 +1,173 @@
+/**
+ * Client for Nextcloud Login Flow v2, which lets a user grant an app password in the browser
+ * instead of creating one by hand
+ * https://docs.nextcloud.com/server/latest/developer_manual/client_apis/LoginFlow/index.html#login-flow-v2
+ */
+import axios from 'axios';
+import { setTimeout as sleep } from 'timers/promises';
+import { URL } from 'url';
+import { registerSecret } from '../utils/error.js';
+import { createLogger } from './logger.js';
+
+/**
+ * Interval between two polls for the result of a login
+ */
+const DEFAULT_POLL_INTERVAL = 2000;
+
+/**
+ * Nextcloud drops pending logins after 20 minutes
+ */
+const DEFAULT_POLL_TIMEOUT = 20 * 60 * 1000;
+
+/**
+ * A started login, waiting for the user to grant access in the browser
+ */
+export interface LoginFlow {
+  /**
+   * Page the user opens to log in and grant access
+   */
+  loginUrl: string;
+  pollEndpoint: string;
+  pollToken: string;
+}
+
+/**
+ * The app password granted by the user
+ */
+export interface LoginResult {
+  server: string;
+  loginName: string;
+  appPassword: string;
+}
+
+/**
+ * Options for waiting for a login
+ */
+export interface LoginPollOptions {
+  interval?: number;
+  timeout?: number;
+}
+
+export class LoginFlowService {
+  private baseUrl: string;
+  private userAgent: string;
+  private logger = createLogger('LoginFlowService');
+
+  /**
+   * @param baseUrl URL of the Nextcloud server
+   * @param userAgent Shown to the user as the name of the app asking for access
+   */
+  constructor(baseUrl: string, userAgent: string = 'Nextcloud Calendar MCP') {
+    if (!baseUrl) {
+      throw new Error('Nextcloud base URL is required');
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.userAgent = userAgent;
+  }
+
+  /**
+   * Start a login
+   * @returns The login URL for the user and the token to poll for the result
+   * @throws Error if the server does not support Login Flow v2
+   */
+  async start(): Promise<LoginFlow> {
+    try {
+      const response = await axios({
+        method: 'POST',
+        url: `${this.baseUrl}/index.php/login/v2`,
+        headers: { 'User-Agent': this.userAgent, Accept: 'application/json' },
+      });
+
+      const { login, poll } = response.data ?? {};
+      if (typeof login !== 'string' || !poll?.token || !poll?.endpoint) {
+        throw new Error('Unexpected response from the login endpoint');
+      }
+      // The poll token is only sent back to the server the login was started on
+      if (!this.isSameOrigin(String(poll.endpoint))) {
+        throw new Error('The poll endpoint is not on the Nextcloud server');
+      }
+
+      this.logger.debug(`Started login flow on ${this.baseUrl}`);
+      return { loginUrl: login, pollEndpoint: poll.endpoint, pollToken: poll.token };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to start login: ${message}`);
+    }
+  }
+
+  /**
+   * Wait until the user granted access
+   * The poll endpoint answers 404 until then, and returns the app password exactly once.
+   * @param flow The started login
+   * @param options Poll interval and timeout in milliseconds
+   * @returns The granted login
+   * @throws Error if the login times out or polling fails
+   */
+  async poll(flow: LoginFlow, options: LoginPollOptions = {}): Promise<LoginResult> {
+    const interval = options.interval ?? DEFAULT_POLL_INTERVAL;
+    const deadline = Date.now() + (options.timeout ?? DEFAULT_POLL_TIMEOUT);
+
+    while (Date.now() < deadline) {
+      const result = await this.pollOnce(flow);
+      if (result) {
+        registerSecret(result.appPassword);
+        this.logger.info(`Login granted for ${result.loginName}`);
+        return result;
+      }
+      await sleep(interval);
+    }
+
+    throw new Error('Login timed out before access was granted');
+  }
+
+  /**
+   * Poll for the result of a login once
+   * @private Internal utility method
+   * @returns The login, or null while access has not been granted
+   */
+  private async pollOnce(flow: LoginFlow): Promise<LoginResult | null> {
+    try {
+      const response = await axios({
+        method: 'POST',
+        url: flow.pollEndpoint,
+        headers: {
+          'User-Agent': this.userAgent,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        data: `token=${encodeURIComponent(flow.pollToken)}`,
+        validateStatus: (status) => status === 200 || status === 404,
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      const { server, loginName, appPassword } = response.data ?? {};
+      if (!server || !loginName || !appPassword) {
+        throw new Error('Unexpected response from the poll endpoint');
+      }
+      // The app password is only valid for the server the user logged in to
+      if (!this.isSameOrigin(String(server))) {
+        throw new Error('The granted login is for another server');
+      }
+      return { server: String(server).replace(/\/+$/, ''), loginName, appPassword };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to poll login: ${message}`);
+    }
+  }
+
+  /**
+   * Check whether a URL has the scheme, host and port of the Nextcloud server
+   * @private Internal utility method
+   */
+  private isSameOrigin(url: string): boolean {
+    try {
+      return new URL(url).origin === new URL(this.baseUrl).origin;
+    } catch {
+      return false;
+    }
+  }
+}
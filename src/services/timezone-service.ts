@@ -80,6 +80,74 @@ export class TimezoneService {
     });
   }
 
+  /**
+   * Get the calendar date and wall-clock time of a date in the user's timezone
+   * @param date The date to inspect
+   * @returns Date parts in the user's timezone (month is 1-based, weekday 0 is Sunday)
+   */
+  getZonedParts(date: Date): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number;
+  } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.defaultTimezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const year = get('year');
+    const month = get('month');
+    const day = get('day');
+
+    return {
+      year,
+      month,
+      day,
+      hour: get('hour'),
+      minute: get('minute'),
+      weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    };
+  }
+
+  /**
+   * Convert a wall-clock time in the user's timezone to the matching UTC instant
+   * @param year Full year
+   * @param month Month (1-based)
+   * @param day Day of the month
+   * @param hour Hour (0-23)
+   * @param minute Minute (0-59)
+   * @returns The UTC date for that local time
+   */
+  fromZonedTime(year: number, month: number, day: number, hour: number, minute: number): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Apply the offset twice so times near a DST transition settle on the right side
+    const guess = wallClock - this.getOffset(new Date(wallClock));
+    return new Date(wallClock - this.getOffset(new Date(guess)));
+  }
+
+  /**
+   * Get the offset of the user's timezone from UTC at an instant
+   * @param date The instant
+   * @returns The offset in milliseconds, positive east of UTC
+   */
+  getOffset(date: Date): number {
+    const parts = this.getZonedParts(date);
+    return (
+      Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) -
+      Math.floor(date.getTime() / 60000) * 60000
+    );
+  }
+
   /**
    * Get the current date/time in the user's timezone
    */
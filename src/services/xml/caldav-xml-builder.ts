@@ -50,7 +50,7 @@ export class CalDavXmlBuilder {
     const props = properties || [
       'd:resourcetype',
       'd:displayname',
-      'cal:supported-calendar-component-set',
+      'c:supported-calendar-component-set',
       'cs:getctag',
       'oc:calendar-enabled',
       'd:sync-token',
@@ -59,6 +59,7 @@ export class CalDavXmlBuilder {
       'oc:invite',
       'oc:calendar-order',
       'd:color',
+      'x1:calendar-color',
     ];
 
     const doc = this.xmlService.createDocument('d:propfind', CalDavXmlBuilder.NAMESPACES);
@@ -158,14 +159,7 @@ export class CalDavXmlBuilder {
     timeRange?: TimeRange,
     calendarDataOptions?: CalendarDataOptions,
   ): string {
-    // Default time range if not specified: +/- 6 months from current date
-    let range: TimeRange | undefined = timeRange;
-    if (!range) {
-      const now = new Date();
-      const start = new Date(now.getFullYear(), now.getMonth() - 6, 1);
-      const end = new Date(now.getFullYear(), now.getMonth() + 6, 0);
-      range = { start, end };
-    }
+    const range = timeRange ?? this.getDefaultTimeRange();
 
     const doc = this.xmlService.createDocument('c:calendar-query', CalDavXmlBuilder.NAMESPACES);
 
@@ -216,6 +210,111 @@ export class CalDavXmlBuilder {
     }
   }
 
+  /**
+   * Builds a calendar-query REPORT request for tasks (VTODO components)
+   *
+   * @param includeCompleted Whether to include tasks that have a COMPLETED time
+   * @returns XML string for the REPORT request
+   */
+  buildTaskQueryReport(includeCompleted = false): string {
+    return this.buildAdvancedFilterRequest({
+      componentFilters: [
+        {
+          name: 'VCALENDAR',
+          compFilters: [
+            {
+              name: 'VTODO',
+              propFilters: includeCompleted ? [] : [{ name: 'COMPLETED', isNotDefined: true }],
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Builds a calendar-query REPORT request for journal entries (VJOURNAL components)
+   *
+   * @param timeRange Optional time range the entries' dates must fall into
+   * @returns XML string for the REPORT request
+   */
+  buildJournalQueryReport(timeRange?: TimeRange): string {
+    return this.buildAdvancedFilterRequest({
+      componentFilters: [
+        {
+          name: 'VCALENDAR',
+          compFilters: [{ name: 'VJOURNAL', timeRange }],
+        },
+      ],
+    });
+  }
+
+  /**
+   * Builds a free-busy-query REPORT request (RFC 4791 section 7.10)
+   *
+   * @param timeRange Time range to report busy time for
+   * @returns XML string for the free-busy-query REPORT request
+   */
+  buildFreeBusyQueryReport(timeRange: TimeRange): string {
+    const doc = this.xmlService.createDocument('c:free-busy-query', CalDavXmlBuilder.NAMESPACES);
+
+    doc
+      .startElement('c:time-range')
+      .addAttribute('start', this.xmlService.formatUTCDate(timeRange.start))
+      .addAttribute('end', this.xmlService.formatUTCDate(timeRange.end))
+      .endElement(); // End c:time-range
+
+    try {
+      return doc.toString(true);
+    } finally {
+      // Dispose the document builder to prevent memory leaks
+      doc.dispose();
+    }
+  }
+
+  /**
+   * Gets the time range of calendar queries that do not specify one:
+   * +/- 6 months from the current date
+   *
+   * @returns The default time range
+   */
+  getDefaultTimeRange(): TimeRange {
+    const now = new Date();
+    return {
+      start: new Date(now.getFullYear(), now.getMonth() - 6, 1),
+      end: new Date(now.getFullYear(), now.getMonth() + 6, 0),
+    };
+  }
+
+  /**
+   * Builds a sync-collection REPORT request (RFC 6578)
+   *
+   * @param syncToken Sync token of the last sync; empty for an initial sync
+   * @param properties Properties to fetch for changed members, e.g. 'c:calendar-data' or 'card:address-data'
+   * @returns XML string for the sync-collection REPORT request
+   */
+  buildSyncCollectionRequest(syncToken: string, properties: string[]): string {
+    const doc = this.xmlService.createDocument('d:sync-collection', {
+      ...CalDavXmlBuilder.NAMESPACES,
+      card: 'urn:ietf:params:xml:ns:carddav',
+    });
+
+    doc.addElement('d:sync-token', syncToken).addElement('d:sync-level', '1');
+
+    doc.startElement('d:prop');
+    for (const property of properties) {
+      doc.addEmptyElement(property);
+    }
+    doc.endElement(); // End d:prop
+
+    try {
+      return doc.toString(true);
+    } finally {
+      // Dispose the document builder to prevent memory leaks
+      doc.dispose();
+    }
+  }
+
   /**
    * Builds a filter for fetching a specific event by UID
    *
@@ -258,6 +357,54 @@ export class CalDavXmlBuilder {
     }
   }
 
+  /**
+   * Builds a calendar-multiget REPORT request (RFC 4791 7.9)
+   *
+   * @param hrefs URLs or paths of the calendar objects to fetch
+   * @returns XML string for the calendar-multiget REPORT request
+   */
+  buildCalendarMultigetRequest(hrefs: string[]): string {
+    return this.buildMultigetRequest('c:calendar-multiget', 'c:calendar-data', hrefs);
+  }
+
+  /**
+   * Builds an addressbook-multiget REPORT request (RFC 6352 8.7)
+   *
+   * @param hrefs URLs or paths of the vCards to fetch
+   * @returns XML string for the addressbook-multiget REPORT request
+   */
+  buildAddressbookMultigetRequest(hrefs: string[]): string {
+    return this.buildMultigetRequest('card:addressbook-multiget', 'card:address-data', hrefs);
+  }
+
+  /**
+   * Builds a multiget REPORT request for the ETag and data of members
+   * @private Internal utility method
+   */
+  private buildMultigetRequest(root: string, dataProperty: string, hrefs: string[]): string {
+    const doc = this.xmlService.createDocument(root, {
+      ...CalDavXmlBuilder.NAMESPACES,
+      card: 'urn:ietf:params:xml:ns:carddav',
+    });
+
+    doc
+      .startElement('d:prop')
+      .addEmptyElement('d:getetag')
+      .addEmptyElement(dataProperty)
+      .endElement(); // End d:prop
+
+    for (const href of hrefs) {
+      doc.addElement('d:href', href);
+    }
+
+    try {
+      return doc.toString(true);
+    } finally {
+      // Dispose the document builder to prevent memory leaks
+      doc.dispose();
+    }
+  }
+
   /**
    * Builds a request to expand recurring events
    *
@@ -384,6 +531,11 @@ export class CalDavXmlBuilder {
       doc.addAttribute('test', propFilter.test);
     }
 
+    // Add is-not-defined if specified
+    if (propFilter.isNotDefined) {
+      doc.addEmptyElement('c:is-not-defined');
+    }
+
     // Add text-match if specified
     if (propFilter.textMatch) {
       doc
@@ -19,7 +19,8 @@ export class EnhancedXmlService {
       const result = await parseStringPromise(xmlString, {
         explicitArray: false,
         normalizeTags: false,
-        normalize: true,
+        // Collapsing whitespace would join the CRLF-separated lines of calendar data
+        normalize: false,
         trim: true,
         mergeAttrs: false,
         attrkey: '@',
@@ -36,7 +37,7 @@ export class EnhancedXmlService {
         const fallbackResult = await parseStringPromise(xmlString, {
           explicitArray: true,
           normalizeTags: false,
-          normalize: true,
+          normalize: false,
           trim: true,
         });
 
@@ -153,6 +154,10 @@ export class EnhancedXmlService {
         parsed.href = response['DAV:href'];
       }
 
+      // Extract the status of responses without properties, e.g. members removed since a sync
+      const fields = response as Record<string, string | undefined>;
+      parsed.status = fields['d:status'] ?? fields.status ?? fields['DAV:status'] ?? null;
+
       // Extract properties from propstat
       let propstat = null;
       if (response['d:propstat']) {
@@ -204,6 +209,16 @@ export class EnhancedXmlService {
     }
   }
 
+  /**
+   * Extract the new sync token of a sync-collection response
+   */
+  extractSyncToken(xmlData: unknown): string | null {
+    const data = xmlData as Record<string, Record<string, unknown> | undefined> | null;
+    const multistatus = data?.['d:multistatus'] ?? data?.multistatus;
+    const token = multistatus?.['d:sync-token'] ?? multistatus?.['sync-token'];
+    return typeof token === 'string' && token ? token : null;
+  }
+
   /**
    * Extract calendar data from properties
    */
@@ -236,4 +251,17 @@ export class EnhancedXmlService {
       return null;
     }
   }
+
+  /**
+   * Extract the ETag from properties
+   */
+  extractEtag(properties: Record<string, unknown>): string | null {
+    for (const key in properties) {
+      if (key === 'getetag' || key.endsWith(':getetag')) {
+        const etag = properties[key];
+        return typeof etag === 'string' && etag ? etag : null;
+      }
+    }
+    return null;
+  }
 }
@@ -202,6 +202,11 @@ export interface PropertyFilter {
    */
   textMatch?: string;
 
+  /**
+   * Match components that do not have the property
+   */
+  isNotDefined?: boolean;
+
   /**
    * Filter test condition ('anyof' or 'allof')
    */
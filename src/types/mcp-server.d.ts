@@ -4,6 +4,15 @@
 
 declare module '@modelcontextprotocol/sdk/server/mcp.js' {
   import { z, ZodType } from 'zod';
+  import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+  import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+  import { URL } from 'url';
+  import {
+    GetPromptResult,
+    ListResourcesResult,
+    ReadResourceResult,
+    Resource,
+  } from '@modelcontextprotocol/sdk/types.js';
 
   interface McpServerOptions {
     name: string;
@@ -30,6 +39,15 @@ declare module '@modelcontextprotocol/sdk/server/mcp.js' {
       type: string;
       text: string;
     }>;
+    structuredContent?: Record<string, unknown>;
+  }
+
+  // Tool metadata for registerTool; outputSchema describes the structuredContent of results
+  interface ToolConfig<T extends Record<string, ZodType>, O extends Record<string, ZodType>> {
+    title?: string;
+    description?: string;
+    inputSchema: T;
+    outputSchema?: O;
   }
 
   // Tool registration interface
@@ -39,6 +57,43 @@ declare module '@modelcontextprotocol/sdk/server/mcp.js' {
     remove(): void;
   }
 
+  // Resource registration interface
+  interface ResourceRegistration {
+    disable(): void;
+    enable(): void;
+    remove(): void;
+  }
+
+  // Description of a resource besides its URI and name
+  type ResourceMetadata = Omit<Resource, 'uri' | 'name'>;
+
+  // Prompt registration interface
+  interface PromptRegistration {
+    disable(): void;
+    enable(): void;
+    remove(): void;
+  }
+
+  // Prompt arguments are always strings
+  type PromptArgsShape = Record<string, ZodType<string> | z.ZodOptional<ZodType<string>>>;
+
+  // Values of the variables of a URI template
+  type Variables = Record<string, string | string[]>;
+
+  /**
+   * A URI template (RFC 6570) naming a family of resources
+   */
+  export class ResourceTemplate {
+    /**
+     * @param uriTemplate The URI template, e.g. 'nextcloud://calendar/{calendarId}/events'
+     * @param callbacks list returns the resources of the template; undefined if they cannot be listed
+     */
+    constructor(
+      uriTemplate: string,
+      callbacks: { list: (() => Promise<ListResourcesResult>) | undefined },
+    );
+  }
+
   interface McpSession {
     id: string;
     sendMessage(message: Record<string, unknown>): void;
@@ -55,12 +110,30 @@ declare module '@modelcontextprotocol/sdk/server/mcp.js' {
   export class McpServer {
     constructor(options: McpServerOptions);
 
+    /**
+     * The underlying low-level server, for requests and notifications without a high-level API
+     */
+    readonly server: Server;
+
     /**
      * Register a tool with the MCP server (deprecated in v1.11.0)
      * @param tool The tool to register
      */
     registerTool(tool: Tool): void;
 
+    /**
+     * Register a tool with a config object
+     * @param name The name of the tool
+     * @param config Description and Zod schemas of the tool's parameters and structured output
+     * @param handler An async function implementing the tool's logic
+     * @returns A ToolRegistration object for controlling the tool
+     */
+    registerTool<T extends Record<string, ZodType>, O extends Record<string, ZodType>>(
+      name: string,
+      config: ToolConfig<T, O>,
+      handler: (args: z.infer<z.ZodObject<T>>) => Promise<ToolResponse>,
+    ): ToolRegistration;
+
     /**
      * Register a tool with the MCP server (new API as of v1.11.0)
      * @param name The name of the tool
@@ -75,11 +148,56 @@ declare module '@modelcontextprotocol/sdk/server/mcp.js' {
     ): ToolRegistration;
 
     /**
-     * Connect a new MCP session
-     * @param request The MCP request object
-     * @returns Promise that resolves with the session ID
+     * Register a prompt with arguments
+     * @param name The name of the prompt
+     * @param description A description of the prompt
+     * @param argsSchema The Zod schemas of the arguments
+     * @param handler An async function creating the prompt messages
+     * @returns A PromptRegistration object for controlling the prompt
+     */
+    prompt<T extends PromptArgsShape>(
+      name: string,
+      description: string,
+      argsSchema: T,
+      handler: (args: z.objectOutputType<T, ZodType>) => Promise<GetPromptResult>,
+    ): PromptRegistration;
+
+    /**
+     * Register a resource with a fixed URI
+     * @param name The name of the resource
+     * @param uri The URI of the resource
+     * @param metadata Description and MIME type of the resource
+     * @param handler An async function reading the resource
+     * @returns A ResourceRegistration object for controlling the resource
+     */
+    resource(
+      name: string,
+      uri: string,
+      metadata: ResourceMetadata,
+      handler: (uri: URL) => Promise<ReadResourceResult>,
+    ): ResourceRegistration;
+
+    /**
+     * Register the resources matching a URI template
+     * @param name The name of the resource template
+     * @param template The URI template
+     * @param metadata Description and MIME type of the resources
+     * @param handler An async function reading a resource, given the values of the template variables
+     * @returns A ResourceRegistration object for controlling the resources
+     */
+    resource(
+      name: string,
+      template: ResourceTemplate,
+      metadata: ResourceMetadata,
+      handler: (uri: URL, variables: Variables) => Promise<ReadResourceResult>,
+    ): ResourceRegistration;
+
+    /**
+     * Connect the server to a transport (stdio, streamable HTTP or SSE)
+     * @param transport The transport to communicate over
+     * @returns Promise that resolves when the transport has started
      */
-    connect(request: McpRequest): Promise<string>;
+    connect(transport: Transport): Promise<void>;
 
     /**
      * Close the server
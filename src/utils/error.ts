@@ -1,13 +1,79 @@
+/**
+ * Credentials that must never show up in logs or error messages, with the number of
+ * registrations that still hold them
+ */
+const secrets = new Map<string, number>();
+
+/**
+ * Shortest value that is registered as a secret; shorter values would mask ordinary text
+ */
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Register a credential (e.g. an app token) to be redacted by redactSecrets
+ * @param secret The credential
+ */
+export function registerSecret(secret: string | undefined): void {
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    secrets.set(secret, (secrets.get(secret) ?? 0) + 1);
+  }
+}
+
+/**
+ * Undo a registration of registerSecret, e.g. when the session of a credential ends
+ * The credential is forgotten once no registration holds it anymore.
+ * @param secret The credential
+ */
+export function releaseSecret(secret: string | undefined): void {
+  const count = secret ? secrets.get(secret) : undefined;
+  if (count === undefined) {
+    return;
+  }
+  if (count > 1) {
+    secrets.set(secret!, count - 1);
+  } else {
+    secrets.delete(secret!);
+  }
+}
+
+/**
+ * Remove credentials from text that is about to be logged
+ * Masks registered secrets and the values of Authorization headers and token-like fields.
+ * @param text The text
+ * @returns The text with credentials replaced by [REDACTED]
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of secrets.keys()) {
+    redacted = redacted.split(secret).join('[REDACTED]');
+  }
+
+  return redacted
+    .replace(/\b(Basic|Bearer)\s+[A-Za-z0-9+/=._~-]+/g, '$1 [REDACTED]')
+    .replace(
+      /(["']?(?:appToken|app_token|password|authorization)["']?\s*[:=]\s*)(["'])(?:(?!\2).)*\2/gi,
+      '$1$2[REDACTED]$2',
+    );
+}
+
 /**
  * Sanitizes error messages to avoid exposing implementation details
  * @param error The original error
- * @returns A sanitized error object with message and status code
+ * @returns A sanitized error object with message and status code, and a description for logs
+ * without credentials
  */
-export function sanitizeError(error: unknown): { message: string; status: number } {
+export function sanitizeError(error: unknown): { message: string; status: number; log: string } {
+  // Describe the error for logs; HTTP errors carry request headers, so only the stack is kept
+  const err = error as Error;
+  const log = redactSecrets(
+    err instanceof Error ? err.stack || `${err.name}: ${err.message}` : String(error),
+  );
+
   // Default error response
   const defaultError = {
     message: 'An unexpected error occurred. Please try again later.',
     status: 500,
+    log,
   };
 
   // If no error provided, return default
@@ -15,10 +81,27 @@ export function sanitizeError(error: unknown): { message: string; status: number
     return defaultError;
   }
 
-  // Cast to Error if possible
-  const err = error as Error;
   const errorMsg = err.message || '';
 
+  // Edit conflicts; the message names the current ETag to retry with
+  if ((error as { status?: number }).status === 412) {
+    return {
+      message: redactSecrets(errorMsg),
+      status: 412,
+      log,
+    };
+  }
+
+  // The server is overloaded or down; the message says when to try again
+  const status = (error as { status?: number }).status;
+  if (status === 429 || status === 502 || status === 503 || status === 504) {
+    return {
+      message: redactSecrets(errorMsg),
+      status,
+      log,
+    };
+  }
+
   // Authorization errors
   if (
     errorMsg.toLowerCase().includes('unauthorized') ||
@@ -27,6 +110,7 @@ export function sanitizeError(error: unknown): { message: string; status: number
     return {
       message: 'You do not have permission to perform this action.',
       status: 403,
+      log,
     };
   }
 
@@ -35,6 +119,7 @@ export function sanitizeError(error: unknown): { message: string; status: number
     return {
       message: 'The requested calendar was not found.',
       status: 404,
+      log,
     };
   }
 
@@ -43,6 +128,7 @@ export function sanitizeError(error: unknown): { message: string; status: number
     return {
       message: 'The calendar is currently locked. Please try again later.',
       status: 423,
+      log,
     };
   }
 
@@ -51,6 +137,7 @@ export function sanitizeError(error: unknown): { message: string; status: number
     return {
       message: 'Invalid request data. Please check your input and try again.',
       status: 400,
+      log,
     };
   }
 